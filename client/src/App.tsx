@@ -7,7 +7,12 @@ import NotFound from "@/pages/not-found";
 import Home from "@/pages/Home";
 import About from "@/pages/About";
 import Help from "@/pages/Help";
+import Auth from "@/pages/Auth";
+import History from "@/pages/History";
+import Chat from "@/pages/Chat";
+import KnowledgeBase from "@/pages/KnowledgeBase";
 import Layout from "@/components/Layout";
+import { AuthProvider } from "@/hooks/use-auth";
 
 function Router() {
   return (
@@ -15,6 +20,11 @@ function Router() {
       <Route path="/" component={Home} />
       <Route path="/about" component={About} />
       <Route path="/help" component={Help} />
+      <Route path="/auth" component={Auth} />
+      <Route path="/history" component={History} />
+      <Route path="/chat" component={Chat} />
+      <Route path="/chat/:id" component={Chat} />
+      <Route path="/admin/conditions" component={KnowledgeBase} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -23,12 +33,14 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Layout>
-          <Router />
-        </Layout>
-        <Toaster />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Layout>
+            <Router />
+          </Layout>
+          <Toaster />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
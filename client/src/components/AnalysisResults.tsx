@@ -3,15 +3,23 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import FeedbackPanel from "@/components/feedback-panel";
+import FollowUpQuestions from "@/components/follow-up-questions";
+import EmergencyBanner from "@/components/emergency-banner";
+import TriageBadge from "@/components/triage-badge";
 import { SymptomAnalysis, PotentialCondition } from '@shared/schema';
 import { BrainCircuit, AlertCircle, InfoIcon, Activity, ArrowRight, CheckCircle2 } from 'lucide-react';
 
 interface AnalysisResultsProps {
   analysis: SymptomAnalysis | null;
   loading?: boolean;
+  // When set, a feedback form for the stored analysis is shown
+  symptomId?: number;
+  // When set as well, the user can answer follow-up questions that re-score the analysis
+  onAnalysisChange?: (analysis: SymptomAnalysis) => void;
 }
 
-export const AnalysisResults: React.FC<AnalysisResultsProps> = ({ analysis, loading = false }) => {
+export const AnalysisResults: React.FC<AnalysisResultsProps> = ({ analysis, loading = false, symptomId, onAnalysisChange }) => {
   if (loading) {
     return (
       <Card className="w-full">
@@ -54,6 +62,11 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({ analysis, load
     );
   }
 
+  // The LLM contributed nothing when its condition output was missing or unusable
+  const llmUnavailable = analysis.issues?.some(
+    issue => issue.stage === 'conditions' && issue.reason !== 'invalid_items'
+  );
+
   // Group conditions by relevance
   const highRelevance = analysis.potentialConditions.filter(c => c.relevance === 'high');
   const mediumRelevance = analysis.potentialConditions.filter(c => c.relevance === 'medium');
@@ -68,28 +81,6 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({ analysis, load
     }
   };
 
-  const getUrgencyLabel = (urgency: string) => {
-    if (!urgency) return null;
-    
-    let label = '';
-    let color = '';
-    
-    if (urgency.includes('high')) {
-      label = 'High Urgency';
-      color = 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300';
-    } else if (urgency.includes('medium')) {
-      label = 'Medium Urgency';
-      color = 'bg-amber-100 text-amber-800 dark:bg-amber-900/20 dark:text-amber-300';
-    } else if (urgency.includes('low')) {
-      label = 'Low Urgency';
-      color = 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300';
-    } else {
-      return null;
-    }
-    
-    return <Badge className={`mr-2 ${color}`}>{label}</Badge>;
-  };
-
   return (
     <Card className="w-full">
       <CardHeader>
@@ -102,51 +93,62 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({ analysis, load
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
+        {analysis.redFlags && analysis.redFlags.length > 0 && (
+          <EmergencyBanner redFlags={analysis.redFlags} />
+        )}
+
         {/* Analysis summary */}
         <div className="bg-secondary/20 p-4 rounded-lg">
           <h3 className="font-medium text-sm text-muted-foreground mb-2 flex items-center">
             <InfoIcon className="h-4 w-4 mr-1" /> SUMMARY
           </h3>
-          <p className="text-sm">{analysis.disclaimer}</p>
+          <p className="text-sm">{analysis.summary || analysis.disclaimer}</p>
+          {llmUnavailable && (
+            <p className="text-xs text-muted-foreground mt-2">
+              AI analysis was unavailable for this request, so these results come from the medical knowledge base only.
+            </p>
+          )}
         </div>
 
-        {/* Potential conditions */}
-        <div>
-          <h3 className="font-medium text-lg mb-4">Potential Conditions</h3>
+        {/* Potential conditions, left out when red flags replaced the ranking */}
+        {analysis.potentialConditions.length > 0 && (
+          <div>
+            <h3 className="font-medium text-lg mb-4">Potential Conditions</h3>
           
-          {highRelevance.length > 0 && (
-            <>
-              <h4 className="text-sm font-medium mb-2 text-muted-foreground">Higher Association</h4>
-              <div className="space-y-3 mb-6">
-                {highRelevance.map((condition, idx) => (
-                  <ConditionCard key={idx} condition={condition} />
-                ))}
-              </div>
-            </>
-          )}
+            {highRelevance.length > 0 && (
+              <>
+                <h4 className="text-sm font-medium mb-2 text-muted-foreground">Higher Association</h4>
+                <div className="space-y-3 mb-6">
+                  {highRelevance.map((condition, idx) => (
+                    <ConditionCard key={idx} condition={condition} />
+                  ))}
+                </div>
+              </>
+            )}
           
-          {mediumRelevance.length > 0 && (
-            <>
-              <h4 className="text-sm font-medium mb-2 text-muted-foreground">Moderate Association</h4>
-              <div className="space-y-3 mb-6">
-                {mediumRelevance.map((condition, idx) => (
-                  <ConditionCard key={idx} condition={condition} />
-                ))}
-              </div>
-            </>
-          )}
+            {mediumRelevance.length > 0 && (
+              <>
+                <h4 className="text-sm font-medium mb-2 text-muted-foreground">Moderate Association</h4>
+                <div className="space-y-3 mb-6">
+                  {mediumRelevance.map((condition, idx) => (
+                    <ConditionCard key={idx} condition={condition} />
+                  ))}
+                </div>
+              </>
+            )}
           
-          {lowRelevance.length > 0 && (
-            <>
-              <h4 className="text-sm font-medium mb-2 text-muted-foreground">Lower Association</h4>
-              <div className="space-y-3">
-                {lowRelevance.map((condition, idx) => (
-                  <ConditionCard key={idx} condition={condition} />
-                ))}
-              </div>
-            </>
-          )}
-        </div>
+            {lowRelevance.length > 0 && (
+              <>
+                <h4 className="text-sm font-medium mb-2 text-muted-foreground">Lower Association</h4>
+                <div className="space-y-3">
+                  {lowRelevance.map((condition, idx) => (
+                    <ConditionCard key={idx} condition={condition} />
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
         
         <Separator />
         
@@ -155,9 +157,12 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({ analysis, load
           <h3 className="font-medium text-lg mb-4">Recommended Next Steps</h3>
           <div className="space-y-4">
             {analysis.nextSteps.map((step, idx) => (
-              <Card key={idx} className="border-l-4 border-l-primary">
+              <Card key={idx} className={`border-l-4 ${step.type === 'emergency' ? 'border-l-destructive' : 'border-l-primary'}`}>
                 <CardHeader className="pb-2">
-                  <CardTitle className="text-base">{step.title}</CardTitle>
+                  <CardTitle className="text-base flex items-center justify-between">
+                    <span>{step.title}</span>
+                    <TriageBadge urgency={step.triage} />
+                  </CardTitle>
                 </CardHeader>
                 <CardContent>
                   <p className="text-sm text-muted-foreground mb-3">{step.description}</p>
@@ -176,6 +181,21 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({ analysis, load
             ))}
           </div>
         </div>
+
+        {symptomId !== undefined && onAnalysisChange && (analysis.interview || analysis.potentialConditions.length > 1) && (
+          <FollowUpQuestions
+            symptomId={symptomId}
+            interview={analysis.interview}
+            onAnalysisChange={onAnalysisChange}
+          />
+        )}
+
+        {symptomId !== undefined && (
+          <FeedbackPanel
+            symptomId={symptomId}
+            conditionNames={analysis.potentialConditions.map(c => c.name)}
+          />
+        )}
       </CardContent>
       <CardFooter className="flex flex-col items-start">
         <p className="text-xs text-muted-foreground">
@@ -183,6 +203,11 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({ analysis, load
           This analysis is based on the symptoms you provided and is for educational purposes only.
           It should not replace professional medical advice or diagnosis.
         </p>
+        {analysis.knowledgeBase?.version != null && (
+          <p className="text-xs text-muted-foreground mt-1">
+            Scored against knowledge base version {analysis.knowledgeBase.version}
+          </p>
+        )}
       </CardFooter>
     </Card>
   );
@@ -201,16 +226,22 @@ const ConditionCard: React.FC<{ condition: PotentialCondition }> = ({ condition
         <CardTitle className="text-base flex items-center justify-between">
           <span>{condition.name}</span>
           <div>
-            {condition.urgency && (
-              <Badge className="mr-2 bg-secondary">{condition.urgency.toUpperCase().replace('-', ' ')}</Badge>
+            {condition.grounding === 'ungrounded' && (
+              <Badge variant="outline" className="mr-2">NOT IN KNOWLEDGE BASE</Badge>
             )}
+            <TriageBadge urgency={condition.urgency} className="mr-2" />
             <Badge className={relevanceClass}>{condition.relevance.toUpperCase()} ASSOCIATION</Badge>
           </div>
         </CardTitle>
       </CardHeader>
       <CardContent className="pb-2">
         <p className="text-sm mb-3">{condition.description}</p>
-        
+        {condition.codes && condition.codes.length > 0 && (
+          <p className="text-xs text-muted-foreground mb-3">
+            {condition.codes.map(code => `${code.system.replace('-', ' ')} ${code.code}`).join(' · ')}
+          </p>
+        )}
+
         <Accordion type="single" collapsible className="w-full">
           <AccordionItem value="matching-symptoms">
             <AccordionTrigger className="text-sm py-2">Matching Symptoms</AccordionTrigger>
@@ -233,6 +264,18 @@ const ConditionCard: React.FC<{ condition: PotentialCondition }> = ({ condition
               </AccordionContent>
             </AccordionItem>
           )}
+          {condition.reasoningNotes && condition.reasoningNotes.length > 0 && (
+            <AccordionItem value="reasoning">
+              <AccordionTrigger className="text-sm py-2">How This Was Assessed</AccordionTrigger>
+              <AccordionContent>
+                <ul className="list-disc pl-5 space-y-1">
+                  {condition.reasoningNotes.map((note, idx) => (
+                    <li key={idx} className="text-sm text-muted-foreground">{note}</li>
+                  ))}
+                </ul>
+              </AccordionContent>
+            </AccordionItem>
+          )}
         </Accordion>
       </CardContent>
     </Card>
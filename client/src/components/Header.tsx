@@ -1,8 +1,10 @@
 import React from "react";
 import { Link, useLocation } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
 
 const Header: React.FC = () => {
   const [location] = useLocation();
+  const { user, logoutMutation } = useAuth();
 
   return (
     <header className="bg-white shadow-sm">
@@ -32,6 +34,18 @@ const Header: React.FC = () => {
                 </span>
               </Link>
             </li>
+            <li>
+              <Link href="/chat">
+                <span className={`font-medium cursor-pointer flex items-center ${
+                  location.startsWith("/chat") 
+                    ? "text-primary" 
+                    : "text-neutral-600 hover:text-primary"
+                }`}>
+                  <span className="material-icons text-sm mr-1">chat</span>
+                  Chat
+                </span>
+              </Link>
+            </li>
             <li>
               <Link href="/about">
                 <span className={`font-medium cursor-pointer flex items-center ${
@@ -56,6 +70,56 @@ const Header: React.FC = () => {
                 </span>
               </Link>
             </li>
+            {user && (
+              <li>
+                <Link href="/history">
+                  <span className={`font-medium cursor-pointer flex items-center ${
+                    location === "/history" 
+                      ? "text-primary" 
+                      : "text-neutral-600 hover:text-primary"
+                  }`}>
+                    <span className="material-icons text-sm mr-1">history</span>
+                    History
+                  </span>
+                </Link>
+              </li>
+            )}
+            {user?.role === "admin" && (
+              <li>
+                <Link href="/admin/conditions">
+                  <span className={`font-medium cursor-pointer flex items-center ${
+                    location === "/admin/conditions" 
+                      ? "text-primary" 
+                      : "text-neutral-600 hover:text-primary"
+                  }`}>
+                    <span className="material-icons text-sm mr-1">menu_book</span>
+                    Knowledge Base
+                  </span>
+                </Link>
+              </li>
+            )}
+            <li>
+              {user ? (
+                <span
+                  onClick={() => logoutMutation.mutate()}
+                  className="font-medium cursor-pointer flex items-center text-neutral-600 hover:text-primary"
+                >
+                  <span className="material-icons text-sm mr-1">logout</span>
+                  Sign Out ({user.username})
+                </span>
+              ) : (
+                <Link href="/auth">
+                  <span className={`font-medium cursor-pointer flex items-center ${
+                    location === "/auth" 
+                      ? "text-primary" 
+                      : "text-neutral-600 hover:text-primary"
+                  }`}>
+                    <span className="material-icons text-sm mr-1">login</span>
+                    Sign In
+                  </span>
+                </Link>
+              )}
+            </li>
           </ul>
         </nav>
       </div>
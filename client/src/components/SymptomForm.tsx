@@ -56,6 +56,16 @@ export const SymptomForm: React.FC<SymptomFormProps> = ({ onSubmitSuccess, onSub
         continue;
       }
 
+      // Match the server's 5MB upload limit
+      if (file.size > 5 * 1024 * 1024) {
+        toast({
+          title: "File too large",
+          description: "Maximum file size is 5MB",
+          variant: "destructive"
+        });
+        continue;
+      }
+
       // Create preview URL
       const imageUrl = URL.createObjectURL(file);
 
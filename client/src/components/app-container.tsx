@@ -1,10 +1,14 @@
 import { ReactNode } from "react";
+import { Link } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
 
 interface AppContainerProps {
   children: ReactNode;
 }
 
 export default function AppContainer({ children }: AppContainerProps) {
+  const { user, logoutMutation } = useAuth();
+
   return (
     <div className="min-h-screen flex flex-col">
       {/* Header Section */}
@@ -34,9 +38,24 @@ export default function AppContainer({ children }: AppContainerProps) {
             <button className="hidden md:block bg-white text-primary border border-primary px-4 py-2 rounded-md hover:bg-primary-light hover:text-white transition">
               Help
             </button>
-            <button className="hidden md:block bg-primary text-white px-4 py-2 rounded-md hover:bg-primary-dark transition">
-              Sign In
-            </button>
+            {user ? (
+              <>
+                <span className="hidden md:block text-sm text-neutral-700">{user.username}</span>
+                <button
+                  onClick={() => logoutMutation.mutate()}
+                  disabled={logoutMutation.isPending}
+                  className="hidden md:block bg-primary text-white px-4 py-2 rounded-md hover:bg-primary-dark transition"
+                >
+                  Sign Out
+                </button>
+              </>
+            ) : (
+              <Link href="/auth">
+                <button className="hidden md:block bg-primary text-white px-4 py-2 rounded-md hover:bg-primary-dark transition">
+                  Sign In
+                </button>
+              </Link>
+            )}
             <svg
               xmlns="http://www.w3.org/2000/svg"
               className="md:hidden h-6 w-6 text-neutral-700"
@@ -0,0 +1,31 @@
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { SirenIcon } from "lucide-react";
+import type { RedFlag } from "@shared/schema";
+
+interface EmergencyBannerProps {
+  redFlags: RedFlag[];
+}
+
+// Shown above everything else when an analysis raised red flags
+export default function EmergencyBanner({ redFlags }: EmergencyBannerProps) {
+  return (
+    <Alert variant="destructive" className="border-2 border-destructive bg-red-50 dark:bg-red-950/30" role="alert">
+      <SirenIcon className="h-5 w-5" />
+      <AlertTitle className="text-lg font-semibold">Get emergency help now</AlertTitle>
+      <AlertDescription>
+        <p className="mb-3">
+          Your description includes warning signs that need immediate medical attention. Call your local
+          emergency number or go to the nearest emergency department. Do not wait to see if it gets better.
+        </p>
+        <ul className="space-y-2">
+          {redFlags.map((flag) => (
+            <li key={flag.id}>
+              <span className="font-medium">{flag.title}</span>
+              <span className="text-sm"> ({flag.findings.join(", ")}): {flag.advice}</span>
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
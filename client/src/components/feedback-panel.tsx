@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { CheckCircleIcon, Loader2, MessageSquareIcon, StarIcon } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { InsertUserFeedback, UserFeedback } from "@shared/schema";
+
+const OTHER_CONDITION = "__other__";
+
+interface FeedbackPanelProps {
+  symptomId: number;
+  conditionNames: string[];
+}
+
+export default function FeedbackPanel({ symptomId, conditionNames }: FeedbackPanelProps) {
+  const { toast } = useToast();
+  const [rating, setRating] = useState<number | null>(null);
+  const [selectedCondition, setSelectedCondition] = useState<string>("");
+  const [otherCondition, setOtherCondition] = useState("");
+  const [comment, setComment] = useState("");
+
+  const feedbackMutation = useMutation({
+    mutationFn: (feedback: InsertUserFeedback) =>
+      apiRequest<UserFeedback>("POST", `/api/symptoms/${symptomId}/feedback`, feedback),
+    onSuccess: () => {
+      toast({ title: "Thank you for your feedback" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not send feedback",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const correctCondition = selectedCondition === OTHER_CONDITION
+    ? otherCondition.trim()
+    : selectedCondition;
+  const canSubmit = rating !== null || correctCondition !== "" || comment.trim() !== "";
+
+  const handleSubmit = () => {
+    feedbackMutation.mutate({
+      feedbackRating: rating,
+      correctCondition: correctCondition || null,
+      feedbackText: comment.trim() || null,
+    });
+  };
+
+  if (feedbackMutation.isSuccess) {
+    return (
+      <div className="mt-6 p-4 border border-neutral-200 rounded-md flex items-center text-neutral-700">
+        <CheckCircleIcon className="h-5 w-5 text-primary mr-2 flex-shrink-0" />
+        Thanks! Your feedback helps us improve future analyses.
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-6 p-4 border border-neutral-200 rounded-md">
+      <h4 className="font-medium text-neutral-800 mb-1 flex items-center">
+        <MessageSquareIcon className="h-4 w-4 mr-2" /> Was this analysis helpful?
+      </h4>
+      <p className="text-xs text-neutral-600 mb-4">
+        If a doctor has since confirmed a diagnosis, telling us which one helps measure accuracy.
+      </p>
+
+      <div className="space-y-4">
+        <div>
+          <Label className="mb-2 block">Rating</Label>
+          <div className="flex" role="radiogroup" aria-label="Rating">
+            {[1, 2, 3, 4, 5].map((value) => (
+              <button
+                key={value}
+                type="button"
+                role="radio"
+                aria-checked={rating === value}
+                aria-label={`${value} star${value === 1 ? "" : "s"}`}
+                onClick={() => setRating(value)}
+                className="p-1"
+              >
+                <StarIcon
+                  className={`h-6 w-6 ${rating !== null && value <= rating ? "fill-amber-400 text-amber-400" : "text-neutral-300"}`}
+                />
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <Label className="mb-2 block">Confirmed condition (optional)</Label>
+          <Select value={selectedCondition} onValueChange={setSelectedCondition}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a condition" />
+            </SelectTrigger>
+            <SelectContent>
+              {conditionNames.map((name) => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+              <SelectItem value={OTHER_CONDITION}>Other</SelectItem>
+            </SelectContent>
+          </Select>
+          {selectedCondition === OTHER_CONDITION && (
+            <Input
+              className="mt-2"
+              placeholder="Name of the condition"
+              maxLength={200}
+              value={otherCondition}
+              onChange={(e) => setOtherCondition(e.target.value)}
+            />
+          )}
+        </div>
+
+        <div>
+          <Label htmlFor={`feedback-comment-${symptomId}`} className="mb-2 block">Comments (optional)</Label>
+          <Textarea
+            id={`feedback-comment-${symptomId}`}
+            rows={3}
+            maxLength={2000}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            onClick={handleSubmit}
+            disabled={!canSubmit || feedbackMutation.isPending}
+          >
+            {feedbackMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Send Feedback
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
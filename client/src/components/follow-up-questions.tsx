@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { CheckCircleIcon, HelpCircleIcon, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { InterviewQuestion, InterviewState, InterviewStopReason, SymptomAnalysis } from "@shared/schema";
+
+export const STOP_MESSAGES: Record<InterviewStopReason, string> = {
+  confident: "One condition now clearly leads, so there is nothing more to ask.",
+  stable: "Further answers would not change the results much, so there is nothing more to ask.",
+  budget_exhausted: "That's all the questions for this analysis.",
+  emergency: "Your answers include warning signs that need emergency care. Please follow the advice above.",
+};
+
+export interface QuestionAnswer {
+  questionId: string;
+  selected: string[];
+  unsure: boolean;
+}
+
+interface InterviewRequest {
+  answer?: QuestionAnswer;
+}
+
+interface QuestionControlsProps {
+  question: InterviewQuestion;
+  busy: boolean;
+  onAnswer: (answer: QuestionAnswer) => void;
+}
+
+// Yes/no buttons, or a checkbox per finding for multiple-choice questions
+export function QuestionControls({ question, busy, onAnswer }: QuestionControlsProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+
+  // Give each question its own key so the selection starts empty
+  const answer = (selectedFindings: string[], unsure = false) =>
+    onAnswer({ questionId: question.id, selected: selectedFindings, unsure });
+  const toggle = (finding: string, checked: boolean) =>
+    setSelected((current) => checked ? [...current, finding] : current.filter((f) => f !== finding));
+
+  if (question.kind === "yes_no") {
+    return (
+      <div className="flex flex-wrap gap-2">
+        <Button onClick={() => answer(question.findings)} disabled={busy}>Yes</Button>
+        <Button variant="outline" onClick={() => answer([])} disabled={busy}>No</Button>
+        <Button variant="ghost" onClick={() => answer([], true)} disabled={busy}>Not sure</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {question.findings.map((finding) => (
+        <div key={finding} className="flex items-center space-x-2">
+          <Checkbox
+            id={`finding-${finding}`}
+            checked={selected.includes(finding)}
+            onCheckedChange={(checked) => toggle(finding, checked === true)}
+            disabled={busy}
+          />
+          <Label htmlFor={`finding-${finding}`} className="capitalize">{finding}</Label>
+        </div>
+      ))}
+      <div className="flex flex-wrap gap-2 pt-1">
+        <Button onClick={() => answer(selected)} disabled={busy}>
+          {selected.length > 0 ? "Continue" : "None of these"}
+        </Button>
+        <Button variant="ghost" onClick={() => answer([], true)} disabled={busy}>Not sure</Button>
+      </div>
+    </div>
+  );
+}
+
+interface FollowUpQuestionsProps {
+  symptomId: number;
+  interview?: InterviewState;
+  // Called with the re-scored analysis after every answer
+  onAnalysisChange: (analysis: SymptomAnalysis) => void;
+}
+
+export default function FollowUpQuestions({ symptomId, interview, onAnalysisChange }: FollowUpQuestionsProps) {
+  const { toast } = useToast();
+
+  const interviewMutation = useMutation({
+    mutationFn: (request: InterviewRequest) =>
+      apiRequest<SymptomAnalysis>("POST", `/api/symptoms/${symptomId}/interview`, request),
+    onSuccess: (analysis) => {
+      onAnalysisChange(analysis);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not continue the questions",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const question = interview?.question;
+  const busy = interviewMutation.isPending;
+
+  if (!interview) {
+    return (
+      <div className="p-4 border border-neutral-200 rounded-md">
+        <h4 className="font-medium text-neutral-800 mb-1 flex items-center">
+          <HelpCircleIcon className="h-4 w-4 mr-2" /> Narrow down the results
+        </h4>
+        <p className="text-xs text-neutral-600 mb-4">
+          Answer a few quick questions about other symptoms, and the conditions are re-scored after each one.
+        </p>
+        <Button variant="outline" onClick={() => interviewMutation.mutate({})} disabled={busy}>
+          {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Answer follow-up questions
+        </Button>
+      </div>
+    );
+  }
+
+  if (!question) {
+    return (
+      <div className="p-4 border border-neutral-200 rounded-md flex items-center text-sm text-neutral-700">
+        <CheckCircleIcon className="h-5 w-5 text-primary mr-2 flex-shrink-0" />
+        {interview.stopReason ? STOP_MESSAGES[interview.stopReason] : "There are no more questions."}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 border border-neutral-200 rounded-md">
+      <p className="text-xs text-muted-foreground mb-1">
+        Question {interview.answers.length + 1} of up to {interview.questionBudget}
+      </p>
+      <h4 className="font-medium text-neutral-800 mb-1">{question.text}</h4>
+      {question.relatedConditions.length > 0 && (
+        <p className="text-xs text-neutral-600 mb-4">
+          This helps tell apart {question.relatedConditions.join(", ")} from the other possibilities.
+        </p>
+      )}
+
+      <QuestionControls
+        key={question.id}
+        question={question}
+        busy={busy}
+        onAnswer={(answer) => interviewMutation.mutate({ answer })}
+      />
+      {busy && (
+        <p className="text-xs text-muted-foreground mt-3 flex items-center">
+          <Loader2 className="mr-2 h-3 w-3 animate-spin" /> Re-scoring the analysis...
+        </p>
+      )}
+    </div>
+  );
+}
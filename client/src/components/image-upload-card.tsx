@@ -47,7 +47,7 @@ export default function ImageUploadCard({
     accept: {
       'image/*': ['.jpeg', '.jpg', '.png', '.heic']
     },
-    maxSize: 10 * 1024 * 1024, // 10MB
+    maxSize: 5 * 1024 * 1024, // 5MB, matches the server upload limit
     maxFiles: 1
   });
 
@@ -92,7 +92,7 @@ export default function ImageUploadCard({
                 Browse Files
               </Button>
               <p className="text-xs text-neutral-500 mt-2">
-                Supports: JPG, PNG, HEIC | Max size: 10MB
+                Supports: JPG, PNG, HEIC | Max size: 5MB
               </p>
             </div>
           ) : (
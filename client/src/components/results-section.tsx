@@ -16,6 +16,8 @@ import {
   CollapsibleContent, 
   CollapsibleTrigger 
 } from "@/components/ui/collapsible";
+import FeedbackPanel from "@/components/feedback-panel";
+import EmergencyBanner from "@/components/emergency-banner";
 import { AnalysisResults, Condition } from "@/lib/hooks/use-symptom-analysis";
 import { getConfidenceColor, getConfidenceText, getConfidenceTextClass } from "@/lib/utils";
 
@@ -31,6 +33,11 @@ export default function ResultsSection({ results, onNewAnalysis }: ResultsSectio
     return null;
   }
 
+  // Red flags replace the condition ranking and the routine next steps
+  const emergency = (results.redFlags?.length ?? 0) > 0;
+  // Where to seek care, decided from the conditions' triage levels
+  const careStep = results.nextSteps?.[0];
+
   const toggleConditionDetails = (conditionId: string) => {
     setExpandedConditions(prev => {
       const newSet = new Set(prev);
@@ -67,12 +74,20 @@ export default function ResultsSection({ results, onNewAnalysis }: ResultsSectio
           <h2 className="text-xl font-heading font-medium text-neutral-900">Analysis Results</h2>
         </div>
         
+        {emergency && (
+          <div className="mb-6">
+            <EmergencyBanner redFlags={results.redFlags!} />
+          </div>
+        )}
+        
         <div className="bg-neutral-100 p-4 rounded-md mb-6">
           <h3 className="font-medium text-neutral-800 mb-2">Summary</h3>
           <p className="text-neutral-700">{results.summary}</p>
         </div>
         
-        <h3 className="font-medium text-neutral-800 mb-4">Potential Conditions</h3>
+        {results.conditions.length > 0 && (
+          <h3 className="font-medium text-neutral-800 mb-4">Potential Conditions</h3>
+        )}
         
         {results.conditions.map((condition, index) => (
           <ConditionCard 
@@ -84,55 +99,70 @@ export default function ResultsSection({ results, onNewAnalysis }: ResultsSectio
         ))}
         
         {/* Next Steps Section */}
-        <div className="bg-primary-light bg-opacity-10 p-6 rounded-lg mt-6">
-          <h3 className="font-medium text-neutral-900 mb-4 flex items-center">
-            <svg
-              xmlns="http://www.w3.org/2000/svg"
-              className="h-5 w-5 mr-2"
-              width="24"
-              height="24"
-              viewBox="0 0 24 24"
-              fill="none"
-              stroke="currentColor"
-              strokeWidth="2"
-              strokeLinecap="round"
-              strokeLinejoin="round"
-            >
-              <path d="M12 22a8 8 0 0 1-8-8 12.89 12.89 0 0 1 2-7 10 10 0 0 0 5 1h2a10 10 0 0 0 5-1 12.89 12.89 0 0 1 2 7 8 8 0 0 1-8 8Z"/>
-              <path d="M15 5a3 3 0 1 1-6 0 3 3 0 0 1 6 0Z"/>
-              <path d="M12 9v4"/>
-              <path d="M12 16h.01"/>
-            </svg>
-            Recommended Next Steps
-          </h3>
+        {!emergency && (
+          <div className="bg-primary-light bg-opacity-10 p-6 rounded-lg mt-6">
+            <h3 className="font-medium text-neutral-900 mb-4 flex items-center">
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-5 w-5 mr-2"
+                width="24"
+                height="24"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="M12 22a8 8 0 0 1-8-8 12.89 12.89 0 0 1 2-7 10 10 0 0 0 5 1h2a10 10 0 0 0 5-1 12.89 12.89 0 0 1 2 7 8 8 0 0 1-8 8Z"/>
+                <path d="M15 5a3 3 0 1 1-6 0 3 3 0 0 1 6 0Z"/>
+                <path d="M12 9v4"/>
+                <path d="M12 16h.01"/>
+              </svg>
+              Recommended Next Steps
+            </h3>
           
-          <ul className="space-y-3">
-            <li className="flex">
-              <CheckCircleIcon className="h-5 w-5 text-primary mr-2 flex-shrink-0" />
-              <span className="text-neutral-800">Consider consulting with a primary care physician to discuss these findings.</span>
-            </li>
-            <li className="flex">
-              <CheckCircleIcon className="h-5 w-5 text-primary mr-2 flex-shrink-0" />
-              <span className="text-neutral-800">Monitor your symptoms for changes in severity or new developments.</span>
-            </li>
-            <li className="flex">
-              <CheckCircleIcon className="h-5 w-5 text-primary mr-2 flex-shrink-0" />
-              <span className="text-neutral-800">Rest and maintain good hydration while recovering.</span>
-            </li>
-            <li className="flex">
-              <AlertTriangleIcon className="h-5 w-5 text-warning mr-2 flex-shrink-0" />
-              <span className="text-neutral-800">Seek immediate medical attention if you develop difficulty breathing, persistent chest pain, or high fever.</span>
-            </li>
-          </ul>
+            <ul className="space-y-3">
+              <li className="flex">
+                <CheckCircleIcon className="h-5 w-5 text-primary mr-2 flex-shrink-0" />
+                {careStep ? (
+                  <span className="text-neutral-800">
+                    <span className="font-medium">{careStep.title}.</span> {careStep.description}
+                  </span>
+                ) : (
+                  <span className="text-neutral-800">Consider consulting with a primary care physician to discuss these findings.</span>
+                )}
+              </li>
+              <li className="flex">
+                <CheckCircleIcon className="h-5 w-5 text-primary mr-2 flex-shrink-0" />
+                <span className="text-neutral-800">Monitor your symptoms for changes in severity or new developments.</span>
+              </li>
+              <li className="flex">
+                <CheckCircleIcon className="h-5 w-5 text-primary mr-2 flex-shrink-0" />
+                <span className="text-neutral-800">Rest and maintain good hydration while recovering.</span>
+              </li>
+              <li className="flex">
+                <AlertTriangleIcon className="h-5 w-5 text-warning mr-2 flex-shrink-0" />
+                <span className="text-neutral-800">Seek immediate medical attention if you develop difficulty breathing, persistent chest pain, or high fever.</span>
+              </li>
+            </ul>
           
-          <div className="mt-6 flex justify-end">
-            <Button 
-              className="bg-primary text-white px-4 py-2 rounded-md hover:bg-primary-dark transition flex items-center"
-            >
-              Find Doctors Near Me <UserSearchIcon className="ml-1 h-4 w-4" />
-            </Button>
+            <div className="mt-6 flex justify-end">
+              <Button 
+                className="bg-primary text-white px-4 py-2 rounded-md hover:bg-primary-dark transition flex items-center"
+              >
+                Find Doctors Near Me <UserSearchIcon className="ml-1 h-4 w-4" />
+              </Button>
+            </div>
           </div>
-        </div>
+        )}
+        
+        {results.symptomId !== undefined && (
+          <FeedbackPanel
+            symptomId={results.symptomId}
+            conditionNames={results.conditions.map(c => c.name)}
+          />
+        )}
         
         {/* Medical Disclaimer */}
         <div className="mt-6 p-4 border border-neutral-300 rounded-md bg-neutral-50">
@@ -237,6 +267,17 @@ function ConditionCard({ condition, isExpanded, onToggleDetails }: ConditionCard
                 </ul>
               </>
             )}
+
+            {condition.reasoningNotes && condition.reasoningNotes.length > 0 && (
+              <>
+                <h5 className="font-medium text-neutral-800 mt-4 mb-2">How This Was Assessed</h5>
+                <ul className="list-disc pl-5">
+                  {condition.reasoningNotes.map((note, index) => (
+                    <li key={index}>{note}</li>
+                  ))}
+                </ul>
+              </>
+            )}
           </div>
         </CollapsibleContent>
       </Collapsible>
@@ -123,6 +123,29 @@ export default function SymptomInputCard({
                 <p className="mt-1 text-sm text-destructive">{errors.gender.message}</p>
               )}
             </div>
+            {watch("gender") === "female" && (
+              <div>
+                <Label 
+                  htmlFor="pregnantSelect" 
+                  className="block text-sm font-medium text-neutral-700 mb-2"
+                >
+                  Currently Pregnant
+                </Label>
+                <Select
+                  value={watch("pregnant")}
+                  onValueChange={(value) => setValue("pregnant", value as SymptomFormValues["pregnant"])}
+                >
+                  <SelectTrigger id="pregnantSelect" className="w-full">
+                    <SelectValue placeholder="Select an answer" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="false">No</SelectItem>
+                    <SelectItem value="true">Yes</SelectItem>
+                    <SelectItem value="unsure">Not sure</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
           </div>
 
           <div className="flex justify-end">
@@ -0,0 +1,23 @@
+import { Badge } from "@/components/ui/badge";
+import { TRIAGE_LABELS, type TriageLevel } from "@shared/schema";
+import { toTriageLevel } from "@shared/triage";
+
+const TRIAGE_COLORS: Record<TriageLevel, string> = {
+  self_care: "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300",
+  primary_care: "bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-300",
+  urgent_care: "bg-amber-100 text-amber-800 dark:bg-amber-900/20 dark:text-amber-300",
+  emergency: "bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300",
+};
+
+interface TriageBadgeProps {
+  urgency?: string | null;
+  className?: string;
+}
+
+// Older analyses stored free-text urgency ("high"), so it is mapped before display
+export default function TriageBadge({ urgency, className = "" }: TriageBadgeProps) {
+  const triage = toTriageLevel(urgency);
+  if (!triage) return null;
+
+  return <Badge className={`${TRIAGE_COLORS[triage]} ${className}`}>{TRIAGE_LABELS[triage]}</Badge>;
+}
@@ -5,32 +5,42 @@ import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { delay } from "@/lib/utils";
+import type { NextStep, RedFlag, TriageLevel } from "@shared/schema";
 
 export interface Condition {
   id: string;
   name: string;
   confidence: number;
   description: string;
+  urgency?: TriageLevel;
   matchingFactors: string[];
   additionalInfo?: string;
   recommendedActions?: string[];
+  reasoningNotes?: string[];
 }
 
 export interface AnalysisResults {
   summary: string;
   conditions: Condition[];
+  extractedSymptoms?: string[];
+  symptomId?: number;
+  redFlags?: RedFlag[];
+  nextSteps?: NextStep[];
+  triage?: TriageLevel;
 }
 
 export type SymptomFormValues = {
   description: string;
   age: number;
   gender: string;
+  pregnant: "true" | "false" | "unsure";
 };
 
 export const symptomFormSchema = z.object({
   description: z.string().min(20, "Please provide at least 20 characters for better analysis"),
   age: z.coerce.number().min(0).max(120),
   gender: z.string().min(1, "Please select a gender"),
+  pregnant: z.enum(["true", "false", "unsure"]),
 });
 
 export function useSymptomAnalysis() {
@@ -46,6 +56,7 @@ export function useSymptomAnalysis() {
       description: "",
       age: 0,
       gender: "",
+      pregnant: "unsure",
     },
   });
 
@@ -58,6 +69,10 @@ export function useSymptomAnalysis() {
       formDataToSend.append("description", formData.description);
       formDataToSend.append("age", formData.age.toString());
       formDataToSend.append("gender", formData.gender);
+      // Pregnancy rules conditions in or out, so only send a definite answer
+      if (formData.gender === "female" && formData.pregnant !== "unsure") {
+        formDataToSend.append("pregnant", formData.pregnant);
+      }
       formDataToSend.append("imageDescription", imageDescription);
       
       if (imageFile) {
@@ -72,7 +87,8 @@ export function useSymptomAnalysis() {
       });
       
       if (!response.ok) {
-        throw new Error(`Error: ${response.status} ${response.statusText}`);
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.message || `Error: ${response.status} ${response.statusText}`);
       }
       
       const results = await response.json();
@@ -81,7 +97,9 @@ export function useSymptomAnalysis() {
       console.error("Error analyzing symptoms:", error);
       toast({
         title: "Error analyzing symptoms",
-        description: "There was a problem analyzing your symptoms. Please try again.",
+        description: error instanceof Error
+          ? error.message
+          : "There was a problem analyzing your symptoms. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -2,12 +2,14 @@ import { QueryClient, QueryFunction } from "@tanstack/react-query";
 import { UnauthorizedError } from "./utils";
 
 async function throwIfResNotOk(res: Response) {
+  if (res.ok) return;
+
+  // Prefer the server's { message } so forms can show it directly
+  const body = await res.json().catch(() => null);
   if (res.status === 401) {
-    throw new UnauthorizedError();
-  }
-  if (!res.ok) {
-    throw new Error(`HTTP error! status: ${res.status}`);
+    throw new UnauthorizedError(body?.message);
   }
+  throw new Error(body?.message || `HTTP error! status: ${res.status}`);
 }
 
 export async function apiRequest<T>(
@@ -25,6 +27,9 @@ export async function apiRequest<T>(
   });
 
   await throwIfResNotOk(res);
+  if (res.status === 204) {
+    return undefined as T;
+  }
   const responseData = await res.json();
   return responseData as T;
 }
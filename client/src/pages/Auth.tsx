@@ -0,0 +1,125 @@
+import React, { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import { useAuth, Credentials } from "@/hooks/use-auth";
+
+const loginSchema = z.object({
+  username: z.string().min(1, "Please enter your username"),
+  password: z.string().min(1, "Please enter your password"),
+});
+
+const registerSchema = z.object({
+  username: z.string().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+interface CredentialsFormProps {
+  schema: typeof loginSchema | typeof registerSchema;
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (values: Credentials) => void;
+}
+
+const CredentialsForm: React.FC<CredentialsFormProps> = ({ schema, submitLabel, isPending, onSubmit }) => {
+  const form = useForm<Credentials>({
+    resolver: zodResolver(schema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input autoComplete="username" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={isPending}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+const Auth: React.FC = () => {
+  const { user, loginMutation, registerMutation } = useAuth();
+  const [, setLocation] = useLocation();
+
+  useEffect(() => {
+    if (user) {
+      setLocation("/");
+    }
+  }, [user, setLocation]);
+
+  return (
+    <div className="bg-secondary min-h-screen">
+      <main className="max-w-md mx-auto px-4 py-12">
+        <Card>
+          <CardHeader>
+            <CardTitle>Welcome to SymptoLens</CardTitle>
+            <CardDescription>
+              Sign in to keep a private history of your symptom analyses.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="login">
+              <TabsList className="grid w-full grid-cols-2 mb-6">
+                <TabsTrigger value="login">Sign In</TabsTrigger>
+                <TabsTrigger value="register">Create Account</TabsTrigger>
+              </TabsList>
+              <TabsContent value="login">
+                <CredentialsForm
+                  schema={loginSchema}
+                  submitLabel="Sign In"
+                  isPending={loginMutation.isPending}
+                  onSubmit={(values) => loginMutation.mutate(values)}
+                />
+              </TabsContent>
+              <TabsContent value="register">
+                <CredentialsForm
+                  schema={registerSchema}
+                  submitLabel="Create Account"
+                  isPending={registerMutation.isPending}
+                  onSubmit={(values) => registerMutation.mutate(values)}
+                />
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Auth;
@@ -0,0 +1,310 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useLocation, useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ImagePlus, Loader2, MessageSquare, Plus, Send, X } from "lucide-react";
+import AnalysisResults from "@/components/AnalysisResults";
+import { QuestionControls, STOP_MESSAGES, type QuestionAnswer } from "@/components/follow-up-questions";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { AnalysisSessionDetail, AnalysisSessionTurn, InterviewState } from "@shared/schema";
+
+// Match the server's upload limits
+const MAX_IMAGES = 5;
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+interface TurnRequest {
+  message?: string;
+  files: File[];
+  answer?: QuestionAnswer;
+}
+
+const percent = (score: number) => `${Math.round(score * 100)}%`;
+
+/**
+ * Store the images through the upload endpoint and return their references
+ */
+async function uploadImages(files: File[]): Promise<string[]> {
+  const formData = new FormData();
+  files.forEach((file) => formData.append("images", file));
+
+  const response = await fetch("/api/upload", { method: "POST", body: formData, credentials: "include" });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.message || "Could not upload the images");
+  }
+  return body.files.map((file: { path: string }) => file.path);
+}
+
+/**
+ * What the assistant says after a turn: the leading conditions after the
+ * first one, and after later ones how they moved
+ */
+function describeTurn(turn: AnalysisSessionTurn): string[] {
+  if (turn.differential.length === 0) {
+    return turn.triage === "emergency"
+      ? ["What you've described includes warning signs that need emergency care. Please follow the advice in the results."]
+      : ["I couldn't match your symptoms to any condition yet. Could you tell me more?"];
+  }
+
+  const leading = turn.differential.slice(0, 3).map(({ name, score }) => `${name} (${percent(score)})`);
+  if (!turn.diff) {
+    return [`Based on what you've told me, the leading possibilities are ${leading.join(", ")}.`];
+  }
+
+  const { added, removed, changed, topConditionChanged } = turn.diff;
+  const lines = [
+    topConditionChanged ? `${turn.differential[0].name} is now the most likely.` : "",
+    ...changed.map(({ name, from, to }) => `${name} ${to > from ? "rose" : "fell"} from ${percent(from)} to ${percent(to)}.`),
+    ...added.map(({ name, score }) => `${name} is now being considered (${percent(score)}).`),
+    ...removed.map(({ name }) => `${name} is no longer among the leading conditions.`),
+  ].filter(Boolean);
+  return lines.length > 0 ? lines : [`That didn't change the picture. The leading possibilities are still ${leading.join(", ")}.`];
+}
+
+/**
+ * The user's side of a turn as chat text
+ */
+function describeAnswer(answer: NonNullable<AnalysisSessionTurn["answer"]>): string {
+  if (answer.unsure.length > 0) return "Not sure";
+  if (answer.present.length === 0) return "No";
+  return answer.absent.length === 0 && answer.present.length === 1 ? "Yes" : `Yes: ${answer.present.join(", ")}`;
+}
+
+const Bubble: React.FC<{ from: "user" | "assistant"; children: React.ReactNode }> = ({ from, children }) => (
+  <div className={`flex ${from === "user" ? "justify-end" : "justify-start"}`}>
+    <div
+      className={`max-w-[85%] rounded-lg px-4 py-2 text-sm ${
+        from === "user" ? "bg-primary text-white" : "bg-neutral-100 text-neutral-800"
+      }`}
+    >
+      {children}
+    </div>
+  </div>
+);
+
+const TurnMessages: React.FC<{ turn: AnalysisSessionTurn }> = ({ turn }) => (
+  <>
+    {(turn.message || turn.images.length > 0 || turn.answer) && (
+      <Bubble from="user">
+        {turn.answer && <p>{describeAnswer(turn.answer)}</p>}
+        {turn.message && <p className="whitespace-pre-wrap">{turn.message}</p>}
+        {turn.images.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {turn.images.map((image) => (
+              <img key={image} src={image} alt="Uploaded symptom" className="h-16 w-16 object-cover rounded" />
+            ))}
+          </div>
+        )}
+      </Bubble>
+    )}
+    <Bubble from="assistant">
+      {describeTurn(turn).map((line) => <p key={line}>{line}</p>)}
+    </Bubble>
+  </>
+);
+
+const PendingQuestion: React.FC<{
+  interview?: InterviewState;
+  busy: boolean;
+  onAnswer: (answer: QuestionAnswer) => void;
+}> = ({ interview, busy, onAnswer }) => {
+  if (!interview) return null;
+
+  if (!interview.question) {
+    return interview.stopReason ? (
+      <Bubble from="assistant">
+        <p>{STOP_MESSAGES[interview.stopReason]} You can still tell me anything else you notice.</p>
+      </Bubble>
+    ) : null;
+  }
+
+  return (
+    <Bubble from="assistant">
+      <p className="font-medium mb-3">{interview.question.text}</p>
+      <QuestionControls key={interview.question.id} question={interview.question} busy={busy} onAnswer={onAnswer} />
+    </Bubble>
+  );
+};
+
+const Chat: React.FC = () => {
+  const params = useParams<{ id?: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [message, setMessage] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const bottom = useRef<HTMLDivElement>(null);
+
+  const sessionId = params.id ? parseInt(params.id) : null;
+  const { data: detail, isLoading } = useQuery<AnalysisSessionDetail>({
+    queryKey: [`/api/sessions/${sessionId}`],
+    enabled: sessionId !== null,
+  });
+
+  const turnMutation = useMutation({
+    mutationFn: async ({ message, files, answer }: TurnRequest) => {
+      const images = files.length > 0 ? await uploadImages(files) : [];
+      return sessionId === null
+        ? apiRequest<AnalysisSessionDetail>("POST", "/api/sessions", { message, images })
+        : apiRequest<AnalysisSessionDetail>("POST", `/api/sessions/${sessionId}/turns`, { message, images, answer });
+    },
+    onSuccess: (updated, request) => {
+      queryClient.setQueryData([`/api/sessions/${updated.session.id}`], updated);
+      if (!request.answer) {
+        setMessage("");
+        setFiles([]);
+      }
+      if (sessionId === null) {
+        setLocation(`/chat/${updated.session.id}`);
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not send that",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  const busy = turnMutation.isPending;
+  // A session opens with a message; after that, photos can be sent on their own
+  const canSend = !!message.trim() || (sessionId !== null && files.length > 0);
+
+  useEffect(() => {
+    bottom.current?.scrollIntoView({ behavior: "smooth" });
+  }, [detail?.turns.length]);
+
+  const send = () => {
+    if (!canSend || busy) return;
+    turnMutation.mutate({ message: message.trim() || undefined, files });
+  };
+
+  const addFiles = (selected: FileList | null) => {
+    const images = Array.from(selected ?? []);
+    const tooLarge = images.filter((file) => file.size > MAX_IMAGE_SIZE);
+    if (tooLarge.length > 0) {
+      toast({
+        title: "Image too large",
+        description: `${tooLarge.map((file) => file.name).join(", ")} is over 5MB`,
+        variant: "destructive",
+      });
+    }
+    setFiles((current) => [...current, ...images.filter((file) => file.size <= MAX_IMAGE_SIZE)].slice(0, MAX_IMAGES));
+  };
+
+  return (
+    <div className="bg-secondary min-h-screen">
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 grid lg:grid-cols-2 gap-8 items-start">
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle className="flex items-center">
+                <MessageSquare className="mr-2 h-5 w-5 text-primary" />
+                Talk it through
+              </CardTitle>
+              <CardDescription>
+                Describe your symptoms in your own words. Add details, photos and answers as you go, and the
+                analysis is updated after each message.
+              </CardDescription>
+            </div>
+            {sessionId !== null && (
+              <Button variant="outline" size="sm" onClick={() => setLocation("/chat")} disabled={busy}>
+                <Plus className="h-4 w-4 mr-1" /> New
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+              {sessionId === null && (
+                <Bubble from="assistant">
+                  <p>Hi! What symptoms are you having, and when did they start?</p>
+                </Bubble>
+              )}
+              {isLoading && <Loader2 className="h-6 w-6 animate-spin mx-auto" />}
+              {detail?.turns.map((turn) => <TurnMessages key={turn.id} turn={turn} />)}
+              {detail && (
+                <PendingQuestion
+                  interview={detail.analysis?.interview}
+                  busy={busy}
+                  onAnswer={(answer) => turnMutation.mutate({ files: [], answer })}
+                />
+              )}
+              {busy && (
+                <p className="text-xs text-muted-foreground flex items-center">
+                  <Loader2 className="mr-2 h-3 w-3 animate-spin" /> Updating the analysis...
+                </p>
+              )}
+              <div ref={bottom} />
+            </div>
+
+            {files.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {files.map((file, index) => (
+                  <span key={`${file.name}-${index}`} className="inline-flex items-center text-xs bg-neutral-100 rounded px-2 py-1">
+                    {file.name}
+                    <button
+                      type="button"
+                      aria-label={`Remove ${file.name}`}
+                      className="ml-1"
+                      onClick={() => setFiles((current) => current.filter((_, i) => i !== index))}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-end gap-2">
+              <Textarea
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && !e.shiftKey) {
+                    e.preventDefault();
+                    send();
+                  }
+                }}
+                placeholder={sessionId === null ? "e.g. I've had a sore throat and a fever since yesterday" : "Add anything else you've noticed"}
+                className="min-h-[60px]"
+                disabled={busy}
+              />
+              <input
+                ref={fileInput}
+                type="file"
+                accept="image/jpeg,image/png,image/heic"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  addFiles(e.target.files);
+                  e.target.value = "";
+                }}
+              />
+              <Button
+                variant="outline"
+                size="icon"
+                aria-label="Attach photos"
+                onClick={() => fileInput.current?.click()}
+                disabled={busy || files.length >= MAX_IMAGES}
+              >
+                <ImagePlus className="h-4 w-4" />
+              </Button>
+              <Button size="icon" aria-label="Send" onClick={send} disabled={busy || !canSend}>
+                <Send className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {detail && (
+          <AnalysisResults analysis={detail.analysis} symptomId={detail.session.symptomId} />
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Chat;
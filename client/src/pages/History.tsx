@@ -0,0 +1,225 @@
+import React, { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, ArrowLeft, ChevronLeft, ChevronRight, History as HistoryIcon, ImageIcon, Loader2, Trash2 } from "lucide-react";
+import AnalysisResults from "@/components/AnalysisResults";
+import TriageBadge from "@/components/triage-badge";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Symptom, SymptomHistoryEntry, SymptomHistoryPage } from "@shared/schema";
+
+const PAGE_SIZE = 10;
+
+const relevanceClass: Record<string, string> = {
+  high: "bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300",
+  medium: "bg-amber-100 text-amber-800 dark:bg-amber-900/20 dark:text-amber-300",
+  low: "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300",
+};
+
+const invalidateHistory = () =>
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/history"),
+  });
+
+const HistoryEntryRow: React.FC<{
+  entry: SymptomHistoryEntry;
+  onOpen: () => void;
+  onDelete: () => void;
+  deleting: boolean;
+}> = ({ entry, onOpen, onDelete, deleting }) => (
+  <div
+    className="border border-neutral-200 rounded-lg p-4 hover:shadow-md transition cursor-pointer"
+    onClick={onOpen}
+  >
+    <div className="flex items-start justify-between gap-4">
+      <div className="min-w-0">
+        <p className="text-xs text-muted-foreground mb-1">
+          {format(new Date(entry.createdAt), "PPP p")}
+          {entry.imageCount > 0 && (
+            <span className="inline-flex items-center ml-2">
+              <ImageIcon className="h-3 w-3 mr-1" /> {entry.imageCount}
+            </span>
+          )}
+        </p>
+        <p className="text-sm text-neutral-800 line-clamp-2">{entry.description}</p>
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          {entry.topCondition ? (
+            <>
+              <span className="text-sm font-medium">{entry.topCondition.name}</span>
+              <Badge className={relevanceClass[entry.topCondition.relevance]}>
+                {entry.topCondition.relevance.toUpperCase()} ASSOCIATION
+              </Badge>
+            </>
+          ) : (
+            <span className="text-sm text-muted-foreground">No conditions identified</span>
+          )}
+          <TriageBadge urgency={entry.urgency} />
+        </div>
+      </div>
+      <Button
+        variant="ghost"
+        size="icon"
+        aria-label="Delete analysis"
+        disabled={deleting}
+        onClick={(e) => {
+          e.stopPropagation();
+          onDelete();
+        }}
+      >
+        {deleting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+      </Button>
+    </div>
+  </div>
+);
+
+const HistoryDetail: React.FC<{ id: number; onBack: () => void }> = ({ id, onBack }) => {
+  const { data: symptom, isLoading } = useQuery<Symptom>({
+    queryKey: [`/api/history/${id}`],
+  });
+
+  return (
+    <div className="space-y-4">
+      <Button variant="outline" onClick={onBack} className="flex items-center">
+        <ArrowLeft className="h-4 w-4 mr-1" /> Back to history
+      </Button>
+      {symptom && (
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-xs text-muted-foreground mb-1">
+              {format(new Date(symptom.createdAt), "PPP p")}
+            </p>
+            <p className="text-sm text-neutral-800">{symptom.description}</p>
+          </CardContent>
+        </Card>
+      )}
+      <AnalysisResults
+        analysis={symptom?.analysis ?? null}
+        loading={isLoading}
+        symptomId={id}
+        onAnalysisChange={() => invalidateHistory()}
+      />
+    </div>
+  );
+};
+
+const History: React.FC = () => {
+  const { user, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [page, setPage] = useState(1);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data, isLoading } = useQuery<SymptomHistoryPage>({
+    queryKey: [`/api/history?page=${page}&pageSize=${PAGE_SIZE}`],
+    enabled: !!user,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest<void>("DELETE", `/api/history/${id}`),
+    onSuccess: () => {
+      invalidateHistory();
+      toast({ title: "Analysis deleted" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not delete analysis",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  const renderContent = () => {
+    if (authLoading) {
+      return <Loader2 className="h-6 w-6 animate-spin mx-auto" />;
+    }
+
+    if (!user) {
+      return (
+        <Card>
+          <CardContent className="p-6 text-center">
+            <AlertCircle className="h-8 w-8 text-muted-foreground mx-auto mb-3" />
+            <p className="mb-4">Sign in to see the analyses you have saved.</p>
+            <Link href="/auth">
+              <Button>Sign In</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    if (selectedId !== null) {
+      return <HistoryDetail id={selectedId} onBack={() => setSelectedId(null)} />;
+    }
+
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <HistoryIcon className="mr-2 h-5 w-5 text-primary" />
+            Your Analyses
+          </CardTitle>
+          <CardDescription>
+            {data ? `${data.total} saved ${data.total === 1 ? "analysis" : "analyses"}` : "Loading..."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoading && <Loader2 className="h-6 w-6 animate-spin mx-auto" />}
+          {data && data.items.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              You have no saved analyses yet. <Link href="/" className="text-primary">Start one now.</Link>
+            </p>
+          )}
+          {data?.items.map((entry) => (
+            <HistoryEntryRow
+              key={entry.id}
+              entry={entry}
+              onOpen={() => setSelectedId(entry.id)}
+              onDelete={() => deleteMutation.mutate(entry.id)}
+              deleting={deleteMutation.isPending && deleteMutation.variables === entry.id}
+            />
+          ))}
+          {data && totalPages > 1 && (
+            <div className="flex items-center justify-between pt-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page <= 1}
+                onClick={() => setPage(page - 1)}
+              >
+                <ChevronLeft className="h-4 w-4 mr-1" /> Newer
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Page {page} of {totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page >= totalPages}
+                onClick={() => setPage(page + 1)}
+              >
+                Older <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="bg-secondary min-h-screen">
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {renderContent()}
+      </main>
+    </div>
+  );
+};
+
+export default History;
@@ -0,0 +1,468 @@
+import React, { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertCircle, BookOpen, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import TriageBadge from "@/components/triage-badge";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { TRIAGE_LABELS, TRIAGE_LEVELS, type InsertMedicalCondition, type MedicalCondition } from "@shared/schema";
+import { formatSymptomRule, parseSymptomRule } from "@shared/symptomRules";
+import { formatDemographics, parseDemographics } from "@shared/demographics";
+import { toTriageLevel } from "@shared/triage";
+
+// List fields are edited one entry per line and split before saving
+const conditionFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  description: z.string().trim().min(1, "Description is required"),
+  symptoms: z.string().refine((value) => splitLines(value).length > 0, "At least one symptom is required"),
+  visualCues: z.string(),
+  aliases: z.string(),
+  symptomRules: z.string().superRefine((value, ctx) => {
+    for (const line of splitLines(value)) {
+      try {
+        parseSymptomRule(line);
+      } catch (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+      }
+    }
+  }),
+  demographics: z.string().superRefine((value, ctx) => {
+    try {
+      parseDemographics(value);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+    }
+  }),
+  commonInAgeGroup: z.string().trim(),
+  urgency: z.enum(TRIAGE_LEVELS, { errorMap: () => ({ message: "Urgency is required" }) }),
+  recommendation: z.string().trim().min(1, "Recommendation is required"),
+  snomedCtId: z.string().trim(),
+  icd11Code: z.string().trim(),
+  learnMoreUrl: z.string().trim(),
+});
+
+type ConditionFormValues = z.infer<typeof conditionFormSchema>;
+
+function splitLines(value: string): string[] {
+  return value.split("\n").map((line) => line.trim()).filter(Boolean);
+}
+
+function toFormValues(condition?: MedicalCondition): ConditionFormValues {
+  return {
+    name: condition?.name ?? "",
+    description: condition?.description ?? "",
+    symptoms: (condition?.symptoms ?? []).join("\n"),
+    visualCues: (condition?.visualCues ?? []).join("\n"),
+    aliases: (condition?.aliases ?? []).join("\n"),
+    symptomRules: (condition?.symptomRules ?? []).map(formatSymptomRule).join("\n"),
+    demographics: formatDemographics(condition?.demographics),
+    commonInAgeGroup: condition?.commonInAgeGroup ?? "",
+    urgency: toTriageLevel(condition?.urgency) ?? "primary_care",
+    recommendation: condition?.recommendation ?? "",
+    snomedCtId: condition?.snomedCtId ?? "",
+    icd11Code: condition?.icd11Code ?? "",
+    learnMoreUrl: condition?.learnMoreUrl ?? "",
+  };
+}
+
+function toCondition(values: ConditionFormValues): InsertMedicalCondition {
+  return {
+    name: values.name,
+    description: values.description,
+    symptoms: splitLines(values.symptoms),
+    visualCues: splitLines(values.visualCues),
+    aliases: splitLines(values.aliases),
+    symptomRules: splitLines(values.symptomRules).map(parseSymptomRule),
+    demographics: parseDemographics(values.demographics),
+    commonInAgeGroup: values.commonInAgeGroup || null,
+    urgency: values.urgency,
+    recommendation: values.recommendation,
+    snomedCtId: values.snomedCtId || null,
+    icd11Code: values.icd11Code.toUpperCase() || null,
+    learnMoreUrl: values.learnMoreUrl || null,
+  };
+}
+
+const invalidateConditions = () =>
+  queryClient.invalidateQueries({ queryKey: ["/api/admin/conditions"] });
+
+const ConditionEditor: React.FC<{
+  condition?: MedicalCondition;
+  onSaved: (condition: MedicalCondition) => void;
+  onDeleted: () => void;
+}> = ({ condition, onSaved, onDeleted }) => {
+  const { toast } = useToast();
+  const form = useForm<ConditionFormValues>({
+    resolver: zodResolver(conditionFormSchema),
+    defaultValues: toFormValues(condition),
+  });
+
+  // Show the stored values once a save refreshes the list
+  useEffect(() => {
+    form.reset(toFormValues(condition));
+  }, [condition, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: (values: ConditionFormValues) =>
+      condition
+        ? apiRequest<MedicalCondition>("PATCH", `/api/admin/conditions/${condition.id}`, toCondition(values))
+        : apiRequest<MedicalCondition>("POST", "/api/admin/conditions", toCondition(values)),
+    onSuccess: (saved) => {
+      invalidateConditions();
+      toast({ title: condition ? "Condition updated" : "Condition created" });
+      onSaved(saved);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not save condition",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest<void>("DELETE", `/api/admin/conditions/${id}`),
+    onSuccess: () => {
+      invalidateConditions();
+      toast({ title: "Condition deleted" });
+      onDeleted();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not delete condition",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const listField = (name: "symptoms" | "visualCues" | "aliases", label: string, description: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Textarea className="min-h-[120px] font-mono text-sm" {...field} />
+          </FormControl>
+          <FormDescription>{description}</FormDescription>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{condition ? condition.name : "New Condition"}</CardTitle>
+        <CardDescription>
+          Changes apply to new analyses as soon as they are saved.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => saveMutation.mutate(values))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {listField("symptoms", "Symptoms", "One per line, using the symptom lexicon's names")}
+              {listField("visualCues", "Visual Cues", "One per line, as they appear in photo descriptions")}
+              {listField("aliases", "Aliases", "One per line; used to match LLM suggestions")}
+            </div>
+            <FormField
+              control={form.control}
+              name="symptomRules"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Symptom Rules</FormLabel>
+                  <FormControl>
+                    <Textarea className="min-h-[100px] font-mono text-sm" placeholder="required 0.5: fever, fatigue" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    One per line as "kind weight: finding, finding". Kinds: required (penalty unless all are present),
+                    supporting (boost per finding present), excluding (penalty if any is present) and
+                    co_occurring (boost when all are present together). Weights are between 0 and 1.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="demographics"
+                render={({ field }) => (
+                  <FormItem className="md:col-span-2">
+                    <FormLabel>Demographics</FormLabel>
+                    <FormControl>
+                      <Input className="font-mono text-sm" placeholder="ages 0-17; band 0-4 x1.3" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      Clauses separated by semicolons: "ages 0-17" and "sex female" exclude other patients,
+                      "pregnancy only" excludes patients who are not pregnant, and "band 65-120 x1.3" scales the score
+                      at those ages (0-2). Leave blank if it can affect anyone.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="commonInAgeGroup"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Common In Age Group</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Children, Adults over 50" {...field} />
+                    </FormControl>
+                    <FormDescription>Gives a small boost at these ages when there are no age bands</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="recommendation"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Recommendation</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <FormField
+                control={form.control}
+                name="urgency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Urgency</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select urgency" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {TRIAGE_LEVELS.map((level) => (
+                          <SelectItem key={level} value={level}>{TRIAGE_LABELS[level]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="snomedCtId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>SNOMED CT ID</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., 6142004" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="icd11Code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>ICD-11 Code</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., 1E32" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="learnMoreUrl"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Learn More URL</FormLabel>
+                    <FormControl>
+                      <Input placeholder="https://" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="flex justify-between pt-2">
+              {condition ? (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button type="button" variant="outline" disabled={deleteMutation.isPending}>
+                      {deleteMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Trash2 className="h-4 w-4 mr-1" />}
+                      Delete
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete {condition.name}?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        New analyses will no longer suggest this condition. Past analyses are not changed.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => deleteMutation.mutate(condition.id)}>Delete</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              ) : <span />}
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+                {condition ? "Save Changes" : "Create Condition"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+};
+
+const KnowledgeBase: React.FC = () => {
+  const { user, isLoading: authLoading } = useAuth();
+  // null while creating a new condition
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data: conditions, isLoading } = useQuery<MedicalCondition[]>({
+    queryKey: ["/api/admin/conditions"],
+    enabled: user?.role === "admin",
+  });
+
+  const selected = conditions?.find((condition) => condition.id === selectedId);
+
+  const renderContent = () => {
+    if (authLoading) {
+      return <Loader2 className="h-6 w-6 animate-spin mx-auto" />;
+    }
+
+    if (user?.role !== "admin") {
+      return (
+        <Card>
+          <CardContent className="p-6 text-center">
+            <AlertCircle className="h-8 w-8 text-muted-foreground mx-auto mb-3" />
+            <p>Only administrators can edit the knowledge base.</p>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    return (
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-1 h-fit">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <BookOpen className="mr-2 h-5 w-5 text-primary" />
+              Knowledge Base
+            </CardTitle>
+            <CardDescription>
+              {conditions ? `${conditions.length} ${conditions.length === 1 ? "condition" : "conditions"}` : "Loading..."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Button variant="outline" className="w-full" onClick={() => setSelectedId(null)}>
+              <Plus className="h-4 w-4 mr-1" /> New Condition
+            </Button>
+            {isLoading && <Loader2 className="h-6 w-6 animate-spin mx-auto" />}
+            {conditions?.map((condition) => (
+              <div
+                key={condition.id}
+                onClick={() => setSelectedId(condition.id)}
+                className={`border rounded-md p-3 cursor-pointer transition ${
+                  condition.id === selectedId ? "border-primary bg-primary/5" : "border-neutral-200 hover:shadow-sm"
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium">{condition.name}</span>
+                  <TriageBadge urgency={condition.urgency} />
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {condition.symptoms.length} symptoms
+                  {condition.visualCues && condition.visualCues.length > 0 && `, ${condition.visualCues.length} visual cues`}
+                </p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+        <div className="lg:col-span-2">
+          <ConditionEditor
+            key={selected?.id ?? "new"}
+            condition={selected}
+            onSaved={(saved) => setSelectedId(saved.id)}
+            onDeleted={() => setSelectedId(null)}
+          />
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-secondary min-h-screen">
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {renderContent()}
+      </main>
+    </div>
+  );
+};
+
+export default KnowledgeBase;
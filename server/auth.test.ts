@@ -0,0 +1,108 @@
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { comparePasswords, hashPassword, requireAdmin, requireAuth, setupAuth } from './auth';
+import { storage } from './storage';
+
+let server: Server;
+let baseUrl: string;
+
+/**
+ * A browser with its own cookie jar
+ */
+function client() {
+  let cookie = '';
+  return async (method: string, path: string, body?: unknown) => {
+    const response = await fetch(baseUrl + path, {
+      method,
+      headers: { ...(body ? { 'content-type': 'application/json' } : {}), ...(cookie ? { cookie } : {}) },
+      body: body ? JSON.stringify(body) : undefined
+    });
+    const setCookie = response.headers.get('set-cookie');
+    if (setCookie) cookie = setCookie.split(';')[0];
+    return response;
+  };
+}
+
+const uniqueName = (prefix: string) => `${prefix}${Date.now()}${Math.floor(Math.random() * 1000)}`;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  setupAuth(app);
+  app.get('/signed-in', requireAuth, (_req, res) => res.sendStatus(200));
+  app.get('/admin', requireAdmin, (_req, res) => res.sendStatus(200));
+  server = app.listen(0);
+  await new Promise<void>(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+describe('password hashing', () => {
+  it('salts each hash and checks passwords against it', async () => {
+    const hash = await hashPassword('password123');
+
+    expect(hash).not.toBe(await hashPassword('password123'));
+    expect(await comparePasswords('password123', hash)).toBe(true);
+    expect(await comparePasswords('password124', hash)).toBe(false);
+    expect(await comparePasswords('password123', 'not-a-hash')).toBe(false);
+  });
+});
+
+describe('registration and login', () => {
+  it('signs a new user in without returning the password hash', async () => {
+    const browser = client();
+    const username = uniqueName('reader');
+
+    const registered = await browser('POST', '/api/auth/register', { username, password: 'password123' });
+
+    expect(registered.status).toBe(201);
+    const user = await registered.json();
+    expect(user).toMatchObject({ username, role: 'user' });
+    expect(user.password).toBeUndefined();
+    expect((await browser('GET', '/api/auth/me')).status).toBe(200);
+  });
+
+  it('rejects taken usernames and weak credentials', async () => {
+    const username = uniqueName('taken');
+    await client()('POST', '/api/auth/register', { username, password: 'password123' });
+
+    expect((await client()('POST', '/api/auth/register', { username, password: 'password123' })).status).toBe(409);
+    expect((await client()('POST', '/api/auth/register', { username: uniqueName('short'), password: 'short' })).status).toBe(400);
+    expect((await client()('POST', '/api/auth/register', { username: 'no spaces allowed', password: 'password123' })).status).toBe(400);
+  });
+
+  it('logs in with the right password only, and out again', async () => {
+    const username = uniqueName('returning');
+    await client()('POST', '/api/auth/register', { username, password: 'password123' });
+    const browser = client();
+
+    expect((await browser('POST', '/api/auth/login', { username, password: 'wrong-password' })).status).toBe(401);
+    expect((await browser('POST', '/api/auth/login', { username, password: 'password123' })).status).toBe(200);
+    expect((await browser('GET', '/signed-in')).status).toBe(200);
+
+    expect((await browser('POST', '/api/auth/logout')).status).toBe(204);
+    expect((await browser('GET', '/signed-in')).status).toBe(401);
+  });
+});
+
+describe('route guards', () => {
+  it('turn away signed-out users and non-admins', async () => {
+    const browser = client();
+    expect((await browser('GET', '/signed-in')).status).toBe(401);
+    expect((await browser('GET', '/admin')).status).toBe(401);
+
+    const username = uniqueName('curator');
+    await browser('POST', '/api/auth/register', { username, password: 'password123' });
+    expect((await browser('GET', '/signed-in')).status).toBe(200);
+    expect((await browser('GET', '/admin')).status).toBe(403);
+
+    // Granted as in the README, by updating the user's role
+    (await storage.getUserByUsername(username))!.role = 'admin';
+    expect((await browser('GET', '/admin')).status).toBe(200);
+  });
+});
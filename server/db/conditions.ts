@@ -0,0 +1,108 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { closeDbConnection, db } from '../db';
+import { storage } from '../storage';
+import {
+  formatFromPath,
+  planConditionImport,
+  serializeConditions,
+  toConditionChanges,
+  TRANSFER_FORMATS,
+  type ConditionImportPlan,
+  type TransferFormat,
+} from '../services/knowledgeBaseTransfer';
+
+/**
+ * Command line entry point for moving the knowledge base in and out of
+ * JSON, CSV or YAML files
+ *
+ *   npm run kb:export -- [--format json|csv|yaml] [--out file]   write every condition (stdout by default)
+ *   npm run kb:import -- file [--dry-run]                         create or update conditions by name
+ *   npm run kb:import -- file --prune                             also delete conditions missing from the file
+ */
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const option = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  if (command === 'export') {
+    const out = option('--out');
+    const format = (option('--format') ?? (out ? formatFromPath(out) : 'json')) as TransferFormat;
+    if (!(format in TRANSFER_FORMATS)) {
+      throw new Error(`Unknown format "${format}"; use json, csv or yaml`);
+    }
+
+    const contents = serializeConditions(await storage.getAllMedicalConditions(), format);
+    if (out) {
+      await fs.writeFile(path.resolve(out), contents);
+      console.log(`Wrote ${out}`);
+    } else {
+      process.stdout.write(contents);
+    }
+    return;
+  }
+
+  if (command !== 'import') {
+    throw new Error('Usage: tsx server/db/conditions.ts <export|import> ...');
+  }
+
+  const [filePath] = args.filter(arg => !arg.startsWith('--'));
+  if (!filePath) {
+    throw new Error('Usage: npm run kb:import -- <file.json|file.csv|file.yaml> [--dry-run] [--prune]');
+  }
+
+  const plan = planConditionImport(
+    await fs.readFile(path.resolve(filePath), 'utf8'),
+    formatFromPath(filePath),
+    await storage.getAllMedicalConditions(),
+    { prune: args.includes('--prune') }
+  );
+  printPlan(plan);
+
+  if (plan.errors.length > 0) {
+    throw new Error(`${plan.errors.length} invalid row(s); nothing was imported`);
+  }
+  if (args.includes('--dry-run')) return;
+
+  const changes = plan.creates.length + plan.updates.length + plan.deletes.length;
+  if (changes === 0) return;
+  // Without a database the conditions live in memory and would be lost on exit
+  if (!db) {
+    throw new Error('DATABASE_URL is required to import conditions; use --dry-run to preview');
+  }
+
+  const applied = await storage.applyConditionChanges(
+    toConditionChanges(plan),
+    `Imported ${path.basename(filePath)}: ${plan.creates.length} created, ${plan.updates.length} updated, ${plan.deletes.length} deleted`
+  );
+  if (!applied) {
+    throw new Error('The conditions changed during the import; nothing was imported');
+  }
+
+  console.log(`Imported ${changes} change(s) as knowledge base version ${applied.version.version}`);
+  console.log('Restart the server to pick up the changes');
+}
+
+function printPlan(plan: ConditionImportPlan) {
+  console.log(`Create: ${plan.creates.length}, update: ${plan.updates.length}, unchanged: ${plan.unchanged.length}, delete: ${plan.deletes.length}, invalid: ${plan.errors.length}`);
+  plan.creates.forEach(record => console.log(`  + ${record.name}`));
+  plan.updates.forEach(update => {
+    console.log(`  ~ ${update.name}`);
+    update.changes.forEach(change => {
+      console.log(`      ${change.field}: ${JSON.stringify(change.before)} -> ${JSON.stringify(change.after)}`);
+    });
+  });
+  plan.deletes.forEach(({ name }) => console.log(`  - ${name}`));
+  plan.errors.forEach(error => {
+    console.warn(`  row ${error.row}${error.name ? ` (${error.name})` : ''}: ${error.messages.join('; ')}`);
+  });
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDbConnection());
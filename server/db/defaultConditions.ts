@@ -0,0 +1,145 @@
+import path from 'path';
+import type { InsertMedicalCondition } from '@shared/schema';
+import { loadConditionFile } from '../services/knowledgeBaseTransfer';
+
+/**
+ * Default medical conditions used to seed the knowledge base
+ */
+export const defaultMedicalConditions: InsertMedicalCondition[] = [
+  {
+    name: "Influenza",
+    description: "Influenza is a viral infection that attacks your respiratory system — your nose, throat and lungs. Commonly called the flu.",
+    symptoms: ["fever", "cough", "sore throat", "body aches", "fatigue", "chills", "headache"],
+    visualCues: [],
+    aliases: ["flu", "seasonal flu", "influenza a", "influenza b", "grippe"],
+    symptomRules: [{ kind: "co_occurring", findings: ["fever", "body aches", "chills"], weight: 0.2 }],
+    snomedCtId: "6142004",
+    icd11Code: "1E32",
+    urgency: "primary_care",
+    recommendation: "Rest, drink fluids, and consider over-the-counter pain relievers. See a doctor if symptoms are severe or if you are in a high-risk group."
+  },
+  {
+    name: "Lyme Disease",
+    description: "Lyme disease is a bacterial infection transmitted by infected ticks, characterized by fever, headache, fatigue, and a skin rash called erythema migrans.",
+    symptoms: ["fever", "fatigue", "headache", "muscle aches", "joint pain"],
+    visualCues: ["bullseye rash", "circular rash", "expanding rash"],
+    aliases: ["lyme", "lyme borreliosis", "borreliosis", "erythema migrans"],
+    snomedCtId: "23502006",
+    icd11Code: "1C1G",
+    urgency: "urgent_care",
+    recommendation: "Requires antibiotic treatment. Consult a doctor immediately if Lyme disease is suspected, especially after a tick bite or with a characteristic rash."
+  },
+  {
+    name: "Common Cold",
+    description: "The common cold is a viral infection of your nose and throat (upper respiratory tract).",
+    symptoms: ["runny nose", "sore throat", "cough", "congestion", "sneezing", "mild body aches", "mild headache"],
+    visualCues: [],
+    aliases: ["cold", "head cold", "upper respiratory infection", "upper respiratory tract infection", "viral uri", "nasopharyngitis", "rhinovirus infection"],
+    snomedCtId: "82272006",
+    icd11Code: "CA00",
+    commonInAgeGroup: "Children",
+    urgency: "self_care",
+    recommendation: "Rest, stay hydrated, and use over-the-counter remedies for symptom relief. Symptoms usually resolve within a week or two."
+  },
+  {
+    name: "Eczema",
+    description: "Eczema (atopic dermatitis) is a condition that makes your skin red and itchy. It's common in children but can occur at any age.",
+    symptoms: ["itchy skin", "dry skin", "red patches", "scaly skin", "skin inflammation"],
+    visualCues: ["red patches", "dry flaky skin", "thickened skin", "small raised bumps"],
+    aliases: ["atopic dermatitis", "atopic eczema"],
+    snomedCtId: "24079001",
+    icd11Code: "EA80",
+    commonInAgeGroup: "Children",
+    urgency: "primary_care",
+    recommendation: "Moisturize regularly, avoid irritants, and use topical corticosteroids if prescribed by a doctor. See a doctor for diagnosis and management plan."
+  },
+  {
+    name: "Conjunctivitis",
+    description: "Conjunctivitis, or pink eye, is an inflammation or infection of the transparent membrane (conjunctiva) that lines your eyelid and covers the white part of your eyeball.",
+    symptoms: ["eye redness", "itchy eyes", "gritty feeling in eye", "eye discharge", "watery eyes"],
+    visualCues: ["red eyes", "pink eyes", "swollen eyelids", "eye discharge (watery or thick)"],
+    aliases: ["pink eye", "pinkeye", "viral conjunctivitis", "bacterial conjunctivitis", "allergic conjunctivitis"],
+    snomedCtId: "9826008",
+    icd11Code: "9A60",
+    urgency: "primary_care",
+    recommendation: "Depends on the cause (viral, bacterial, allergic). See a doctor for diagnosis. Practice good hygiene to prevent spread."
+  },
+  {
+    name: "Bronchitis",
+    description: "Bronchitis is an inflammation of the lining of your bronchial tubes, which carry air to and from your lungs.",
+    symptoms: ["cough", "mucus production", "fatigue", "shortness of breath", "mild fever", "chest discomfort"],
+    visualCues: [],
+    aliases: ["acute bronchitis", "chest cold"],
+    symptomRules: [{ kind: "required", findings: ["cough"], weight: 0.5 }],
+    snomedCtId: "10509002",
+    icd11Code: "CA42",
+    urgency: "primary_care",
+    recommendation: "Rest, fluids, humidifier. See a doctor if cough is severe, lasts weeks, or if you have underlying lung conditions."
+  },
+  {
+    name: "Migraine",
+    description: "A migraine is a headache that causes severe throbbing pain, usually on one side of the head, often with nausea and sensitivity to light and sound.",
+    symptoms: ["headache", "nausea", "vomiting", "light sensitivity", "vision changes", "dizziness"],
+    visualCues: ["facial pallor", "squinting"],
+    aliases: ["migraine headache", "migraine with aura", "migraine without aura"],
+    symptomRules: [
+      { kind: "required", findings: ["headache"], weight: 0.5 },
+      { kind: "co_occurring", findings: ["headache", "light sensitivity", "nausea"], weight: 0.2 }
+    ],
+    snomedCtId: "37796009",
+    icd11Code: "8A80",
+    demographics: { ageBands: [{ minAge: 0, maxAge: 5, weight: 0.5 }] },
+    commonInAgeGroup: "Adults 18-50",
+    urgency: "primary_care",
+    recommendation: "Rest in a quiet, dark room and take pain relief early in an attack. See a doctor if headaches are frequent or change in pattern, and get urgent care for a sudden severe headache or one with weakness, confusion or a stiff neck."
+  },
+  {
+    name: "Pneumonia",
+    description: "Pneumonia is an infection that inflames the air sacs in one or both lungs. The air sacs may fill with fluid or pus.",
+    symptoms: ["cough", "fever", "chills", "difficulty breathing", "chest pain", "fatigue"],
+    visualCues: [],
+    aliases: ["community-acquired pneumonia", "bacterial pneumonia", "viral pneumonia", "lung infection"],
+    symptomRules: [
+      { kind: "required", findings: ["cough"], weight: 0.3 },
+      { kind: "supporting", findings: ["difficulty breathing", "chest pain"], weight: 0.2 }
+    ],
+    snomedCtId: "233604007",
+    icd11Code: "CA40",
+    demographics: { ageBands: [{ minAge: 0, maxAge: 4, weight: 1.2 }, { minAge: 65, maxAge: 120, weight: 1.3 }] },
+    commonInAgeGroup: "Young children and older adults",
+    urgency: "urgent_care",
+    recommendation: "Seek medical attention promptly. Treatment depends on the type and severity."
+  },
+  {
+    name: "Skin Allergy",
+    description: "A skin allergy occurs when your skin reacts to an allergen, causing a rash or other symptoms.",
+    symptoms: ["rash", "itchiness", "redness", "swelling", "bumps", "blisters"],
+    visualCues: ["hives", "contact dermatitis rash", "localized redness", "swelling"],
+    aliases: ["allergic reaction", "allergic contact dermatitis", "contact dermatitis", "hives", "urticaria", "allergic rash"],
+    snomedCtId: "238575004",
+    icd11Code: "EK00",
+    urgency: "self_care",
+    recommendation: "Avoid the allergen. Use antihistamines or topical creams. See a doctor for persistent or severe reactions."
+  },
+  {
+    name: "Gastroenteritis",
+    description: "Gastroenteritis is an inflammation of the stomach and intestines, typically caused by a viral or bacterial infection.",
+    symptoms: ["diarrhea", "vomiting", "nausea", "abdominal cramps", "stomach pain", "mild fever"],
+    visualCues: [],
+    aliases: ["stomach flu", "stomach bug", "viral gastroenteritis", "norovirus infection", "gastro"],
+    snomedCtId: "25374005",
+    icd11Code: "1A40",
+    urgency: "self_care",
+    recommendation: "Stay hydrated with plenty of fluids. Eat bland foods. Rest. See a doctor if symptoms are severe, persistent, or if there are signs of dehydration."
+  }
+];
+
+/**
+ * Conditions to seed an empty knowledge base with: the reviewed file named by
+ * KB_SEED_FILE (JSON, CSV or YAML, as written by `npm run kb:export`) when
+ * set, otherwise the defaults above
+ */
+export function getSeedConditions(): InsertMedicalCondition[] {
+  const seedFile = process.env.KB_SEED_FILE;
+  return seedFile ? loadConditionFile(path.resolve(seedFile)) : defaultMedicalConditions;
+}
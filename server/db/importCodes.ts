@@ -0,0 +1,87 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { InsertMedicalCondition } from '@shared/schema';
+import { closeDbConnection, db } from '../db';
+import { storage } from '../storage';
+import { codeField, parseCodeSubset, planCodeImport } from '../services/clinicalCodes';
+import { loadLexicon, saveLexicon, TermStandardization, DEFAULT_LEXICON_PATH } from '../services/termStandardization';
+
+/**
+ * Command line entry point for importing SNOMED CT / ICD-11 codes from a
+ * locally supplied subset file (see parseCodeSubset for the format)
+ *
+ *   npm run kb:import-codes -- subset.tsv                  code conditions and lexicon symptoms
+ *   npm run kb:import-codes -- subset.tsv --dry-run        print the changes without writing
+ *   npm run kb:import-codes -- subset.tsv --lexicon path   update a lexicon other than SYMPTOM_LEXICON / the default
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const option = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+  const lexiconPath = path.resolve(option('--lexicon') ?? process.env.SYMPTOM_LEXICON ?? DEFAULT_LEXICON_PATH);
+  const [subsetPath] = args.filter(arg => !arg.startsWith('--') && arg !== option('--lexicon'));
+  if (!subsetPath) {
+    throw new Error('Usage: npm run kb:import-codes -- <subset.tsv> [--dry-run] [--lexicon path]');
+  }
+
+  const rows = parseCodeSubset(await fs.readFile(path.resolve(subsetPath), 'utf8'));
+  const conditions = await storage.getAllMedicalConditions();
+  const lexicon = loadLexicon(lexiconPath);
+  const plan = planCodeImport(rows, conditions, new TermStandardization(lexicon));
+
+  console.log(`Rows: ${rows.length}, changes: ${plan.assignments.length}, already set: ${plan.unchanged}, unmatched: ${plan.unmatched.length}`);
+  plan.assignments.forEach(a => {
+    console.log(`  ${a.target} ${a.name}: ${a.system} ${a.previous ? `${a.previous} -> ` : ''}${a.code} (from "${a.term}")`);
+  });
+  plan.conflicts.forEach(conflict => console.warn(`  conflict: ${conflict}`));
+  plan.unmatched.forEach(row => console.log(`  unmatched line ${row.line}: ${row.system} ${row.code} "${row.term}"`));
+
+  if (args.includes('--dry-run') || plan.assignments.length === 0) return;
+
+  const conditionChanges = new Map<string, Partial<InsertMedicalCondition>>();
+  for (const a of plan.assignments.filter(a => a.target === 'condition')) {
+    conditionChanges.set(a.name, { ...conditionChanges.get(a.name), [codeField(a.system)]: a.code });
+  }
+  // Without a database the conditions live in memory and would be lost on exit
+  if (conditionChanges.size > 0 && !db) {
+    throw new Error('DATABASE_URL is required to store condition codes; use --dry-run to preview');
+  }
+  if (conditionChanges.size > 0) {
+    const applied = await storage.applyConditionChanges(
+      {
+        updates: Array.from(conditionChanges).map(([name, changes]) => ({
+          id: conditions.find(c => c.name === name)!.id,
+          changes
+        }))
+      },
+      `Imported codes from ${path.basename(subsetPath)} for ${conditionChanges.size} condition(s)`
+    );
+    if (!applied) {
+      throw new Error('A condition was deleted while importing codes; no condition codes were stored');
+    }
+  }
+
+  const symptomAssignments = plan.assignments.filter(a => a.target === 'symptom');
+  if (symptomAssignments.length > 0) {
+    for (const a of symptomAssignments) {
+      const concept = lexicon.concepts.find(c => c.name === a.name)!;
+      concept[codeField(a.system)] = a.code;
+    }
+    // A patch bump marks the lexicon as changed without changing its vocabulary
+    const [major, minor, patch] = lexicon.version.split('.').map(part => parseInt(part) || 0);
+    lexicon.version = `${major}.${minor}.${patch + 1}`;
+    saveLexicon(lexiconPath, lexicon);
+  }
+
+  console.log(`Updated ${conditionChanges.size} condition(s) and ${symptomAssignments.length} lexicon concept(s)${symptomAssignments.length > 0 ? ` (lexicon now ${lexicon.version})` : ''}`);
+  console.log('Restart the server to pick up the new codes');
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDbConnection());
@@ -0,0 +1,46 @@
+import { closeDbConnection } from '../db';
+import { runMigrations, rollbackMigrations, getMigrationStatus } from './migrations';
+
+/**
+ * Command line entry point for schema migrations
+ *
+ *   npm run db:migrate                 apply pending migrations
+ *   npm run db:migrate -- --dry-run    print pending migrations without applying them
+ *   npm run db:migrate -- status       list applied and pending migrations
+ *   npm run db:rollback -- [steps]     revert the last migration (or the last N)
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const [command = 'up', stepsArg] = args.filter(arg => !arg.startsWith('--'));
+
+  switch (command) {
+    case 'up':
+      await runMigrations({ dryRun });
+      break;
+    case 'down': {
+      const steps = stepsArg ? parseInt(stepsArg) : 1;
+      if (isNaN(steps) || steps < 1) {
+        throw new Error(`Invalid number of steps: ${stepsArg}`);
+      }
+      await rollbackMigrations(steps, { dryRun });
+      break;
+    }
+    case 'status': {
+      const status = await getMigrationStatus();
+      status.forEach(({ migration, applied }) => {
+        console.log(`${applied ? '[x]' : '[ ]'} ${migration.id}_${migration.name}`);
+      });
+      break;
+    }
+    default:
+      throw new Error(`Unknown command: ${command}`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDbConnection());
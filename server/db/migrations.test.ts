@@ -0,0 +1,200 @@
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ConditionDemographics, SymptomRule } from '@shared/schema';
+import { evaluateSymptomRules } from '../services/symptomRules';
+import { getSeedConditions } from './defaultConditions';
+import type { Migration } from './migrations/index';
+
+// An in-memory Postgres in place of DATABASE_URL, and control over which
+// migrations exist, so a database can be set up as an older release left it
+const state = vi.hoisted(() => ({ db: undefined as unknown, migrations: [] as Migration[] }));
+
+vi.mock('../db', () => ({
+  get db() { return state.db; }
+}));
+
+vi.mock('./migrations/index', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./migrations/index')>();
+  state.migrations = actual.migrations;
+  return {
+    ...actual,
+    get migrations() { return state.migrations; }
+  };
+});
+
+const { migrations } = await import('./migrations/index');
+const { runMigrations } = await import('./migrations');
+const allMigrations = [...migrations];
+
+let client: PGlite;
+
+/**
+ * Apply the migrations up to and including lastId, as an older release would have
+ */
+async function migrateThrough(lastId: number): Promise<void> {
+  state.migrations = allMigrations.filter(migration => migration.id <= lastId);
+  await runMigrations();
+  state.migrations = allMigrations;
+}
+
+async function query<T>(statement: string): Promise<T[]> {
+  return (await client.query<T>(statement)).rows;
+}
+
+// Default conditions as the seed step wrote them before aliases, codes,
+// symptom rules and demographics existed
+async function seedBaselineConditions(): Promise<void> {
+  await client.exec(`
+    INSERT INTO medical_conditions (name, description, symptoms, urgency, recommendation) VALUES
+      ('Influenza', 'Flu', '["fever","cough","body aches","chills"]', 'medium', 'Rest'),
+      ('Migraine', 'Headache', '["headache","nausea"]', 'low-medium', 'Rest'),
+      ('Pneumonia', 'Lung infection', '["cough","fever"]', 'high', 'See a doctor'),
+      ('Eczema', 'Dry skin', '["itchy skin"]', 'low', 'Moisturise'),
+      ('Tonsillitis', 'Added by a curator', '["sore throat"]', 'medium', 'Rest')
+  `);
+}
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  client = new PGlite();
+  const db = drizzle(client);
+  // postgres.js returns result rows as the array itself, PGlite under `rows`
+  state.db = {
+    execute: async (statement: Parameters<typeof db.execute>[0]) => (await db.execute(statement)).rows,
+    transaction: db.transaction.bind(db)
+  };
+});
+
+describe('runMigrations on an existing knowledge base', () => {
+  it('fills in aliases and codes of default conditions and records a version', async () => {
+    await migrateThrough(4);
+    await seedBaselineConditions();
+    await migrateThrough(6);
+    // A curator's alias predates the backfill and is kept
+    await client.exec(`UPDATE medical_conditions SET aliases = '["atopic skin"]' WHERE name = 'Eczema'`);
+
+    await runMigrations();
+
+    const rows = await query<{ name: string; aliases: string[]; snomed_ct_id: string | null; icd11_code: string | null; revision: number }>(
+      `SELECT name, aliases, snomed_ct_id, icd11_code, revision FROM medical_conditions ORDER BY id`
+    );
+    const byName = new Map(rows.map(row => [row.name, row]));
+    expect(byName.get('Influenza')).toMatchObject({ snomed_ct_id: '6142004', icd11_code: '1E32' });
+    expect(byName.get('Influenza')!.aliases).toContain('flu');
+    expect(byName.get('Eczema')).toMatchObject({ aliases: ['atopic skin'], snomed_ct_id: '24079001' });
+    // Migration 0010 gave every seeded condition its second revision
+    expect(byName.get('Tonsillitis')).toMatchObject({ aliases: [], snomed_ct_id: null, revision: 2 });
+
+    const versions = await query<{ reason: string; conditions: Array<{ name: string; revision: number }> }>(
+      `SELECT reason, conditions FROM knowledge_base_versions ORDER BY version`
+    );
+    const backfill = versions.find(version => version.reason === 'Filled in aliases and codes of default conditions');
+    expect(backfill?.conditions.find(condition => condition.name === 'Influenza')?.revision).toBe(3);
+  });
+
+  it('fills in symptom rules of default conditions so the reasoning engine applies them', async () => {
+    await migrateThrough(7);
+    await seedBaselineConditions();
+    await migrateThrough(8);
+    const [before] = await query<{ symptom_rules: SymptomRule[] }>(`SELECT symptom_rules FROM medical_conditions WHERE name = 'Migraine'`);
+    expect(before.symptom_rules).toEqual([]);
+
+    await runMigrations();
+
+    const rows = await query<{ name: string; symptom_rules: SymptomRule[] }>(`SELECT name, symptom_rules FROM medical_conditions`);
+    const rules = new Map(rows.map(row => [row.name, row.symptom_rules]));
+    expect(rules.get('Tonsillitis')).toEqual([]);
+    // Migraine requires a headache, so nausea alone scores lower
+    const evaluation = evaluateSymptomRules(rules.get('Migraine'), ['nausea']);
+    expect(evaluation.multiplier).toBeLessThan(1);
+    expect(evaluation.notes).toHaveLength(1);
+    expect(evaluateSymptomRules(rules.get('Pneumonia'), ['cough', 'chest pain']).multiplier).toBeGreaterThan(1);
+
+    const versions = await query<{ reason: string }>(`SELECT reason FROM knowledge_base_versions ORDER BY version`);
+    expect(versions.map(version => version.reason)).toContain('Filled in symptom rules of default conditions');
+  });
+
+  it('keeps symptom rules a curator has set', async () => {
+    await migrateThrough(7);
+    await seedBaselineConditions();
+    await migrateThrough(8);
+    const curated = [{ kind: 'required', findings: ['cough', 'fever'], weight: 0.4 }];
+    await client.query(`UPDATE medical_conditions SET symptom_rules = $1 WHERE name = 'Pneumonia'`, [JSON.stringify(curated)]);
+
+    await runMigrations();
+
+    const [pneumonia] = await query<{ symptom_rules: SymptomRule[] }>(`SELECT symptom_rules FROM medical_conditions WHERE name = 'Pneumonia'`);
+    expect(pneumonia.symptom_rules).toEqual(curated);
+  });
+
+  it('fills in demographics of default conditions left NULL', async () => {
+    await migrateThrough(8);
+    await seedBaselineConditions();
+    await migrateThrough(9);
+    await client.exec(`UPDATE medical_conditions SET demographics = '{"minAge": 12}' WHERE name = 'Migraine'`);
+
+    await runMigrations();
+
+    const rows = await query<{ name: string; demographics: ConditionDemographics | null }>(`SELECT name, demographics FROM medical_conditions`);
+    const demographics = new Map(rows.map(row => [row.name, row.demographics]));
+    expect(demographics.get('Pneumonia')?.ageBands).toHaveLength(2);
+    expect(demographics.get('Migraine')).toEqual({ minAge: 12 });
+    expect(demographics.get('Tonsillitis')).toBeNull();
+  });
+
+  it('maps free-text urgency to triage levels and records a version', async () => {
+    await migrateThrough(9);
+    await seedBaselineConditions();
+
+    await migrateThrough(10);
+
+    const rows = await query<{ name: string; urgency: string; revision: number }>(`SELECT name, urgency, revision FROM medical_conditions`);
+    expect(new Map(rows.map(row => [row.name, row.urgency]))).toEqual(new Map([
+      ['Influenza', 'primary_care'],
+      ['Migraine', 'primary_care'],
+      ['Pneumonia', 'urgent_care'],
+      ['Eczema', 'self_care'],
+      ['Tonsillitis', 'primary_care']
+    ]));
+    expect(rows.every(row => row.revision === 2)).toBe(true);
+
+    const versions = await query<{ reason: string; conditions: Array<{ urgency: string; revision: number }> }>(
+      `SELECT reason, conditions FROM knowledge_base_versions ORDER BY version DESC LIMIT 1`
+    );
+    expect(versions[0].reason).toBe('Mapped condition urgency to triage levels');
+    expect(versions[0].conditions.map(condition => condition.urgency)).not.toContain('medium');
+    expect(versions[0].conditions.every(condition => condition.revision === 2)).toBe(true);
+  });
+
+  it('backfills default conditions with the values they are seeded with', async () => {
+    await migrateThrough(4);
+    await seedBaselineConditions();
+
+    await runMigrations();
+
+    const rows = await query<{ name: string; aliases: string[]; symptom_rules: SymptomRule[]; demographics: ConditionDemographics | null; snomed_ct_id: string; icd11_code: string }>(
+      `SELECT name, aliases, symptom_rules, demographics, snomed_ct_id, icd11_code FROM medical_conditions WHERE name <> 'Tonsillitis'`
+    );
+    const seed = new Map(getSeedConditions().map(condition => [condition.name, condition]));
+    for (const row of rows) {
+      const condition = seed.get(row.name)!;
+      expect(row).toEqual({
+        name: condition.name,
+        aliases: condition.aliases,
+        symptom_rules: condition.symptomRules ?? [],
+        demographics: condition.demographics ?? null,
+        snomed_ct_id: condition.snomedCtId,
+        icd11_code: condition.icd11Code
+      });
+    }
+  });
+
+  it('records no version when nothing needed filling in', async () => {
+    await migrateThrough(11);
+
+    await runMigrations();
+
+    expect(await query(`SELECT version FROM knowledge_base_versions`)).toEqual([]);
+  });
+});
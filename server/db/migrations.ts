@@ -1,29 +1,168 @@
-
+import { createHash } from 'crypto';
+import { sql } from 'drizzle-orm';
 import { db } from '../db';
-import * as schema from '@shared/schema';
+import { migrations, type Migration } from './migrations/index';
+
+interface AppliedMigration {
+  id: number;
+  name: string;
+  checksum: string;
+}
+
+export interface MigrationOptions {
+  dryRun?: boolean;
+}
+
+/**
+ * Checksum over a migration's up statements, used to detect edits to
+ * migrations that have already been applied
+ */
+export function migrationChecksum(migration: Migration): string {
+  return createHash('sha256').update(migration.up.join(';\n')).digest('hex');
+}
+
+async function ensureMigrationsTable(): Promise<void> {
+  await db!.execute(sql`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      id INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at TIMESTAMP NOT NULL DEFAULT now()
+    )
+  `);
+}
+
+async function getAppliedMigrations(): Promise<AppliedMigration[]> {
+  const rows = await db!.execute(sql`SELECT id, name, checksum FROM schema_migrations ORDER BY id`);
+  return Array.from(rows).map(row => ({
+    id: Number(row.id),
+    name: String(row.name),
+    checksum: String(row.checksum),
+  }));
+}
+
+/**
+ * Fail loudly if an applied migration was edited or removed from the codebase
+ */
+function verifyAppliedMigrations(applied: AppliedMigration[]): void {
+  for (const record of applied) {
+    const migration = migrations.find(m => m.id === record.id);
+    if (!migration) {
+      throw new Error(`Applied migration ${record.id}_${record.name} is missing from the codebase`);
+    }
+    if (migrationChecksum(migration) !== record.checksum) {
+      throw new Error(`Checksum mismatch for applied migration ${record.id}_${record.name}; add a new migration instead of editing it`);
+    }
+  }
+}
+
+/**
+ * Apply every pending migration in order, each in its own transaction
+ * @param options - Pass dryRun to list pending migrations without applying them
+ * @returns The migrations that were (or, in dry-run mode, would be) applied
+ */
+export async function runMigrations(options: MigrationOptions = {}): Promise<Migration[]> {
+  if (!db) {
+    console.warn('Database not initialized, skipping migrations');
+    return [];
+  }
 
-export async function runMigrations() {
   try {
-    // Create medical_conditions table
-    // Drop and recreate approach for clean migration
-    await db.execute(`
-      DROP TABLE IF EXISTS medical_conditions CASCADE;
-      CREATE TABLE medical_conditions (
-        id SERIAL PRIMARY KEY,
-        name TEXT NOT NULL UNIQUE,
-        description TEXT NOT NULL,
-        symptoms JSONB NOT NULL,
-        visual_cues JSONB DEFAULT '[]',
-        urgency TEXT NOT NULL,
-        recommendation TEXT NOT NULL,
-        common_in_age_group TEXT,
-        learn_more_url TEXT
-      );
-    `);
-    
+    await ensureMigrationsTable();
+    const applied = await getAppliedMigrations();
+    verifyAppliedMigrations(applied);
+
+    const appliedIds = new Set(applied.map(m => m.id));
+    const pending = [...migrations]
+      .sort((a, b) => a.id - b.id)
+      .filter(m => !appliedIds.has(m.id));
+
+    if (pending.length === 0) {
+      console.log('Database schema is up to date');
+      return [];
+    }
+
+    for (const migration of pending) {
+      if (options.dryRun) {
+        console.log(`[dry run] Would apply migration ${migration.id}_${migration.name}:`);
+        migration.up.forEach(statement => console.log(`${statement};`));
+        continue;
+      }
+
+      await db.transaction(async (tx) => {
+        for (const statement of migration.up) {
+          await tx.execute(sql.raw(statement));
+        }
+        await tx.execute(sql`
+          INSERT INTO schema_migrations (id, name, checksum)
+          VALUES (${migration.id}, ${migration.name}, ${migrationChecksum(migration)})
+        `);
+      });
+      console.log(`Applied migration ${migration.id}_${migration.name}`);
+    }
+
     console.log('Database migrations completed successfully');
+    return pending;
   } catch (error) {
     console.error('Error running migrations:', error);
     throw error;
   }
 }
+
+/**
+ * Revert the most recently applied migrations using their down statements
+ * @param steps - How many migrations to roll back
+ * @param options - Pass dryRun to list the migrations without reverting them
+ * @returns The migrations that were (or would be) rolled back
+ */
+export async function rollbackMigrations(steps: number = 1, options: MigrationOptions = {}): Promise<Migration[]> {
+  if (!db) {
+    console.warn('Database not initialized, skipping rollback');
+    return [];
+  }
+
+  try {
+    await ensureMigrationsTable();
+    const applied = await getAppliedMigrations();
+    verifyAppliedMigrations(applied);
+
+    const toRevert = applied
+      .slice(-steps)
+      .reverse()
+      .map(record => migrations.find(m => m.id === record.id)!);
+
+    for (const migration of toRevert) {
+      if (options.dryRun) {
+        console.log(`[dry run] Would roll back migration ${migration.id}_${migration.name}:`);
+        migration.down.forEach(statement => console.log(`${statement};`));
+        continue;
+      }
+
+      await db.transaction(async (tx) => {
+        for (const statement of migration.down) {
+          await tx.execute(sql.raw(statement));
+        }
+        await tx.execute(sql`DELETE FROM schema_migrations WHERE id = ${migration.id}`);
+      });
+      console.log(`Rolled back migration ${migration.id}_${migration.name}`);
+    }
+
+    return toRevert;
+  } catch (error) {
+    console.error('Error rolling back migrations:', error);
+    throw error;
+  }
+}
+
+/**
+ * List every known migration with whether it has been applied
+ */
+export async function getMigrationStatus(): Promise<Array<{ migration: Migration; applied: boolean }>> {
+  if (!db) {
+    throw new Error('Database not initialized');
+  }
+
+  await ensureMigrationsTable();
+  const appliedIds = new Set((await getAppliedMigrations()).map(m => m.id));
+  return migrations.map(migration => ({ migration, applied: appliedIds.has(migration.id) }));
+}
@@ -0,0 +1,69 @@
+import type { Migration } from './index';
+
+/**
+ * Creates every table defined in shared/schema.ts. Uses IF NOT EXISTS so databases
+ * previously set up with `db:push` or the old drop-and-recreate migration adopt
+ * this history without losing data.
+ */
+export const migration: Migration = {
+  id: 1,
+  name: 'initial_schema',
+  up: [
+    `CREATE TABLE IF NOT EXISTS users (
+      id SERIAL PRIMARY KEY,
+      username TEXT NOT NULL UNIQUE,
+      password TEXT NOT NULL
+    )`,
+    `CREATE TABLE IF NOT EXISTS symptoms (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER REFERENCES users(id),
+      description TEXT NOT NULL,
+      duration TEXT,
+      severity TEXT,
+      body_location TEXT,
+      uploaded_images JSONB,
+      analysis JSONB,
+      extracted_symptoms JSONB,
+      reasoning_notes JSONB,
+      created_at TIMESTAMP NOT NULL DEFAULT now()
+    )`,
+    `CREATE TABLE IF NOT EXISTS medical_conditions (
+      id SERIAL PRIMARY KEY,
+      name TEXT NOT NULL UNIQUE,
+      description TEXT NOT NULL,
+      symptoms JSONB NOT NULL,
+      visual_cues JSONB DEFAULT '[]',
+      urgency TEXT NOT NULL,
+      recommendation TEXT NOT NULL,
+      common_in_age_group TEXT,
+      learn_more_url TEXT
+    )`,
+    `CREATE TABLE IF NOT EXISTS ai_predictions (
+      id SERIAL PRIMARY KEY,
+      symptom_id INTEGER NOT NULL REFERENCES symptoms(id),
+      raw_predictions JSONB NOT NULL,
+      refined_predictions JSONB NOT NULL,
+      text_embedding JSONB,
+      image_embedding JSONB,
+      confidence TEXT NOT NULL,
+      processing_time INTEGER,
+      created_at TIMESTAMP NOT NULL DEFAULT now()
+    )`,
+    `CREATE TABLE IF NOT EXISTS user_feedback (
+      id SERIAL PRIMARY KEY,
+      symptom_id INTEGER NOT NULL REFERENCES symptoms(id),
+      user_id INTEGER REFERENCES users(id),
+      feedback_rating INTEGER,
+      feedback_text TEXT,
+      correct_condition TEXT,
+      created_at TIMESTAMP NOT NULL DEFAULT now()
+    )`,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS user_feedback`,
+    `DROP TABLE IF EXISTS ai_predictions`,
+    `DROP TABLE IF EXISTS medical_conditions`,
+    `DROP TABLE IF EXISTS symptoms`,
+    `DROP TABLE IF EXISTS users`,
+  ],
+};
@@ -0,0 +1,22 @@
+import type { Migration } from './index';
+
+/**
+ * Session table used by connect-pg-simple. Created here rather than with the
+ * store's createTableIfMissing option, which reads a SQL file that is not
+ * available once the server is bundled.
+ */
+export const migration: Migration = {
+  id: 2,
+  name: 'user_sessions',
+  up: [
+    `CREATE TABLE IF NOT EXISTS session (
+      sid VARCHAR NOT NULL PRIMARY KEY,
+      sess JSON NOT NULL,
+      expire TIMESTAMP(6) NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_session_expire ON session (expire)`,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS session`,
+  ],
+};
@@ -0,0 +1,17 @@
+import type { Migration } from './index';
+
+/**
+ * Adds a role to each account so admin-only routes can be gated. Existing
+ * users become regular users; promote admins with
+ * `UPDATE users SET role = 'admin' WHERE username = '...'`.
+ */
+export const migration: Migration = {
+  id: 3,
+  name: 'user_roles',
+  up: [
+    `ALTER TABLE users ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'user'`,
+  ],
+  down: [
+    `ALTER TABLE users DROP COLUMN IF EXISTS role`,
+  ],
+};
@@ -0,0 +1,20 @@
+import type { Migration } from './index';
+
+/**
+ * Stores the knowledge-base ranking and per-stage timings alongside the raw
+ * and merged predictions recorded for each analysis.
+ */
+export const migration: Migration = {
+  id: 4,
+  name: 'prediction_telemetry',
+  up: [
+    `ALTER TABLE ai_predictions ADD COLUMN IF NOT EXISTS kb_predictions JSONB NOT NULL DEFAULT '[]'`,
+    `ALTER TABLE ai_predictions ADD COLUMN IF NOT EXISTS stage_timings JSONB`,
+    `CREATE INDEX IF NOT EXISTS idx_ai_predictions_symptom_id ON ai_predictions (symptom_id)`,
+  ],
+  down: [
+    `DROP INDEX IF EXISTS idx_ai_predictions_symptom_id`,
+    `ALTER TABLE ai_predictions DROP COLUMN IF EXISTS stage_timings`,
+    `ALTER TABLE ai_predictions DROP COLUMN IF EXISTS kb_predictions`,
+  ],
+};
@@ -0,0 +1,17 @@
+import type { Migration } from './index';
+
+/**
+ * Alternative condition names, used to map free-text LLM suggestions onto
+ * knowledge base entries. The seed step sets them on new knowledge bases, and
+ * migration 0012 fills them in on default conditions seeded before this one.
+ */
+export const migration: Migration = {
+  id: 5,
+  name: 'condition_aliases',
+  up: [
+    `ALTER TABLE medical_conditions ADD COLUMN IF NOT EXISTS aliases JSONB DEFAULT '[]'`,
+  ],
+  down: [
+    `ALTER TABLE medical_conditions DROP COLUMN IF EXISTS aliases`,
+  ],
+};
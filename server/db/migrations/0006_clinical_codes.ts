@@ -0,0 +1,20 @@
+import type { Migration } from './index';
+
+/**
+ * Optional SNOMED CT and ICD-11 codes for knowledge base conditions. The seed
+ * step sets them on new knowledge bases, and migration 0012 fills them in on
+ * default conditions seeded before this one; `npm run kb:import-codes` sets
+ * them from a locally supplied code subset.
+ */
+export const migration: Migration = {
+  id: 6,
+  name: 'clinical_codes',
+  up: [
+    `ALTER TABLE medical_conditions ADD COLUMN IF NOT EXISTS snomed_ct_id TEXT`,
+    `ALTER TABLE medical_conditions ADD COLUMN IF NOT EXISTS icd11_code TEXT`,
+  ],
+  down: [
+    `ALTER TABLE medical_conditions DROP COLUMN IF EXISTS icd11_code`,
+    `ALTER TABLE medical_conditions DROP COLUMN IF EXISTS snomed_ct_id`,
+  ],
+};
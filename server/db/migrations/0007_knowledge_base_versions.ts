@@ -0,0 +1,28 @@
+import type { Migration } from './index';
+import { recordKnowledgeBaseVersion } from './knowledgeBaseSnapshot';
+
+/**
+ * Condition revisions and knowledge base version snapshots, so stored analyses
+ * can name the knowledge base they were scored against. A knowledge base that
+ * already has conditions becomes version 1.
+ */
+export const migration: Migration = {
+  id: 7,
+  name: 'knowledge_base_versions',
+  up: [
+    `ALTER TABLE medical_conditions ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1`,
+    `CREATE TABLE IF NOT EXISTS knowledge_base_versions (
+      version SERIAL PRIMARY KEY,
+      reason TEXT NOT NULL,
+      user_id INTEGER REFERENCES users(id),
+      conditions JSONB NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )`,
+    // Symptom rules and demographics arrive with migrations 0008 and 0009
+    recordKnowledgeBaseVersion('Existing knowledge base', 'COUNT(*) > 0', ['symptomRules', 'demographics']),
+  ],
+  down: [
+    `DROP TABLE IF EXISTS knowledge_base_versions`,
+    `ALTER TABLE medical_conditions DROP COLUMN IF EXISTS revision`,
+  ],
+};
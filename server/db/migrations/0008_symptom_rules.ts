@@ -0,0 +1,16 @@
+import type { Migration } from './index';
+
+/**
+ * Weighted required, supporting, excluding and co-occurring findings for each
+ * condition, applied by the reasoning engine (see server/services/symptomRules.ts)
+ */
+export const migration: Migration = {
+  id: 8,
+  name: 'symptom_rules',
+  up: [
+    `ALTER TABLE medical_conditions ADD COLUMN IF NOT EXISTS symptom_rules JSONB DEFAULT '[]'`,
+  ],
+  down: [
+    `ALTER TABLE medical_conditions DROP COLUMN IF EXISTS symptom_rules`,
+  ],
+};
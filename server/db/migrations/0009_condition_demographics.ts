@@ -0,0 +1,16 @@
+import type { Migration } from './index';
+
+/**
+ * Age and sex applicability for each condition, applied by the reasoning
+ * engine (see server/services/demographics.ts). NULL applies to any patient.
+ */
+export const migration: Migration = {
+  id: 9,
+  name: 'condition_demographics',
+  up: [
+    `ALTER TABLE medical_conditions ADD COLUMN IF NOT EXISTS demographics JSONB`,
+  ],
+  down: [
+    `ALTER TABLE medical_conditions DROP COLUMN IF EXISTS demographics`,
+  ],
+};
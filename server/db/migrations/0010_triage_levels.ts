@@ -0,0 +1,44 @@
+import type { Migration } from './index';
+import { recordKnowledgeBaseVersion } from './knowledgeBaseSnapshot';
+
+/**
+ * Replace free-text condition urgency ("low", "low-medium", "high") with the
+ * triage scale in shared/schema.ts. Unrecognised values become primary_care,
+ * so every condition is at least seen by a doctor. Changed conditions get a
+ * new revision and, when anything changed, a knowledge base version is
+ * recorded. Older snapshots keep the values they were taken with and are
+ * mapped when read.
+ */
+export const migration: Migration = {
+  id: 10,
+  name: 'triage_levels',
+  up: [
+    `CREATE TEMP TABLE triage_backfill (id INTEGER) ON COMMIT DROP`,
+    `WITH updated AS (
+      UPDATE medical_conditions SET urgency = CASE lower(trim(urgency))
+        WHEN 'low' THEN 'self_care'
+        WHEN 'low-medium' THEN 'primary_care'
+        WHEN 'medium' THEN 'primary_care'
+        WHEN 'medium-high' THEN 'urgent_care'
+        WHEN 'high' THEN 'urgent_care'
+        WHEN 'critical' THEN 'emergency'
+        ELSE 'primary_care'
+        END,
+        revision = revision + 1
+      WHERE urgency NOT IN ('self_care', 'primary_care', 'urgent_care', 'emergency')
+      RETURNING id
+    )
+    INSERT INTO triage_backfill SELECT id FROM updated`,
+    `ALTER TABLE medical_conditions ADD CONSTRAINT medical_conditions_urgency_check
+      CHECK (urgency IN ('self_care', 'primary_care', 'urgent_care', 'emergency'))`,
+    recordKnowledgeBaseVersion('Mapped condition urgency to triage levels', 'EXISTS (SELECT 1 FROM triage_backfill)'),
+  ],
+  down: [
+    `ALTER TABLE medical_conditions DROP CONSTRAINT IF EXISTS medical_conditions_urgency_check`,
+    `UPDATE medical_conditions SET urgency = CASE urgency
+      WHEN 'self_care' THEN 'low'
+      WHEN 'primary_care' THEN 'medium'
+      ELSE 'high'
+      END`,
+  ],
+};
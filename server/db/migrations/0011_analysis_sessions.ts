@@ -0,0 +1,36 @@
+import type { Migration } from './index';
+
+/**
+ * Chat-style analysis sessions and their turns. A session accumulates input
+ * on one symptoms row; each turn keeps the differential it produced.
+ */
+export const migration: Migration = {
+  id: 11,
+  name: 'analysis_sessions',
+  up: [
+    `CREATE TABLE IF NOT EXISTS analysis_sessions (
+      id SERIAL PRIMARY KEY,
+      symptom_id INTEGER NOT NULL REFERENCES symptoms(id),
+      described_images JSONB,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_analysis_sessions_symptom_id ON analysis_sessions (symptom_id)`,
+    `CREATE TABLE IF NOT EXISTS analysis_session_turns (
+      id SERIAL PRIMARY KEY,
+      session_id INTEGER NOT NULL REFERENCES analysis_sessions(id),
+      message TEXT,
+      images JSONB NOT NULL DEFAULT '[]',
+      answer JSONB,
+      differential JSONB NOT NULL,
+      diff JSONB,
+      triage TEXT,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_analysis_session_turns_session_id ON analysis_session_turns (session_id, id)`,
+  ],
+  down: [
+    `DROP TABLE IF EXISTS analysis_session_turns`,
+    `DROP TABLE IF EXISTS analysis_sessions`,
+  ],
+};
@@ -0,0 +1,35 @@
+import type { Migration } from './index';
+import { recordKnowledgeBaseVersion } from './knowledgeBaseSnapshot';
+import { seedBackfillValues } from './seedBackfill';
+
+/**
+ * Fill in the aliases and clinical codes of the default conditions on
+ * knowledge bases seeded before migrations 0005 and 0006 added them. Only
+ * blank values are set, so curator edits stay, and deleted conditions are not
+ * re-created. Changed conditions get a new revision and, when anything
+ * changed, a knowledge base version is recorded.
+ */
+export const migration: Migration = {
+  id: 12,
+  name: 'seed_aliases_and_codes',
+  up: [
+    `CREATE TEMP TABLE seed_backfill (id INTEGER) ON COMMIT DROP`,
+    `WITH updated AS (
+      UPDATE medical_conditions AS c SET
+        aliases = CASE WHEN c.aliases IS NULL OR c.aliases = '[]'::jsonb THEN s.aliases ELSE c.aliases END,
+        snomed_ct_id = COALESCE(c.snomed_ct_id, s.snomed_ct_id),
+        icd11_code = COALESCE(c.icd11_code, s.icd11_code),
+        revision = c.revision + 1
+      FROM (VALUES
+${seedBackfillValues(['aliases', 'snomedCtId', 'icd11Code'])}
+      ) AS s(name, aliases, snomed_ct_id, icd11_code)
+      WHERE lower(c.name) = lower(s.name)
+        AND (c.aliases IS NULL OR c.aliases = '[]'::jsonb OR c.snomed_ct_id IS NULL OR c.icd11_code IS NULL)
+      RETURNING c.id
+    )
+    INSERT INTO seed_backfill SELECT id FROM updated`,
+    recordKnowledgeBaseVersion('Filled in aliases and codes of default conditions', 'EXISTS (SELECT 1 FROM seed_backfill)'),
+  ],
+  // Values filled in here cannot be told apart from curator edits, so they stay
+  down: [],
+};
@@ -0,0 +1,29 @@
+import type { Migration } from './index';
+import { recordKnowledgeBaseVersion } from './knowledgeBaseSnapshot';
+import { seedBackfillValues } from './seedBackfill';
+
+/**
+ * Fill in the symptom rules of the default conditions on knowledge bases
+ * seeded before migration 0008 added them, so the reasoning engine applies
+ * them. Only conditions without rules are changed; each gets a new revision
+ * and, when anything changed, a knowledge base version is recorded.
+ */
+export const migration: Migration = {
+  id: 13,
+  name: 'seed_symptom_rules',
+  up: [
+    `CREATE TEMP TABLE seed_backfill (id INTEGER) ON COMMIT DROP`,
+    `WITH updated AS (
+      UPDATE medical_conditions AS c SET symptom_rules = s.symptom_rules, revision = c.revision + 1
+      FROM (VALUES
+${seedBackfillValues(['symptomRules'])}
+      ) AS s(name, symptom_rules)
+      WHERE lower(c.name) = lower(s.name) AND (c.symptom_rules IS NULL OR c.symptom_rules = '[]'::jsonb)
+      RETURNING c.id
+    )
+    INSERT INTO seed_backfill SELECT id FROM updated`,
+    recordKnowledgeBaseVersion('Filled in symptom rules of default conditions', 'EXISTS (SELECT 1 FROM seed_backfill)'),
+  ],
+  // Values filled in here cannot be told apart from curator edits, so they stay
+  down: [],
+};
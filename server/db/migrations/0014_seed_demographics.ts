@@ -0,0 +1,29 @@
+import type { Migration } from './index';
+import { recordKnowledgeBaseVersion } from './knowledgeBaseSnapshot';
+import { seedBackfillValues } from './seedBackfill';
+
+/**
+ * Fill in the age and sex applicability of the default conditions on
+ * knowledge bases seeded before migration 0009 added it. Only conditions with
+ * NULL demographics are changed; each gets a new revision and, when anything
+ * changed, a knowledge base version is recorded.
+ */
+export const migration: Migration = {
+  id: 14,
+  name: 'seed_demographics',
+  up: [
+    `CREATE TEMP TABLE seed_backfill (id INTEGER) ON COMMIT DROP`,
+    `WITH updated AS (
+      UPDATE medical_conditions AS c SET demographics = s.demographics, revision = c.revision + 1
+      FROM (VALUES
+${seedBackfillValues(['demographics'])}
+      ) AS s(name, demographics)
+      WHERE lower(c.name) = lower(s.name) AND c.demographics IS NULL
+      RETURNING c.id
+    )
+    INSERT INTO seed_backfill SELECT id FROM updated`,
+    recordKnowledgeBaseVersion('Filled in demographics of default conditions', 'EXISTS (SELECT 1 FROM seed_backfill)'),
+  ],
+  // Values filled in here cannot be told apart from curator edits, so they stay
+  down: [],
+};
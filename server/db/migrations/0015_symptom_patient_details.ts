@@ -0,0 +1,21 @@
+import type { Migration } from './index';
+
+/**
+ * The patient's age, gender and pregnancy as given with a symptom, so every
+ * later analysis of it (follow-up answers, session turns and replays) checks
+ * condition demographics against the same patient. NULL when not given.
+ */
+export const migration: Migration = {
+  id: 15,
+  name: 'symptom_patient_details',
+  up: [
+    `ALTER TABLE symptoms ADD COLUMN IF NOT EXISTS patient_age INTEGER`,
+    `ALTER TABLE symptoms ADD COLUMN IF NOT EXISTS patient_gender TEXT`,
+    `ALTER TABLE symptoms ADD COLUMN IF NOT EXISTS patient_pregnant BOOLEAN`,
+  ],
+  down: [
+    `ALTER TABLE symptoms DROP COLUMN IF EXISTS patient_pregnant`,
+    `ALTER TABLE symptoms DROP COLUMN IF EXISTS patient_gender`,
+    `ALTER TABLE symptoms DROP COLUMN IF EXISTS patient_age`,
+  ],
+};
@@ -0,0 +1,46 @@
+import { migration as initialSchema } from './0001_initial_schema';
+import { migration as userSessions } from './0002_user_sessions';
+import { migration as userRoles } from './0003_user_roles';
+import { migration as predictionTelemetry } from './0004_prediction_telemetry';
+import { migration as conditionAliases } from './0005_condition_aliases';
+import { migration as clinicalCodes } from './0006_clinical_codes';
+import { migration as knowledgeBaseVersions } from './0007_knowledge_base_versions';
+import { migration as symptomRules } from './0008_symptom_rules';
+import { migration as conditionDemographics } from './0009_condition_demographics';
+import { migration as triageLevels } from './0010_triage_levels';
+import { migration as analysisSessions } from './0011_analysis_sessions';
+import { migration as seedAliasesAndCodes } from './0012_seed_aliases_and_codes';
+import { migration as seedSymptomRules } from './0013_seed_symptom_rules';
+import { migration as seedDemographics } from './0014_seed_demographics';
+import { migration as symptomPatientDetails } from './0015_symptom_patient_details';
+
+/**
+ * A single schema change. `up` and `down` are lists of SQL statements that run
+ * inside one transaction. Once a migration has been applied its `up` statements
+ * must not change; add a new migration instead.
+ */
+export interface Migration {
+  id: number;
+  name: string;
+  up: string[];
+  down: string[];
+}
+
+// Ordered list of all migrations. Append new entries; never reorder or remove.
+export const migrations: Migration[] = [
+  initialSchema,
+  userSessions,
+  userRoles,
+  predictionTelemetry,
+  conditionAliases,
+  clinicalCodes,
+  knowledgeBaseVersions,
+  symptomRules,
+  conditionDemographics,
+  triageLevels,
+  analysisSessions,
+  seedAliasesAndCodes,
+  seedSymptomRules,
+  seedDemographics,
+  symptomPatientDetails,
+];
@@ -0,0 +1,39 @@
+/**
+ * Fields of a condition in a knowledge_base_versions snapshot, the
+ * MedicalCondition shape storage writes, and the column each is read from
+ */
+const snapshotColumns = {
+  id: 'id',
+  name: 'name',
+  description: 'description',
+  symptoms: 'symptoms',
+  visualCues: 'visual_cues',
+  aliases: 'aliases',
+  symptomRules: 'symptom_rules',
+  demographics: 'demographics',
+  snomedCtId: 'snomed_ct_id',
+  icd11Code: 'icd11_code',
+  urgency: 'urgency',
+  recommendation: 'recommendation',
+  commonInAgeGroup: 'common_in_age_group',
+  learnMoreUrl: 'learn_more_url',
+  revision: 'revision',
+};
+
+export type SnapshotField = keyof typeof snapshotColumns;
+
+/**
+ * Statement recording the conditions as a knowledge base version when the
+ * `having` condition holds
+ * @param omit - Fields whose columns do not exist yet at this migration
+ */
+export function recordKnowledgeBaseVersion(reason: string, having: string, omit: SnapshotField[] = []): string {
+  const fields = Object.entries(snapshotColumns)
+    .filter(([field]) => !omit.includes(field as SnapshotField))
+    .map(([field, column]) => `'${field}', ${column}`);
+
+  return `INSERT INTO knowledge_base_versions (reason, conditions)
+      SELECT '${reason.replace(/'/g, "''")}', jsonb_agg(jsonb_build_object(${fields.join(', ')}) ORDER BY id)
+      FROM medical_conditions
+      HAVING ${having}`;
+}
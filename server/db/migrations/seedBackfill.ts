@@ -0,0 +1,113 @@
+import type { ConditionDemographics, SymptomRule } from '@shared/schema';
+
+/**
+ * Seed fields of a default condition that backfill migrations fill in on
+ * knowledge bases seeded before the field existed
+ */
+export interface SeedBackfill {
+  name: string;
+  aliases: string[];
+  snomedCtId: string;
+  icd11Code: string;
+  symptomRules?: SymptomRule[];
+  demographics?: ConditionDemographics;
+}
+
+export type SeedBackfillField = Exclude<keyof SeedBackfill, 'name'>;
+
+/**
+ * Frozen copy of these fields from the seed in server/db/defaultConditions.ts.
+ * Applied migrations must not change, so a later change to the seed needs a
+ * new migration rather than an edit here.
+ */
+const seedBackfill: readonly SeedBackfill[] = [
+  {
+    name: 'Influenza',
+    aliases: ['flu', 'seasonal flu', 'influenza a', 'influenza b', 'grippe'],
+    symptomRules: [{ kind: 'co_occurring', findings: ['fever', 'body aches', 'chills'], weight: 0.2 }],
+    snomedCtId: '6142004',
+    icd11Code: '1E32'
+  },
+  {
+    name: 'Lyme Disease',
+    aliases: ['lyme', 'lyme borreliosis', 'borreliosis', 'erythema migrans'],
+    snomedCtId: '23502006',
+    icd11Code: '1C1G'
+  },
+  {
+    name: 'Common Cold',
+    aliases: ['cold', 'head cold', 'upper respiratory infection', 'upper respiratory tract infection', 'viral uri', 'nasopharyngitis', 'rhinovirus infection'],
+    snomedCtId: '82272006',
+    icd11Code: 'CA00'
+  },
+  {
+    name: 'Eczema',
+    aliases: ['atopic dermatitis', 'atopic eczema'],
+    snomedCtId: '24079001',
+    icd11Code: 'EA80'
+  },
+  {
+    name: 'Conjunctivitis',
+    aliases: ['pink eye', 'pinkeye', 'viral conjunctivitis', 'bacterial conjunctivitis', 'allergic conjunctivitis'],
+    snomedCtId: '9826008',
+    icd11Code: '9A60'
+  },
+  {
+    name: 'Bronchitis',
+    aliases: ['acute bronchitis', 'chest cold'],
+    symptomRules: [{ kind: 'required', findings: ['cough'], weight: 0.5 }],
+    snomedCtId: '10509002',
+    icd11Code: 'CA42'
+  },
+  {
+    name: 'Migraine',
+    aliases: ['migraine headache', 'migraine with aura', 'migraine without aura'],
+    symptomRules: [
+      { kind: 'required', findings: ['headache'], weight: 0.5 },
+      { kind: 'co_occurring', findings: ['headache', 'light sensitivity', 'nausea'], weight: 0.2 }
+    ],
+    snomedCtId: '37796009',
+    icd11Code: '8A80',
+    demographics: { ageBands: [{ minAge: 0, maxAge: 5, weight: 0.5 }] }
+  },
+  {
+    name: 'Pneumonia',
+    aliases: ['community-acquired pneumonia', 'bacterial pneumonia', 'viral pneumonia', 'lung infection'],
+    symptomRules: [
+      { kind: 'required', findings: ['cough'], weight: 0.3 },
+      { kind: 'supporting', findings: ['difficulty breathing', 'chest pain'], weight: 0.2 }
+    ],
+    snomedCtId: '233604007',
+    icd11Code: 'CA40',
+    demographics: { ageBands: [{ minAge: 0, maxAge: 4, weight: 1.2 }, { minAge: 65, maxAge: 120, weight: 1.3 }] }
+  },
+  {
+    name: 'Skin Allergy',
+    aliases: ['allergic reaction', 'allergic contact dermatitis', 'contact dermatitis', 'hives', 'urticaria', 'allergic rash'],
+    snomedCtId: '238575004',
+    icd11Code: 'EK00'
+  },
+  {
+    name: 'Gastroenteritis',
+    aliases: ['stomach flu', 'stomach bug', 'viral gastroenteritis', 'norovirus infection', 'gastro'],
+    snomedCtId: '25374005',
+    icd11Code: '1A40'
+  }
+];
+
+function sqlLiteral(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  const quoted = `'${text.replace(/'/g, "''")}'`;
+  return typeof value === 'string' ? quoted : `${quoted}::jsonb`;
+}
+
+/**
+ * Rows of a VALUES list holding the name and the given fields of each default
+ * condition that has all of them
+ */
+export function seedBackfillValues(fields: SeedBackfillField[]): string {
+  return seedBackfill
+    .filter(condition => fields.every(field => condition[field] !== undefined))
+    .map(condition => `        (${[condition.name, ...fields.map(field => condition[field])].map(sqlLiteral).join(', ')})`)
+    .join(',\n');
+}
@@ -0,0 +1,88 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { closeDbConnection } from '../db';
+import { applyCalibration, fusionStrategySchema, loadFusionConfig, DEFAULT_FUSION_CONFIG_PATH, type FusionConfig } from '../services/scoreFusion';
+import { loadCasesFromFeedback, loadCasesFromJsonl, type EvaluationCase } from './harness';
+import { collectSamples, fitIsotonic, fitTemperature, measureCalibration, type CalibrationMetrics } from './calibration';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DEFAULT_CASES = path.join(__dirname, 'vignettes.jsonl');
+
+/**
+ * Command line entry point for fitting score fusion calibration offline
+ *
+ *   npm run calibrate                           fit isotonic calibration on the bundled vignettes
+ *   npm run calibrate -- --method temperature   fit temperature scaling instead
+ *   npm run calibrate -- --strategy bayesian    fit for a different fusion strategy
+ *   npm run calibrate -- --cases path.jsonl     use a different case file
+ *   npm run calibrate -- --from-feedback        add cases labelled through user feedback
+ *   npm run calibrate -- --out path.json        write somewhere other than FUSION_CONFIG / the default
+ *   npm run calibrate -- --dry-run              report metrics without writing
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const option = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  const method = option('--method') ?? 'isotonic';
+  if (method !== 'isotonic' && method !== 'temperature') {
+    throw new Error(`Invalid --method value: ${method}`);
+  }
+
+  // Start from the current weights, without any existing calibration
+  const current = loadFusionConfig();
+  const strategyArg = option('--strategy');
+  const config: FusionConfig = {
+    ...current,
+    strategy: strategyArg ? fusionStrategySchema.parse(strategyArg) : current.strategy,
+    calibration: { method: 'none' },
+  };
+
+  const casesPath = option('--cases');
+  const fromFeedback = args.includes('--from-feedback');
+  const cases: EvaluationCase[] = [];
+  if (casesPath || !fromFeedback) {
+    cases.push(...await loadCasesFromJsonl(path.resolve(casesPath ?? DEFAULT_CASES)));
+  }
+  if (fromFeedback) {
+    cases.push(...await loadCasesFromFeedback());
+  }
+  if (cases.length === 0) {
+    throw new Error('No calibration cases found');
+  }
+
+  const samples = await collectSamples(cases, config);
+  if (!samples.some(s => s.label === 1)) {
+    throw new Error('None of the expected conditions were among the candidates; nothing to calibrate against');
+  }
+
+  const calibration = method === 'temperature' ? fitTemperature(samples) : fitIsotonic(samples);
+  const format = (metrics: CalibrationMetrics) =>
+    `log loss ${metrics.logLoss.toFixed(4)}, Brier ${metrics.brier.toFixed(4)}, ECE ${metrics.expectedCalibrationError.toFixed(4)}`;
+
+  console.log(`Cases: ${cases.length}, candidates: ${samples.length}, strategy: ${config.strategy}`);
+  console.log(`Uncalibrated: ${format(measureCalibration(samples, raw => raw))}`);
+  console.log(`${method === 'temperature' ? `Temperature ${(calibration as { temperature: number }).temperature}` : 'Isotonic'}: ${format(measureCalibration(samples, raw => applyCalibration(raw, calibration)))}`);
+
+  if (args.includes('--dry-run')) return;
+
+  const outPath = path.resolve(option('--out') ?? process.env.FUSION_CONFIG ?? DEFAULT_FUSION_CONFIG_PATH);
+  const fitted: FusionConfig = {
+    ...config,
+    calibration,
+    fittedAt: new Date().toISOString(),
+    samples: samples.length,
+  };
+  await fs.writeFile(outPath, JSON.stringify(fitted, null, 2) + '\n');
+  console.log(`Wrote ${outPath}`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDbConnection());
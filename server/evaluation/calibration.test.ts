@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { applyCalibration } from '../services/scoreFusion';
+import { fitIsotonic, fitTemperature, measureCalibration, type CalibrationSample } from './calibration';
+
+const samples = (rawScore: number, positives: number, negatives: number): CalibrationSample[] => [
+  ...Array.from({ length: positives }, () => ({ rawScore, label: 1 as const })),
+  ...Array.from({ length: negatives }, () => ({ rawScore, label: 0 as const }))
+];
+
+describe('measureCalibration', () => {
+  it('scores confident, correct predictions as well calibrated', () => {
+    const metrics = measureCalibration([...samples(1, 3, 0), ...samples(0, 0, 3)], raw => raw);
+
+    expect(metrics.samples).toBe(6);
+    expect(metrics.logLoss).toBeCloseTo(0, 5);
+    expect(metrics.brier).toBe(0);
+    expect(metrics.expectedCalibrationError).toBe(0);
+  });
+
+  it('measures the gap between predicted and observed frequency', () => {
+    const metrics = measureCalibration(samples(0.9, 1, 1), raw => raw);
+
+    expect(metrics.brier).toBeCloseTo((0.1 ** 2 + 0.9 ** 2) / 2);
+    expect(metrics.expectedCalibrationError).toBeCloseTo(0.4);
+    expect(metrics.logLoss).toBeCloseTo(-(Math.log(0.9) + Math.log(0.1)) / 2);
+  });
+});
+
+describe('fitTemperature', () => {
+  it('leaves calibrated scores alone and softens overconfident ones', () => {
+    const calibrated = fitTemperature(samples(0.8, 8, 2));
+    const overconfident = fitTemperature([...samples(0.9, 6, 4), ...samples(0.1, 4, 6)]);
+
+    expect(calibrated).toEqual({ method: 'temperature', temperature: 1 });
+    expect(overconfident.method === 'temperature' && overconfident.temperature).toBeGreaterThan(5);
+  });
+});
+
+describe('fitIsotonic', () => {
+  it('pools scores that break the ordering into one step', () => {
+    const calibration = fitIsotonic([
+      { rawScore: 0.1, label: 0 },
+      { rawScore: 0.2, label: 1 },
+      { rawScore: 0.3, label: 0 },
+      { rawScore: 0.4, label: 1 }
+    ]);
+
+    expect(calibration).toEqual({ method: 'isotonic', points: [[0.1, 0], [0.2, 0.5], [0.3, 0.5], [0.4, 1]] });
+    expect(applyCalibration(0.25, calibration)).toBe(0.5);
+  });
+
+  it('needs samples', () => {
+    expect(() => fitIsotonic([])).toThrow('without samples');
+  });
+});
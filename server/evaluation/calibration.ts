@@ -0,0 +1,145 @@
+import { analyzeSymptoms } from '../services/aiService';
+import { fuseScores, type Calibration, type FusionConfig } from '../services/scoreFusion';
+import type { EvaluationCase } from './harness';
+
+/**
+ * One candidate condition from one case: its uncalibrated fused score and
+ * whether it was the labelled condition
+ */
+export interface CalibrationSample {
+  rawScore: number;
+  label: 0 | 1;
+}
+
+export interface CalibrationMetrics {
+  samples: number;
+  logLoss: number;
+  brier: number;
+  // Mean gap between predicted and observed frequency across 10 equal-width bins
+  expectedCalibrationError: number;
+}
+
+const EPSILON = 1e-6;
+const clamp = (p: number) => Math.min(1 - EPSILON, Math.max(EPSILON, p));
+const logit = (p: number) => Math.log(clamp(p) / (1 - clamp(p)));
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+/**
+ * Run each case through the /api/symptoms analysis flow (with whichever LLM
+ * provider is configured) and score every candidate with the given fusion
+ * settings, skipping calibration
+ */
+export async function collectSamples(cases: EvaluationCase[], config: FusionConfig): Promise<CalibrationSample[]> {
+  const uncalibrated: FusionConfig = { ...config, calibration: { method: 'none' } };
+  const samples: CalibrationSample[] = [];
+
+  for (const evaluationCase of cases) {
+    const description = evaluationCase.imageDescription
+      ? `${evaluationCase.description}. ${evaluationCase.imageDescription}`
+      : evaluationCase.description;
+    const { telemetry } = await analyzeSymptoms({
+      description,
+      images: evaluationCase.images,
+      patient: { age: evaluationCase.age, gender: evaluationCase.gender, pregnant: evaluationCase.pregnant }
+    });
+    const expected = evaluationCase.expectedCondition.trim().toLowerCase();
+
+    for (const fused of fuseScores(telemetry.fusionEvidence, uncalibrated)) {
+      samples.push({ rawScore: fused.rawScore, label: fused.name.toLowerCase() === expected ? 1 : 0 });
+    }
+  }
+
+  return samples;
+}
+
+/**
+ * Log loss, Brier score and expected calibration error of a calibration
+ */
+export function measureCalibration(
+  samples: CalibrationSample[],
+  calibrate: (rawScore: number) => number
+): CalibrationMetrics {
+  const bins = Array.from({ length: 10 }, () => ({ count: 0, predicted: 0, observed: 0 }));
+  let logLoss = 0;
+  let brier = 0;
+
+  for (const { rawScore, label } of samples) {
+    const p = calibrate(rawScore);
+    logLoss -= label ? Math.log(clamp(p)) : Math.log(1 - clamp(p));
+    brier += (p - label) ** 2;
+
+    const bin = bins[Math.min(9, Math.floor(p * 10))];
+    bin.count++;
+    bin.predicted += p;
+    bin.observed += label;
+  }
+
+  const n = samples.length || 1;
+  return {
+    samples: samples.length,
+    logLoss: logLoss / n,
+    brier: brier / n,
+    expectedCalibrationError: bins.reduce((sum, bin) => sum + Math.abs(bin.predicted - bin.observed) / n, 0),
+  };
+}
+
+/**
+ * Temperature scaling: the single divisor of the logit that minimizes log
+ * loss, found by a coarse grid search followed by a finer one around the best
+ */
+export function fitTemperature(samples: CalibrationSample[]): Calibration {
+  const loss = (temperature: number) =>
+    measureCalibration(samples, raw => sigmoid(logit(raw) / temperature)).logLoss;
+
+  let best = 1;
+  for (let t = 0.1; t <= 10; t += 0.1) {
+    if (loss(t) < loss(best)) best = t;
+  }
+  for (let t = Math.max(0.01, best - 0.1); t <= best + 0.1; t += 0.01) {
+    if (loss(t) < loss(best)) best = t;
+  }
+
+  return { method: 'temperature', temperature: Number(best.toFixed(2)) };
+}
+
+/**
+ * Isotonic regression with pool-adjacent-violators: the best non-decreasing
+ * step function from raw score to observed frequency. Each pooled block
+ * contributes points at both ends of its raw score range, so scores inside a
+ * block map to its frequency and scores between blocks are interpolated.
+ */
+export function fitIsotonic(samples: CalibrationSample[]): Calibration {
+  if (samples.length === 0) {
+    throw new Error('Cannot fit isotonic calibration without samples');
+  }
+
+  const sorted = [...samples].sort((a, b) => a.rawScore - b.rawScore);
+  const blocks: Array<{ minX: number, maxX: number, sumY: number, count: number }> = [];
+
+  for (const { rawScore, label } of sorted) {
+    blocks.push({ minX: rawScore, maxX: rawScore, sumY: label, count: 1 });
+    // Merge backwards until block means are strictly increasing
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      if (previous.sumY / previous.count < last.sumY / last.count) break;
+      blocks.splice(blocks.length - 2, 2, {
+        minX: previous.minX,
+        maxX: last.maxX,
+        sumY: previous.sumY + last.sumY,
+        count: previous.count + last.count,
+      });
+    }
+  }
+
+  const round = (value: number) => Number(value.toFixed(4));
+  return {
+    method: 'isotonic',
+    points: blocks.flatMap(block => {
+      const y = round(block.sumY / block.count);
+      return block.minX === block.maxX
+        ? [[round(block.minX), y] as [number, number]]
+        : [[round(block.minX), y] as [number, number], [round(block.maxX), y] as [number, number]];
+    }),
+  };
+}
@@ -0,0 +1,64 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { closeDbConnection } from '../db';
+import {
+  evaluateCases,
+  formatReport,
+  loadCasesFromFeedback,
+  loadCasesFromJsonl,
+  type EvaluationCase
+} from './harness';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DEFAULT_CASES = path.join(__dirname, 'vignettes.jsonl');
+
+/**
+ * Command line entry point for the accuracy evaluation harness
+ *
+ *   npm run eval                              replay the bundled vignettes
+ *   npm run eval -- --cases path/to.jsonl     replay a different case file
+ *   npm run eval -- --from-feedback           add cases labelled through user feedback
+ *   npm run eval -- --json                    print the full report as JSON
+ *   npm run eval -- --min-top1 0.6            exit non-zero if top-1 accuracy is lower
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const option = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  const casesPath = option('--cases');
+  const fromFeedback = args.includes('--from-feedback');
+  const minTop1Arg = option('--min-top1');
+  const minTop1 = minTop1Arg !== undefined ? parseFloat(minTop1Arg) : undefined;
+  if (minTop1 !== undefined && (isNaN(minTop1) || minTop1 < 0 || minTop1 > 1)) {
+    throw new Error(`Invalid --min-top1 value: ${minTop1Arg}`);
+  }
+
+  const cases: EvaluationCase[] = [];
+  if (casesPath || !fromFeedback) {
+    cases.push(...await loadCasesFromJsonl(path.resolve(casesPath ?? DEFAULT_CASES)));
+  }
+  if (fromFeedback) {
+    cases.push(...await loadCasesFromFeedback());
+  }
+  if (cases.length === 0) {
+    throw new Error('No evaluation cases found');
+  }
+
+  const report = await evaluateCases(cases);
+
+  console.log(args.includes('--json') ? JSON.stringify(report, null, 2) : formatReport(report));
+
+  if (minTop1 !== undefined && report.top1Accuracy < minTop1) {
+    throw new Error(`Top-1 accuracy ${report.top1Accuracy.toFixed(3)} is below the required ${minTop1}`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDbConnection());
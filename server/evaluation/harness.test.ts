@@ -0,0 +1,69 @@
+import { promises as fs } from 'fs';
+import { describe, expect, it, vi } from 'vitest';
+import type { AnalysisInput, AnalysisOptions } from '../types';
+import { storage } from '../storage';
+import { imageStore } from '../services/imageStorage';
+
+// The TensorFlow pipeline is not exercised here, only what the harness hands it
+const state = vi.hoisted(() => ({ calls: [] as Array<{ input: AnalysisInput; options?: AnalysisOptions; image?: Buffer }> }));
+
+vi.mock('../services/symptom-analyzer', async () => {
+  const { promises: fs } = await import('fs');
+  return {
+    analyzeSymptomsWithImage: async (input: AnalysisInput, options?: AnalysisOptions) => {
+      const image = input.imagePath ? await fs.readFile(input.imagePath) : undefined;
+      state.calls.push({ input, options, image });
+      options?.log?.('Processing text symptoms...');
+      return { conditions: [{ name: 'Eczema' }] };
+    }
+  };
+});
+
+const { loadCasesFromFeedback, pipelinePredictor } = await import('./harness');
+
+describe('loadCasesFromFeedback', () => {
+  it('keeps the patient details and images the symptom was analyzed with', async () => {
+    const symptom = await storage.createSymptom({
+      description: 'Itchy dry patches on both elbows',
+      uploadedImages: ['/api/images/rash.png'],
+      patientAge: 34,
+      patientGender: 'female',
+      patientPregnant: true
+    });
+    await storage.createUserFeedback(symptom.id, { correctCondition: 'Eczema' });
+
+    const cases = await loadCasesFromFeedback();
+
+    expect(cases.find(evaluationCase => evaluationCase.description === symptom.description)).toMatchObject({
+      images: ['/api/images/rash.png'],
+      age: 34,
+      gender: 'female',
+      pregnant: true,
+      expectedCondition: 'Eczema'
+    });
+  });
+});
+
+describe('pipelinePredictor', () => {
+  it('hands a stored image to the pipeline as a file and runs it quietly', async () => {
+    const image = Buffer.from('stored image bytes');
+    vi.spyOn(imageStore, 'read').mockResolvedValue(image);
+    const log = vi.spyOn(console, 'log');
+
+    const predictions = await pipelinePredictor({
+      description: 'Itchy dry patches on both elbows',
+      images: ['/api/images/rash.png'],
+      age: 34,
+      pregnant: false,
+      expectedCondition: 'Eczema'
+    });
+
+    expect(predictions).toEqual(['Eczema']);
+    const [call] = state.calls;
+    expect(call.image).toEqual(image);
+    expect(call.input).toMatchObject({ patientAge: 34, patientPregnant: false });
+    expect(log).not.toHaveBeenCalled();
+    // The temporary copy is removed afterwards
+    await expect(fs.access(call.input.imagePath!)).rejects.toThrow();
+  });
+});
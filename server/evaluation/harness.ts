@@ -0,0 +1,262 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { imageStore } from '../services/imageStorage';
+import { analyzeSymptomsWithImage } from '../services/symptom-analyzer';
+
+/**
+ * A labelled vignette replayed through the analysis pipeline
+ */
+export const evaluationCaseSchema = z.object({
+  id: z.string().optional(),
+  description: z.string().min(1),
+  imageDescription: z.string().optional(),
+  imagePath: z.string().optional(),
+  // Image store references, as on symptoms uploaded through the app
+  images: z.array(z.string()).optional(),
+  age: z.number().int().min(0).max(120).optional(),
+  gender: z.string().optional(),
+  pregnant: z.boolean().optional(),
+  expectedCondition: z.string().min(1),
+});
+
+export type EvaluationCase = z.infer<typeof evaluationCaseSchema>;
+
+/**
+ * Returns condition names ranked from most to least likely
+ */
+export type Predictor = (evaluationCase: EvaluationCase) => Promise<string[]>;
+
+export interface ConditionMetrics {
+  support: number;
+  top1Hits: number;
+  top3Hits: number;
+  recall: number; // top-1 hits / support
+}
+
+export interface CaseResult {
+  id: string;
+  expectedCondition: string;
+  predictions: string[];
+  top1: boolean;
+  top3: boolean;
+}
+
+export interface EvaluationReport {
+  total: number;
+  top1Accuracy: number;
+  top3Accuracy: number;
+  perCondition: Record<string, ConditionMetrics>;
+  // expected condition -> predicted top-1 condition -> count
+  confusionMatrix: Record<string, Record<string, number>>;
+  cases: CaseResult[];
+}
+
+// Column used in the confusion matrix when the pipeline predicts nothing
+export const NO_PREDICTION = '(none)';
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Read vignettes from a JSONL file, one case per line. Blank lines and lines
+ * starting with # are ignored. Relative image paths resolve against the file.
+ */
+export async function loadCasesFromJsonl(filePath: string): Promise<EvaluationCase[]> {
+  const content = await fs.readFile(filePath, 'utf8');
+  const baseDir = path.dirname(filePath);
+  const cases: EvaluationCase[] = [];
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      throw new Error(`${filePath}:${index + 1}: invalid JSON`);
+    }
+
+    const result = evaluationCaseSchema.safeParse(parsed);
+    if (!result.success) {
+      const issues = result.error.errors.map(e => `${e.path.join('.') || 'case'}: ${e.message}`).join('; ');
+      throw new Error(`${filePath}:${index + 1}: ${issues}`);
+    }
+
+    const evaluationCase = result.data;
+    cases.push({
+      ...evaluationCase,
+      id: evaluationCase.id ?? `${path.basename(filePath)}:${index + 1}`,
+      imagePath: evaluationCase.imagePath && path.resolve(baseDir, evaluationCase.imagePath),
+    });
+  });
+
+  return cases;
+}
+
+/**
+ * Build cases from symptoms where a user reported the confirmed condition,
+ * with the patient details and images the symptom was analyzed with.
+ * Only the most recent label per symptom is used.
+ */
+export async function loadCasesFromFeedback(): Promise<EvaluationCase[]> {
+  const labelled = await storage.getLabelledFeedback();
+  const seen = new Set<number>();
+  const cases: EvaluationCase[] = [];
+
+  for (const { feedback, symptom } of labelled) {
+    if (seen.has(symptom.id)) continue;
+    seen.add(symptom.id);
+
+    cases.push({
+      id: `feedback:${feedback.id}`,
+      description: symptom.description,
+      images: symptom.uploadedImages ?? undefined,
+      age: symptom.patientAge ?? undefined,
+      gender: symptom.patientGender ?? undefined,
+      pregnant: symptom.patientPregnant ?? undefined,
+      expectedCondition: feedback.correctCondition!,
+    });
+  }
+
+  return cases;
+}
+
+/**
+ * Run with the case's image as a file, as the image encoder reads it. A stored
+ * image is copied to a temporary file, as /api/analyze does with uploads; the
+ * pipeline reads one image, so only the first is used.
+ */
+async function withImageFile<T>(evaluationCase: EvaluationCase, run: (imagePath?: string) => Promise<T>): Promise<T> {
+  const reference = evaluationCase.images?.[0];
+  const image = !evaluationCase.imagePath && reference ? await imageStore.read(reference) : undefined;
+  if (!image) {
+    return run(evaluationCase.imagePath);
+  }
+
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'symptolens-eval-'));
+  try {
+    const imagePath = path.join(tempDir, 'image');
+    await fs.writeFile(imagePath, image);
+    return await run(imagePath);
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Default predictor: the offline text/image/fusion/reasoning pipeline, which
+ * only consults the knowledge base and needs no LLM API keys. It runs quietly
+ * so reports stay readable.
+ */
+export const pipelinePredictor: Predictor = async (evaluationCase) => {
+  const results = await withImageFile(evaluationCase, imagePath => analyzeSymptomsWithImage({
+    textSymptoms: evaluationCase.description,
+    imagePath,
+    imageDescription: evaluationCase.imageDescription ?? '',
+    patientAge: evaluationCase.age,
+    patientGender: evaluationCase.gender,
+    patientPregnant: evaluationCase.pregnant,
+  }, { log: () => {} }));
+  return results.conditions.map(condition => condition.name);
+};
+
+/**
+ * Replay every case through the predictor and compute accuracy metrics.
+ * Condition names are compared case-insensitively.
+ */
+export async function evaluateCases(
+  cases: EvaluationCase[],
+  predict: Predictor = pipelinePredictor
+): Promise<EvaluationReport> {
+  const perCondition: Record<string, ConditionMetrics> = {};
+  const confusionMatrix: Record<string, Record<string, number>> = {};
+  const results: CaseResult[] = [];
+
+  for (const evaluationCase of cases) {
+    const predictions = await predict(evaluationCase);
+    const expected = normalizeName(evaluationCase.expectedCondition);
+    const ranked = predictions.map(normalizeName);
+
+    const top1 = ranked[0] === expected;
+    const top3 = ranked.slice(0, 3).includes(expected);
+
+    const label = evaluationCase.expectedCondition.trim();
+    const metrics = perCondition[label] ??= { support: 0, top1Hits: 0, top3Hits: 0, recall: 0 };
+    metrics.support++;
+    if (top1) metrics.top1Hits++;
+    if (top3) metrics.top3Hits++;
+
+    const predicted = predictions[0]?.trim() || NO_PREDICTION;
+    const row = confusionMatrix[label] ??= {};
+    row[predicted] = (row[predicted] ?? 0) + 1;
+
+    results.push({
+      id: evaluationCase.id ?? String(results.length + 1),
+      expectedCondition: label,
+      predictions,
+      top1,
+      top3,
+    });
+  }
+
+  Object.values(perCondition).forEach(metrics => {
+    metrics.recall = metrics.support > 0 ? metrics.top1Hits / metrics.support : 0;
+  });
+
+  const total = results.length;
+  return {
+    total,
+    top1Accuracy: total > 0 ? results.filter(r => r.top1).length / total : 0,
+    top3Accuracy: total > 0 ? results.filter(r => r.top3).length / total : 0,
+    perCondition,
+    confusionMatrix,
+    cases: results,
+  };
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+/**
+ * Render a report as plain text tables for the terminal
+ */
+export function formatReport(report: EvaluationReport): string {
+  const lines: string[] = [];
+
+  lines.push(`Cases: ${report.total}`);
+  lines.push(`Top-1 accuracy: ${percent(report.top1Accuracy)}`);
+  lines.push(`Top-3 accuracy: ${percent(report.top3Accuracy)}`);
+  lines.push('');
+
+  const labels = Object.keys(report.perCondition).sort();
+  const nameWidth = Math.max(9, ...labels.map(label => label.length));
+
+  lines.push('Per-condition recall');
+  lines.push(`${'Condition'.padEnd(nameWidth)}  Support  Top-1  Top-3  Recall`);
+  for (const label of labels) {
+    const m = report.perCondition[label];
+    lines.push(
+      `${label.padEnd(nameWidth)}  ${String(m.support).padStart(7)}  ${String(m.top1Hits).padStart(5)}  ${String(m.top3Hits).padStart(5)}  ${percent(m.recall).padStart(6)}`
+    );
+  }
+  lines.push('');
+
+  // Columns cover every predicted condition, so misses outside the label set show up too
+  const columns = Array.from(new Set(
+    Object.values(report.confusionMatrix).flatMap(row => Object.keys(row))
+  )).sort();
+
+  lines.push('Confusion matrix (rows: expected, columns: predicted top-1)');
+  lines.push([''.padEnd(nameWidth), ...columns].join('  '));
+  for (const label of labels) {
+    const row = report.confusionMatrix[label] ?? {};
+    lines.push([
+      label.padEnd(nameWidth),
+      ...columns.map(column => String(row[column] ?? 0).padStart(column.length)),
+    ].join('  '));
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,118 @@
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The TensorFlow analysis flow behind /api/analyze is not exercised here
+vi.mock('./services/symptom-analyzer', () => ({ analyzeSymptomsWithImage: vi.fn(), toSymptomAnalysis: vi.fn() }));
+
+const { registerRoutes } = await import('./routes');
+const { analyzeSymptomsWithImage } = await import('./services/symptom-analyzer');
+const { storage } = await import('./storage');
+const { imageStore } = await import('./services/imageStorage');
+
+let server: Server;
+let baseUrl: string;
+
+/**
+ * A browser with its own cookie jar
+ */
+function client() {
+  let cookie = '';
+  return async (method: string, path: string, body?: unknown) => {
+    const response = await fetch(baseUrl + path, {
+      method,
+      headers: { ...(body ? { 'content-type': 'application/json' } : {}), ...(cookie ? { cookie } : {}) },
+      body: body ? JSON.stringify(body) : undefined
+    });
+    const setCookie = response.headers.get('set-cookie');
+    if (setCookie) cookie = setCookie.split(';')[0];
+    return response;
+  };
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('access to anonymous analyses', () => {
+  const message = 'I have had a fever and a cough since yesterday';
+
+  it('is limited to the browser session that submitted them', async () => {
+    const owner = client();
+    const created = await owner('POST', '/api/sessions', { message });
+    expect(created.status).toBe(201);
+    const { session } = await created.json();
+
+    expect((await owner('GET', `/api/sessions/${session.id}`)).status).toBe(200);
+    expect((await owner('GET', `/api/symptoms/${session.symptomId}`)).status).toBe(200);
+
+    const stranger = client();
+    expect((await stranger('GET', `/api/sessions/${session.id}`)).status).toBe(404);
+    expect((await stranger('GET', `/api/symptoms/${session.symptomId}`)).status).toBe(404);
+    expect((await stranger('POST', `/api/sessions/${session.id}/turns`, { message: 'And chills' })).status).toBe(404);
+    expect((await stranger('POST', `/api/symptoms/${session.symptomId}/feedback`, { feedbackRating: 4 })).status).toBe(404);
+  });
+
+  it('is not given to a signed-in user', async () => {
+    const owner = client();
+    const { session } = await (await owner('POST', '/api/sessions', { message })).json();
+
+    const other = client();
+    await other('POST', '/api/auth/register', { username: `reader${Date.now()}`, password: 'password123' });
+    expect((await other('GET', `/api/symptoms/${session.symptomId}`)).status).toBe(404);
+  });
+});
+
+describe('feedback', () => {
+  it('is stored against the analysis when it says anything', async () => {
+    const owner = client();
+    const { session } = await (await owner('POST', '/api/sessions', { message: 'Fever and a cough since yesterday' })).json();
+    const path = `/api/symptoms/${session.symptomId}/feedback`;
+
+    expect((await owner('POST', path, {})).status).toBe(400);
+    expect((await owner('POST', path, { feedbackRating: 6 })).status).toBe(400);
+
+    const created = await owner('POST', path, { feedbackRating: 4, correctCondition: ' Influenza ' });
+    expect(created.status).toBe(201);
+    expect(await created.json()).toMatchObject({ symptomId: session.symptomId, feedbackRating: 4, correctCondition: 'Influenza' });
+  });
+});
+
+describe('failed analyses', () => {
+  const description = 'A red itchy rash spreading on my forearm';
+  const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('store neither the image nor the symptom on /api/analyze', async () => {
+    vi.mocked(analyzeSymptomsWithImage).mockRejectedValueOnce(new Error('model unavailable'));
+    const save = vi.spyOn(imageStore, 'save');
+    const before = (await storage.getRecentSymptoms(1000)).length;
+
+    const form = new FormData();
+    form.append('description', description);
+    form.append('age', '34');
+    form.append('gender', 'female');
+    form.append('image', new Blob([png], { type: 'image/png' }), 'rash.png');
+    const response = await fetch(`${baseUrl}/api/analyze`, { method: 'POST', body: form });
+
+    expect(response.status).toBe(500);
+    expect(save).not.toHaveBeenCalled();
+    expect((await storage.getRecentSymptoms(1000)).length).toBe(before);
+  });
+});
@@ -1,34 +1,327 @@
-import type { Express, Request, Response } from "express";
+import { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { pipeline } from "stream/promises";
+import multer from "multer";
 import { storage } from "./storage";
-import { insertSymptomSchema, type SymptomAnalysis } from "@shared/schema";
+import { setupAuth, requireAuth, requireAdmin } from "./auth";
+import {
+  symptomFormSchema,
+  analyzeRequestSchema,
+  insertUserFeedbackSchema,
+  insertMedicalConditionSchema,
+  type InterviewAnswer,
+  type Symptom,
+  type SymptomAnalysis,
+  type SymptomHistoryEntry,
+  type SymptomHistoryPage
+} from "@shared/schema";
+import { toTriageLevel } from "@shared/triage";
 import { z } from "zod";
 import { analyzeSymptoms } from "./services/aiService";
+import { symptomPatient } from "./services/demographics";
+import { recordPrediction, toPredictionPage } from "./services/predictionTelemetry";
+import { termStandardization } from "./services/termStandardization";
+import { knowledgeBase, KnowledgeBase } from "./services/knowledgeBase";
+import { knowledgeBase as analyzerKnowledgeBase } from "./services/knowledge-base";
+import { analyzeSymptomsWithImage, toSymptomAnalysis } from "./services/symptom-analyzer";
+import {
+  formatFromPath,
+  planConditionImport,
+  serializeConditions,
+  toConditionChanges,
+  TRANSFER_FORMATS,
+  type ConditionImportPlan
+} from "./services/knowledgeBaseTransfer";
+import { diffKnowledgeBaseVersions, toVersionSummary } from "./services/knowledgeBaseVersions";
+import {
+  startAnalysisSession,
+  continueAnalysisSession,
+  getAnalysisSessionDetail,
+  serializeSessionTurn
+} from "./services/analysisSessions";
+import {
+  planInterview,
+  toInterviewAnswer,
+  DEFAULT_QUESTION_BUDGET,
+  MAX_QUESTION_BUDGET
+} from "./services/interview";
+import {
+  imageStore,
+  detectImageMimeType,
+  imageMimeTypeFromReference,
+  MAX_IMAGE_SIZE,
+  MAX_IMAGES_PER_UPLOAD,
+  UPLOADS_URL_PREFIX,
+  type StoredImage
+} from "./services/imageStorage";
+
+// What to tell the client when an upload breaks one of its limits
+type UploadErrorMessages = Partial<Record<multer.ErrorCode, string>>;
+
+// Keep uploads in memory so the bytes can be sniffed before anything touches disk
+const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_IMAGE_SIZE,
+    files: MAX_IMAGES_PER_UPLOAD
+  }
+});
+
+const imageUploadMessages: UploadErrorMessages = {
+  LIMIT_FILE_SIZE: `Images must be ${MAX_IMAGE_SIZE / (1024 * 1024)}MB or smaller`,
+  LIMIT_FILE_COUNT: `A maximum of ${MAX_IMAGES_PER_UPLOAD} images can be uploaded at once`,
+  LIMIT_UNEXPECTED_FILE: `A maximum of ${MAX_IMAGES_PER_UPLOAD} images can be uploaded at once`
+};
+
+// Condition files for bulk import are parsed in memory as text
+const conditionFileUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024,
+    files: 1
+  }
+});
+
+const conditionFileUploadMessages: UploadErrorMessages = {
+  LIMIT_FILE_SIZE: "Condition files must be 5MB or smaller"
+};
+
+const transferFormatSchema = z.enum(["json", "csv", "yaml"]);
+const queryFlagSchema = z.enum(["true", "false"]).optional().transform(value => value === "true");
+
+// Options for importing a condition file
+const conditionImportQuerySchema = z.object({
+  format: transferFormatSchema.optional(),
+  dryRun: queryFlagSchema,
+  prune: queryFlagSchema
+});
+
+// Versions to compare; the latest when `to` is omitted
+const versionDiffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1).optional()
+});
+
+const replayRequestSchema = z.object({
+  version: z.number().int().min(1).optional()
+});
+
+// A reply to the pending follow-up question
+const interviewAnswerSchema = z.object({
+  questionId: z.string().min(1),
+  selected: z.array(z.string()).max(10).default([]),
+  unsure: z.boolean().default(false)
+});
+
+// Starts follow-up questions when there is no answer, otherwise answers the pending question
+const interviewRequestSchema = z.object({
+  questionBudget: z.number().int().min(1).max(MAX_QUESTION_BUDGET).optional(),
+  answer: interviewAnswerSchema.optional()
+});
+
+// Opens a chat session with the first message and any uploaded images
+const sessionRequestSchema = z.object({
+  message: z.string().trim().min(10, "Please provide a more detailed description of your symptoms"),
+  patientAge: symptomFormSchema.shape.patientAge,
+  patientGender: symptomFormSchema.shape.patientGender,
+  patientPregnant: symptomFormSchema.shape.patientPregnant,
+  images: z.array(z.string()).max(MAX_IMAGES_PER_UPLOAD).default([]),
+  questionBudget: z.number().int().min(1).max(MAX_QUESTION_BUDGET).optional()
+});
+
+// Continues a chat session with a message, images, an answer, or any mix of them
+const sessionTurnRequestSchema = z.object({
+  message: z.string().trim().min(1).max(2000).optional(),
+  images: z.array(z.string()).max(MAX_IMAGES_PER_UPLOAD).default([]),
+  answer: interviewAnswerSchema.optional()
+}).refine(
+  (turn) => !!turn.message || turn.images.length > 0 || !!turn.answer,
+  { message: "Please add a message, an image or an answer" }
+);
+
+// Pagination parameters for list endpoints
+const paginationQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(50).default(10)
+});
+
+// Most anonymous symptoms one browser session keeps access to, newest kept
+const MAX_SESSION_SYMPTOMS = 100;
+
+/**
+ * Symptoms submitted while signed in are private to that account; anonymous
+ * ones only to the browser session that submitted them, so IDs cannot be
+ * guessed
+ */
+function canAccessSymptom(symptom: Symptom, req: Request): boolean {
+  if (symptom.userId !== null) return symptom.userId === req.user?.id;
+  return req.session.symptomIds?.includes(symptom.id) ?? false;
+}
+
+/**
+ * Give the browser session access to a symptom it submitted anonymously
+ */
+function grantSymptomAccess(symptomId: number, req: Request) {
+  if (req.user) return;
+  req.session.symptomIds = [...(req.session.symptomIds ?? []), symptomId].slice(-MAX_SESSION_SYMPTOMS);
+}
+
+/**
+ * Summarize a stored symptom record for the history list
+ */
+function toHistoryEntry(symptom: Symptom): SymptomHistoryEntry {
+  const topCondition = symptom.analysis?.potentialConditions?.[0];
+  return {
+    id: symptom.id,
+    description: symptom.description,
+    createdAt: symptom.createdAt.toISOString(),
+    topCondition: topCondition && {
+      name: topCondition.name,
+      relevance: topCondition.relevance,
+      score: topCondition.score
+    },
+    urgency: symptom.analysis?.triage
+      ?? (symptom.analysis?.redFlags?.length ? "emergency" : toTriageLevel(topCondition?.urgency)),
+    imageCount: symptom.uploadedImages?.length ?? 0
+  };
+}
+
+/**
+ * Drop the condition caches of both analysis flows after a curator edit so
+ * the next analysis uses the new knowledge base version
+ */
+function invalidateKnowledgeBase() {
+  knowledgeBase.invalidate();
+  analyzerKnowledgeBase.invalidate();
+}
+
+/**
+ * Describe an import plan for the curator; full records are left out
+ */
+function toImportSummary(plan: ConditionImportPlan, dryRun: boolean) {
+  return {
+    dryRun,
+    created: plan.creates.map(record => record.name),
+    updated: plan.updates.map(({ name, changes }) => ({ name, changes })),
+    unchanged: plan.unchanged,
+    deleted: plan.deletes.map(({ name }) => name)
+  };
+}
+
+/**
+ * Postgres rejects a second condition with the same name; MemStorage relies
+ * on the route's own name check
+ */
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === "23505";
+}
+
+/**
+ * Translate a multer failure into the JSON error shape used by the API,
+ * using the upload's own message for a limit when it has one
+ */
+function sendUploadError(err: unknown, res: Response, messages: UploadErrorMessages) {
+  if (err instanceof multer.MulterError) {
+    return res.status(400).json({ message: messages[err.code] ?? err.message });
+  }
+
+  console.error("Error parsing upload:", err);
+  return res.status(500).json({ message: "Failed to process upload" });
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions and /api/auth/* routes; must come before anything that reads req.user
+  setupAuth(app);
+
+  // Serve stored images by their content-addressed references, which never
+  // change, through the image store so any backend can serve them
+  app.get(`${UPLOADS_URL_PREFIX}/:filename`, async (req: Request, res: Response) => {
+    try {
+      const reference = `${UPLOADS_URL_PREFIX}/${req.params.filename}`;
+      const image = await imageStore.getReadStream(reference);
+      if (!image) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+
+      res.type(imageMimeTypeFromReference(reference) ?? "application/octet-stream");
+      res.set("Cache-Control", "public, max-age=31536000, immutable");
+      await pipeline(image, res);
+    } catch (error) {
+      console.error("Error serving image:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to retrieve image" });
+      }
+    }
+  });
+
+  // Upload symptom images endpoint
+  app.post("/api/upload", (req: Request, res: Response) => {
+    imageUpload.array("images", MAX_IMAGES_PER_UPLOAD)(req, res, async (err: unknown) => {
+      if (err) {
+        return sendUploadError(err, res, imageUploadMessages);
+      }
+
+      try {
+        const files = (req.files as Express.Multer.File[] | undefined) || [];
+        if (files.length === 0) {
+          return res.status(400).json({ message: "No images provided" });
+        }
+
+        // Check every file before storing any of them
+        const detected = files.map(file => ({
+          file,
+          mimeType: detectImageMimeType(file.buffer)
+        }));
+        const rejected = detected.filter(d => !d.mimeType);
+        if (rejected.length > 0) {
+          return res.status(415).json({
+            message: "Only JPG, PNG and HEIC images are allowed",
+            rejected: rejected.map(d => d.file.originalname)
+          });
+        }
+
+        const stored: StoredImage[] = [];
+        for (const { file, mimeType } of detected) {
+          stored.push(await imageStore.save(file.buffer, mimeType!));
+        }
+
+        return res.status(201).json({ files: stored });
+      } catch (error) {
+        console.error("Error storing images:", error);
+        return res.status(500).json({ message: "Failed to store images" });
+      }
+    });
+  });
+
   // Submit symptom data endpoint
   app.post("/api/symptoms", async (req: Request, res: Response) => {
     try {
       // Validate the incoming data
-      const validatedData = insertSymptomSchema.parse(req.body);
+      const validatedData = symptomFormSchema.parse(req.body);
       
-      // Create the symptom record
-      const symptom = await storage.createSymptom(validatedData);
+      // Only keep references to images that went through the upload endpoint
+      const uploadedImages = (validatedData.uploadedImages || [])
+        .filter(ref => imageStore.isStoredReference(ref));
       
       // Perform analysis using our multimodal AI and knowledge base services
-      const analysis = await analyzeSymptoms({
+      const run = await analyzeSymptoms({
         description: validatedData.description,
         duration: validatedData.duration || undefined,
         severity: validatedData.severity || undefined,
         bodyLocation: validatedData.bodyLocation || undefined,
-        images: validatedData.uploadedImages ? 
-          Array.isArray(validatedData.uploadedImages) ? 
-            validatedData.uploadedImages : [validatedData.uploadedImages]
-          : []
+        images: uploadedImages,
+        patient: symptomPatient(validatedData)
       });
+      const analysis: SymptomAnalysis = { ...run.analysis, describedImages: run.describedImages };
       
-      // Update the stored symptom with the analysis
+      // Only store the submission once it has been analyzed, as for /api/analyze
+      const symptom = await storage.createSymptom({ ...validatedData, uploadedImages }, req.user?.id);
+      grantSymptomAccess(symptom.id, req);
       await storage.updateSymptomAnalysis(symptom.id, analysis);
+      await recordPrediction(symptom.id, run);
       
       // Return the analysis
       return res.status(200).json(analysis);
@@ -45,6 +338,81 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Multimodal analysis endpoint used by the stepper flow on the home page
+  app.post("/api/analyze", (req: Request, res: Response) => {
+    imageUpload.single("image")(req, res, async (err: unknown) => {
+      if (err) {
+        return sendUploadError(err, res, imageUploadMessages);
+      }
+
+      let tempDir: string | undefined;
+      try {
+        const validatedData = analyzeRequestSchema.parse(req.body);
+
+        let imagePath: string | undefined;
+        const mimeType = req.file && detectImageMimeType(req.file.buffer);
+
+        if (req.file) {
+          if (!mimeType) {
+            return res.status(415).json({ message: "Only JPG, PNG and HEIC images are allowed" });
+          }
+
+          // Hand the encoder a temporary file it can read regardless of the
+          // storage backend; the durable copy is only kept once analyzed
+          tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "symptolens-"));
+          imagePath = path.join(tempDir, "image");
+          await fs.writeFile(imagePath, req.file.buffer);
+        }
+
+        const input = {
+          textSymptoms: validatedData.description,
+          imagePath,
+          imageDescription: validatedData.imageDescription,
+          patientAge: validatedData.age,
+          patientGender: validatedData.gender,
+          patientPregnant: validatedData.pregnant
+        };
+        const { telemetry, ...results } = await analyzeSymptomsWithImage(input);
+
+        // Only store the submission and its image once it has been analyzed,
+        // so a failed analysis leaves no empty record in the history and no
+        // image without one
+        const uploadedImages = req.file && mimeType
+          ? [(await imageStore.save(req.file.buffer, mimeType)).path]
+          : [];
+        const symptom = await storage.createSymptom({
+          description: validatedData.description,
+          patientAge: validatedData.age,
+          patientGender: validatedData.gender,
+          patientPregnant: validatedData.pregnant,
+          uploadedImages
+        }, req.user?.id);
+        grantSymptomAccess(symptom.id, req);
+        const analysis = toSymptomAnalysis(results, input);
+        await storage.updateSymptomAnalysis(symptom.id, analysis);
+        if (telemetry) {
+          await recordPrediction(symptom.id, { analysis, telemetry });
+        }
+
+        return res.status(200).json({ ...results, symptomId: symptom.id });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            message: "Invalid input data",
+            errors: error.errors
+          });
+        }
+
+        console.error("Error analyzing symptoms:", error);
+        return res.status(500).json({ message: "Failed to analyze symptoms" });
+      } finally {
+        if (tempDir) {
+          await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+        }
+      }
+    });
+  });
+
   // Get symptom by id
   app.get("/api/symptoms/:id", async (req: Request, res: Response) => {
     try {
@@ -54,7 +422,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const symptom = await storage.getSymptom(id);
-      if (!symptom) {
+      if (!symptom || !canAccessSymptom(symptom, req)) {
         return res.status(404).json({ message: "Symptom not found" });
       }
       
@@ -65,6 +433,663 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Submit feedback on the accuracy of an analysis
+  app.post("/api/symptoms/:id/feedback", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid symptom ID" });
+      }
+
+      const validatedData = insertUserFeedbackSchema.parse(req.body);
+
+      const symptom = await storage.getSymptom(id);
+      if (!symptom || !canAccessSymptom(symptom, req)) {
+        return res.status(404).json({ message: "Symptom not found" });
+      }
+
+      const feedback = await storage.createUserFeedback(id, validatedData, req.user?.id);
+      return res.status(201).json(feedback);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid feedback",
+          errors: error.errors
+        });
+      }
+
+      console.error("Error saving feedback:", error);
+      return res.status(500).json({ message: "Failed to save feedback" });
+    }
+  });
+
+  // Follow-up questions for a stored analysis. Each answer re-scores the
+  // analysis; the response is the updated analysis with the next question
+  app.post("/api/symptoms/:id/interview", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid symptom ID" });
+      }
+
+      const { questionBudget, answer } = interviewRequestSchema.parse(req.body ?? {});
+
+      const symptom = await storage.getSymptom(id);
+      if (!symptom || !canAccessSymptom(symptom, req)) {
+        return res.status(404).json({ message: "Symptom not found" });
+      }
+      if (!symptom.analysis) {
+        return res.status(409).json({ message: "The symptom has not been analyzed yet" });
+      }
+
+      const interview = symptom.analysis.interview;
+      if (!answer) {
+        // Starting twice returns the interview already under way
+        if (interview) {
+          return res.status(200).json(symptom.analysis);
+        }
+        const analysis: SymptomAnalysis = {
+          ...symptom.analysis,
+          interview: await planInterview(symptom.analysis, {
+            answers: [],
+            questionBudget: questionBudget ?? DEFAULT_QUESTION_BUDGET,
+            rankings: []
+          })
+        };
+        await storage.updateSymptomAnalysis(id, analysis);
+        return res.status(200).json(analysis);
+      }
+
+      if (!interview?.question || interview.question.id !== answer.questionId) {
+        return res.status(409).json({ message: "That question is not waiting for an answer" });
+      }
+      const recorded = toInterviewAnswer(interview.question, answer.selected, answer.unsure);
+      if (!recorded) {
+        return res.status(400).json({ message: "Selected findings must come from the question" });
+      }
+
+      const answers = [...interview.answers, recorded];
+      const run = await analyzeSymptoms({
+        description: symptom.description,
+        duration: symptom.duration || undefined,
+        severity: symptom.severity || undefined,
+        bodyLocation: symptom.bodyLocation || undefined,
+        images: symptom.uploadedImages || [],
+        answers,
+        describedImages: symptom.analysis.describedImages,
+        patient: symptomPatient(symptom)
+      });
+      const analysis: SymptomAnalysis = {
+        ...run.analysis,
+        describedImages: run.describedImages ?? symptom.analysis.describedImages,
+        interview: await planInterview(run.analysis, { ...interview, answers })
+      };
+      await storage.updateSymptomAnalysis(id, analysis);
+      await recordPrediction(id, run);
+
+      return res.status(200).json(analysis);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid interview request",
+          errors: error.errors
+        });
+      }
+
+      console.error("Error continuing interview:", error);
+      return res.status(500).json({ message: "Failed to continue the interview" });
+    }
+  });
+
+  // Open a chat-style analysis session. Once analyzed, the first message
+  // becomes a symptom record that later turns add to; the response is the
+  // session with its turns
+  app.post("/api/sessions", async (req: Request, res: Response) => {
+    try {
+      const { message, images, questionBudget, ...patient } = sessionRequestSchema.parse(req.body);
+
+      // Only keep references to images that went through the upload endpoint
+      const detail = await startAnalysisSession({
+        description: message,
+        ...patient,
+        uploadedImages: images.filter(ref => imageStore.isStoredReference(ref))
+      }, req.user?.id, questionBudget);
+      grantSymptomAccess(detail.session.symptomId, req);
+
+      return res.status(201).json(detail);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid session request",
+          errors: error.errors
+        });
+      }
+
+      console.error("Error starting analysis session:", error);
+      return res.status(500).json({ message: "Failed to start the session" });
+    }
+  });
+
+  // Get a session with its turns and latest analysis
+  app.get("/api/sessions/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid session ID" });
+      }
+
+      // Sessions are as private as the symptom record they build up
+      const session = await storage.getAnalysisSession(id);
+      const symptom = session && await storage.getSymptom(session.symptomId);
+      if (!session || !symptom || !canAccessSymptom(symptom, req)) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      return res.status(200).json(await getAnalysisSessionDetail(session, symptom));
+    } catch (error) {
+      console.error("Error fetching analysis session:", error);
+      return res.status(500).json({ message: "Failed to retrieve session" });
+    }
+  });
+
+  // Add a turn to a session. The analysis is re-run over everything the
+  // session has gathered, and the new turn records how the differential moved
+  app.post("/api/sessions/:id/turns", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid session ID" });
+      }
+
+      const { message, images, answer } = sessionTurnRequestSchema.parse(req.body ?? {});
+
+      // One turn at a time per session, each reading what the last one stored
+      return await serializeSessionTurn(id, async () => {
+        const session = await storage.getAnalysisSession(id);
+        const symptom = session && await storage.getSymptom(session.symptomId);
+        if (!session || !symptom || !canAccessSymptom(symptom, req)) {
+          return res.status(404).json({ message: "Session not found" });
+        }
+
+        let recorded: InterviewAnswer | undefined;
+        if (answer) {
+          const question = symptom.analysis?.interview?.question;
+          if (!question || question.id !== answer.questionId) {
+            return res.status(409).json({ message: "That question is not waiting for an answer" });
+          }
+          recorded = toInterviewAnswer(question, answer.selected, answer.unsure);
+          if (!recorded) {
+            return res.status(400).json({ message: "Selected findings must come from the question" });
+          }
+        }
+
+        const detail = await continueAnalysisSession(session, symptom, {
+          message,
+          images: images.filter(ref => imageStore.isStoredReference(ref)),
+          answer: recorded
+        });
+        return res.status(200).json(detail);
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid session turn",
+          errors: error.errors
+        });
+      }
+
+      console.error("Error continuing analysis session:", error);
+      return res.status(500).json({ message: "Failed to continue the session" });
+    }
+  });
+
+  // List the signed-in user's past analyses, newest first
+  app.get("/api/history", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { page, pageSize } = paginationQuerySchema.parse(req.query);
+      const userId = req.user!.id;
+
+      const [symptoms, total] = await Promise.all([
+        storage.getUserSymptoms(userId, pageSize, (page - 1) * pageSize),
+        storage.countUserSymptoms(userId)
+      ]);
+
+      const result: SymptomHistoryPage = {
+        items: symptoms.map(toHistoryEntry),
+        page,
+        pageSize,
+        total
+      };
+      return res.status(200).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid pagination parameters",
+          errors: error.errors
+        });
+      }
+
+      console.error("Error fetching history:", error);
+      return res.status(500).json({ message: "Failed to retrieve history" });
+    }
+  });
+
+  // Get one of the signed-in user's past analyses
+  app.get("/api/history/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid symptom ID" });
+      }
+
+      const symptom = await storage.getSymptom(id);
+      if (!symptom || symptom.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Analysis not found" });
+      }
+
+      return res.status(200).json(symptom);
+    } catch (error) {
+      console.error("Error fetching history entry:", error);
+      return res.status(500).json({ message: "Failed to retrieve analysis" });
+    }
+  });
+
+  // Delete one of the signed-in user's past analyses
+  app.delete("/api/history/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid symptom ID" });
+      }
+
+      const symptom = await storage.getSymptom(id);
+      if (!symptom || symptom.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Analysis not found" });
+      }
+
+      await storage.deleteSymptom(id);
+      return res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting history entry:", error);
+      return res.status(500).json({ message: "Failed to delete analysis" });
+    }
+  });
+
+  // Recorded model telemetry, newest first, with how the KB changed each LLM ranking
+  app.get("/api/admin/predictions", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const { page, pageSize } = paginationQuerySchema.parse(req.query);
+
+      const [records, total] = await Promise.all([
+        storage.getAiPredictions(pageSize, (page - 1) * pageSize),
+        storage.countAiPredictions()
+      ]);
+
+      return res.status(200).json(toPredictionPage(records, page, pageSize, total));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid pagination parameters",
+          errors: error.errors
+        });
+      }
+
+      console.error("Error fetching predictions:", error);
+      return res.status(500).json({ message: "Failed to retrieve predictions" });
+    }
+  });
+
+  // Lexicon version and the symptom terms it failed to recognize since startup
+  app.get("/api/admin/lexicon/misses", requireAdmin, (req: Request, res: Response) => {
+    const concepts = termStandardization.getConcepts();
+    return res.status(200).json({
+      version: termStandardization.version,
+      conceptCount: concepts.length,
+      misses: termStandardization.getMisses()
+    });
+  });
+
+  // Knowledge base conditions, for curators
+  app.get("/api/admin/conditions", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const conditions = await storage.getAllMedicalConditions();
+      return res.status(200).json(conditions.sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (error) {
+      console.error("Error fetching conditions:", error);
+      return res.status(500).json({ message: "Failed to retrieve conditions" });
+    }
+  });
+
+  // Every condition as a JSON, CSV or YAML file
+  app.get("/api/admin/conditions/export", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const format = transferFormatSchema.default("json").parse(req.query.format);
+      const conditions = await storage.getAllMedicalConditions();
+
+      res.setHeader("Content-Type", `${TRANSFER_FORMATS[format].contentType}; charset=utf-8`);
+      res.setHeader("Content-Disposition", `attachment; filename="conditions.${TRANSFER_FORMATS[format].extension}"`);
+      return res.status(200).send(serializeConditions(conditions, format));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Format must be json, csv or yaml" });
+      }
+
+      console.error("Error exporting conditions:", error);
+      return res.status(500).json({ message: "Failed to export conditions" });
+    }
+  });
+
+  // Create or update conditions by name from an uploaded file. Nothing is
+  // written when any row is invalid, or at all with ?dryRun=true.
+  app.post("/api/admin/conditions/import", requireAdmin, (req: Request, res: Response) => {
+    conditionFileUpload.single("file")(req, res, async (err: unknown) => {
+      if (err) {
+        return sendUploadError(err, res, conditionFileUploadMessages);
+      }
+
+      try {
+        const options = conditionImportQuerySchema.parse(req.query);
+        if (!req.file) {
+          return res.status(400).json({ message: "No condition file provided" });
+        }
+
+        let plan: ConditionImportPlan;
+        try {
+          const format = options.format ?? formatFromPath(req.file.originalname);
+          plan = planConditionImport(
+            req.file.buffer.toString("utf8"),
+            format,
+            await storage.getAllMedicalConditions(),
+            { prune: options.prune }
+          );
+        } catch (error) {
+          return res.status(400).json({ message: error instanceof Error ? error.message : "Invalid condition file" });
+        }
+
+        if (plan.errors.length > 0) {
+          return res.status(400).json({
+            message: `${plan.errors.length} invalid row(s); nothing was imported`,
+            errors: plan.errors,
+            ...toImportSummary(plan, true)
+          });
+        }
+
+        if (!options.dryRun && plan.creates.length + plan.updates.length + plan.deletes.length > 0) {
+          // All or nothing: a failure part way leaves the knowledge base as it was
+          const applied = await storage.applyConditionChanges(
+            toConditionChanges(plan),
+            `Imported ${req.file.originalname}: ${plan.creates.length} created, ${plan.updates.length} updated, ${plan.deletes.length} deleted`,
+            req.user?.id
+          );
+          if (!applied) {
+            return res.status(409).json({ message: "The conditions changed during the import; nothing was imported" });
+          }
+          invalidateKnowledgeBase();
+        }
+
+        return res.status(200).json(toImportSummary(plan, options.dryRun));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            message: "Invalid import options",
+            errors: error.errors
+          });
+        }
+
+        if (isUniqueViolation(error)) {
+          return res.status(409).json({ message: "A condition in the file was created by someone else meanwhile; nothing was imported" });
+        }
+
+        console.error("Error importing conditions:", error);
+        return res.status(500).json({ message: "Failed to import conditions" });
+      }
+    });
+  });
+
+  app.get("/api/admin/conditions/:id", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid condition ID" });
+      }
+
+      const condition = await storage.getMedicalCondition(id);
+      if (!condition) {
+        return res.status(404).json({ message: "Condition not found" });
+      }
+
+      return res.status(200).json(condition);
+    } catch (error) {
+      console.error("Error fetching condition:", error);
+      return res.status(500).json({ message: "Failed to retrieve condition" });
+    }
+  });
+
+  app.post("/api/admin/conditions", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const validatedData = insertMedicalConditionSchema.parse(req.body);
+
+      if (await storage.getMedicalConditionByName(validatedData.name)) {
+        return res.status(409).json({ message: `A condition named "${validatedData.name}" already exists` });
+      }
+
+      const applied = await storage.applyConditionChanges(
+        { creates: [validatedData] },
+        `Created ${validatedData.name}`,
+        req.user?.id
+      );
+      // Only updates and deletes can miss their target
+      if (!applied) {
+        throw new Error(`Creating ${validatedData.name} was not applied`);
+      }
+
+      invalidateKnowledgeBase();
+      return res.status(201).json(applied.created[0]);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid condition",
+          errors: error.errors
+        });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "A condition with that name already exists" });
+      }
+
+      console.error("Error creating condition:", error);
+      return res.status(500).json({ message: "Failed to create condition" });
+    }
+  });
+
+  app.patch("/api/admin/conditions/:id", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid condition ID" });
+      }
+
+      const validatedData = insertMedicalConditionSchema.partial().parse(req.body);
+
+      if (validatedData.name) {
+        const existing = await storage.getMedicalConditionByName(validatedData.name);
+        if (existing && existing.id !== id) {
+          return res.status(409).json({ message: `A condition named "${validatedData.name}" already exists` });
+        }
+      }
+
+      const existing = await storage.getMedicalCondition(id);
+      const applied = existing && await storage.applyConditionChanges(
+        { updates: [{ id, changes: validatedData }] },
+        `Updated ${validatedData.name ?? existing.name}`,
+        req.user?.id
+      );
+      if (!applied) {
+        return res.status(404).json({ message: "Condition not found" });
+      }
+
+      invalidateKnowledgeBase();
+      return res.status(200).json(applied.updated[0]);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid condition",
+          errors: error.errors
+        });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "A condition with that name already exists" });
+      }
+
+      console.error("Error updating condition:", error);
+      return res.status(500).json({ message: "Failed to update condition" });
+    }
+  });
+
+  app.delete("/api/admin/conditions/:id", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid condition ID" });
+      }
+
+      const condition = await storage.getMedicalCondition(id);
+      const applied = condition && await storage.applyConditionChanges(
+        { deletes: [id] },
+        `Deleted ${condition.name}`,
+        req.user?.id
+      );
+      if (!applied) {
+        return res.status(404).json({ message: "Condition not found" });
+      }
+
+      invalidateKnowledgeBase();
+      return res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting condition:", error);
+      return res.status(500).json({ message: "Failed to delete condition" });
+    }
+  });
+
+  // Knowledge base versions, newest first
+  app.get("/api/admin/knowledge-base/versions", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const { page, pageSize } = paginationQuerySchema.parse(req.query);
+
+      const [records, total] = await Promise.all([
+        storage.getKnowledgeBaseVersions(pageSize, (page - 1) * pageSize),
+        storage.countKnowledgeBaseVersions()
+      ]);
+
+      return res.status(200).json({ items: records.map(toVersionSummary), page, pageSize, total });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid pagination parameters",
+          errors: error.errors
+        });
+      }
+
+      console.error("Error fetching knowledge base versions:", error);
+      return res.status(500).json({ message: "Failed to retrieve knowledge base versions" });
+    }
+  });
+
+  // What changed between two versions; `to` defaults to the latest
+  app.get("/api/admin/knowledge-base/diff", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const { from, to } = versionDiffQuerySchema.parse(req.query);
+
+      const [before, after] = await Promise.all([
+        storage.getKnowledgeBaseVersion(from),
+        storage.getKnowledgeBaseVersion(to)
+      ]);
+      if (!before || !after) {
+        return res.status(404).json({ message: "Knowledge base version not found" });
+      }
+
+      return res.status(200).json(diffKnowledgeBaseVersions(before, after));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid versions",
+          errors: error.errors
+        });
+      }
+
+      console.error("Error comparing knowledge base versions:", error);
+      return res.status(500).json({ message: "Failed to compare knowledge base versions" });
+    }
+  });
+
+  // One version with the full conditions it contained
+  app.get("/api/admin/knowledge-base/versions/:version", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const version = parseInt(req.params.version);
+      if (isNaN(version)) {
+        return res.status(400).json({ message: "Invalid knowledge base version" });
+      }
+
+      const record = await storage.getKnowledgeBaseVersion(version);
+      if (!record) {
+        return res.status(404).json({ message: "Knowledge base version not found" });
+      }
+
+      return res.status(200).json(record);
+    } catch (error) {
+      console.error("Error fetching knowledge base version:", error);
+      return res.status(500).json({ message: "Failed to retrieve knowledge base version" });
+    }
+  });
+
+  // Re-run a stored analysis against the knowledge base version it recorded,
+  // or another version, without changing the stored result
+  app.post("/api/admin/symptoms/:id/replay", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid symptom ID" });
+      }
+
+      const symptom = await storage.getSymptom(id);
+      if (!symptom) {
+        return res.status(404).json({ message: "Symptom not found" });
+      }
+
+      const { version: requested } = replayRequestSchema.parse(req.body ?? {});
+      const version = requested ?? symptom.analysis?.knowledgeBase?.version;
+      if (version == null) {
+        return res.status(400).json({ message: "The analysis has no recorded knowledge base version; specify one" });
+      }
+
+      const pinned = await KnowledgeBase.forVersion(version);
+      if (!pinned) {
+        return res.status(404).json({ message: "Knowledge base version not found" });
+      }
+
+      const run = await analyzeSymptoms({
+        description: symptom.description,
+        duration: symptom.duration || undefined,
+        severity: symptom.severity || undefined,
+        bodyLocation: symptom.bodyLocation || undefined,
+        images: symptom.uploadedImages || [],
+        answers: symptom.analysis?.interview?.answers,
+        patient: symptomPatient(symptom)
+      }, pinned);
+
+      return res.status(200).json({ symptomId: id, version, original: symptom.analysis, replay: run.analysis });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid replay request",
+          errors: error.errors
+        });
+      }
+
+      console.error("Error replaying analysis:", error);
+      return res.status(500).json({ message: "Failed to replay analysis" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
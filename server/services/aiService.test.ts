@@ -0,0 +1,115 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { LLMProvider } from './llm';
+import { KnowledgeBase } from './knowledgeBase';
+import { StubProvider } from './llm/stubProvider';
+
+// The analysis answers from stub fixtures in place of the configured provider
+const state = vi.hoisted(() => ({ provider: undefined as unknown as LLMProvider }));
+
+vi.mock('./llm', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./llm')>(),
+  get llmProvider() { return state.provider; }
+}));
+
+const { analyzeSymptoms } = await import('./aiService');
+
+const temporaryDirs: string[] = [];
+
+async function fixturesDir(fixtures: Record<string, unknown>): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'stub-fixtures-'));
+  temporaryDirs.push(dir);
+  for (const [file, fixture] of Object.entries(fixtures)) {
+    await fs.writeFile(path.join(dir, file), JSON.stringify(fixture));
+  }
+  return dir;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  state.provider = new StubProvider();
+});
+
+afterAll(async () => {
+  await Promise.all(temporaryDirs.map(dir => fs.rm(dir, { recursive: true, force: true })));
+});
+
+describe('analyzeSymptoms with the stub provider', () => {
+  it('ranks the conditions of the fixture matching the description', async () => {
+    const { analysis, telemetry } = await analyzeSymptoms({ description: 'I have a fever and a cough with chills' });
+
+    expect(telemetry.rawPredictions.map(p => p.name)).toEqual(['Influenza', 'Pneumonia', 'COVID-19']);
+    expect(analysis.potentialConditions[0].name).toBe('Influenza');
+    expect(analysis.nextSteps.map(step => step.title)).toContain('Self-care recommendations');
+    expect(analysis.issues).toEqual([]);
+    expect(analysis.knowledgeBase?.version).toBeGreaterThan(0);
+  });
+
+  it('answers from the fallback fixture when no fixture matches', async () => {
+    const { telemetry } = await analyzeSymptoms({ description: 'My toe has felt odd since Monday' });
+
+    expect(telemetry.rawPredictions.map(p => p.name)).toEqual(['Common Cold']);
+  });
+
+  it('repairs malformed output with the fixture\'s repair', async () => {
+    const { analysis, telemetry } = await analyzeSymptoms({ description: 'A throbbing headache and light hurts my eyes' });
+
+    expect(telemetry.rawPredictions.find(p => p.name === 'Migraine')?.score).toBe(0.75);
+    // The repaired list still holds one item without a name, which is dropped
+    expect(analysis.issues).toContainEqual(expect.objectContaining({ stage: 'conditions', reason: 'invalid_items', attempts: 2 }));
+  });
+
+  it('reports malformed output that cannot be repaired and keeps the knowledge base results', async () => {
+    state.provider = new StubProvider(await fixturesDir({
+      'malformed.json': { conditions: 'Possibly the flu, but see a doctor.' }
+    }));
+
+    const { analysis, telemetry } = await analyzeSymptoms({ description: 'fever, cough and body aches' });
+
+    expect(telemetry.rawPredictions).toEqual([]);
+    expect(analysis.issues).toContainEqual(expect.objectContaining({ stage: 'conditions', reason: 'invalid_json', attempts: 2 }));
+    expect(analysis.potentialConditions.map(condition => condition.name)).toContain('Influenza');
+  });
+});
+
+describe('analyzeSymptoms demographics', () => {
+  it('drops conditions the patient\'s age rules out, even when the LLM suggests them', async () => {
+    const knowledgeBase = new KnowledgeBase();
+    const getConditionByName = knowledgeBase.getConditionByName.bind(knowledgeBase);
+    vi.spyOn(knowledgeBase, 'getConditionByName').mockImplementation(async name => {
+      const condition = await getConditionByName(name);
+      // Influenza as if it only affected children
+      return condition?.name === 'Influenza' ? { ...condition, demographics: { minAge: 0, maxAge: 17 } } : condition;
+    });
+    const description = 'I have a fever and a cough with chills';
+
+    const child = await analyzeSymptoms({ description, patient: { age: 8 } }, knowledgeBase);
+    const adult = await analyzeSymptoms({ description, patient: { age: 40 } }, knowledgeBase);
+
+    expect(child.analysis.potentialConditions.map(condition => condition.name)).toContain('Influenza');
+    expect(adult.telemetry.rawPredictions.map(prediction => prediction.name)).toContain('Influenza');
+    expect(adult.analysis.potentialConditions.map(condition => condition.name)).not.toContain('Influenza');
+  });
+});
+
+describe('analyzeSymptoms provenance', () => {
+  it('records the knowledge base version on emergency advice', async () => {
+    const { analysis } = await analyzeSymptoms({ description: 'Crushing chest pain and I am struggling to breathe' });
+
+    expect(analysis.redFlags?.length).toBeGreaterThan(0);
+    expect(analysis.knowledgeBase?.version).toBeGreaterThan(0);
+  });
+
+  it('records the knowledge base version when the analysis falls back', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const knowledgeBase = new KnowledgeBase();
+    vi.spyOn(knowledgeBase, 'scoreCondition').mockRejectedValue(new Error('scoring failed'));
+
+    const { analysis } = await analyzeSymptoms({ description: 'I have a fever and a cough with chills' }, knowledgeBase);
+
+    expect(analysis.potentialConditions.map(condition => condition.name)).toEqual(['General Health Concern']);
+    expect(analysis.knowledgeBase?.version).toBeGreaterThan(0);
+  });
+});
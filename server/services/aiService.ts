@@ -1,11 +1,22 @@
-import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from "@google/generative-ai";
-import { SymptomAnalysis, PotentialCondition, NextStep } from "@shared/schema";
-import { knowledgeBase } from './knowledgeBase';
-
-// Initialize Gemini AI client
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
-// The model to use - Gemini-1.5-pro is their most capable model
-const MODEL_NAME = "gemini-1.5-pro";
+import { performance } from "perf_hooks";
+import { SymptomAnalysis, PotentialCondition, NextStep, PredictionStageTimings, AnalysisIssue, RedFlag, TriageLevel, InterviewAnswer, SymptomFinding, DescribedImages, KnowledgeBaseProvenance } from "@shared/schema";
+import { knowledgeBase as defaultKnowledgeBase, type KnowledgeBase } from './knowledgeBase';
+import { groundPredictions } from './conditionGrounding';
+import { codeSymptoms, toClinicalCodes } from './clinicalCodes';
+import { fuseScores, fusionConfig, relevanceFromProbability, type ConditionEvidence } from './scoreFusion';
+import { llmProvider, type LLMImage } from './llm';
+import {
+  requestStructuredList,
+  conditionListSpec,
+  nextStepListSpec,
+  DEFAULT_MAX_ATTEMPTS
+} from './llm/structuredOutput';
+import { imageStore, detectImageMimeType } from './imageStorage';
+import { extractFindings, findingsToFactors, negatedFactors } from './nlp';
+import { detectRedFlags, redFlagSummary } from './redFlags';
+import { recommendCareSetting } from './careSetting';
+import { answerFindings, describeAnswers } from './interview';
+import type { PatientDemographics } from './demographics';
 
 // Define the input structure
 interface AnalysisInput {
@@ -14,253 +25,240 @@ interface AnalysisInput {
   severity?: string;
   bodyLocation?: string;
   images?: string[];
+  answers?: InterviewAnswer[]; // follow-up answers, see interview.ts
+  describedImages?: DescribedImages; // photos described by an earlier run, not sent again
+  patient?: PatientDemographics; // checked against each condition's demographics
+}
+
+// Total tries per structured LLM call, including repair attempts
+const LLM_MAX_ATTEMPTS = parseInt(process.env.LLM_MAX_ATTEMPTS || '') || DEFAULT_MAX_ATTEMPTS;
+
+type ScoredPrediction = { name: string, score: number };
+
+// Intermediate outputs of one analysis, persisted to ai_predictions
+export interface AnalysisTelemetry {
+  rawPredictions: ScoredPrediction[];
+  kbPredictions: ScoredPrediction[];
+  mergedPredictions: ScoredPrediction[];
+  // Per-candidate inputs to score fusion, used to fit calibration offline
+  fusionEvidence: ConditionEvidence[];
+  timings: PredictionStageTimings;
+}
+
+export interface AnalysisRun {
+  analysis: SymptomAnalysis;
+  telemetry: AnalysisTelemetry;
+  // Every photo described so far, to pass back in when the input grows.
+  // Unset when the photos were not looked at.
+  describedImages?: DescribedImages;
 }
 
 /**
- * Extract symptom keywords from a text description
+ * Reduce a prediction list to the name/score pairs stored for telemetry
  */
-function extractSymptoms(description: string): string[] {
-  const commonSymptoms = [
-    'pain', 'ache', 'fever', 'cough', 'fatigue', 'nausea',
-    'headache', 'dizziness', 'weakness', 'swelling'
-  ];
-  
-  return description.toLowerCase()
-    .split(/[.,\s]+/)
-    .filter(word => commonSymptoms.some(s => word.includes(s)));
+function toScoredPredictions(predictions: PotentialCondition[]): ScoredPrediction[] {
+  return predictions.map(p => ({ name: p.name, score: p.score ?? 0 }));
 }
 
 /**
- * Determine the urgency level of a condition based on symptoms and score
+ * Milliseconds elapsed since a performance.now() reading
  */
-function determineUrgency(condition: any, score: number): string {
-  const severeSymptoms = ['severe pain', 'difficulty breathing', 'chest pain', 'unconscious'];
-  const hasSevereSymptoms = severeSymptoms.some(s => 
-    condition.symptoms?.some((cs: string) => cs.toLowerCase().includes(s))
-  );
-  
-  if (hasSevereSymptoms && score > 0.6) return 'high';
-  if (score > 0.7) return 'medium';
-  return 'low';
+function elapsedSince(start: number): number {
+  return Math.round(performance.now() - start);
 }
 
 /**
- * Get default next steps when other methods fail
+ * Findings from the description followed by those from any follow-up answers
  */
-function getDefaultNextSteps(): NextStep[] {
-  return [
-    {
-      type: 'consult',
-      title: 'Consult Healthcare Provider',
-      description: 'Since we cannot make a confident prediction, please consult a qualified healthcare provider.',
-      suggestions: [
-        'Schedule an appointment with your primary care physician',
-        'Document your symptoms and their duration',
-        'Note any factors that worsen or improve the symptoms'
-      ]
-    },
-    {
-      type: 'general',
-      title: 'General Self-Care',
-      description: 'While waiting to see a healthcare provider, consider these general measures:',
-      suggestions: [
-        'Rest and avoid strenuous activities',
-        'Stay hydrated by drinking plenty of fluids',
-        'Monitor your symptoms and note any changes'
-      ]
-    }
-  ];
+function reportedFindings(input: AnalysisInput): SymptomFinding[] {
+  return [...extractFindings(input.description), ...answerFindings(input.answers ?? [])];
 }
 
 /**
- * Get default next steps with urgency-specific recommendations
+ * Symptoms the user reports having, as knowledge base terms. Negated mentions
+ * ("no fever") are dropped; see server/services/nlp for the extraction rules.
  */
-function getDefaultNextStepsWithUrgency(urgency: string): NextStep[] {
-  // Generate consultation suggestions based on urgency
-  const consultSuggestions = {
-    high: [
-      'Seek immediate medical attention or go to the nearest emergency room',
-      'If applicable, call emergency services',
-      'Have someone accompany you if possible'
-    ],
-    medium: [
-      'Schedule an appointment with your healthcare provider within the next few days',
-      'Prepare a list of your symptoms, their onset, and evolution',
-      'Bring a list of any medications you are currently taking'
-    ],
-    low: [
-      'Schedule a routine appointment with your healthcare provider',
-      'Keep a symptom journal to track changes',
-      'Prepare questions about your symptoms to ask during your appointment'
-    ]
-  };
-  
-  // Use the appropriate suggestions based on urgency
-  const urgencyLevel = urgency === 'high' ? 'high' : urgency === 'medium' ? 'medium' : 'low';
-  
-  return [
-    {
-      type: 'consult',
-      title: 'Consult with a healthcare professional',
-      description: urgencyLevel === 'high' 
-        ? 'Seek immediate medical attention' 
-        : 'Schedule an appointment with your healthcare provider',
-      suggestions: consultSuggestions[urgencyLevel as keyof typeof consultSuggestions]
-    },
-    {
-      type: 'general',
-      title: 'General self-care recommendations',
-      description: 'While waiting for professional consultation, consider these general self-care measures:',
-      suggestions: [
-        'Rest and avoid strenuous activities',
-        'Stay hydrated by drinking plenty of fluids',
-        'Monitor your symptoms and note any changes',
-        'Avoid self-medication without professional guidance'
-      ]
-    }
-  ];
+function extractSymptoms(input: AnalysisInput): string[] {
+  return findingsToFactors(reportedFindings(input));
 }
 
+/**
+ * Symptoms the user says they do not have, as knowledge base terms
+ */
+function extractAbsentSymptoms(input: AnalysisInput): string[] {
+  return negatedFactors(reportedFindings(input));
+}
+
+// Self-care advice shown alongside the care setting when the LLM offers none
+const GENERAL_SELF_CARE_STEP: NextStep = {
+  type: 'general',
+  title: 'General self-care recommendations',
+  description: 'While waiting for professional consultation, consider these general self-care measures:',
+  suggestions: [
+    'Rest and avoid strenuous activities',
+    'Stay hydrated by drinking plenty of fluids',
+    'Monitor your symptoms and note any changes',
+    'Avoid self-medication without professional guidance'
+  ]
+};
+
 /**
  * Get default response when analysis fails
  */
 function getDefaultResponse(input: AnalysisInput): SymptomAnalysis {
+  const careSetting = recommendCareSetting([]);
   return {
     potentialConditions: [{
       name: "General Health Concern",
       description: "Unable to determine specific condition. Please consult a healthcare provider.",
       relevance: "medium",
-      symptoms: extractSymptoms(input.description),
+      symptoms: extractSymptoms(input),
       score: 0.5,
-      urgency: "medium",
+      urgency: "primary_care",
       recommendation: "Consult a healthcare provider for proper evaluation"
     }],
-    nextSteps: getDefaultNextSteps(),
+    nextSteps: [careSetting.step, GENERAL_SELF_CARE_STEP],
+    triage: careSetting.triage,
     disclaimer: "This information is for educational purposes only and should not replace professional medical advice.",
-    extractedTextualSymptoms: extractSymptoms(input.description),
+    extractedTextualSymptoms: extractSymptoms(input),
+    codedSymptoms: codeSymptoms(extractSymptoms(input)),
     userInputText: input.description
   };
 }
 
 /**
- * Analyzes text with Gemini to determine possible conditions
+ * Emergency advice in place of an analysis when the description raises red flags
  */
-async function getGeminiAnalysis(description: string) {
-  try {
-    if (!process.env.GEMINI_API_KEY) {
-      console.warn("Gemini API key not found, skipping AI analysis");
-      return [];
-    }
+function getEmergencyResponse(input: AnalysisInput, redFlags: RedFlag[]): SymptomAnalysis {
+  const careSetting = recommendCareSetting([], redFlags);
+  return {
+    potentialConditions: [],
+    nextSteps: [careSetting.step],
+    triage: careSetting.triage,
+    disclaimer: "This information is for educational purposes only and should not replace professional medical advice.",
+    summary: redFlagSummary(redFlags),
+    extractedTextualSymptoms: extractSymptoms(input),
+    codedSymptoms: codeSymptoms(extractSymptoms(input)),
+    userInputText: input.description,
+    redFlags
+  };
+}
 
-    // Configure the generative model
-    const model = genAI.getGenerativeModel({
-      model: MODEL_NAME,
-      safetySettings: [
-        {
-          category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-          threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-        },
-        {
-          category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-          threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-        },
-        {
-          category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-          threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-        },
-        {
-          category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-          threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-        },
-      ],
-    });
-    
-    const prompt = `
-      As a medical education AI, analyze the following symptoms and determine the most likely conditions based on medical knowledge.
-      
-      Symptoms description: ${description}
-      
-      Return the analysis in JSON format as an array of possible conditions with the following structure:
-      [
-        {
-          "name": "Condition Name",
-          "description": "Brief description of the condition",
-          "relevance": "high/medium/low", 
-          "score": 0.0-1.0,
-          "symptoms": ["key symptom 1", "key symptom 2"]
-        }
-      ]
-      
-      Include only up to 5 of the most relevant conditions. The score should represent how confident you are in this assessment.
-      
-      IMPORTANT: Only respond with the JSON array and nothing else. Do not add any markdown formatting, extra explanation, or other text.
-    `;
-    
-    const systemPrompt = "You are a medical education assistant providing information about possible conditions based on symptoms. You only provide educational information, not medical advice or diagnosis. Always respond in properly formatted JSON.";
-    
-    const result = await model.generateContent({
-      contents: [
-        { role: "user", parts: [{ text: systemPrompt }] },
-        { role: "model", parts: [{ text: "I understand. I'll provide educational information about possible conditions based on symptoms in JSON format without giving medical advice." }] },
-        { role: "user", parts: [{ text: prompt }] }
-      ],
-    });
+/**
+ * Asks the configured LLM provider for possible conditions. Output is
+ * validated against the condition schema and repaired or retried when invalid.
+ */
+async function getLLMAnalysis(description: string): Promise<{ conditions: PotentialCondition[], issues: AnalysisIssue[] }> {
+  if (!llmProvider.isConfigured()) {
+    console.warn(`${llmProvider.name} API key not found, skipping AI analysis`);
+    return {
+      conditions: [],
+      issues: [{
+        stage: 'conditions',
+        reason: 'provider_unconfigured',
+        message: `No API key is configured for ${llmProvider.name}; results are from the knowledge base only`
+      }]
+    };
+  }
 
-    const response = result.response;
-    const responseText = response.text().trim();
-    
+  const { items, issues } = await requestStructuredList({
+    provider: llmProvider,
+    task: 'conditions',
+    description,
+    spec: conditionListSpec,
+    request: () => llmProvider.analyzeConditions(description),
+    maxAttempts: LLM_MAX_ATTEMPTS
+  });
+  return { conditions: items, issues };
+}
+
+/**
+ * Read uploaded images back from the image store for vision analysis
+ */
+async function loadImages(references: string[]): Promise<LLMImage[]> {
+  const images: LLMImage[] = [];
+
+  for (const reference of references) {
     try {
-      // Clean up response text to ensure it's valid JSON
-      let jsonText = responseText;
-      // Remove markdown code blocks if present
-      if (jsonText.startsWith("```json")) {
-        jsonText = jsonText.replace(/```json\s*/, "").replace(/\s*```\s*$/, "");
-      } else if (jsonText.startsWith("```")) {
-        jsonText = jsonText.replace(/```\s*/, "").replace(/\s*```\s*$/, "");
-      }
-      
-      const jsonResponse = JSON.parse(jsonText);
-      if (Array.isArray(jsonResponse)) {
-        return jsonResponse;
-      } else if (jsonResponse && Array.isArray(jsonResponse.conditions)) {
-        return jsonResponse.conditions;
-      } else {
-        console.warn("Unexpected Gemini response format:", jsonResponse);
-        return [];
+      const data = await imageStore.read(reference);
+      if (!data) continue;
+      const mimeType = detectImageMimeType(data);
+      if (mimeType) {
+        images.push({ mimeType, data });
       }
     } catch (error) {
-      console.error("Failed to parse Gemini response:", error);
-      console.error("Raw response:", responseText);
-      return [];
+      console.warn(`Could not read uploaded image ${reference}:`, error);
     }
+  }
+
+  return images;
+}
+
+/**
+ * Describe what the uploaded photos show, to be folded into the text prompt.
+ * Photos in `described` keep their earlier findings and only new ones are
+ * sent to the vision model.
+ */
+async function getVisualFindings(
+  description: string,
+  references: string[] = [],
+  described: DescribedImages = { images: [], findings: '' }
+): Promise<{ findings: string, issues: AnalysisIssue[], described: DescribedImages }> {
+  const kept = described.images.filter(reference => references.includes(reference));
+  const previous = kept.length === described.images.length ? described : { images: [], findings: '' };
+  const added = references.filter(reference => !previous.images.includes(reference));
+  if (added.length === 0 || !llmProvider.isConfigured()) {
+    return { findings: previous.findings, issues: [], described: previous };
+  }
+
+  try {
+    const images = await loadImages(added);
+    if (images.length === 0) return { findings: previous.findings, issues: [], described: previous };
+    const findings = [previous.findings, (await llmProvider.describeImages(description, images)).trim()]
+      .filter(Boolean)
+      .join(' ');
+    return { findings, issues: [], described: { images: [...previous.images, ...added], findings } };
   } catch (error) {
-    console.error("Error in Gemini analysis:", error);
-    return [];
+    console.error(`Error in ${llmProvider.name} image analysis:`, error);
+    return {
+      findings: previous.findings,
+      described: previous,
+      issues: [{
+        stage: 'vision',
+        reason: 'provider_error',
+        message: error instanceof Error ? error.message : String(error)
+      }]
+    };
   }
 }
 
 /**
  * Get condition predictions from the knowledge base
  */
-async function getKnowledgeBaseAnalysis(input: AnalysisInput) {
+async function getKnowledgeBaseAnalysis(input: AnalysisInput, knowledgeBase: KnowledgeBase): Promise<PotentialCondition[]> {
   const conditions = await knowledgeBase.getAllConditions();
-  const matchedConditions = [];
+  const matchedConditions: PotentialCondition[] = [];
 
   for (const condition of conditions) {
-    const score = await knowledgeBase.calculateSymptomAssociation(
+    const { score } = await knowledgeBase.scoreCondition(
       condition.name,
-      extractSymptoms(input.description)
+      extractSymptoms(input),
+      extractAbsentSymptoms(input),
+      input.patient
     );
 
     if (score > 0.3) {
       matchedConditions.push({
         name: condition.name,
         description: condition.description,
-        relevance: score > 0.7 ? "high" : score > 0.5 ? "medium" : "low",
+        relevance: relevanceFromProbability(score),
         symptoms: condition.symptoms || [],
+        visualCues: condition.visualCues || [],
         score,
-        urgency: determineUrgency(condition, score),
-        recommendation: condition.recommendation
+        urgency: condition.urgency,
+        recommendation: condition.recommendation,
+        grounding: 'exact',
+        codes: toClinicalCodes(condition)
       });
     }
   }
@@ -269,187 +267,250 @@ async function getKnowledgeBaseAnalysis(input: AnalysisInput) {
 }
 
 /**
- * Merge predictions from multiple sources
+ * Fraction of a condition's visual cues mentioned in the photo description,
+ * or undefined when there is nothing to compare
+ */
+function visualCueMatch(visualCues: string[] | undefined, visualFindings: string): number | undefined {
+  if (!visualFindings || !visualCues || visualCues.length === 0) return undefined;
+  const findings = visualFindings.toLowerCase();
+  return visualCues.filter(cue => findings.includes(cue.toLowerCase())).length / visualCues.length;
+}
+
+/**
+ * Merge predictions from the LLM and the knowledge base into one list, scoring
+ * each candidate by fusing KB association, LLM confidence and image evidence
+ * into a calibrated probability (see scoreFusion.ts)
  */
-function mergePredictions(aiPreds: any[], kbPreds: any[]): PotentialCondition[] {
+async function mergePredictions(
+  aiPreds: PotentialCondition[],
+  kbPreds: PotentialCondition[],
+  symptoms: string[],
+  absentSymptoms: string[],
+  patient: PatientDemographics | undefined,
+  visualFindings: string,
+  knowledgeBase: KnowledgeBase
+): Promise<{ conditions: PotentialCondition[], evidence: ConditionEvidence[] }> {
   const merged = new Map<string, PotentialCondition>();
-  
+  const llmScores = new Map<string, number>();
+
   // Add KB predictions first as base
   for (const kbPred of kbPreds) {
-    merged.set(kbPred.name.toLowerCase(), kbPred);
+    merged.set(kbPred.name.toLowerCase(), { ...kbPred });
   }
-  
+
   // Enhance with AI predictions
   for (const aiPred of aiPreds) {
     const key = aiPred.name.toLowerCase();
-    if (merged.has(key)) {
-      // Combine scores if condition exists in both
-      const existing = merged.get(key)!;
-      existing.score = Math.max(existing.score || 0, aiPred.score || 0);
+    llmScores.set(key, Math.max(llmScores.get(key) ?? 0, aiPred.score ?? 0));
+    const existing = merged.get(key);
+    if (existing) {
+      if (aiPred.reasoningNotes?.length) {
+        existing.reasoningNotes = [...(existing.reasoningNotes || []), ...aiPred.reasoningNotes];
+      }
     } else {
-      // Add new AI prediction
-      merged.set(key, aiPred);
+      merged.set(key, { ...aiPred });
     }
   }
-  
-  return Array.from(merged.values())
-    .sort((a, b) => (b.score || 0) - (a.score || 0));
+
+  // When the LLM answered, leaving a condition off its list is evidence too
+  const llmAnswered = aiPreds.length > 0;
+  const candidates: Array<[string, PotentialCondition]> = [];
+  const evidence: ConditionEvidence[] = [];
+  const ruleNotes: string[][] = [];
+  for (const [key, candidate] of Array.from(merged.entries())) {
+    const kb = candidate.grounding === 'ungrounded'
+      ? undefined
+      : await knowledgeBase.scoreCondition(candidate.name, symptoms, absentSymptoms, patient);
+    // Conditions the patient's age or sex rules out are dropped, even when the LLM suggests them
+    if (kb?.excluded) {
+      continue;
+    }
+    candidates.push([key, candidate]);
+    ruleNotes.push(kb?.notes ?? []);
+    evidence.push({
+      name: candidate.name,
+      kbAssociation: kb?.score,
+      llmConfidence: llmAnswered ? llmScores.get(key) ?? 0 : undefined,
+      imageEvidence: visualCueMatch(candidate.visualCues, visualFindings)
+    });
+  }
+
+  const config = fusionConfig();
+  const fused = fuseScores(evidence, config);
+  const conditions = candidates.map(([, candidate], index) => {
+    const { probability } = fused[index];
+    const sources = evidence[index];
+    const parts = [
+      sources.kbAssociation !== undefined ? `knowledge base ${sources.kbAssociation.toFixed(2)}` : null,
+      sources.llmConfidence !== undefined ? `LLM ${sources.llmConfidence.toFixed(2)}` : null,
+      sources.imageEvidence !== undefined ? `photos ${sources.imageEvidence.toFixed(2)}` : null
+    ].filter(Boolean);
+
+    return {
+      ...candidate,
+      score: probability,
+      relevance: relevanceFromProbability(probability),
+      reasoningNotes: [
+        ...(candidate.reasoningNotes || []),
+        ...ruleNotes[index],
+        `Fused probability ${probability.toFixed(2)} (${config.strategy}): ${parts.join(', ')}`
+      ]
+    };
+  });
+
+  return {
+    conditions: conditions.sort((a, b) => (b.score || 0) - (a.score || 0)),
+    evidence
+  };
 }
 
 /**
- * Generates next steps based on the potential conditions
+ * Generates next steps for the potential conditions. Where to seek care is
+ * decided deterministically from their triage levels (see careSetting.ts);
+ * the LLM only contributes self-care advice, with defaults when it cannot.
  */
-async function generateNextSteps(input: AnalysisInput, conditions: PotentialCondition[]): Promise<NextStep[]> {
+async function generateNextSteps(
+  input: AnalysisInput,
+  conditions: PotentialCondition[]
+): Promise<{ nextSteps: NextStep[], triage: TriageLevel, issues: AnalysisIssue[] }> {
+  const careSetting = recommendCareSetting(conditions);
+  if (!llmProvider.isConfigured() || conditions.length === 0) {
+    return { nextSteps: [careSetting.step, GENERAL_SELF_CARE_STEP], triage: careSetting.triage, issues: [] };
+  }
+
+  const request = {
+    description: input.description,
+    duration: input.duration,
+    severity: input.severity,
+    bodyLocation: input.bodyLocation,
+    conditions
+  };
+
+  const { items, issues } = await requestStructuredList({
+    provider: llmProvider,
+    task: 'nextSteps',
+    description: input.description,
+    spec: nextStepListSpec,
+    request: () => llmProvider.generateNextSteps(request),
+    maxAttempts: LLM_MAX_ATTEMPTS
+  });
+
+  const selfCare = items.filter(step => step.type === 'general');
+  return {
+    nextSteps: [careSetting.step, ...(selfCare.length > 0 ? selfCare : [GENERAL_SELF_CARE_STEP])],
+    triage: careSetting.triage,
+    issues
+  };
+}
+
+/**
+ * The knowledge base version an analysis was made against. Emergency and
+ * fallback responses still record it, but never fail for want of it.
+ */
+async function readProvenance(knowledgeBase: KnowledgeBase): Promise<KnowledgeBaseProvenance | undefined> {
   try {
-    if (!process.env.GEMINI_API_KEY || conditions.length === 0) {
-      return getDefaultNextSteps();
-    }
-    
-    const highestUrgency = conditions[0]?.urgency || 'low';
-    
-    // Configure the generative model
-    const model = genAI.getGenerativeModel({
-      model: MODEL_NAME,
-      safetySettings: [
-        {
-          category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-          threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-        },
-        {
-          category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-          threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-        },
-        {
-          category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-          threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-        },
-        {
-          category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-          threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-        },
-      ],
-    });
-    
-    // Use Gemini to generate personalized next steps
-    const prompt = `
-      Based on the following patient information and potential conditions, suggest appropriate next steps.
-      Format your response as JSON with an array of objects, each containing type ('consult' or 'general'), title, description, and suggestions array.
-      
-      Patient's symptoms: ${input.description}
-      ${input.duration ? `Duration: ${input.duration}` : ''}
-      ${input.severity ? `Severity: ${input.severity}` : ''}
-      ${input.bodyLocation ? `Body location: ${input.bodyLocation}` : ''}
-      
-      Top potential conditions:
-      ${conditions.slice(0, 3).map((condition, index) => `
-        ${index + 1}. ${condition.name} (${condition.relevance} relevance)
-        - Description: ${condition.description}
-        - Key symptoms: ${condition.symptoms.slice(0, 5).join(", ")}
-        - Urgency: ${condition.urgency || 'medium'}
-      `).join('\n')}
-      
-      Provide next steps in this JSON format:
-      [
-        {
-          "type": "consult",
-          "title": "Consult with a healthcare professional",
-          "description": "Based on your symptoms, it's recommended to...",
-          "suggestions": ["Specific action 1", "Specific action 2"]
-        },
-        {
-          "type": "general",
-          "title": "Self-care recommendations",
-          "description": "While waiting for professional consultation...",
-          "suggestions": ["Specific recommendation 1", "Specific recommendation 2"]
-        }
-      ]
-      
-      Include at least two next steps - one for consultation and one for general self-care.
-      
-      IMPORTANT: Only respond with the JSON array and nothing else. Do not add any markdown formatting, extra explanation, or other text.
-    `;
-    
-    const systemPrompt = "You are a medical education assistant providing guidance based on symptom analysis. You provide educational information only, not medical advice. Always respond in properly formatted JSON.";
-    
-    const result = await model.generateContent({
-      contents: [
-        { role: "user", parts: [{ text: systemPrompt }] },
-        { role: "model", parts: [{ text: "I understand. I'll provide educational guidance based on symptom analysis in JSON format without giving medical advice." }] },
-        { role: "user", parts: [{ text: prompt }] }
-      ],
-    });
-    
-    const response = result.response;
-    const content = response.text().trim();
-    
-    try {
-      // Clean up response text to ensure it's valid JSON
-      let jsonText = content;
-      // Remove markdown code blocks if present
-      if (jsonText.startsWith("```json")) {
-        jsonText = jsonText.replace(/```json\s*/, "").replace(/\s*```\s*$/, "");
-      } else if (jsonText.startsWith("```")) {
-        jsonText = jsonText.replace(/```\s*/, "").replace(/\s*```\s*$/, "");
-      }
-      
-      const parsed = JSON.parse(jsonText);
-      if (Array.isArray(parsed)) {
-        return parsed;
-      } else if (parsed && Array.isArray(parsed.nextSteps)) {
-        return parsed.nextSteps;
-      } else {
-        console.warn("Unexpected Gemini response format for next steps:", parsed);
-        return getDefaultNextStepsWithUrgency(highestUrgency);
-      }
-    } catch (error) {
-      console.error("Error parsing Gemini response for next steps:", error);
-      console.error("Raw response:", content);
-      return getDefaultNextStepsWithUrgency(highestUrgency);
-    }
+    return await knowledgeBase.getProvenance();
   } catch (error) {
-    console.error("Error generating next steps with Gemini:", error);
-    return getDefaultNextSteps();
+    console.warn("Could not read the knowledge base version:", error);
+    return undefined;
   }
 }
 
 /**
- * Main function to analyze symptoms using multimodal AI and knowledge base
+ * Main function to analyze symptoms using multimodal AI and knowledge base.
+ * Also returns the per-stage predictions and timings for telemetry.
+ * Pass a knowledge base pinned to an earlier version to replay an analysis.
  */
-export async function analyzeSymptoms(input: AnalysisInput): Promise<SymptomAnalysis> {
+export async function analyzeSymptoms(
+  input: AnalysisInput,
+  knowledgeBase: KnowledgeBase = defaultKnowledgeBase
+): Promise<AnalysisRun> {
+  const started = performance.now();
+  const timings: PredictionStageTimings = { llm: 0, knowledgeBase: 0, merge: 0, nextSteps: 0, total: 0 };
+  let aiAnalysis: PotentialCondition[] = [];
+  let kbConditions: PotentialCondition[] = [];
+  const issues: AnalysisIssue[] = [];
+  let combinedConditions: PotentialCondition[] = [];
+  let fusionEvidence: ConditionEvidence[] = [];
+
+  const buildTelemetry = (): AnalysisTelemetry => ({
+    rawPredictions: toScoredPredictions(aiAnalysis),
+    kbPredictions: toScoredPredictions(kbConditions),
+    mergedPredictions: toScoredPredictions(combinedConditions),
+    fusionEvidence,
+    timings: { ...timings, total: elapsedSince(started) }
+  });
+
   try {
+    // Emergency warning signs short-circuit the analysis; no ranking should outweigh them
+    const redFlags = detectRedFlags(reportedFindings(input));
+    if (redFlags.length > 0) {
+      const analysis = { ...getEmergencyResponse(input, redFlags), knowledgeBase: await readProvenance(knowledgeBase) };
+      return { analysis, telemetry: buildTelemetry() };
+    }
+
+    // Describe any uploaded photos first so the findings can inform the text analysis
+    let stageStart = performance.now();
+    const vision = await getVisualFindings(input.description, input.images, input.describedImages);
+    const visualFindings = vision.findings;
+    issues.push(...vision.issues);
+
     // Combine all input data into a comprehensive prompt
     const fullDescription = `
       Symptoms: ${input.description}
       ${input.duration ? `Duration: ${input.duration}` : ''}
       ${input.severity ? `Severity: ${input.severity}` : ''}
       ${input.bodyLocation ? `Location: ${input.bodyLocation}` : ''}
+      ${input.patient?.age !== undefined ? `Age: ${input.patient.age}` : ''}
+      ${input.patient?.gender ? `Gender: ${input.patient.gender}${input.patient.pregnant ? ', pregnant' : ''}` : ''}
+      ${visualFindings ? `Visual findings from photos: ${visualFindings}` : ''}
+      ${input.answers?.length ? `Follow-up answers: ${describeAnswers(input.answers)}` : ''}
     `;
 
-    // Get analysis from both Gemini and knowledge base
-    let aiAnalysis = [];
-    try {
-      aiAnalysis = await getGeminiAnalysis(fullDescription);
-    } catch (error) {
-      console.warn("Gemini analysis failed, falling back to knowledge base:", error);
-    }
-    
-    const kbConditions = await getKnowledgeBaseAnalysis(input);
+    // Get analysis from both the LLM and knowledge base
+    const llmAnalysis = await getLLMAnalysis(fullDescription);
+    aiAnalysis = llmAnalysis.conditions;
+    issues.push(...llmAnalysis.issues);
+    timings.llm = elapsedSince(stageStart);
+
+    stageStart = performance.now();
+    kbConditions = await getKnowledgeBaseAnalysis(input, knowledgeBase);
+    timings.knowledgeBase = elapsedSince(stageStart);
 
-    // Combine and rank conditions
-    const combinedConditions = mergePredictions(aiAnalysis, kbConditions);
+    // Map LLM candidates onto KB entries, then combine and rank conditions
+    stageStart = performance.now();
+    const symptoms = extractSymptoms(input);
+    const absentSymptoms = extractAbsentSymptoms(input);
+    const groundedAnalysis = await groundPredictions(aiAnalysis, symptoms, knowledgeBase);
+    const merged = await mergePredictions(groundedAnalysis, kbConditions, symptoms, absentSymptoms, input.patient, visualFindings, knowledgeBase);
+    combinedConditions = merged.conditions;
+    fusionEvidence = merged.evidence;
+    timings.merge = elapsedSince(stageStart);
 
     // Generate next steps for the user
-    const nextSteps = await generateNextSteps(input, combinedConditions);
+    stageStart = performance.now();
+    const { nextSteps, triage, issues: nextStepIssues } = await generateNextSteps(input, combinedConditions);
+    issues.push(...nextStepIssues);
+    timings.nextSteps = elapsedSince(stageStart);
 
     return {
-      potentialConditions: combinedConditions,
-      nextSteps: nextSteps,
-      disclaimer: "This information is for educational purposes only and should not replace professional medical advice.",
-      extractedTextualSymptoms: extractSymptoms(input.description),
-      userInputText: input.description
+      analysis: {
+        potentialConditions: combinedConditions,
+        nextSteps: nextSteps,
+        triage,
+        disclaimer: "This information is for educational purposes only and should not replace professional medical advice.",
+        extractedTextualSymptoms: extractSymptoms(input),
+        codedSymptoms: codeSymptoms(extractSymptoms(input)),
+        userInputText: input.description,
+        issues,
+        knowledgeBase: await knowledgeBase.getProvenance()
+      },
+      telemetry: buildTelemetry(),
+      describedImages: vision.described
     };
   } catch (error) {
     console.error("Error in symptom analysis:", error);
-    return getDefaultResponse(input);
+    const analysis = { ...getDefaultResponse(input), issues, knowledgeBase: await readProvenance(knowledgeBase) };
+    return { analysis, telemetry: buildTelemetry() };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { storage } from '../storage';
+
+// Lets a test make the analysis fail
+const state = vi.hoisted(() => ({ failAnalysis: false }));
+
+vi.mock('./aiService', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./aiService')>();
+  return {
+    ...actual,
+    analyzeSymptoms: (...args: Parameters<typeof actual.analyzeSymptoms>) =>
+      state.failAnalysis ? Promise.reject(new Error('analysis failed')) : actual.analyzeSymptoms(...args)
+  };
+});
+
+const {
+  continueAnalysisSession,
+  diffDifferential,
+  serializeSessionTurn,
+  startAnalysisSession
+} = await import('./analysisSessions');
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  state.failAnalysis = false;
+});
+
+describe('diffDifferential', () => {
+  it('reports added, removed and moved conditions', () => {
+    const diff = diffDifferential(
+      [{ name: 'Influenza', score: 0.6 }, { name: 'Common Cold', score: 0.4 }, { name: 'Migraine', score: 0.2 }],
+      [{ name: 'Common Cold', score: 0.7 }, { name: 'Influenza', score: 0.605 }, { name: 'Pneumonia', score: 0.3 }]
+    );
+
+    expect(diff).toEqual({
+      added: [{ name: 'Pneumonia', score: 0.3 }],
+      removed: [{ name: 'Migraine', score: 0.2 }],
+      changed: [{ name: 'Common Cold', from: 0.4, to: 0.7 }],
+      topConditionChanged: true
+    });
+  });
+
+  it('reports nothing when the differential held', () => {
+    const differential = [{ name: 'Influenza', score: 0.6 }];
+    expect(diffDifferential(differential, differential)).toEqual({ added: [], removed: [], changed: [], topConditionChanged: false });
+  });
+});
+
+describe('analysis sessions', () => {
+  const firstMessage = 'I have had a fever and a cough since yesterday';
+
+  it('stores the symptom, session and first turn once the analysis succeeds', async () => {
+    const detail = await startAnalysisSession({ description: firstMessage, uploadedImages: [] }, undefined, 2);
+
+    const symptom = await storage.getSymptom(detail.session.symptomId);
+    expect(symptom?.analysis?.interview?.questionBudget).toBe(2);
+    expect(detail.turns).toHaveLength(1);
+    expect(detail.turns[0]).toMatchObject({ message: firstMessage, diff: null });
+    expect(detail.turns[0].differential.length).toBeGreaterThan(0);
+  });
+
+  it('stores nothing when the first analysis fails', async () => {
+    const before = (await storage.getRecentSymptoms(1000)).length;
+    state.failAnalysis = true;
+
+    await expect(startAnalysisSession({ description: firstMessage, uploadedImages: [] })).rejects.toThrow('analysis failed');
+
+    expect((await storage.getRecentSymptoms(1000)).length).toBe(before);
+  });
+
+  it('adds each turn to the symptom and diffs it against the turn before', async () => {
+    const { session } = await startAnalysisSession({ description: firstMessage, uploadedImages: [] });
+    const addTurn = (message: string) => serializeSessionTurn(session.id, async () => {
+      const current = (await storage.getAnalysisSession(session.id))!;
+      const symptom = (await storage.getSymptom(current.symptomId))!;
+      return continueAnalysisSession(current, symptom, { message, images: [] });
+    });
+
+    // Sent together, the turns still run one after the other
+    const [, second] = await Promise.all([addTurn('Now I also have chills'), addTurn('And my whole body aches')]);
+
+    const symptom = await storage.getSymptom(session.symptomId);
+    expect(symptom?.description).toBe(`${firstMessage}\nNow I also have chills\nAnd my whole body aches`);
+    expect(second.turns.map(turn => turn.message)).toEqual([firstMessage, 'Now I also have chills', 'And my whole body aches']);
+    expect(second.turns[2].diff).toEqual(diffDifferential(second.turns[1].differential, second.turns[2].differential));
+  });
+
+  it('keeps serving a session after a turn fails', async () => {
+    const failed = serializeSessionTurn(-1, async () => { throw new Error('turn failed'); });
+    const next = serializeSessionTurn(-1, async () => 'next turn');
+
+    await expect(failed).rejects.toThrow('turn failed');
+    await expect(next).resolves.toBe('next turn');
+  });
+});
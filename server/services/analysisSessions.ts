@@ -0,0 +1,204 @@
+import type {
+  AnalysisSession,
+  AnalysisSessionDetail,
+  AnalysisSessionTurn,
+  DescribedImages,
+  DifferentialDiff,
+  InsertSymptom,
+  InterviewAnswer,
+  Symptom,
+  SymptomAnalysis
+} from '@shared/schema';
+import { storage } from '../storage';
+import { analyzeSymptoms, type AnalysisRun } from './aiService';
+import { symptomPatient } from './demographics';
+import { planInterview, DEFAULT_QUESTION_BUDGET } from './interview';
+import { recordPrediction } from './predictionTelemetry';
+
+// Each turn keeps this many leading conditions as its differential
+const DIFFERENTIAL_SIZE = 5;
+
+// Score moves smaller than this are not reported between turns
+const MIN_SCORE_CHANGE = 0.01;
+
+type Differential = AnalysisSessionTurn['differential'];
+
+// What a turn analyzes: the symptom as it stands after the turn, stored or not yet
+type SessionSymptom = Pick<Symptom, 'description'> & Partial<Pick<Symptom,
+  'duration' | 'severity' | 'bodyLocation' | 'uploadedImages' | 'patientAge' | 'patientGender' | 'patientPregnant' | 'analysis'
+>>;
+
+// The end of the chain of turns running on each session
+const sessionTurnQueues = new Map<number, Promise<void>>();
+
+// What the user added in one turn, already validated: images are stored
+// references and the answer is a reply to the pending question
+export interface SessionUpdate {
+  message?: string;
+  images: string[];
+  answer?: InterviewAnswer;
+}
+
+/**
+ * Analyze the first message and images, then store them as a symptom with a
+ * session and its first turn. Nothing is stored when the analysis fails.
+ * Follow-up questions start straight away.
+ * @param input - The symptom to store, holding the first message and images
+ * @param userId - The signed-in user, if any
+ * @param questionBudget - Most follow-up questions to ask over the session
+ */
+export async function startAnalysisSession(
+  input: SessionSymptom & InsertSymptom,
+  userId?: number,
+  questionBudget: number = DEFAULT_QUESTION_BUDGET
+): Promise<AnalysisSessionDetail> {
+  const update = { message: input.description, images: input.uploadedImages ?? [] };
+  const { run, analysis } = await analyzeTurn(input, update, undefined, questionBudget);
+
+  const symptom = await storage.createSymptom(input, userId);
+  await storage.updateSymptomAnalysis(symptom.id, analysis);
+  await recordPrediction(symptom.id, run);
+  const session = await storage.createAnalysisSession(symptom.id);
+  return storeTurn(session, [], update, run, analysis);
+}
+
+/**
+ * Add a turn to a session: append the message and images to its symptom,
+ * then re-run the analysis over everything gathered so far. Run it inside
+ * serializeSessionTurn, with the session and symptom read there.
+ * @param session - The session to continue
+ * @param symptom - The session's symptom row
+ * @param update - What the user added
+ */
+export async function continueAnalysisSession(
+  session: AnalysisSession,
+  symptom: Symptom,
+  update: SessionUpdate
+): Promise<AnalysisSessionDetail> {
+  const turns = await storage.getAnalysisSessionTurns(session.id);
+  const uploadedImages = Array.from(new Set([...(symptom.uploadedImages ?? []), ...update.images]));
+  const updated = await storage.updateSymptom(symptom.id, {
+    description: update.message ? `${symptom.description}\n${update.message}` : symptom.description,
+    uploadedImages
+  });
+  if (!updated) throw new Error(`Symptom ${symptom.id} of session ${session.id} no longer exists`);
+
+  const turnUpdate = {
+    message: update.message,
+    images: update.images.filter(image => !symptom.uploadedImages?.includes(image)),
+    answer: update.answer
+  };
+  const { run, analysis } = await analyzeTurn(updated, turnUpdate, session.describedImages ?? undefined);
+  await storage.updateSymptomAnalysis(updated.id, analysis);
+  await recordPrediction(updated.id, run);
+  return storeTurn(session, turns, turnUpdate, run, analysis);
+}
+
+/**
+ * Run a task once every earlier task on the same session has finished, so
+ * each turn reads the symptom and turns the previous one left behind.
+ * Turns are ordered within this server process.
+ * @param sessionId - The session the task reads and adds to
+ * @param task - Reads the session and adds a turn
+ */
+export function serializeSessionTurn<T>(sessionId: number, task: () => Promise<T>): Promise<T> {
+  const previous = sessionTurnQueues.get(sessionId) ?? Promise.resolve();
+  const result = previous.then(task);
+  const done = result.then(() => undefined, () => undefined);
+  sessionTurnQueues.set(sessionId, done);
+  done.then(() => {
+    if (sessionTurnQueues.get(sessionId) === done) sessionTurnQueues.delete(sessionId);
+  });
+  return result;
+}
+
+/**
+ * A session with its turns and the latest analysis
+ */
+export async function getAnalysisSessionDetail(session: AnalysisSession, symptom: Symptom): Promise<AnalysisSessionDetail> {
+  return { session, turns: await storage.getAnalysisSessionTurns(session.id), analysis: symptom.analysis };
+}
+
+/**
+ * How the leading conditions moved from one turn to the next. A condition
+ * that left the differential is removed even if it is still ranked lower down.
+ */
+export function diffDifferential(before: Differential, after: Differential): DifferentialDiff {
+  const beforeScores = new Map(before.map(({ name, score }) => [name, score]));
+  const afterNames = new Set(after.map(({ name }) => name));
+
+  return {
+    added: after.filter(({ name }) => !beforeScores.has(name)),
+    removed: before.filter(({ name }) => !afterNames.has(name)),
+    changed: after
+      .filter(({ name, score }) => beforeScores.has(name) && Math.abs(score - beforeScores.get(name)!) >= MIN_SCORE_CHANGE)
+      .map(({ name, score }) => ({ name, from: beforeScores.get(name)!, to: score })),
+    topConditionChanged: before[0]?.name !== after[0]?.name
+  };
+}
+
+/**
+ * Re-run the analysis for the symptom as it now stands, with every answer
+ * given so far, and choose the next follow-up question. Photos described in
+ * earlier turns are not described again.
+ */
+async function analyzeTurn(
+  symptom: SessionSymptom,
+  update: SessionUpdate,
+  describedImages?: DescribedImages,
+  questionBudget?: number
+): Promise<{ run: AnalysisRun; analysis: SymptomAnalysis }> {
+  const interview = symptom.analysis?.interview;
+  const answers = update.answer ? [...(interview?.answers ?? []), update.answer] : interview?.answers ?? [];
+
+  const run = await analyzeSymptoms({
+    description: symptom.description,
+    duration: symptom.duration || undefined,
+    severity: symptom.severity || undefined,
+    bodyLocation: symptom.bodyLocation || undefined,
+    images: symptom.uploadedImages ?? [],
+    answers,
+    describedImages,
+    patient: symptomPatient(symptom)
+  });
+  const analysis: SymptomAnalysis = {
+    ...run.analysis,
+    interview: await planInterview(run.analysis, {
+      answers,
+      questionBudget: interview?.questionBudget ?? questionBudget ?? DEFAULT_QUESTION_BUDGET,
+      rankings: interview?.rankings ?? []
+    })
+  };
+  return { run, analysis };
+}
+
+/**
+ * Store a turn with how it moved the differential, and the photos described so far
+ */
+async function storeTurn(
+  session: AnalysisSession,
+  previousTurns: AnalysisSessionTurn[],
+  update: SessionUpdate,
+  run: AnalysisRun,
+  analysis: SymptomAnalysis
+): Promise<AnalysisSessionDetail> {
+  const updatedSession = await storage.updateAnalysisSession(session.id, {
+    describedImages: run.describedImages ?? session.describedImages
+  }) ?? session;
+
+  const differential = analysis.potentialConditions
+    .slice(0, DIFFERENTIAL_SIZE)
+    .map(condition => ({ name: condition.name, score: condition.score ?? 0 }));
+  const previous = previousTurns[previousTurns.length - 1];
+  const turn = await storage.createAnalysisSessionTurn({
+    sessionId: session.id,
+    message: update.message ?? null,
+    images: update.images,
+    answer: update.answer ?? null,
+    differential,
+    diff: previous ? diffDifferential(previous.differential, differential) : null,
+    triage: analysis.triage ?? null
+  });
+
+  return { session: updatedSession, turns: [...previousTurns, turn], analysis };
+}
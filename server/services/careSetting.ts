@@ -0,0 +1,105 @@
+import { TRIAGE_LABELS, type NextStep, type RedFlag, type TriageLevel } from '@shared/schema';
+import { mostUrgent, toTriageLevel } from '@shared/triage';
+import { emergencyNextStep } from './redFlags';
+
+// Only the top few conditions, and only those scored at least this well, set
+// the care setting; an unlikely serious condition should not escalate the advice
+const CONSIDERED_CONDITIONS = 3;
+const MIN_CONSIDERED_SCORE = 0.3;
+
+// Where to go when no condition is likely enough to go by
+const UNCERTAIN_LEVEL: TriageLevel = 'primary_care';
+
+export interface CareSettingCondition {
+  name: string;
+  score?: number; // 0-1
+  urgency?: string;
+}
+
+export interface CareSetting {
+  triage: TriageLevel;
+  step: NextStep;
+}
+
+const SUGGESTIONS: Record<TriageLevel, string[]> = {
+  self_care: [
+    'Rest, drink plenty of fluids and use over-the-counter remedies as directed',
+    'Book an appointment with your doctor if symptoms last longer than expected or keep coming back',
+    'Get seen sooner if symptoms get worse or new ones appear',
+  ],
+  primary_care: [
+    'Book an appointment with your doctor in the next few days',
+    'Note when each symptom started and how it has changed',
+    'Bring a list of any medications you are taking',
+  ],
+  urgent_care: [
+    'Go to an urgent care clinic, or ask your doctor for a same-day appointment',
+    'Do not wait for the symptoms to settle on their own',
+    'Go to the emergency department instead if you get much worse',
+  ],
+  emergency: [
+    'Call your local emergency number or go to the nearest emergency department now',
+    'Do not drive yourself; ask someone to take you or call an ambulance',
+    'Bring a list of your symptoms and any medications you are taking',
+  ],
+};
+
+/**
+ * Decide where the user should seek care, without the LLM. Red flags mean an
+ * emergency. Otherwise the most urgent triage level among the top conditions
+ * wins, and when none is likely enough the advice is to see a doctor.
+ * @param conditions - Ranked conditions, most likely first
+ * @param redFlags - Red flags raised by the description
+ */
+export function recommendCareSetting(conditions: CareSettingCondition[], redFlags: RedFlag[] = []): CareSetting {
+  if (redFlags.length > 0) {
+    return { triage: 'emergency', step: { ...emergencyNextStep(redFlags), triage: 'emergency' } };
+  }
+
+  const considered = conditions
+    .slice(0, CONSIDERED_CONDITIONS)
+    .filter(condition => (condition.score ?? 0) >= MIN_CONSIDERED_SCORE)
+    .map(condition => ({ name: condition.name, triage: toTriageLevel(condition.urgency) }));
+  const triage = mostUrgent(considered.map(condition => condition.triage));
+
+  if (!triage) {
+    return {
+      triage: UNCERTAIN_LEVEL,
+      step: {
+        type: 'consult',
+        title: TRIAGE_LABELS[UNCERTAIN_LEVEL],
+        description: 'We could not match your symptoms to a condition with confidence, so a doctor should assess them.',
+        suggestions: SUGGESTIONS[UNCERTAIN_LEVEL],
+        triage: UNCERTAIN_LEVEL
+      }
+    };
+  }
+
+  const drivers = considered.filter(condition => condition.triage === triage).map(condition => condition.name);
+  return {
+    triage,
+    step: {
+      type: triage === 'emergency' ? 'emergency' : 'consult',
+      title: TRIAGE_LABELS[triage],
+      description: `Recommended because of ${drivers.join(' and ')}, which ${drivers.length > 1 ? 'are' : 'is'} usually ${describeLevel(triage)}.`,
+      suggestions: SUGGESTIONS[triage],
+      triage
+    }
+  };
+}
+
+/**
+ * How a condition at this level is usually handled, to finish a sentence
+ */
+function describeLevel(triage: TriageLevel): string {
+  switch (triage) {
+    case 'self_care':
+      return 'managed at home';
+    case 'primary_care':
+      return 'seen by a doctor within a few days';
+    case 'urgent_care':
+      return 'seen the same day';
+    case 'emergency':
+      return 'treated as an emergency';
+  }
+}
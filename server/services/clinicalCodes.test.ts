@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { toMedicalCondition } from '../storage';
+import { codeField, parseCodeSubset, planCodeImport, toClinicalCodes } from './clinicalCodes';
+import { TermStandardization } from './termStandardization';
+
+const conditions = [
+  toMedicalCondition(1, {
+    name: 'Influenza',
+    description: 'Influenza',
+    symptoms: [],
+    aliases: ['flu'],
+    snomedCtId: '6142004',
+    urgency: 'primary_care',
+    recommendation: 'Rest'
+  }),
+  toMedicalCondition(2, {
+    name: 'Migraine',
+    description: 'Migraine',
+    symptoms: [],
+    urgency: 'primary_care',
+    recommendation: 'Rest'
+  })
+];
+
+const lexicon = new TermStandardization({
+  version: '1.0.0',
+  concepts: [{ id: 'cough', name: 'cough', terms: ['coughing'], misspellings: [], abbreviations: [], icd11Code: 'MD12' }]
+});
+
+const subset = (...rows: string[]) => ['system\tcode\tterm', ...rows].join('\n');
+
+describe('parseCodeSubset', () => {
+  it('reads the named columns in any order, skipping comments and blank lines', () => {
+    const text = '# exported subset\nterm\textra\tcode\tsystem\n\nMigraine\tx\t37796009\tSNOMED CT\ncoughing\t\tmd12\ticd11\n';
+
+    expect(parseCodeSubset(text)).toEqual([
+      { line: 4, system: 'SNOMED-CT', code: '37796009', term: 'Migraine' },
+      { line: 5, system: 'ICD-11', code: 'MD12', term: 'coughing' }
+    ]);
+  });
+
+  it('reports every invalid row with its line', () => {
+    expect(() => parseCodeSubset(subset('LOINC\t1234-5\tGlucose', 'SNOMED-CT\t12\tMigraine', 'ICD-11\t8A80\t')))
+      .toThrow('Invalid code subset:\n  line 2: unknown code system "LOINC"\n  line 3: "12" is not a valid SNOMED-CT code\n  line 4: missing term');
+    expect(() => parseCodeSubset('code\tterm\n1E32\tflu')).toThrow('missing column(s): system');
+  });
+});
+
+describe('planCodeImport', () => {
+  it('codes conditions by name or alias and symptoms through the lexicon', () => {
+    const rows = parseCodeSubset(subset(
+      'SNOMED-CT\t37796009\tMigraine',
+      'ICD-11\t1E32\tflu',
+      'SNOMED-CT\t6142004\tInfluenza',
+      'ICD-11\tMD12\tCoughing',
+      'SNOMED-CT\t49727002\tcoughing',
+      'ICD-11\tME84\tknee pain'
+    ));
+
+    const plan = planCodeImport(rows, conditions, lexicon);
+
+    expect(plan.assignments).toEqual([
+      { target: 'condition', name: 'Migraine', system: 'SNOMED-CT', code: '37796009', previous: undefined, term: 'Migraine' },
+      { target: 'condition', name: 'Influenza', system: 'ICD-11', code: '1E32', previous: undefined, term: 'flu' },
+      { target: 'symptom', name: 'cough', system: 'SNOMED-CT', code: '49727002', previous: undefined, term: 'coughing' }
+    ]);
+    expect(plan.unchanged).toBe(2);
+    expect(plan.unmatched.map(row => row.term)).toEqual(['knee pain']);
+    expect(plan.conflicts).toEqual([]);
+  });
+
+  it('keeps the first code given for a target and reports the rest', () => {
+    const rows = parseCodeSubset(subset('ICD-11\t8A80\tMigraine', 'ICD-11\t8A81\tmigraine', 'ICD-11\t8A80\tMigraine'));
+
+    const plan = planCodeImport(rows, conditions, lexicon);
+
+    expect(plan.assignments.map(a => a.code)).toEqual(['8A80']);
+    expect(plan.conflicts).toEqual(['Migraine (condition): ICD-11 8A81 on line 3 ignored in favor of 8A80 on line 2']);
+  });
+
+  it('records the code an assignment replaces', () => {
+    const plan = planCodeImport(parseCodeSubset(subset('SNOMED-CT\t442438000\tInfluenza')), conditions, lexicon);
+
+    expect(plan.assignments).toEqual([expect.objectContaining({ code: '442438000', previous: '6142004' })]);
+  });
+});
+
+describe('toClinicalCodes', () => {
+  it('lists the codes that are set', () => {
+    expect(toClinicalCodes({ snomedCtId: '6142004', icd11Code: null })).toEqual([{ system: 'SNOMED-CT', code: '6142004' }]);
+    expect(codeField('ICD-11')).toBe('icd11Code');
+  });
+});
@@ -0,0 +1,170 @@
+import { ClinicalCode, CodedConcept, CodeSystem, MedicalCondition } from '@shared/schema';
+import { normalizeConditionName } from './conditionGrounding';
+import { termStandardization, type TermStandardization } from './termStandardization';
+
+// Accepted spellings of each code system in subset files
+const SYSTEM_NAMES: Record<string, CodeSystem> = {
+  'snomed-ct': 'SNOMED-CT',
+  'snomed ct': 'SNOMED-CT',
+  'snomedct': 'SNOMED-CT',
+  'icd-11': 'ICD-11',
+  'icd11': 'ICD-11',
+};
+
+// SNOMED CT concept IDs are 6-18 digits; ICD-11 MMS codes look like "1E32" or "CA40.0"
+const CODE_FORMATS: Record<CodeSystem, RegExp> = {
+  'SNOMED-CT': /^\d{6,18}$/,
+  'ICD-11': /^[0-9A-Z]{4}(\.[0-9A-Z]{1,2})?$/,
+};
+
+// Where each system's code is kept on conditions and lexicon concepts
+const CODE_FIELDS: Record<CodeSystem, 'snomedCtId' | 'icd11Code'> = {
+  'SNOMED-CT': 'snomedCtId',
+  'ICD-11': 'icd11Code',
+};
+
+export interface CodeSubsetRow {
+  line: number;
+  system: CodeSystem;
+  code: string;
+  term: string;
+}
+
+export interface CodeAssignment {
+  target: 'condition' | 'symptom';
+  name: string; // condition name or lexicon concept name
+  system: CodeSystem;
+  code: string;
+  previous?: string; // code being replaced, if any
+  term: string; // subset term that matched
+}
+
+export interface CodeImportPlan {
+  assignments: CodeAssignment[];
+  unchanged: number;
+  unmatched: CodeSubsetRow[];
+  conflicts: string[];
+}
+
+type Codes = Partial<Record<'snomedCtId' | 'icd11Code', string | null>>;
+
+/**
+ * Codes recorded on a knowledge base condition or lexicon concept
+ */
+export function toClinicalCodes(codes: Codes): ClinicalCode[] {
+  return (Object.keys(CODE_FIELDS) as CodeSystem[])
+    .filter(system => codes[CODE_FIELDS[system]])
+    .map(system => ({ system, code: codes[CODE_FIELDS[system]]! }));
+}
+
+/**
+ * Codes for each symptom name, from the lexicon concept it names. Symptoms
+ * the lexicon does not cover, such as "knee pain", get an empty list.
+ */
+export function codeSymptoms(names: string[]): CodedConcept[] {
+  return names.map(name => {
+    const concept = termStandardization.lookup(name);
+    return { name, codes: concept ? toClinicalCodes(concept) : [] };
+  });
+}
+
+/**
+ * Parse a tab-separated code subset. The header row names the `system`,
+ * `code` and `term` columns (any order, extra columns ignored); blank lines
+ * and lines starting with # are skipped.
+ */
+export function parseCodeSubset(text: string): CodeSubsetRow[] {
+  const lines = text.split(/\r?\n/)
+    .map((content, index) => ({ content, line: index + 1 }))
+    .filter(({ content }) => content.trim() && !content.startsWith('#'));
+  if (lines.length === 0) return [];
+
+  const header = lines[0].content.split('\t').map(column => column.trim().toLowerCase());
+  const columns = { system: header.indexOf('system'), code: header.indexOf('code'), term: header.indexOf('term') };
+  const missing = Object.entries(columns).filter(([, index]) => index < 0).map(([name]) => name);
+  if (missing.length > 0) {
+    throw new Error(`Code subset header is missing column(s): ${missing.join(', ')}`);
+  }
+
+  const rows: CodeSubsetRow[] = [];
+  const errors: string[] = [];
+  for (const { content, line } of lines.slice(1)) {
+    const cells = content.split('\t').map(cell => cell.trim());
+    const system = SYSTEM_NAMES[(cells[columns.system] || '').toLowerCase()];
+    const code = (cells[columns.code] || '').toUpperCase();
+    const term = cells[columns.term] || '';
+
+    if (!system) {
+      errors.push(`line ${line}: unknown code system "${cells[columns.system] || ''}"`);
+    } else if (!CODE_FORMATS[system].test(code)) {
+      errors.push(`line ${line}: "${code}" is not a valid ${system} code`);
+    } else if (!term) {
+      errors.push(`line ${line}: missing term`);
+    } else {
+      rows.push({ line, system, code, term });
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid code subset:\n  ${errors.join('\n  ')}`);
+  }
+  return rows;
+}
+
+/**
+ * Work out which conditions and lexicon concepts each subset row codes.
+ * A term matches a condition by name or alias and a symptom through the
+ * lexicon; fuzzy matches are not used, since a wrong code is worse than none.
+ * When several rows code the same target in the same system, the first wins.
+ */
+export function planCodeImport(
+  rows: CodeSubsetRow[],
+  conditions: MedicalCondition[],
+  lexicon: TermStandardization
+): CodeImportPlan {
+  const plan: CodeImportPlan = { assignments: [], unchanged: 0, unmatched: [], conflicts: [] };
+  const claimed = new Map<string, CodeSubsetRow>();
+
+  for (const row of rows) {
+    const normalized = normalizeConditionName(row.term);
+    const concept = lexicon.lookup(row.term);
+    const targets = [
+      ...conditions
+        .filter(c => [c.name, ...(c.aliases || [])].some(name => normalizeConditionName(name) === normalized))
+        .map(c => ({ target: 'condition' as const, name: c.name, current: c[CODE_FIELDS[row.system]] })),
+      ...(concept ? [{ target: 'symptom' as const, name: concept.name, current: concept[CODE_FIELDS[row.system]] }] : []),
+    ];
+
+    if (targets.length === 0) {
+      plan.unmatched.push(row);
+      continue;
+    }
+
+    for (const { target, name, current } of targets) {
+      const key = `${target}:${name}:${row.system}`;
+      const earlier = claimed.get(key);
+      if (earlier) {
+        if (earlier.code !== row.code) {
+          plan.conflicts.push(`${name} (${target}): ${row.system} ${row.code} on line ${row.line} ignored in favor of ${earlier.code} on line ${earlier.line}`);
+        }
+        continue;
+      }
+      claimed.set(key, row);
+
+      if (current === row.code) {
+        plan.unchanged++;
+      } else {
+        plan.assignments.push({ target, name, system: row.system, code: row.code, previous: current || undefined, term: row.term });
+      }
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * The field a code system's codes are stored in
+ */
+export function codeField(system: CodeSystem): 'snomedCtId' | 'icd11Code' {
+  return CODE_FIELDS[system];
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import type { PotentialCondition } from '@shared/schema';
+import { toMedicalCondition } from '../storage';
+import {
+  differsOnlyBySpelling,
+  groundPredictions,
+  matchCondition,
+  normalizeConditionName,
+  UNGROUNDED_SCORE_PENALTY
+} from './conditionGrounding';
+import { KnowledgeBase } from './knowledgeBase';
+
+const condition = (id: number, name: string, aliases: string[] = []) => toMedicalCondition(id, {
+  name,
+  description: name,
+  symptoms: [],
+  aliases,
+  urgency: 'primary_care',
+  recommendation: 'See a doctor'
+});
+
+const conditions = [
+  condition(1, 'Type 1 Diabetes'),
+  condition(2, 'Hepatitis A'),
+  condition(3, 'Influenza', ['flu']),
+  condition(4, 'Lyme Disease')
+];
+
+describe('normalizeConditionName', () => {
+  it('drops case, parentheticals, possessives and hedging words', () => {
+    expect(normalizeConditionName("Possible Parkinson's Disease (early)")).toBe('parkinson disease');
+  });
+});
+
+describe('matchCondition', () => {
+  it('matches by canonical name, then alias', () => {
+    expect(matchCondition('influenza', conditions)).toMatchObject({ grounding: 'exact', condition: { id: 3 } });
+    expect(matchCondition('Flu', conditions)).toMatchObject({ grounding: 'alias', matchedName: 'flu' });
+  });
+
+  it('forgives misspellings and word order', () => {
+    expect(matchCondition('Influenze', conditions)).toMatchObject({ grounding: 'fuzzy', condition: { id: 3 } });
+    expect(matchCondition('disease lyme', conditions)).toMatchObject({ grounding: 'fuzzy', condition: { id: 4 } });
+  });
+
+  it('never matches names that differ by a number or a letter', () => {
+    expect(matchCondition('Type 2 Diabetes', conditions)).toBeUndefined();
+    expect(matchCondition('Type II Diabetes', conditions)).toBeUndefined();
+    expect(matchCondition('Hepatitis B', conditions)).toBeUndefined();
+  });
+});
+
+describe('differsOnlyBySpelling', () => {
+  it('accepts misspelt words and rejects different ones', () => {
+    expect(differsOnlyBySpelling('lyme diseas', 'lyme disease')).toBe(true);
+    expect(differsOnlyBySpelling('strep throat', 'sore throat')).toBe(false);
+    expect(differsOnlyBySpelling('covid 19', 'covid 9')).toBe(false);
+    expect(differsOnlyBySpelling('chronic kidney disease', 'kidney disease')).toBe(false);
+  });
+});
+
+describe('groundPredictions', () => {
+  const knowledgeBase = new KnowledgeBase();
+  const prediction = (name: string, score: number): PotentialCondition => ({
+    name,
+    description: 'From the LLM',
+    relevance: 'medium',
+    score,
+    symptoms: ['fever']
+  });
+
+  it('takes the knowledge base entry of a matched candidate and keeps the LLM score', async () => {
+    const [grounded] = await groundPredictions([prediction('Possible flu', 0.6)], ['fever'], knowledgeBase);
+
+    expect(grounded).toMatchObject({ name: 'Influenza', grounding: 'alias', score: 0.6 });
+    expect(grounded.urgency).toBeDefined();
+    expect(grounded.description).not.toBe('From the LLM');
+  });
+
+  it('combines candidates that resolve to the same entry, keeping the more confident', async () => {
+    const grounded = await groundPredictions([prediction('Flu', 0.4), prediction('Influenza', 0.7)], ['fever'], knowledgeBase);
+
+    expect(grounded).toHaveLength(1);
+    expect(grounded[0].score).toBe(0.7);
+  });
+
+  it('keeps unknown candidates as ungrounded at a reduced score', async () => {
+    const [grounded] = await groundPredictions([prediction('Type 2 Diabetes', 0.6)], [], knowledgeBase);
+
+    expect(grounded).toMatchObject({ name: 'Type 2 Diabetes', grounding: 'ungrounded', score: 0.6 * UNGROUNDED_SCORE_PENALTY });
+    expect(grounded.urgency).toBeUndefined();
+  });
+});
@@ -0,0 +1,226 @@
+import { MedicalCondition, PotentialCondition, ConditionGrounding } from '@shared/schema';
+import { knowledgeBase as defaultKnowledgeBase, type KnowledgeBase } from './knowledgeBase';
+import { termStandardization } from './termStandardization';
+import { toClinicalCodes } from './clinicalCodes';
+
+// Minimum name similarity (0-1) for a fuzzy match to count
+export const FUZZY_MATCH_THRESHOLD = 0.85;
+
+// Score multiplier for LLM candidates with no knowledge base entry
+export const UNGROUNDED_SCORE_PENALTY = 0.5;
+
+// Hedging words models put in front of condition names
+const HEDGE_WORDS = new Set(['possible', 'probable', 'suspected', 'likely', 'potential']);
+
+export interface ConditionMatch {
+  condition: MedicalCondition;
+  grounding: Exclude<ConditionGrounding, 'ungrounded'>;
+  matchedName: string;
+  similarity: number;
+}
+
+/**
+ * Lowercase, drop parentheticals, punctuation and hedging words so that
+ * "Possible Influenza (flu)" and "influenza" compare equal
+ */
+export function normalizeConditionName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/['’]s\b/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !HEDGE_WORDS.has(word))
+    .join(' ');
+}
+
+/**
+ * Edit distance between two strings
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Edit distance scaled to 0-1, where 1 means equal
+ */
+function editSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshteinDistance(a, b) / longest;
+}
+
+/**
+ * Similarity between two normalized names from 0 to 1. Words are also compared
+ * in sorted order so "disease lyme" still matches "lyme disease".
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const sortWords = (value: string) => value.split(' ').sort().join(' ');
+
+  return Math.max(editSimilarity(a, b), editSimilarity(sortWords(a), sortWords(b)));
+}
+
+// Numbers, roman numerals and single letters tell related conditions apart
+const isDistinguishingWord = (word: string) => word.length === 1 || /^\d+$/.test(word) || /^[ivx]+$/.test(word);
+
+/**
+ * Whether two normalized names differ only by misspelt words. A word added or
+ * dropped, or a different number or letter ("type 1 diabetes" and "type 2
+ * diabetes", "hepatitis a" and "hepatitis b"), names a different condition
+ * however similar the strings are.
+ */
+export function differsOnlyBySpelling(a: string, b: string): boolean {
+  const aWords = new Set(a.split(' '));
+  const bWords = new Set(b.split(' '));
+  const onlyA = Array.from(aWords).filter(word => !bWords.has(word));
+  const onlyB = Array.from(bWords).filter(word => !aWords.has(word));
+  if (onlyA.length !== onlyB.length) return false;
+
+  return onlyA.every(word =>
+    !isDistinguishingWord(word) &&
+    onlyB.some(other => !isDistinguishingWord(other) && editSimilarity(word, other) >= FUZZY_MATCH_THRESHOLD)
+  );
+}
+
+/**
+ * Find the knowledge base entry an LLM condition name refers to, trying the
+ * canonical name, then aliases, then the closest fuzzy match above threshold
+ * that differs only by spelling
+ */
+export function matchCondition(name: string, conditions: MedicalCondition[]): ConditionMatch | undefined {
+  const normalized = normalizeConditionName(name);
+  if (!normalized) return undefined;
+
+  const exact = conditions.find(c => normalizeConditionName(c.name) === normalized);
+  if (exact) {
+    return { condition: exact, grounding: 'exact', matchedName: exact.name, similarity: 1 };
+  }
+
+  for (const condition of conditions) {
+    const alias = (condition.aliases || []).find(a => normalizeConditionName(a) === normalized);
+    if (alias) {
+      return { condition, grounding: 'alias', matchedName: alias, similarity: 1 };
+    }
+  }
+
+  let best: ConditionMatch | undefined;
+  for (const condition of conditions) {
+    for (const candidate of [condition.name, ...(condition.aliases || [])]) {
+      const candidateName = normalizeConditionName(candidate);
+      const similarity = nameSimilarity(normalized, candidateName);
+      if (similarity < FUZZY_MATCH_THRESHOLD || !differsOnlyBySpelling(normalized, candidateName)) continue;
+      if (!best || similarity > best.similarity) {
+        best = { condition, grounding: 'fuzzy', matchedName: candidate, similarity };
+      }
+    }
+  }
+
+  return best;
+}
+
+const downgradeRelevance = (relevance: PotentialCondition['relevance']): PotentialCondition['relevance'] =>
+  relevance === 'high' ? 'medium' : 'low';
+
+/**
+ * Notes where the LLM's confidence disagrees with how well the reported
+ * symptoms match the knowledge base entry
+ */
+function findConflicts(prediction: PotentialCondition, conditionName: string, association: number): string[] {
+  if (prediction.relevance === 'high' && association === 0) {
+    return [`Conflict: the LLM rated ${conditionName} as highly relevant, but none of the reported symptoms match its knowledge base entry`];
+  }
+  if (prediction.relevance === 'low' && association > 0.7) {
+    return [`Conflict: the LLM rated ${conditionName} as low relevance, but its knowledge base association is strong (${association.toFixed(2)})`];
+  }
+  return [];
+}
+
+/**
+ * Map LLM-suggested conditions onto knowledge base entries. Matched candidates
+ * take the KB's canonical name, description, urgency and recommendation while
+ * keeping the LLM's score; unmatched ones are kept but flagged as ungrounded
+ * with a reduced score. Candidates that resolve to the same entry are combined.
+ * @param predictions - Validated conditions from the LLM
+ * @param identifiedFactors - Symptoms extracted from the user's description
+ * @param knowledgeBase - Knowledge base to ground against, the live one by default
+ */
+export async function groundPredictions(
+  predictions: PotentialCondition[],
+  identifiedFactors: string[],
+  knowledgeBase: KnowledgeBase = defaultKnowledgeBase
+): Promise<PotentialCondition[]> {
+  const conditions = await knowledgeBase.getAllConditions();
+  const grounded = new Map<string, PotentialCondition>();
+
+  for (const prediction of predictions) {
+    const match = matchCondition(prediction.name, conditions);
+
+    if (!match) {
+      const key = `ungrounded:${normalizeConditionName(prediction.name)}`;
+      if (grounded.has(key)) continue;
+
+      grounded.set(key, {
+        ...prediction,
+        symptoms: termStandardization.standardizeSymptoms(prediction.symptoms),
+        relevance: downgradeRelevance(prediction.relevance),
+        score: prediction.score !== undefined ? prediction.score * UNGROUNDED_SCORE_PENALTY : undefined,
+        grounding: 'ungrounded',
+        reasoningNotes: [
+          ...(prediction.reasoningNotes || []),
+          `Ungrounded: "${prediction.name}" has no knowledge base entry, so its urgency and recommendations are unverified`
+        ]
+      });
+      continue;
+    }
+
+    const { condition } = match;
+    const association = await knowledgeBase.calculateSymptomAssociation(condition.name, identifiedFactors);
+
+    const notes = [...(prediction.reasoningNotes || [])];
+    if (match.grounding !== 'exact') {
+      notes.push(match.grounding === 'alias'
+        ? `LLM suggested "${prediction.name}", matched to ${condition.name} by alias`
+        : `LLM suggested "${prediction.name}", matched to ${condition.name} by name similarity (${match.similarity.toFixed(2)})`);
+    }
+    notes.push(...findConflicts(prediction, condition.name, association));
+
+    const key = condition.name.toLowerCase();
+    const existing = grounded.get(key);
+    if (existing) {
+      // Keep the more confident candidate and every note from both
+      const keepNew = (prediction.score ?? 0) > (existing.score ?? 0);
+      grounded.set(key, {
+        ...(keepNew ? { ...existing, relevance: prediction.relevance, score: prediction.score } : existing),
+        reasoningNotes: [...(existing.reasoningNotes || []), ...notes]
+      });
+      continue;
+    }
+
+    grounded.set(key, {
+      name: condition.name,
+      description: condition.description,
+      relevance: prediction.relevance,
+      symptoms: condition.symptoms || [],
+      visualCues: condition.visualCues || [],
+      score: prediction.score,
+      urgency: condition.urgency,
+      recommendation: condition.recommendation,
+      learnMoreUrl: condition.learnMoreUrl || undefined,
+      reasoningNotes: notes,
+      grounding: match.grounding,
+      codes: toClinicalCodes(condition)
+    });
+  }
+
+  return Array.from(grounded.values());
+}
@@ -0,0 +1,141 @@
+import { CONDITION_SEXES, type ConditionSex, type InsertSymptom, type MedicalCondition } from '@shared/schema';
+
+/**
+ * The patient details a condition's demographics are checked against, as
+ * collected by the symptom form
+ */
+export interface PatientDemographics {
+  age?: number;
+  gender?: string; // male, female, other or prefer-not-to-say
+  pregnant?: boolean; // only asked of female patients
+}
+
+export interface DemographicFit {
+  multiplier: number; // applied to the condition's confidence; 0 when excluded
+  excluded: boolean;
+  notes: string[];
+}
+
+// Boost for a patient in the free-text commonInAgeGroup when a condition has no age bands
+const COMMON_AGE_GROUP_WEIGHT = 1.1;
+
+// Age groups recognised in commonInAgeGroup, most specific first
+const NAMED_AGE_GROUPS: Array<{ pattern: RegExp; minAge: number; maxAge: number }> = [
+  { pattern: /\b(infants?|babies|newborns?)\b/i, minAge: 0, maxAge: 1 },
+  { pattern: /\btoddlers?\b/i, minAge: 1, maxAge: 3 },
+  { pattern: /\b(adolescents?|teenagers?|teens?)\b/i, minAge: 13, maxAge: 17 },
+  { pattern: /\b(children|child|kids|pediatric|paediatric)\b/i, minAge: 0, maxAge: 12 },
+  { pattern: /\byoung adults?\b/i, minAge: 18, maxAge: 35 },
+  { pattern: /\b(older adults?|elderly|seniors?)\b/i, minAge: 65, maxAge: 120 },
+  { pattern: /\b(middle[- ]aged)\b/i, minAge: 40, maxAge: 65 },
+  { pattern: /\badults?\b/i, minAge: 18, maxAge: 120 },
+];
+
+/**
+ * Read age ranges out of a free-text commonInAgeGroup such as "Children",
+ * "Adults over 50", "20-40" or "Children and older adults". Text with no
+ * recognisable group, such as "All ages", gives no ranges.
+ */
+export function parseAgeGroup(text: string | null | undefined): Array<{ minAge: number; maxAge: number }> {
+  if (!text) return [];
+
+  let remaining = text;
+  const ranges: Array<{ minAge: number; maxAge: number }> = [];
+  const numeric: Array<[RegExp, (match: RegExpMatchArray) => { minAge: number; maxAge: number }]> = [
+    [/(\d+)\s*(?:-|–|to)\s*(\d+)/i, match => ({ minAge: Number(match[1]), maxAge: Number(match[2]) })],
+    [/(?:over|above|older than)\s+(\d+)|(\d+)\s*\+/i, match => ({ minAge: Number(match[1] ?? match[2]), maxAge: 120 })],
+    [/(?:under|below|younger than)\s+(\d+)/i, match => ({ minAge: 0, maxAge: Math.max(0, Number(match[1]) - 1) })],
+  ];
+
+  for (const [pattern, toRange] of numeric) {
+    const match = remaining.match(pattern);
+    if (match) {
+      ranges.push(toRange(match));
+      remaining = remaining.replace(match[0], ' ');
+    }
+  }
+  // A number qualifies the group it follows ("adults over 50"), so named groups only count on their own
+  if (ranges.length > 0) return ranges;
+
+  for (const group of NAMED_AGE_GROUPS) {
+    if (group.pattern.test(remaining)) {
+      ranges.push({ minAge: group.minAge, maxAge: group.maxAge });
+      remaining = remaining.replace(group.pattern, ' ');
+    }
+  }
+  return ranges;
+}
+
+/**
+ * The patient details stored with a symptom, for re-analysing it
+ */
+export function symptomPatient(symptom: Pick<InsertSymptom, 'patientAge' | 'patientGender' | 'patientPregnant'>): PatientDemographics {
+  return {
+    age: symptom.patientAge ?? undefined,
+    gender: symptom.patientGender ?? undefined,
+    pregnant: symptom.patientPregnant ?? undefined
+  };
+}
+
+/**
+ * Check how plausible a condition is for the patient. Hard limits exclude the
+ * condition with an explanation; age bands (or, failing those, the free-text
+ * commonInAgeGroup) raise or lower its score. Details the patient did not give,
+ * or a gender other than male or female, leave the score alone.
+ * @param condition - The condition's demographics and commonInAgeGroup
+ * @param patient - What the patient told us about themselves
+ */
+export function evaluateDemographicFit(
+  condition: Pick<MedicalCondition, 'demographics' | 'commonInAgeGroup'>,
+  patient: PatientDemographics
+): DemographicFit {
+  const demographics = condition.demographics ?? {};
+  const { age, pregnant } = patient;
+  const gender = patient.gender?.toLowerCase();
+  const sex = CONDITION_SEXES.includes(gender as ConditionSex) ? gender as ConditionSex : undefined;
+  const exclusions: string[] = [];
+
+  if (age !== undefined) {
+    const minAge = demographics.minAge ?? 0;
+    const maxAge = demographics.maxAge ?? 120;
+    if (age < minAge || age > maxAge) {
+      exclusions.push(`Excluded: only affects ages ${minAge}-${maxAge}, and the patient is ${age}`);
+    }
+  }
+  if (sex && demographics.sexes && !demographics.sexes.includes(sex)) {
+    exclusions.push(`Excluded: only affects ${demographics.sexes.join(' or ')} patients`);
+  }
+  if (demographics.pregnancyOnly && (sex === 'male' || pregnant === false)) {
+    exclusions.push('Excluded: only occurs during pregnancy');
+  }
+
+  if (exclusions.length > 0) {
+    return { multiplier: 0, excluded: true, notes: exclusions };
+  }
+
+  let multiplier = 1;
+  const notes: string[] = [];
+  const apply = (factor: number, note: string) => {
+    multiplier *= factor;
+    notes.push(`${note} (x${factor.toFixed(2)})`);
+  };
+
+  if (demographics.pregnancyOnly && pregnant === undefined) {
+    notes.push('Only occurs during pregnancy; pregnancy was not reported');
+  }
+
+  if (age !== undefined) {
+    const bands = demographics.ageBands ?? [];
+    if (bands.length > 0) {
+      for (const band of bands.filter(band => age >= band.minAge && age <= band.maxAge)) {
+        const range = `${band.minAge}-${band.maxAge}`;
+        if (band.weight > 1) apply(band.weight, `More common at ages ${range}`);
+        else if (band.weight < 1) apply(band.weight, `Less common at ages ${range}`);
+      }
+    } else if (parseAgeGroup(condition.commonInAgeGroup).some(range => age >= range.minAge && age <= range.maxAge)) {
+      apply(COMMON_AGE_GROUP_WEIGHT, `Common in ${condition.commonInAgeGroup!.toLowerCase()}`);
+    }
+  }
+
+  return { multiplier, excluded: false, notes };
+}
@@ -72,8 +72,8 @@ export class ImageEncoder {
       // 3. Run it through a pre-trained CNN
       // 4. Extract features from the model's output
       
-      // For this simulation, we'll extract symptoms from the description if available
-      // and randomly detect some visual features
+      // Until then, visual symptoms come only from the description. Without
+      // one the image adds no findings rather than made-up ones.
       const identifiedFeatures: string[] = [];
       
       // Extract mentions of visual symptoms from description if available
@@ -86,14 +86,6 @@ export class ImageEncoder {
         });
       }
       
-      // Simulate random detection of visual symptoms if none found in description
-      if (identifiedFeatures.length === 0) {
-        // Pick 1-2 random symptoms
-        const numFeatures = Math.floor(Math.random() * 2) + 1;
-        const shuffled = [...this.visualSymptoms].sort(() => 0.5 - Math.random());
-        identifiedFeatures.push(...shuffled.slice(0, numFeatures));
-      }
-      
       // Create a combined embedding vector for the detected features
       let embeddingVector: number[];
       
@@ -0,0 +1,65 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { detectImageMimeType, imageMimeTypeFromReference, LocalDiskImageStore } from './imageStorage';
+
+const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00]);
+const heic = (brand: string) => Buffer.concat([Buffer.from([0, 0, 0, 0x18]), Buffer.from(`ftyp${brand}`, 'ascii')]);
+
+describe('detectImageMimeType', () => {
+  it('recognises JPEG, PNG and HEIC from their leading bytes', () => {
+    expect(detectImageMimeType(jpeg)).toBe('image/jpeg');
+    expect(detectImageMimeType(png)).toBe('image/png');
+    expect(detectImageMimeType(heic('heic'))).toBe('image/heic');
+    expect(detectImageMimeType(heic('mif1'))).toBe('image/heic');
+  });
+
+  it('rejects other files whatever they are called', () => {
+    expect(detectImageMimeType(Buffer.from('GIF89a'))).toBeUndefined();
+    expect(detectImageMimeType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBeUndefined();
+    expect(detectImageMimeType(heic('mp42'))).toBeUndefined();
+    expect(detectImageMimeType(png.subarray(0, 7))).toBeUndefined();
+  });
+});
+
+describe('LocalDiskImageStore', () => {
+  let directory: string;
+  let store: LocalDiskImageStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'image-store-'));
+    store = new LocalDiskImageStore(directory);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('names images by their contents, so the same bytes are stored once', async () => {
+    const first = await store.save(png, 'image/png');
+    const second = await store.save(png, 'image/png');
+    const other = await store.save(jpeg, 'image/jpeg');
+
+    expect(second).toEqual(first);
+    expect(first.path).toMatch(/^\/uploads\/[a-f0-9]{64}\.png$/);
+    expect(other.path).not.toBe(first.path);
+    expect(await fs.readdir(directory)).toHaveLength(2);
+    expect(await store.read(first.path)).toEqual(png);
+    expect(imageMimeTypeFromReference(other.path)).toBe('image/jpeg');
+  });
+
+  it('reads only references it handed out', async () => {
+    const { path: reference } = await store.save(png, 'image/png');
+
+    expect(store.isStoredReference(reference)).toBe(true);
+    expect(await store.read('/uploads/../../etc/passwd')).toBeUndefined();
+    expect(await store.read(`/uploads/${'0'.repeat(64)}.png`)).toBeUndefined();
+    expect(await store.getReadStream('/etc/passwd')).toBeUndefined();
+  });
+
+  it('refuses unsupported types', async () => {
+    await expect(store.save(Buffer.from('GIF89a'), 'image/gif')).rejects.toThrow('Unsupported image type');
+  });
+});
@@ -0,0 +1,166 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Readable } from 'stream';
+
+// Limits mirror the client-side rules in ImageUpload.tsx
+export const MAX_IMAGE_SIZE = 5 * 1024 * 1024; // 5MB
+export const MAX_IMAGES_PER_UPLOAD = 5;
+
+// Public URL prefix under which stored images are served
+export const UPLOADS_URL_PREFIX = '/uploads';
+
+/**
+ * Image types accepted by the upload endpoint, keyed by MIME type
+ */
+const SUPPORTED_IMAGE_TYPES: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/heic': '.heic',
+};
+
+/**
+ * Whether an error came from a failed system call, and so carries a code
+ */
+function isErrnoException(error: unknown): error is NodeJS.ErrnoException {
+  return error instanceof Error && 'code' in error;
+}
+
+export interface StoredImage {
+  path: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * Detect the image type from the file's leading bytes rather than trusting
+ * the client-supplied Content-Type or file extension
+ * @param buffer - The raw file contents
+ * @returns The detected MIME type, or undefined if the bytes are not a supported image
+ */
+export function detectImageMimeType(buffer: Buffer): string | undefined {
+  // JPEG: FF D8 FF
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'image/jpeg';
+  }
+
+  // PNG: 89 50 4E 47 0D 0A 1A 0A
+  const pngSignature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+  if (buffer.length >= 8 && pngSignature.every((byte, i) => buffer[i] === byte)) {
+    return 'image/png';
+  }
+
+  // HEIC/HEIF: ISO BMFF "ftyp" box at offset 4 followed by a HEIF brand
+  if (buffer.length >= 12 && buffer.toString('ascii', 4, 8) === 'ftyp') {
+    const brand = buffer.toString('ascii', 8, 12);
+    if (['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'].includes(brand)) {
+      return 'image/heic';
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Storage backend for uploaded images. Implementations must be content-addressed:
+ * saving the same bytes twice returns the same reference. Reads take a
+ * reference returned by save() and give undefined for anything else,
+ * including images that have since gone missing.
+ */
+export interface IImageStore {
+  save(buffer: Buffer, mimeType: string): Promise<StoredImage>;
+  read(reference: string): Promise<Buffer | undefined>;
+  getReadStream(reference: string): Promise<Readable | undefined>;
+  isStoredReference(reference: string): boolean;
+}
+
+/**
+ * Stores images on the local filesystem, named by the SHA-256 of their contents
+ */
+export class LocalDiskImageStore implements IImageStore {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async save(buffer: Buffer, mimeType: string): Promise<StoredImage> {
+    const extension = SUPPORTED_IMAGE_TYPES[mimeType];
+    if (!extension) {
+      throw new Error(`Unsupported image type: ${mimeType}`);
+    }
+
+    const hash = createHash('sha256').update(buffer).digest('hex');
+    const filename = `${hash}${extension}`;
+    const filePath = path.join(this.directory, filename);
+
+    await fs.mkdir(this.directory, { recursive: true });
+
+    try {
+      // 'wx' fails if the file exists, which for content-addressed names means
+      // the identical image is already stored
+      await fs.writeFile(filePath, buffer, { flag: 'wx' });
+    } catch (error) {
+      if (!isErrnoException(error) || error.code !== 'EEXIST') throw error;
+    }
+
+    return {
+      path: `${UPLOADS_URL_PREFIX}/${filename}`,
+      filename,
+      mimeType,
+      size: buffer.length,
+    };
+  }
+
+  async read(reference: string): Promise<Buffer | undefined> {
+    const filePath = this.resolve(reference);
+    if (!filePath) return undefined;
+
+    try {
+      return await fs.readFile(filePath);
+    } catch (error) {
+      if (isErrnoException(error) && error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async getReadStream(reference: string): Promise<Readable | undefined> {
+    const filePath = this.resolve(reference);
+    if (!filePath) return undefined;
+
+    try {
+      const handle = await fs.open(filePath, 'r');
+      return handle.createReadStream();
+    } catch (error) {
+      if (isErrnoException(error) && error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  isStoredReference(reference: string): boolean {
+    return /^\/uploads\/[a-f0-9]{64}\.(jpg|png|heic)$/.test(reference);
+  }
+
+  /**
+   * Map a stored image reference back to its location on disk
+   * @param reference - A path previously returned by save()
+   * @returns The absolute file path, or undefined if the reference is not ours
+   */
+  private resolve(reference: string): string | undefined {
+    if (!this.isStoredReference(reference)) return undefined;
+    return path.join(this.directory, path.basename(reference));
+  }
+}
+
+/**
+ * MIME type of a stored image, from the extension in its reference
+ */
+export function imageMimeTypeFromReference(reference: string): string | undefined {
+  const extension = path.extname(reference);
+  return Object.keys(SUPPORTED_IMAGE_TYPES).find(mimeType => SUPPORTED_IMAGE_TYPES[mimeType] === extension);
+}
+
+export const imageStore: IImageStore = new LocalDiskImageStore(
+  process.env.UPLOAD_DIR || path.resolve(process.cwd(), 'uploads')
+);
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import type { PotentialCondition, SymptomAnalysis } from '@shared/schema';
+import { planInterview, toInterviewAnswer } from './interview';
+
+// Ungrounded, so the questions come from the symptoms given here rather than the knowledge base
+const condition = (name: string, score: number, symptoms: string[]): PotentialCondition => ({
+  name,
+  description: name,
+  relevance: 'medium',
+  score,
+  symptoms,
+  grounding: 'ungrounded'
+});
+
+const analysis = (potentialConditions: PotentialCondition[], userInputText = ''): SymptomAnalysis => ({
+  potentialConditions,
+  nextSteps: [],
+  disclaimer: '',
+  userInputText
+});
+
+const fresh = { answers: [], questionBudget: 5, rankings: [] };
+
+describe('planInterview', () => {
+  it('asks about the finding that best separates the leading conditions', async () => {
+    const state = await planInterview(analysis([
+      condition('Measles', 0.5, ['fever', 'cough', 'rash']),
+      condition('Influenza', 0.5, ['fever', 'cough'])
+    ], 'I have a fever'), fresh);
+
+    expect(state.stopReason).toBeUndefined();
+    expect(state.question).toMatchObject({ id: 'rash', kind: 'yes_no', findings: ['rash'], relatedConditions: ['Measles'] });
+    expect(state.question!.informationGain).toBeGreaterThan(0);
+    expect(state.rankings).toEqual([[{ name: 'Measles', score: 0.5 }, { name: 'Influenza', score: 0.5 }]]);
+  });
+
+  it('asks about several findings at once when that is worth it', async () => {
+    const state = await planInterview(analysis([
+      condition('Measles', 0.25, ['rash']),
+      condition('Migraine', 0.25, ['headache']),
+      condition('Gastroenteritis', 0.25, ['diarrhea']),
+      condition('Conjunctivitis', 0.25, ['red eyes'])
+    ]), fresh);
+
+    expect(state.question?.kind).toBe('multiple_choice');
+    expect(state.question?.findings).toHaveLength(3);
+    expect(state.question?.relatedConditions).toHaveLength(3);
+  });
+
+  it('never asks about a finding again', async () => {
+    const conditions = [condition('Measles', 0.5, ['fever', 'rash']), condition('Influenza', 0.5, ['fever'])];
+    const answers = [{ questionId: 'rash', present: [], absent: [], unsure: ['rash'] }];
+
+    const state = await planInterview(analysis(conditions, 'I have a fever'), { ...fresh, answers });
+
+    expect(state).toMatchObject({ stopReason: 'stable' });
+    expect(state.question).toBeUndefined();
+  });
+
+  it('stops once the budget is spent', async () => {
+    const answers = [{ questionId: 'cough', present: ['cough'], absent: [], unsure: [] }];
+
+    const state = await planInterview(analysis([
+      condition('Measles', 0.5, ['cough', 'rash']),
+      condition('Influenza', 0.5, ['cough'])
+    ]), { answers, questionBudget: 1, rankings: [] });
+
+    expect(state).toMatchObject({ stopReason: 'budget_exhausted', answers });
+    expect(state.question).toBeUndefined();
+  });
+
+  it('stops when one condition clearly leads or the scores stop moving', async () => {
+    const confident = await planInterview(analysis([
+      condition('Measles', 0.9, ['rash']),
+      condition('Influenza', 0.3, ['fever'])
+    ]), fresh);
+    expect(confident.stopReason).toBe('confident');
+
+    const ranking = [{ name: 'Measles', score: 0.5 }, { name: 'Influenza', score: 0.49 }];
+    const stable = await planInterview(
+      analysis([condition('Measles', 0.51, ['rash']), condition('Influenza', 0.49, ['fever'])]),
+      { ...fresh, rankings: [ranking, ranking] }
+    );
+    expect(stable.stopReason).toBe('stable');
+  });
+
+  it('asks nothing once red flags were raised', async () => {
+    const state = await planInterview({
+      ...analysis([condition('Measles', 0.5, ['rash']), condition('Influenza', 0.5, ['fever'])]),
+      redFlags: [{ id: 'chest-pain', title: 'Chest pain', findings: ['chest pain'], advice: 'Call emergency services' }]
+    }, fresh);
+
+    expect(state.stopReason).toBe('emergency');
+  });
+});
+
+describe('toInterviewAnswer', () => {
+  const question = {
+    id: 'rash+headache',
+    kind: 'multiple_choice' as const,
+    text: 'Have you noticed any of these? Select all that apply.',
+    findings: ['rash', 'headache'],
+    informationGain: 0.5,
+    relatedConditions: []
+  };
+
+  it('records unselected findings as absent, or all of them as unsure', () => {
+    expect(toInterviewAnswer(question, ['Rash'], false)).toEqual({ questionId: 'rash+headache', present: ['rash'], absent: ['headache'], unsure: [] });
+    expect(toInterviewAnswer(question, [], true)).toEqual({ questionId: 'rash+headache', present: [], absent: [], unsure: ['rash', 'headache'] });
+  });
+
+  it('rejects findings the question did not ask about', () => {
+    expect(toInterviewAnswer(question, ['fever'], false)).toBeUndefined();
+  });
+});
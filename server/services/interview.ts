@@ -0,0 +1,282 @@
+import type {
+  InterviewAnswer,
+  InterviewQuestion,
+  InterviewState,
+  PotentialCondition,
+  SymptomAnalysis,
+  SymptomFinding,
+  SymptomRule
+} from '@shared/schema';
+import { knowledgeBase as defaultKnowledgeBase, type KnowledgeBase } from './knowledgeBase';
+import { extractFindings, findingTerm } from './nlp';
+
+export const DEFAULT_QUESTION_BUDGET = 5;
+export const MAX_QUESTION_BUDGET = 10;
+
+// Questions are chosen over the leading conditions' scores, normalised to sum to 1
+const CONSIDERED_CONDITIONS = 5;
+
+// Stop once the leading condition scores at least CONFIDENT_SCORE and
+// CONFIDENT_LEAD times the runner-up
+const CONFIDENT_SCORE = 0.85;
+const CONFIDENT_LEAD = 2;
+
+// Stop once no question is expected to remove at least this much uncertainty, in bits
+const MIN_INFORMATION_GAIN = 0.05;
+
+// Stop once STABLE_ROUNDS answers in a row moved no leading score by more than STABLE_DELTA
+const STABLE_ROUNDS = 2;
+const STABLE_DELTA = 0.02;
+
+// Multiple-choice questions list up to MAX_OPTIONS findings, drawn from the
+// OPTION_POOL best yes/no questions. They take longer to answer, so one is
+// only asked when it is worth MULTIPLE_CHOICE_ADVANTAGE yes/no questions.
+const MAX_OPTIONS = 3;
+const OPTION_POOL = 6;
+const MULTIPLE_CHOICE_ADVANTAGE = 2;
+
+// Chance that a patient with a condition reports a finding, by how the
+// knowledge base relates the two
+const LIKELIHOOD = {
+  required: 0.95,
+  listed: 0.8,
+  unlisted: 0.1,
+  excluding: 0.05
+};
+
+interface Candidate {
+  name: string;
+  probability: number;
+  likelihoods: Map<string, number>; // keyed by lower-case finding
+}
+
+type FindingSource = {
+  symptoms: string[];
+  visualCues?: string[] | null;
+  symptomRules?: SymptomRule[] | null;
+};
+
+/**
+ * Findings recorded from follow-up answers, in the form the symptom extractor
+ * produces, so the analysis treats them like findings from the description.
+ * They have no position in the text, so their offsets are -1.
+ */
+export function answerFindings(answers: InterviewAnswer[]): SymptomFinding[] {
+  const toFinding = (symptom: string, negated: boolean): SymptomFinding =>
+    ({ symptom, text: symptom, start: -1, end: -1, negated, uncertain: false });
+
+  return answers.flatMap(answer => [
+    ...answer.present.map(symptom => toFinding(symptom, false)),
+    ...answer.absent.map(symptom => toFinding(symptom, true))
+  ]);
+}
+
+/**
+ * One line summarising the answers for the LLM prompt, or '' when there are none
+ */
+export function describeAnswers(answers: InterviewAnswer[]): string {
+  const present = answers.flatMap(answer => answer.present);
+  const absent = answers.flatMap(answer => answer.absent);
+  return [
+    present.length > 0 ? `Also reports: ${present.join(', ')}` : '',
+    absent.length > 0 ? `Does not have: ${absent.join(', ')}` : ''
+  ].filter(Boolean).join('. ');
+}
+
+/**
+ * Record a reply to the pending question, or undefined when it selects
+ * findings the question did not ask about. Findings left unselected are
+ * recorded as absent unless the user was unsure.
+ * @param question - The question that was asked
+ * @param selected - Findings the user has
+ * @param unsure - Whether the user answered "not sure"
+ */
+export function toInterviewAnswer(
+  question: InterviewQuestion,
+  selected: string[],
+  unsure: boolean
+): InterviewAnswer | undefined {
+  const chosen = new Set(selected.map(finding => finding.toLowerCase()));
+  const asked = new Set(question.findings.map(finding => finding.toLowerCase()));
+  if (Array.from(chosen).some(finding => !asked.has(finding))) return undefined;
+
+  if (unsure) {
+    return { questionId: question.id, present: [], absent: [], unsure: question.findings };
+  }
+  return {
+    questionId: question.id,
+    present: question.findings.filter(finding => chosen.has(finding.toLowerCase())),
+    absent: question.findings.filter(finding => !chosen.has(finding.toLowerCase())),
+    unsure: []
+  };
+}
+
+/**
+ * Choose the next follow-up question for an analysis: the one with the highest
+ * expected information gain over the leading conditions. The interview stops
+ * when red flags were raised, the budget is spent, one condition clearly
+ * leads, the scores have stopped moving, or no question would change them much.
+ * @param analysis - The analysis, re-scored with the answers so far
+ * @param interview - The interview so far, with the answer just given
+ * @param knowledgeBase - Where the conditions' findings are looked up
+ */
+export async function planInterview(
+  analysis: SymptomAnalysis,
+  interview: Pick<InterviewState, 'answers' | 'questionBudget' | 'rankings'>,
+  knowledgeBase: KnowledgeBase = defaultKnowledgeBase
+): Promise<InterviewState> {
+  const { answers, questionBudget } = interview;
+  const rankings = [
+    ...interview.rankings,
+    analysis.potentialConditions.slice(0, CONSIDERED_CONDITIONS).map(condition => ({ name: condition.name, score: condition.score ?? 0 }))
+  ];
+  const state = { answers, questionBudget, rankings };
+  if (analysis.redFlags && analysis.redFlags.length > 0) return { ...state, stopReason: 'emergency' };
+  if (answers.length >= questionBudget) return { ...state, stopReason: 'budget_exhausted' };
+
+  const [leader, runnerUp] = rankings[rankings.length - 1];
+  if (leader && leader.score >= CONFIDENT_SCORE && leader.score >= CONFIDENT_LEAD * (runnerUp?.score ?? 0)) {
+    return { ...state, stopReason: 'confident' };
+  }
+  if (isStable(rankings)) return { ...state, stopReason: 'stable' };
+
+  const candidates = await toCandidates(analysis.potentialConditions, knowledgeBase);
+  if (candidates.length < 2) return { ...state, stopReason: 'stable' };
+
+  // Anything mentioned in the description or already asked about is settled
+  const known = new Set([
+    ...extractFindings(analysis.userInputText ?? '').map(findingTerm),
+    ...answers.flatMap(answer => [...answer.present, ...answer.absent, ...answer.unsure])
+  ].map(finding => finding.toLowerCase()));
+
+  const pool = Array.from(new Set(candidates.flatMap(candidate => Array.from(candidate.likelihoods.keys()))))
+    .filter(finding => !known.has(finding))
+    .map(finding => ({ finding, gain: informationGain(candidates, [finding]) }))
+    .sort((a, b) => b.gain - a.gain);
+  const best = pool[0];
+  if (!best || best.gain < MIN_INFORMATION_GAIN) return { ...state, stopReason: 'stable' };
+
+  // Grow a multiple-choice question from the strongest yes/no questions while each option adds enough
+  const options = [best.finding];
+  let gain = best.gain;
+  for (const { finding } of pool.slice(1, OPTION_POOL)) {
+    if (options.length === MAX_OPTIONS) break;
+    const extended = informationGain(candidates, [...options, finding]);
+    if (extended - gain >= MIN_INFORMATION_GAIN) {
+      options.push(finding);
+      gain = extended;
+    }
+  }
+
+  const multipleChoice = options.length > 1 && gain >= MULTIPLE_CHOICE_ADVANTAGE * best.gain;
+  return {
+    ...state,
+    question: toQuestion(multipleChoice ? options : [best.finding], multipleChoice ? gain : best.gain, candidates)
+  };
+}
+
+/**
+ * Whether the last STABLE_ROUNDS answers each left every leading score within
+ * STABLE_DELTA of where it was. A condition missing from a ranking scores 0.
+ */
+function isStable(rankings: InterviewState['rankings']): boolean {
+  if (rankings.length <= STABLE_ROUNDS) return false;
+
+  return rankings.slice(-STABLE_ROUNDS - 1).every((ranking, index, recent) => {
+    if (index === 0) return true;
+    const before = new Map(recent[index - 1].map(({ name, score }) => [name, score]));
+    const after = new Map(ranking.map(({ name, score }) => [name, score]));
+    const names = new Set([...Array.from(before.keys()), ...Array.from(after.keys())]);
+    return Array.from(names).every(name => Math.abs((after.get(name) ?? 0) - (before.get(name) ?? 0)) <= STABLE_DELTA);
+  });
+}
+
+/**
+ * The leading conditions as a probability distribution, each with the chance
+ * of reporting every finding the knowledge base relates to it. Conditions the
+ * knowledge base does not have fall back to the symptoms the LLM gave.
+ */
+async function toCandidates(conditions: PotentialCondition[], knowledgeBase: KnowledgeBase): Promise<Candidate[]> {
+  const leading = conditions.slice(0, CONSIDERED_CONDITIONS).filter(condition => (condition.score ?? 0) > 0);
+  const total = leading.reduce((sum, condition) => sum + condition.score!, 0);
+
+  return Promise.all(leading.map(async condition => {
+    const record = condition.grounding === 'ungrounded'
+      ? undefined
+      : await knowledgeBase.getConditionByName(condition.name);
+    return {
+      name: condition.name,
+      probability: condition.score! / total,
+      likelihoods: findingLikelihoods(record ?? condition)
+    };
+  }));
+}
+
+/**
+ * Chance of reporting each finding a condition lists, keyed by the finding in
+ * lower case. Symptom rules override the plain listing: required findings are
+ * nearly always reported and excluding ones almost never.
+ */
+function findingLikelihoods(condition: FindingSource): Map<string, number> {
+  const likelihoods = new Map<string, number>();
+  for (const finding of [...condition.symptoms, ...(condition.visualCues ?? [])]) {
+    likelihoods.set(finding.toLowerCase(), LIKELIHOOD.listed);
+  }
+  for (const rule of condition.symptomRules ?? []) {
+    const likelihood = rule.kind === 'required'
+      ? LIKELIHOOD.required
+      : rule.kind === 'excluding' ? LIKELIHOOD.excluding : LIKELIHOOD.listed;
+    for (const finding of rule.findings) {
+      likelihoods.set(finding.toLowerCase(), likelihood);
+    }
+  }
+  return likelihoods;
+}
+
+/**
+ * Expected reduction in the entropy of the condition distribution from asking
+ * about the findings together. Each subset of them is a possible answer, and
+ * findings are taken as independent given the condition.
+ */
+function informationGain(candidates: Candidate[], findings: string[]): number {
+  const prior = candidates.map(candidate => candidate.probability);
+  let expectedEntropy = 0;
+
+  for (let answer = 0; answer < 1 << findings.length; answer++) {
+    const joint = candidates.map((candidate, index) => findings.reduce((product, finding, position) => {
+      const likelihood = candidate.likelihoods.get(finding) ?? LIKELIHOOD.unlisted;
+      return product * (answer & (1 << position) ? likelihood : 1 - likelihood);
+    }, prior[index]));
+    const probability = joint.reduce((sum, value) => sum + value, 0);
+    if (probability > 0) {
+      expectedEntropy += probability * entropy(joint.map(value => value / probability));
+    }
+  }
+
+  return entropy(prior) - expectedEntropy;
+}
+
+/**
+ * Shannon entropy of a distribution, in bits
+ */
+function entropy(distribution: number[]): number {
+  return -distribution.reduce((sum, p) => p > 0 ? sum + p * Math.log2(p) : sum, 0);
+}
+
+/**
+ * Phrase a question about the findings, naming the leading conditions they bear on
+ */
+function toQuestion(findings: string[], informationGain: number, candidates: Candidate[]): InterviewQuestion {
+  return {
+    id: findings.map(finding => finding.replace(/[^a-z0-9]+/g, '-')).join('+'),
+    kind: findings.length === 1 ? 'yes_no' : 'multiple_choice',
+    text: findings.length === 1
+      ? `Have you noticed any ${findings[0]}?`
+      : 'Have you noticed any of these? Select all that apply.',
+    findings,
+    informationGain: Math.round(informationGain * 1000) / 1000,
+    relatedConditions: candidates
+      .filter(candidate => findings.some(finding => (candidate.likelihoods.get(finding) ?? 0) > LIKELIHOOD.unlisted))
+      .map(candidate => candidate.name)
+  };
+}
@@ -1,6 +1,7 @@
 import NodeCache from 'node-cache';
 import { storage } from '../storage';
-import { MedicalCondition } from '@shared/schema';
+import { MedicalCondition, KnowledgeBaseProvenance } from '@shared/schema';
+import { loadKnowledgeBaseSnapshot, toProvenance } from './knowledgeBaseVersions';
 
 /**
  * KnowledgeBase: Structured repository of medical information
@@ -10,6 +11,7 @@ import { MedicalCondition } from '@shared/schema';
 export class KnowledgeBase {
   private cache: NodeCache;
   private conditionsLoaded: boolean = false;
+  private version: number | null = null;
   
   constructor() {
     // Initialize cache with standard TTL of 1 hour
@@ -20,14 +22,16 @@ export class KnowledgeBase {
   }
   
   /**
-   * Load all medical conditions from storage into the cache
+   * Load the latest knowledge base version into the cache
    */
   private async loadConditions(): Promise<void> {
     if (this.conditionsLoaded) return;
     
     try {
-      // Get all conditions from storage
-      const conditions = await storage.getAllMedicalConditions();
+      // Get the conditions of the latest version from storage
+      const snapshot = (await loadKnowledgeBaseSnapshot())!;
+      const conditions = snapshot.conditions;
+      this.version = snapshot.version;
       
       // Store each condition in cache by name
       conditions.forEach(condition => {
@@ -57,10 +61,18 @@ export class KnowledgeBase {
       return cachedConditions;
     }
     
-    // If not in cache, load from storage
-    const conditions = await storage.getAllMedicalConditions();
-    this.cache.set('all_conditions', conditions);
-    return conditions;
+    // If not in cache, reload so the conditions and version stay in step
+    this.conditionsLoaded = false;
+    await this.loadConditions();
+    return this.cache.get<MedicalCondition[]>('all_conditions') || [];
+  }
+  
+  /**
+   * The version and condition revisions that scores are currently computed from
+   */
+  public async getProvenance(): Promise<KnowledgeBaseProvenance> {
+    const conditions = await this.getAllConditions();
+    return toProvenance({ version: this.version, conditions });
   }
   
   /**
@@ -154,6 +166,15 @@ export class KnowledgeBase {
     return [...new Set(matchingFactors)]; // Remove duplicates
   }
   
+  /**
+   * Drop cached conditions so the next read reloads them from storage.
+   * Called after curators change the knowledge base.
+   */
+  public invalidate(): void {
+    this.cache.flushAll();
+    this.conditionsLoaded = false;
+  }
+  
   private async ensureConditionsLoaded(): Promise<void> {
     if (!this.conditionsLoaded) {
       await this.loadConditions();
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { KnowledgeBase } from './knowledgeBase';
+
+describe('KnowledgeBase.scoreCondition', () => {
+  const knowledgeBase = new KnowledgeBase();
+  const findings = ['cough', 'fever', 'chest pain'];
+
+  it('weighs the condition by the patient\'s age bands', async () => {
+    const unknownAge = await knowledgeBase.scoreCondition('Pneumonia', findings);
+    const older = await knowledgeBase.scoreCondition('Pneumonia', findings, [], { age: 70 });
+
+    expect(older.score).toBeGreaterThan(unknownAge.score);
+    expect(older.notes.some(note => note.startsWith('More common at ages 65-120'))).toBe(true);
+  });
+
+  it('leaves the score alone when the patient gave no details', async () => {
+    const withoutPatient = await knowledgeBase.scoreCondition('Pneumonia', findings);
+    const emptyPatient = await knowledgeBase.scoreCondition('Pneumonia', findings, [], {});
+
+    expect(emptyPatient).toEqual(withoutPatient);
+  });
+});
@@ -1,7 +1,13 @@
 import NodeCache from 'node-cache';
-import { MedicalCondition } from '@shared/schema';
-import { db } from '../db';
-import * as schema from '@shared/schema';
+import { MedicalCondition, KnowledgeBaseProvenance } from '@shared/schema';
+import { storage, toMedicalCondition } from '../storage';
+import { getSeedConditions } from '../db/defaultConditions';
+import { loadKnowledgeBaseSnapshot, toProvenance } from './knowledgeBaseVersions';
+import { evaluateSymptomRules, applySymptomRules } from './symptomRules';
+import { evaluateDemographicFit, type PatientDemographics } from './demographics';
+
+// Each listed finding the user says they do not have scales the association by this
+const DENIED_FINDING_MULTIPLIER = 0.8;
 
 /**
  * KnowledgeBase: Structured repository of medical information
@@ -11,22 +17,36 @@ import * as schema from '@shared/schema';
 export class KnowledgeBase {
   private cache: NodeCache;
   private conditionsLoaded: boolean = false;
+  private version: number | null = null;
   
-  constructor() {
+  /**
+   * @param pinnedVersion - Knowledge base version to use instead of the latest,
+   * for replaying past analyses
+   */
+  constructor(private readonly pinnedVersion?: number) {
     this.cache = new NodeCache({ stdTTL: 3600 }); // Cache for 1 hour
   }
   
   /**
-   * Load all medical conditions from storage into the cache
+   * A knowledge base fixed at one version, or undefined if there is no such version
+   * @param version - The knowledge base version recorded on an analysis
+   */
+  public static async forVersion(version: number): Promise<KnowledgeBase | undefined> {
+    if (!await storage.getKnowledgeBaseVersion(version)) return undefined;
+    return new KnowledgeBase(version);
+  }
+  
+  /**
+   * Load the latest (or pinned) knowledge base version into the cache
    */
   private async loadConditions(): Promise<void> {
     try {
-      if (!db) {
-        throw new Error('Database not initialized');
+      const snapshot = await loadKnowledgeBaseSnapshot(this.pinnedVersion);
+      if (!snapshot) {
+        throw new Error(`Knowledge base version ${this.pinnedVersion} does not exist`);
       }
-      
-      // Fetch conditions from database
-      const conditions = await db.select().from(schema.medicalConditions);
+      const conditions = snapshot.conditions;
+      this.version = snapshot.version;
       
       if (conditions && conditions.length > 0) {
         // Store each condition in cache with name as key
@@ -38,84 +58,26 @@ export class KnowledgeBase {
         this.cache.set('all_conditions', conditions);
         this.conditionsLoaded = true;
       } else {
-        console.warn('No medical conditions found in database');
+        console.warn('No medical conditions found in storage');
         this.conditionsLoaded = false;
       }
     } catch (error) {
-      console.error('Error loading conditions from database:', error);
+      // A replay must use the version asked for or nothing at all
+      if (this.pinnedVersion !== undefined) throw error;
+
+      console.error('Error loading conditions from storage:', error);
       this.conditionsLoaded = false;
       
-      // Fall back to default conditions if database fails
+      // Fall back to default conditions if the database fails
       this.loadDefaultConditions();
     }
   }
   
   /**
-   * Loads default conditions as fallback if database is unavailable
+   * Loads the seed conditions as fallback if storage is unavailable
    */
   private loadDefaultConditions(): void {
-    const defaultConditions = [
-      {
-        id: 1,
-        name: "Influenza",
-        description: "Influenza is a viral infection that attacks your respiratory system — your nose, throat and lungs. Commonly called the flu.",
-        symptoms: ["fever", "cough", "sore throat", "body aches", "fatigue", "chills", "headache"],
-        visualCues: [],
-        urgency: "medium",
-        recommendedActions: ["Rest", "Stay hydrated", "Take over-the-counter pain relievers"],
-        symptomsRelationships: {
-          required: ["fever", "fatigue"],
-          commonly_together: ["fever", "body aches", "chills"],
-          rarely_together: ["fever", "no respiratory symptoms"]
-        }
-      },
-      {
-        id: 4,
-        name: "Migraine",
-        description: "A neurological condition causing severe headaches, often with visual disturbances and nausea.",
-        symptoms: ["severe headache", "nausea", "light sensitivity", "vision changes", "dizziness"],
-        visualCues: ["facial pallor", "squinting"],
-        urgency: "medium",
-        recommendedActions: ["Rest in dark room", "Take prescribed medication"],
-        symptomsRelationships: {
-          required: ["severe headache"],
-          commonly_together: ["light sensitivity", "nausea"],
-          rarely_together: ["severe headache", "no sensitivity symptoms"]
-        }
-      },
-      {
-        id: 5,
-        name: "Bronchitis",
-        description: "Inflammation of the bronchial tubes that carry air to and from the lungs.",
-        symptoms: ["persistent cough", "chest congestion", "fatigue", "mild fever", "shortness of breath"],
-        visualCues: [],
-        urgency: "medium",
-        recommendedActions: ["Rest", "Use humidifier", "Stay hydrated"],
-        symptomsRelationships: {
-          required: ["persistent cough"],
-          commonly_together: ["chest congestion", "shortness of breath"],
-          rarely_together: ["persistent cough", "no respiratory symptoms"]
-        }
-      },
-      {
-        id: 2,
-        name: "Common Cold",
-        description: "The common cold is a viral infection of your nose and throat (upper respiratory tract).",
-        symptoms: ["runny nose", "sore throat", "cough", "congestion", "sneezing", "mild body aches", "mild headache"],
-        visualCues: [],
-        urgency: "low",
-        recommendation: "Rest, stay hydrated, and use over-the-counter remedies for symptom relief. Symptoms usually resolve within a week or two."
-      },
-      {
-        id: 3,
-        name: "Skin Allergy",
-        description: "A skin allergy occurs when your skin reacts to an allergen, causing a rash or other symptoms.",
-        symptoms: ["rash", "itchiness", "redness", "swelling", "bumps", "blisters"],
-        visualCues: ["hives", "contact dermatitis rash", "localized redness", "swelling"],
-        urgency: "low-medium",
-        recommendation: "Avoid the allergen. Use antihistamines or topical creams. See a doctor for persistent or severe reactions."
-      }
-    ];
+    const defaultConditions = getSeedConditions().map((condition, index) => toMedicalCondition(index + 1, condition));
     
     // Store each condition in cache
     defaultConditions.forEach(condition => {
@@ -124,9 +86,27 @@ export class KnowledgeBase {
     
     // Also store the full list for quick access
     this.cache.set('all_conditions', defaultConditions);
+    this.version = null;
     this.conditionsLoaded = true;
   }
   
+  /**
+   * Drop cached conditions so the next read reloads them from storage.
+   * Called after curators change the knowledge base.
+   */
+  public invalidate(): void {
+    this.cache.flushAll();
+    this.conditionsLoaded = false;
+  }
+  
+  /**
+   * The version and condition revisions that scores are currently computed from
+   */
+  public async getProvenance(): Promise<KnowledgeBaseProvenance> {
+    const conditions = await this.getAllConditions();
+    return toProvenance({ version: this.version, conditions });
+  }
+  
   /**
    * Get all medical conditions
    * @returns Array of all medical conditions
@@ -193,6 +173,43 @@ export class KnowledgeBase {
     return (0.4 * coverageScore) + (0.6 * specificityScore);
   }
   
+  /**
+   * Association of a condition with a case after applying the condition's
+   * symptom rules, with a note for each rule that fired. Listed findings the
+   * user denied count against the condition unless a rule already weighs them,
+   * and the patient's age and sex are checked against its demographics.
+   * @param conditionName - The name of the condition
+   * @param identifiedFactors - Symptoms the user reported
+   * @param absentFactors - Symptoms the user said they do not have
+   * @param patient - Age, gender and pregnancy, where the user gave them
+   */
+  public async scoreCondition(
+    conditionName: string,
+    identifiedFactors: string[],
+    absentFactors: string[] = [],
+    patient: PatientDemographics = {}
+  ): Promise<{ score: number; notes: string[]; excluded: boolean }> {
+    const condition = await this.getConditionByName(conditionName);
+    if (!condition) return { score: 0, notes: [], excluded: false };
+    
+    const association = await this.calculateSymptomAssociation(conditionName, identifiedFactors);
+    const rules = evaluateSymptomRules(condition.symptomRules, identifiedFactors, absentFactors);
+    
+    const listed = new Set([...condition.symptoms, ...(condition.visualCues || [])].map(factor => factor.toLowerCase()));
+    const ruled = new Set((condition.symptomRules || []).flatMap(rule => rule.findings.map(finding => finding.toLowerCase())));
+    const denied = absentFactors.filter(factor => listed.has(factor.toLowerCase()) && !ruled.has(factor.toLowerCase()));
+    if (denied.length > 0) {
+      const factor = DENIED_FINDING_MULTIPLIER ** denied.length;
+      rules.multiplier *= factor;
+      rules.notes.push(`Listed findings reported absent: ${denied.join(', ')} (x${factor.toFixed(2)})`);
+    }
+    
+    // An excluded condition scores 0 and its notes say why
+    const fit = evaluateDemographicFit(condition, patient);
+    const score = Math.min(1, applySymptomRules(association, rules) * fit.multiplier);
+    return { score, notes: [...rules.notes, ...fit.notes], excluded: fit.excluded };
+  }
+  
   /**
    * Get matching factors between a condition and identified symptoms
    * @param conditionName - The name of the condition
@@ -0,0 +1,117 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { getSeedConditions } from '../db/defaultConditions';
+import { toMedicalCondition } from '../storage';
+import {
+  formatFromPath,
+  loadConditionFile,
+  parseConditions,
+  planConditionImport,
+  serializeConditions,
+  toConditionRecord,
+  type TransferFormat
+} from './knowledgeBaseTransfer';
+
+const seed = getSeedConditions();
+const current = seed.map((condition, index) => toMedicalCondition(index + 1, condition));
+
+describe('knowledge base files', () => {
+  it.each<TransferFormat>(['json', 'csv', 'yaml'])('read back the conditions written as %s', format => {
+    const { records, errors } = parseConditions(serializeConditions(seed, format), format);
+
+    expect(errors).toEqual([]);
+    expect(records).toEqual(seed.map(toConditionRecord).sort((a, b) => a.name.localeCompare(b.name)));
+  });
+
+  it('quote CSV cells holding commas, quotes and line breaks', () => {
+    const condition = { ...seed[0], description: 'Fever, "chills"\nand aches' };
+    const csv = serializeConditions([condition], 'csv');
+
+    expect(csv).toContain('"Fever, ""chills""\nand aches"');
+    expect(parseConditions(csv, 'csv').records[0].description).toBe(condition.description);
+  });
+
+  it('take their format from the file name', () => {
+    expect(formatFromPath('conditions.YML')).toBe('yaml');
+    expect(formatFromPath('conditions.csv')).toBe('csv');
+    expect(() => formatFromPath('conditions.txt')).toThrow('Cannot tell the format');
+  });
+});
+
+describe('parseConditions', () => {
+  it('reports invalid and repeated entries by row', () => {
+    const entries = [seed[0], { ...seed[1], urgency: 'whenever' }, { ...seed[0], name: seed[0].name.toUpperCase() }];
+
+    const { records, errors } = parseConditions(JSON.stringify(entries), 'json');
+
+    expect(records.map(record => record.name)).toEqual([seed[0].name]);
+    expect(errors).toEqual([
+      { row: 2, name: seed[1].name, messages: [expect.stringMatching(/^urgency: /)] },
+      { row: 3, name: seed[0].name.toUpperCase(), messages: ['name: duplicates the condition on row 1'] }
+    ]);
+  });
+
+  it('reports symptom rules it cannot read in a CSV', () => {
+    const csv = 'name,description,symptoms,urgency,recommendation,symptomRules\r\nFlu,Influenza,fever,primary_care,Rest,"required 0.5: fever; often 0.2: chills"\r\n';
+
+    const { errors } = parseConditions(csv, 'csv');
+
+    expect(errors).toEqual([{ row: 2, name: 'Flu', messages: [expect.stringContaining('Unknown rule kind "often"')] }]);
+  });
+
+  it('rejects unknown CSV columns and files that are not a list', () => {
+    expect(() => parseConditions('name,severity\r\nFlu,high\r\n', 'csv')).toThrow('Unknown column(s): severity');
+    expect(() => parseConditions('{"name": "Flu"}', 'json')).toThrow('Expected a list of conditions');
+  });
+});
+
+describe('planConditionImport', () => {
+  it('creates new names, updates changed conditions and leaves the rest', () => {
+    const [first, second, ...rest] = seed;
+    const file = serializeConditions([
+      { ...first, name: first.name.toLowerCase() },
+      { ...second, recommendation: 'Rest and fluids' },
+      { ...first, name: 'Measles', aliases: ['rubeola'] },
+      ...rest
+    ], 'json');
+
+    const plan = planConditionImport(file, 'json', current);
+
+    expect(plan.creates.map(record => record.name)).toEqual(['Measles']);
+    expect(plan.updates).toEqual([
+      expect.objectContaining({ id: 1, changes: [{ field: 'name', before: first.name, after: first.name.toLowerCase() }] }),
+      expect.objectContaining({ id: 2, changes: [{ field: 'recommendation', before: second.recommendation, after: 'Rest and fluids' }] })
+    ]);
+    expect(plan.unchanged).toHaveLength(rest.length);
+    expect(plan.deletes).toEqual([]);
+  });
+
+  it('prunes conditions missing from a valid file only', () => {
+    const kept = seed.slice(1);
+
+    expect(planConditionImport(serializeConditions(kept, 'yaml'), 'yaml', current, { prune: true }).deletes)
+      .toEqual([{ id: 1, name: seed[0].name }]);
+
+    const invalid = JSON.stringify([...kept, { name: 'Broken' }]);
+    expect(planConditionImport(invalid, 'json', current, { prune: true }).deletes).toEqual([]);
+  });
+});
+
+describe('loadConditionFile', () => {
+  it('reads a valid file and names the first invalid row of another', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'conditions-'));
+    try {
+      const valid = path.join(dir, 'conditions.yaml');
+      await fs.writeFile(valid, serializeConditions(seed, 'yaml'));
+      expect(loadConditionFile(valid)).toHaveLength(seed.length);
+
+      const invalid = path.join(dir, 'conditions.json');
+      await fs.writeFile(invalid, JSON.stringify([{ name: 'Broken' }, { name: 'Also broken' }]));
+      expect(() => loadConditionFile(invalid)).toThrow(/row 1: .*\(and 1 more\)$/);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,332 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { insertMedicalConditionSchema, type InsertMedicalCondition, type MedicalCondition, type SymptomRule } from '@shared/schema';
+import { formatSymptomRule, parseSymptomRule } from '@shared/symptomRules';
+import { formatDemographics, parseDemographics } from '@shared/demographics';
+import type { ConditionChanges } from '../storage';
+
+export type TransferFormat = 'json' | 'csv' | 'yaml';
+
+export const TRANSFER_FORMATS: Record<TransferFormat, { extension: string; contentType: string }> = {
+  json: { extension: 'json', contentType: 'application/json' },
+  csv: { extension: 'csv', contentType: 'text/csv' },
+  yaml: { extension: 'yaml', contentType: 'application/yaml' },
+};
+
+// Columns in export order; `id` is left out so files can move between databases
+const CONDITION_FIELDS = [
+  'name',
+  'description',
+  'symptoms',
+  'visualCues',
+  'aliases',
+  'symptomRules',
+  'demographics',
+  'urgency',
+  'recommendation',
+  'commonInAgeGroup',
+  'snomedCtId',
+  'icd11Code',
+  'learnMoreUrl',
+] as const;
+
+type ConditionField = typeof CONDITION_FIELDS[number];
+
+const LIST_FIELDS = new Set<ConditionField>(['symptoms', 'visualCues', 'aliases', 'symptomRules']);
+
+// Lists share one spreadsheet cell, separated by semicolons; symptom rules
+// and demographics are written as text (see shared/symptomRules.ts and
+// shared/demographics.ts)
+const CSV_LIST_SEPARATOR = ';';
+
+// Every field present: missing lists as [] and other missing values as null
+export type ConditionRecord = { [K in ConditionField]-?: Exclude<InsertMedicalCondition[K], undefined> };
+
+export interface ConditionRowError {
+  row: number; // spreadsheet line for CSV, 1-based entry for JSON and YAML
+  name?: string;
+  messages: string[];
+}
+
+export interface FieldChange {
+  field: ConditionField;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ConditionImportPlan {
+  creates: ConditionRecord[];
+  updates: Array<{ id: number; name: string; record: ConditionRecord; changes: FieldChange[] }>;
+  unchanged: string[];
+  deletes: Array<{ id: number; name: string }>;
+  errors: ConditionRowError[];
+}
+
+/**
+ * Infer the format from a file name
+ */
+export function formatFromPath(filePath: string): TransferFormat {
+  const extension = path.extname(filePath).slice(1).toLowerCase();
+  if (extension === 'yml') return 'yaml';
+  if (extension in TRANSFER_FORMATS) return extension as TransferFormat;
+  throw new Error(`Cannot tell the format of ${filePath}; use a .json, .csv or .yaml file`);
+}
+
+/**
+ * A condition with every exported field present, so two records compare and
+ * serialize the same way whatever defaults they were created with
+ */
+export function toConditionRecord(condition: InsertMedicalCondition | MedicalCondition): ConditionRecord {
+  return Object.fromEntries(CONDITION_FIELDS.map(field => {
+    const value = condition[field];
+    return [field, LIST_FIELDS.has(field) ? (value ?? []) : (value ?? null)];
+  })) as ConditionRecord;
+}
+
+/**
+ * The exported fields whose values differ between two versions of a condition
+ */
+export function diffConditionFields(
+  before: InsertMedicalCondition | MedicalCondition,
+  after: InsertMedicalCondition | MedicalCondition
+): FieldChange[] {
+  const from = toConditionRecord(before);
+  const to = toConditionRecord(after);
+  return CONDITION_FIELDS
+    .filter(field => JSON.stringify(from[field]) !== JSON.stringify(to[field]))
+    .map(field => ({ field, before: from[field], after: to[field] }));
+}
+
+/**
+ * Quote a CSV cell when it contains a separator, quote or line break
+ */
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Split CSV text into rows of cells, honouring quoted cells (RFC 4180)
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Write conditions out in the given format, sorted by name
+ */
+export function serializeConditions(conditions: Array<InsertMedicalCondition | MedicalCondition>, format: TransferFormat): string {
+  const records = conditions.map(toConditionRecord).sort((a, b) => a.name.localeCompare(b.name));
+
+  switch (format) {
+    case 'json':
+      return JSON.stringify(records, null, 2) + '\n';
+    case 'yaml':
+      return YAML.stringify(records, { lineWidth: 0 });
+    case 'csv': {
+      const lines = records.map(record => CONDITION_FIELDS.map(field => {
+        const value = field === 'symptomRules' ? (record.symptomRules ?? []).map(formatSymptomRule)
+          : field === 'demographics' ? formatDemographics(record.demographics)
+          : record[field];
+        return csvCell(Array.isArray(value) ? value.join(`${CSV_LIST_SEPARATOR} `) : (value ?? ''));
+      }).join(','));
+      return [CONDITION_FIELDS.join(','), ...lines].join('\r\n') + '\r\n';
+    }
+  }
+}
+
+/**
+ * Read raw entries from a file's contents, numbered for error messages.
+ * CSV cells are strings; empty cells are left out and list cells are split.
+ * Symptom rule and demographics text that cannot be parsed is reported in `errors`.
+ */
+function parseEntries(text: string, format: TransferFormat): Array<{ row: number; data: unknown; errors?: string[] }> {
+  if (format === 'csv') {
+    const [header, ...rows] = parseCsv(text.replace(/^﻿/, ''));
+    if (!header) return [];
+
+    const columns = header.map(column => column.trim());
+    const unknown = columns.filter(column => column && !(CONDITION_FIELDS as readonly string[]).includes(column));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown column(s): ${unknown.join(', ')}`);
+    }
+
+    return rows
+      .map((cells, index) => ({ row: index + 2, cells }))
+      .filter(({ cells }) => cells.some(cell => cell.trim()))
+      .map(({ row, cells }) => {
+        const errors: string[] = [];
+        const data = Object.fromEntries(columns.flatMap((column, i): Array<[string, unknown]> => {
+          const cell = (cells[i] ?? '').trim();
+          if (!column || !cell) return [];
+          if (column === 'demographics') {
+            try {
+              return [[column, parseDemographics(cell)]];
+            } catch (error) {
+              errors.push(`demographics: ${error instanceof Error ? error.message : String(error)}`);
+              return [];
+            }
+          }
+          if (!LIST_FIELDS.has(column as ConditionField)) return [[column, cell]];
+
+          const items = cell.split(CSV_LIST_SEPARATOR).map(item => item.trim()).filter(Boolean);
+          if (column !== 'symptomRules') return [[column, items]];
+
+          const rules: SymptomRule[] = [];
+          for (const item of items) {
+            try {
+              rules.push(parseSymptomRule(item));
+            } catch (error) {
+              errors.push(`symptomRules: ${error instanceof Error ? error.message : String(error)}`);
+            }
+          }
+          return [[column, rules]];
+        }));
+        return { row, data, errors };
+      });
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = format === 'json' ? JSON.parse(text) : YAML.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid ${format.toUpperCase()}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Expected a list of conditions at the top level of the ${format.toUpperCase()} file`);
+  }
+  return parsed.map((data, index) => ({ row: index + 1, data }));
+}
+
+/**
+ * Parse and validate every entry in a file. Entries that fail validation,
+ * or repeat an earlier entry's name, are reported instead of returned.
+ */
+export function parseConditions(text: string, format: TransferFormat): { records: ConditionRecord[]; errors: ConditionRowError[] } {
+  const records: ConditionRecord[] = [];
+  const errors: ConditionRowError[] = [];
+  const seen = new Map<string, number>();
+
+  for (const { row, data, errors: entryErrors = [] } of parseEntries(text, format)) {
+    const name = typeof (data as { name?: unknown })?.name === 'string' ? (data as { name: string }).name : undefined;
+    const result = insertMedicalConditionSchema.safeParse(data);
+    if (!result.success || entryErrors.length > 0) {
+      const messages = result.success ? [] : result.error.errors.map(e => `${e.path.join('.') || 'entry'}: ${e.message}`);
+      errors.push({ row, name, messages: [...entryErrors, ...messages] });
+      continue;
+    }
+
+    const key = result.data.name.toLowerCase();
+    const earlier = seen.get(key);
+    if (earlier !== undefined) {
+      errors.push({ row, name, messages: [`name: duplicates the condition on row ${earlier}`] });
+      continue;
+    }
+    seen.set(key, row);
+    records.push(toConditionRecord(result.data));
+  }
+
+  return { records, errors };
+}
+
+/**
+ * Compare a file against the current knowledge base, matching conditions by
+ * name regardless of case. File entries replace the whole condition, so an
+ * empty cell clears that field. With `prune`, conditions missing from the
+ * file are deleted, making the file the complete knowledge base.
+ */
+export function planConditionImport(
+  text: string,
+  format: TransferFormat,
+  current: MedicalCondition[],
+  options: { prune?: boolean } = {}
+): ConditionImportPlan {
+  const { records, errors } = parseConditions(text, format);
+  const plan: ConditionImportPlan = { creates: [], updates: [], unchanged: [], deletes: [], errors };
+  const byName = new Map(current.map(condition => [condition.name.toLowerCase(), condition]));
+  const matched = new Set<number>();
+
+  for (const record of records) {
+    const existing = byName.get(record.name.toLowerCase());
+    if (!existing) {
+      plan.creates.push(record);
+      continue;
+    }
+
+    matched.add(existing.id);
+    const changes = diffConditionFields(existing, record);
+
+    if (changes.length > 0) {
+      plan.updates.push({ id: existing.id, name: existing.name, record, changes });
+    } else {
+      plan.unchanged.push(existing.name);
+    }
+  }
+
+  // Never prune from a file that failed validation; the missing rows may be the invalid ones
+  if (options.prune && errors.length === 0) {
+    plan.deletes = current
+      .filter(condition => !matched.has(condition.id))
+      .map(({ id, name }) => ({ id, name }));
+  }
+
+  return plan;
+}
+
+/**
+ * The writes an import plan makes, to apply in one go
+ */
+export function toConditionChanges(plan: ConditionImportPlan): ConditionChanges {
+  return {
+    creates: plan.creates,
+    updates: plan.updates.map(({ id, record }) => ({ id, changes: record })),
+    deletes: plan.deletes.map(({ id }) => id)
+  };
+}
+
+/**
+ * Read a condition file from disk, failing on the first invalid entry
+ */
+export function loadConditionFile(filePath: string): InsertMedicalCondition[] {
+  const { records, errors } = parseConditions(readFileSync(filePath, 'utf8'), formatFromPath(filePath));
+  if (errors.length > 0) {
+    const [first] = errors;
+    throw new Error(`Invalid condition file ${filePath}: row ${first.row}: ${first.messages.join('; ')}${errors.length > 1 ? ` (and ${errors.length - 1} more)` : ''}`);
+  }
+  return records;
+}
@@ -0,0 +1,92 @@
+import type {
+  KnowledgeBaseDiff,
+  KnowledgeBaseProvenance,
+  KnowledgeBaseVersion,
+  KnowledgeBaseVersionSummary,
+  MedicalCondition
+} from '@shared/schema';
+import { toTriageLevel } from '@shared/triage';
+import { storage } from '../storage';
+import { diffConditionFields } from './knowledgeBaseTransfer';
+
+export interface KnowledgeBaseSnapshot {
+  version: number | null;
+  conditions: MedicalCondition[];
+}
+
+/**
+ * Load the conditions of a knowledge base version, or of the latest version
+ * when none is given; undefined when the requested version does not exist.
+ * Without any recorded version the live conditions are used, with a null version.
+ * Snapshots taken before the triage scale have their urgency mapped onto it.
+ */
+export async function loadKnowledgeBaseSnapshot(version?: number): Promise<KnowledgeBaseSnapshot | undefined> {
+  const record = await storage.getKnowledgeBaseVersion(version);
+  if (record) {
+    const conditions = record.conditions.map(condition => ({
+      ...condition,
+      urgency: toTriageLevel(condition.urgency) ?? 'primary_care'
+    }));
+    return { version: record.version, conditions };
+  }
+  if (version !== undefined) return undefined;
+  return { version: null, conditions: await storage.getAllMedicalConditions() };
+}
+
+/**
+ * The version and condition revisions an analysis was scored against
+ */
+export function toProvenance(snapshot: KnowledgeBaseSnapshot): KnowledgeBaseProvenance {
+  return {
+    version: snapshot.version,
+    conditions: snapshot.conditions.map(({ id, name, revision }) => ({ id, name, revision }))
+  };
+}
+
+/**
+ * Describe a version for listings, without its conditions
+ */
+export function toVersionSummary(record: KnowledgeBaseVersion): KnowledgeBaseVersionSummary {
+  return {
+    version: record.version,
+    reason: record.reason,
+    userId: record.userId,
+    conditionCount: record.conditions.length,
+    createdAt: record.createdAt.toISOString()
+  };
+}
+
+/**
+ * Compare two versions condition by condition. Conditions are matched by ID,
+ * so a renamed condition shows up as changed rather than removed and added.
+ */
+export function diffKnowledgeBaseVersions(from: KnowledgeBaseVersion, to: KnowledgeBaseVersion): KnowledgeBaseDiff {
+  const before = new Map(from.conditions.map(condition => [condition.id, condition]));
+  const after = new Map(to.conditions.map(condition => [condition.id, condition]));
+  const diff: KnowledgeBaseDiff = { from: from.version, to: to.version, added: [], removed: [], changed: [] };
+
+  for (const condition of to.conditions) {
+    const previous = before.get(condition.id);
+    if (!previous) {
+      diff.added.push({ id: condition.id, name: condition.name });
+      continue;
+    }
+
+    const changes = diffConditionFields(previous, condition);
+    if (changes.length > 0 || previous.revision !== condition.revision) {
+      diff.changed.push({
+        id: condition.id,
+        name: condition.name,
+        fromRevision: previous.revision,
+        toRevision: condition.revision,
+        changes
+      });
+    }
+  }
+
+  diff.removed = from.conditions
+    .filter(condition => !after.has(condition.id))
+    .map(({ id, name }) => ({ id, name }));
+
+  return diff;
+}
@@ -0,0 +1,52 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { PromptedLLMProvider, type CompletionRequest } from './promptedProvider';
+
+export const DEFAULT_ANTHROPIC_MODEL = "claude-3-7-sonnet-latest";
+
+const MAX_TOKENS = 2048;
+
+type AnthropicImageType = "image/jpeg" | "image/png";
+
+/**
+ * Anthropic Messages API adapter
+ */
+export class AnthropicProvider extends PromptedLLMProvider {
+  readonly name = 'anthropic' as const;
+  private client: Anthropic;
+
+  constructor(private apiKey: string | undefined, model: string = DEFAULT_ANTHROPIC_MODEL) {
+    super(model);
+    this.client = new Anthropic({ apiKey: apiKey || "missing" });
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  protected async complete(request: CompletionRequest): Promise<string> {
+    const response = await this.client.messages.create({
+      model: this.model,
+      max_tokens: MAX_TOKENS,
+      system: request.system,
+      messages: [{
+        role: "user",
+        content: [
+          ...(request.images || []).map(image => ({
+            type: "image" as const,
+            source: {
+              type: "base64" as const,
+              media_type: image.mimeType as AnthropicImageType,
+              data: image.data.toString('base64')
+            }
+          })),
+          { type: "text" as const, text: request.prompt }
+        ]
+      }],
+    });
+
+    return response.content
+      .map(block => block.type === "text" ? block.text : "")
+      .join("")
+      .trim();
+  }
+}
@@ -0,0 +1,51 @@
+import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from "@google/generative-ai";
+import { PromptedLLMProvider, type CompletionRequest } from './promptedProvider';
+
+export const DEFAULT_GEMINI_MODEL = "gemini-1.5-pro";
+
+const SAFETY_SETTINGS = [
+  HarmCategory.HARM_CATEGORY_HARASSMENT,
+  HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+].map(category => ({ category, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE }));
+
+/**
+ * Google Gemini adapter
+ */
+export class GeminiProvider extends PromptedLLMProvider {
+  readonly name = 'gemini' as const;
+  protected supportedImageTypes = ['image/jpeg', 'image/png', 'image/heic'];
+  private client: GoogleGenerativeAI;
+
+  constructor(private apiKey: string | undefined, model: string = DEFAULT_GEMINI_MODEL) {
+    super(model);
+    this.client = new GoogleGenerativeAI(apiKey || "");
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  protected async complete(request: CompletionRequest): Promise<string> {
+    const model = this.client.getGenerativeModel({
+      model: this.model,
+      safetySettings: SAFETY_SETTINGS,
+      systemInstruction: request.system,
+    });
+
+    const result = await model.generateContent({
+      contents: [{
+        role: "user",
+        parts: [
+          { text: request.prompt },
+          ...(request.images || []).map(image => ({
+            inlineData: { mimeType: image.mimeType, data: image.data.toString('base64') }
+          }))
+        ]
+      }],
+    });
+
+    return result.response.text().trim();
+  }
+}
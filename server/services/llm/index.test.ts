@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { createLLMProvider, llmConfigFromEnv } from './index';
+import type { LLMProviderName } from './types';
+
+describe('llmConfigFromEnv', () => {
+  it('defaults to gemini with its API key', () => {
+    expect(llmConfigFromEnv({ GEMINI_API_KEY: 'key' })).toEqual({
+      provider: 'gemini',
+      model: undefined,
+      apiKey: 'key',
+      fixturesDir: undefined
+    });
+  });
+
+  it('reads the provider case-insensitively, with the vendor\'s key and a model override', () => {
+    expect(llmConfigFromEnv({ LLM_PROVIDER: 'Anthropic', LLM_MODEL: 'custom', ANTHROPIC_API_KEY: 'a', OPENAI_API_KEY: 'o' }))
+      .toMatchObject({ provider: 'anthropic', model: 'custom', apiKey: 'a' });
+  });
+
+  it('gives the stub no API key but its fixtures directory', () => {
+    expect(llmConfigFromEnv({ LLM_PROVIDER: 'stub', GEMINI_API_KEY: 'key', LLM_FIXTURES_DIR: '/fixtures' }))
+      .toMatchObject({ provider: 'stub', apiKey: undefined, fixturesDir: '/fixtures' });
+  });
+
+  it('rejects an unknown provider', () => {
+    expect(() => llmConfigFromEnv({ LLM_PROVIDER: 'llama' })).toThrow('Unknown LLM_PROVIDER "llama"');
+  });
+});
+
+describe('createLLMProvider', () => {
+  it.each(['gemini', 'openai', 'anthropic', 'stub'] as const)('constructs the %s adapter', (provider) => {
+    expect(createLLMProvider({ provider }).name).toBe(provider);
+  });
+
+  it('treats a provider without an API key as unconfigured', () => {
+    expect(createLLMProvider({ provider: 'openai' }).isConfigured()).toBe(false);
+    expect(createLLMProvider({ provider: 'openai', apiKey: 'key' }).isConfigured()).toBe(true);
+  });
+
+  it('rejects an unknown provider', () => {
+    expect(() => createLLMProvider({ provider: 'llama' as LLMProviderName })).toThrow('Unknown LLM provider: llama');
+  });
+});
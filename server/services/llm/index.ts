@@ -0,0 +1,59 @@
+import type { LLMProvider, LLMProviderName } from './types';
+import { GeminiProvider } from './geminiProvider';
+import { OpenAIProvider } from './openaiProvider';
+import { AnthropicProvider } from './anthropicProvider';
+import { StubProvider } from './stubProvider';
+
+export type { LLMImage, LLMProvider, LLMProviderName, NextStepsRequest, RepairRequest, StructuredTask } from './types';
+
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  model?: string;
+  apiKey?: string;
+  fixturesDir?: string;
+}
+
+const PROVIDER_API_KEYS: Record<Exclude<LLMProviderName, 'stub'>, string> = {
+  gemini: 'GEMINI_API_KEY',
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+};
+
+/**
+ * Construct the adapter for a provider name
+ */
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  switch (config.provider) {
+    case 'gemini':
+      return new GeminiProvider(config.apiKey, config.model);
+    case 'openai':
+      return new OpenAIProvider(config.apiKey, config.model);
+    case 'anthropic':
+      return new AnthropicProvider(config.apiKey, config.model);
+    case 'stub':
+      return new StubProvider(config.fixturesDir);
+    default:
+      throw new Error(`Unknown LLM provider: ${config.provider}`);
+  }
+}
+
+/**
+ * Read provider settings from the environment. LLM_PROVIDER selects the
+ * adapter (default gemini), LLM_MODEL overrides its model, and the API key
+ * comes from the vendor's usual variable.
+ */
+export function llmConfigFromEnv(env: NodeJS.ProcessEnv = process.env): LLMProviderConfig {
+  const provider = (env.LLM_PROVIDER || 'gemini').toLowerCase() as LLMProviderName;
+  if (!['gemini', 'openai', 'anthropic', 'stub'].includes(provider)) {
+    throw new Error(`Unknown LLM_PROVIDER "${env.LLM_PROVIDER}"; expected gemini, openai, anthropic or stub`);
+  }
+
+  return {
+    provider,
+    model: env.LLM_MODEL || undefined,
+    apiKey: provider === 'stub' ? undefined : env[PROVIDER_API_KEYS[provider]],
+    fixturesDir: env.LLM_FIXTURES_DIR || undefined,
+  };
+}
+
+export const llmProvider: LLMProvider = createLLMProvider(llmConfigFromEnv());
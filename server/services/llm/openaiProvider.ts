@@ -0,0 +1,44 @@
+import OpenAI from "openai";
+import type { ChatCompletionContentPart } from "openai/resources/chat/completions";
+import { PromptedLLMProvider, type CompletionRequest } from './promptedProvider';
+
+export const DEFAULT_OPENAI_MODEL = "gpt-4o";
+
+/**
+ * OpenAI chat completions adapter
+ */
+export class OpenAIProvider extends PromptedLLMProvider {
+  readonly name = 'openai' as const;
+  private client: OpenAI;
+
+  constructor(private apiKey: string | undefined, model: string = DEFAULT_OPENAI_MODEL) {
+    super(model);
+    // The SDK throws on construction without a key, so fall back to a placeholder
+    // and rely on isConfigured() to keep unconfigured providers from being called
+    this.client = new OpenAI({ apiKey: apiKey || "missing" });
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  protected async complete(request: CompletionRequest): Promise<string> {
+    const content: ChatCompletionContentPart[] = [
+      { type: "text", text: request.prompt },
+      ...(request.images || []).map((image): ChatCompletionContentPart => ({
+        type: "image_url",
+        image_url: { url: `data:${image.mimeType};base64,${image.data.toString('base64')}` }
+      }))
+    ];
+
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: "system", content: request.system },
+        { role: "user", content }
+      ],
+    });
+
+    return (response.choices[0]?.message.content || "").trim();
+  }
+}
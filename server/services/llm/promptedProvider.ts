@@ -0,0 +1,66 @@
+import type { LLMImage, LLMProvider, LLMProviderName, NextStepsRequest, RepairRequest } from './types';
+import {
+  CONDITIONS_SYSTEM_PROMPT,
+  NEXT_STEPS_SYSTEM_PROMPT,
+  REPAIR_SYSTEM_PROMPT,
+  VISION_SYSTEM_PROMPT,
+  buildConditionsPrompt,
+  buildNextStepsPrompt,
+  buildRepairPrompt,
+  buildVisionPrompt
+} from './prompts';
+
+export interface CompletionRequest {
+  system: string;
+  prompt: string;
+  images?: LLMImage[];
+}
+
+/**
+ * Shared prompt handling for hosted chat models. Adapters only implement a
+ * single completion call; the task methods build the same prompts for every vendor.
+ */
+export abstract class PromptedLLMProvider implements LLMProvider {
+  abstract readonly name: LLMProviderName;
+
+  // Image types the vendor's vision API accepts; others are dropped before sending
+  protected supportedImageTypes: string[] = ['image/jpeg', 'image/png'];
+
+  constructor(public readonly model: string) {}
+
+  abstract isConfigured(): boolean;
+
+  protected abstract complete(request: CompletionRequest): Promise<string>;
+
+  analyzeConditions(description: string): Promise<string> {
+    return this.complete({
+      system: CONDITIONS_SYSTEM_PROMPT,
+      prompt: buildConditionsPrompt(description)
+    });
+  }
+
+  generateNextSteps(request: NextStepsRequest): Promise<string> {
+    return this.complete({
+      system: NEXT_STEPS_SYSTEM_PROMPT,
+      prompt: buildNextStepsPrompt(request)
+    });
+  }
+
+  async describeImages(description: string, images: LLMImage[]): Promise<string> {
+    const usable = images.filter(image => this.supportedImageTypes.includes(image.mimeType));
+    if (usable.length === 0) return '';
+
+    return this.complete({
+      system: VISION_SYSTEM_PROMPT,
+      prompt: buildVisionPrompt(description),
+      images: usable
+    });
+  }
+
+  repairOutput(request: RepairRequest): Promise<string> {
+    return this.complete({
+      system: REPAIR_SYSTEM_PROMPT,
+      prompt: buildRepairPrompt(request)
+    });
+  }
+}
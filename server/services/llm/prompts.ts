@@ -0,0 +1,114 @@
+import { TRIAGE_LABELS } from '@shared/schema';
+import { toTriageLevel } from '@shared/triage';
+import type { NextStepsRequest, RepairRequest, StructuredTask } from './types';
+
+export const CONDITIONS_SYSTEM_PROMPT = "You are a medical education assistant providing information about possible conditions based on symptoms. You only provide educational information, not medical advice or diagnosis. Always respond in properly formatted JSON.";
+
+export const NEXT_STEPS_SYSTEM_PROMPT = "You are a medical education assistant providing guidance based on symptom analysis. You provide educational information only, not medical advice. Always respond in properly formatted JSON.";
+
+export const REPAIR_SYSTEM_PROMPT = "You fix malformed JSON produced by another model. Respond with corrected JSON only, with no markdown formatting or explanation.";
+
+export const VISION_SYSTEM_PROMPT = "You are a medical education assistant describing visible skin, eye and other surface findings in photos. Describe only what is visible; do not diagnose.";
+
+/**
+ * Prompt asking for a ranked list of conditions as a JSON array
+ */
+export function buildConditionsPrompt(description: string): string {
+  return `
+      As a medical education AI, analyze the following symptoms and determine the most likely conditions based on medical knowledge.
+
+      Symptoms description: ${description}
+
+      Return the analysis in JSON format as an array of possible conditions with the following structure:
+      [
+        {
+          "name": "Condition Name",
+          "description": "Brief description of the condition",
+          "relevance": "high/medium/low",
+          "score": 0.0-1.0,
+          "symptoms": ["key symptom 1", "key symptom 2"]
+        }
+      ]
+
+      Include only up to 5 of the most relevant conditions. The score should represent how confident you are in this assessment.
+
+      IMPORTANT: Only respond with the JSON array and nothing else. Do not add any markdown formatting, extra explanation, or other text.
+    `;
+}
+
+/**
+ * Prompt asking for self-care steps as a JSON array. Where to seek care is
+ * decided from the conditions' triage levels, not by the model.
+ */
+export function buildNextStepsPrompt(request: NextStepsRequest): string {
+  return `
+      Based on the following patient information and potential conditions, suggest self-care steps.
+      Where the patient should seek care has already been decided, so do not recommend a care setting.
+      Format your response as JSON with an array of objects, each containing type ('general'), title, description, and suggestions array.
+
+      Patient's symptoms: ${request.description}
+      ${request.duration ? `Duration: ${request.duration}` : ''}
+      ${request.severity ? `Severity: ${request.severity}` : ''}
+      ${request.bodyLocation ? `Body location: ${request.bodyLocation}` : ''}
+
+      Top potential conditions:
+      ${request.conditions.slice(0, 3).map((condition, index) => `
+        ${index + 1}. ${condition.name} (${condition.relevance} relevance)
+        - Description: ${condition.description}
+        - Key symptoms: ${condition.symptoms.slice(0, 5).join(", ")}
+        - Usual care: ${TRIAGE_LABELS[toTriageLevel(condition.urgency) ?? 'primary_care']}
+      `).join('\n')}
+
+      Provide next steps in this JSON format:
+      [
+        {
+          "type": "general",
+          "title": "Self-care recommendations",
+          "description": "While waiting for professional consultation...",
+          "suggestions": ["Specific recommendation 1", "Specific recommendation 2"]
+        }
+      ]
+
+      Include at least one self-care step, tailored to the conditions above.
+
+      IMPORTANT: Only respond with the JSON array and nothing else. Do not add any markdown formatting, extra explanation, or other text.
+    `;
+}
+
+/**
+ * Prompt asking for a short plain-text description of what the photos show
+ */
+export function buildVisionPrompt(description: string): string {
+  return `
+      The patient describes their symptoms as: ${description}
+
+      Describe the visible findings in the attached photo(s) in two or three sentences, using plain terms such as
+      rash, redness, swelling, blisters, discharge or discoloration, and note their shape and location where visible.
+      If nothing medically relevant is visible, say so.
+    `;
+}
+
+const EXPECTED_FORMATS: Record<StructuredTask, string> = {
+  conditions: `a JSON array of up to 5 objects, each with "name" (string), "description" (string),
+      "relevance" ("high", "medium" or "low"), "score" (number from 0.0 to 1.0) and "symptoms" (array of strings)`,
+  nextSteps: `a JSON array of objects, each with "type" ("consult" or "general"), "title" (string),
+      "description" (string) and "suggestions" (array of strings)`,
+};
+
+/**
+ * Prompt asking the model to correct a response that failed validation
+ */
+export function buildRepairPrompt(request: RepairRequest): string {
+  return `
+      Your previous response could not be used: ${request.problem}
+
+      The response must be ${EXPECTED_FORMATS[request.task]}.
+
+      The patient's symptoms were: ${request.description}
+
+      Previous response:
+      ${request.previousOutput}
+
+      Reply with only the corrected JSON array.
+    `;
+}
@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  conditionListSpec,
+  nextStepListSpec,
+  parseStructuredList,
+  requestStructuredList
+} from './structuredOutput';
+import type { LLMProvider } from './types';
+
+const influenza = { name: 'Influenza', description: 'Flu', score: 0.8, symptoms: ['fever'] };
+
+function parseConditions(raw: string) {
+  const result = parseStructuredList(raw, conditionListSpec);
+  if (!result.ok) throw new Error(result.message);
+  return result;
+}
+
+describe('parseStructuredList', () => {
+  it('reads JSON inside a markdown fence', () => {
+    const { items } = parseConditions('```json\n' + JSON.stringify([influenza]) + '\n```');
+    expect(items).toEqual([{ ...influenza, relevance: 'high' }]);
+  });
+
+  it('unwraps a list the model put in an object', () => {
+    expect(parseConditions(JSON.stringify({ conditions: [influenza] })).items.map(c => c.name)).toEqual(['Influenza']);
+  });
+
+  it('cuts away prose and trailing commas', () => {
+    const raw = 'Here you go:\n[{"name": "Influenza", "symptoms": "fever, cough",},]\nHope this helps!';
+    expect(parseConditions(raw).items[0].symptoms).toEqual(['fever', 'cough']);
+  });
+
+  it('drops and reports invalid items but keeps the rest', () => {
+    const { items, rejected } = parseConditions(JSON.stringify([influenza, { description: 'no name' }]));
+    expect(items).toHaveLength(1);
+    expect(rejected).toEqual(['item 1: name required']);
+  });
+
+  it('fails when no item is usable', () => {
+    expect(parseStructuredList(JSON.stringify([{ title: '' }]), nextStepListSpec)).toMatchObject({ ok: false, reason: 'schema_mismatch' });
+  });
+
+  it('fails on empty output, non-JSON and non-lists', () => {
+    expect(parseStructuredList('  ', conditionListSpec)).toMatchObject({ ok: false, reason: 'empty_output' });
+    expect(parseStructuredList('I cannot help with that', conditionListSpec)).toMatchObject({ ok: false, reason: 'invalid_json' });
+    expect(parseStructuredList('{"answer": 1}', conditionListSpec)).toMatchObject({ ok: false, reason: 'schema_mismatch' });
+  });
+
+  describe('scores', () => {
+    const scores = (values: unknown[]) =>
+      parseConditions(JSON.stringify(values.map((score, i) => ({ name: `Condition ${i}`, score })))).items.map(c => c.score);
+
+    it('reads percentage strings', () => {
+      expect(scores(['75%', '1%', '0.4'])).toEqual([0.75, 0.01, 0.4]);
+    });
+
+    it('reads the whole list on a 0-100 scale when any score is above 1', () => {
+      expect(scores([80, 1, '20'])).toEqual([0.8, 0.01, 0.2]);
+    });
+
+    it('keeps 1 as certain among 0-1 scores', () => {
+      expect(scores([1, 0.5])).toEqual([1, 0.5]);
+    });
+
+    it('leaves out scores that are out of range', () => {
+      expect(scores([-0.2, 250, 'high'])).toEqual([undefined, undefined, undefined]);
+    });
+  });
+});
+
+describe('requestStructuredList', () => {
+  let repairOutput: ReturnType<typeof vi.fn>;
+  let provider: LLMProvider;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    repairOutput = vi.fn();
+    provider = {
+      name: 'stub',
+      model: 'test',
+      isConfigured: () => true,
+      analyzeConditions: vi.fn(),
+      generateNextSteps: vi.fn(),
+      describeImages: vi.fn(),
+      repairOutput
+    };
+  });
+
+  const requestConditions = (request: () => Promise<string>, maxAttempts?: number) =>
+    requestStructuredList({ provider, task: 'conditions', description: 'fever', spec: conditionListSpec, request, maxAttempts });
+
+  it('returns valid output without a repair', async () => {
+    const result = await requestConditions(async () => JSON.stringify([influenza]));
+
+    expect(result.items.map(c => c.name)).toEqual(['Influenza']);
+    expect(result.issues).toEqual([]);
+    expect(repairOutput).not.toHaveBeenCalled();
+  });
+
+  it('asks the model to repair invalid output', async () => {
+    repairOutput.mockResolvedValue(JSON.stringify([influenza]));
+
+    const result = await requestConditions(async () => 'Influenza, probably');
+
+    expect(result.items.map(c => c.name)).toEqual(['Influenza']);
+    expect(repairOutput).toHaveBeenCalledWith(expect.objectContaining({ task: 'conditions', previousOutput: 'Influenza, probably' }));
+  });
+
+  it('reports dropped items with the attempt that produced them', async () => {
+    const result = await requestConditions(async () => JSON.stringify([influenza, { score: 0.2 }]));
+
+    expect(result.issues).toEqual([expect.objectContaining({ reason: 'invalid_items', attempts: 1 })]);
+  });
+
+  it('retries the request after a provider error', async () => {
+    const request = vi.fn()
+      .mockRejectedValueOnce(new Error('rate limited'))
+      .mockResolvedValueOnce(JSON.stringify([influenza]));
+
+    const result = await requestConditions(request);
+
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(repairOutput).not.toHaveBeenCalled();
+    expect(result.items).toHaveLength(1);
+  });
+
+  it('reports the last failure when every attempt fails', async () => {
+    repairOutput.mockResolvedValue('still not JSON');
+
+    const result = await requestConditions(async () => 'not JSON', 3);
+
+    expect(repairOutput).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({
+      items: [],
+      issues: [expect.objectContaining({ stage: 'conditions', reason: 'invalid_json', attempts: 3 })]
+    });
+  });
+
+  it('reports a provider error when the provider never answers', async () => {
+    const result = await requestConditions(async () => { throw new Error('timeout'); });
+
+    expect(result.issues).toEqual([expect.objectContaining({ reason: 'provider_error', message: 'timeout', attempts: 2 })]);
+  });
+});
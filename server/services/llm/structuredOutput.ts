@@ -0,0 +1,241 @@
+import { z } from 'zod';
+import type { AnalysisIssue, AnalysisIssueReason, NextStep, PotentialCondition } from '@shared/schema';
+import type { LLMProvider, StructuredTask } from './types';
+import { relevanceFromProbability } from '../scoreFusion';
+
+// One initial request plus one repair attempt unless LLM_MAX_ATTEMPTS says otherwise
+export const DEFAULT_MAX_ATTEMPTS = 2;
+
+const lowercase = (value: unknown) => typeof value === 'string' ? value.trim().toLowerCase() : value;
+
+/**
+ * Accept a list of strings or a single comma-separated string; drop anything else
+ */
+const stringList = z.preprocess(
+  (value) => {
+    if (typeof value === 'string') return value.split(',');
+    if (Array.isArray(value)) return value.filter(item => typeof item === 'string');
+    return value;
+  },
+  z.array(z.string().trim()).transform(items => items.filter(Boolean))
+).catch([]);
+
+const isPercentString = (value: unknown): value is string => typeof value === 'string' && value.includes('%');
+
+/**
+ * Scores may arrive as strings, and "75%" is read as 0.75. Bare numbers on a
+ * 0-100 scale are converted for the whole list by percentScores. Anything
+ * outside 0-1 after that is rejected so it cannot distort the merge with KB
+ * scores.
+ */
+const score = z.preprocess(
+  (value) => {
+    if (typeof value !== 'string') return value;
+    const number = parseFloat(value.replace('%', ''));
+    return isPercentString(value) ? number / 100 : number;
+  },
+  z.number().finite().min(0).max(1)
+).optional().catch(undefined);
+
+/**
+ * Convert bare scores to 0-1 when any score in the list is above 1, so the
+ * model's scale is read from the whole answer: a 1 next to an 80 means 1%,
+ * while a 1 among 0-1 scores means certain
+ */
+function percentScores(items: unknown[]): unknown[] {
+  const scoreOf = (item: unknown) => item && typeof item === 'object' ? (item as Record<string, unknown>).score : undefined;
+  const bareNumber = (value: unknown) =>
+    typeof value === 'number' ? value : typeof value === 'string' && !isPercentString(value) ? parseFloat(value) : NaN;
+
+  const onPercentScale = items.some(item => bareNumber(scoreOf(item)) > 1);
+  if (!onPercentScale) return items;
+
+  return items.map(item => {
+    const value = bareNumber(scoreOf(item));
+    return Number.isNaN(value) ? item : { ...(item as Record<string, unknown>), score: value / 100 };
+  });
+}
+
+export const llmConditionSchema = z.object({
+  name: z.string().trim().min(1),
+  description: z.string().trim().catch(''),
+  relevance: z.preprocess(lowercase, z.enum(['low', 'medium', 'high'])).optional().catch(undefined),
+  score,
+  symptoms: stringList.default([]),
+}).transform((condition): PotentialCondition => ({
+  ...condition,
+  relevance: condition.relevance ?? relevanceFromProbability(condition.score),
+}));
+
+export const nextStepSchema = z.object({
+  type: z.preprocess(lowercase, z.enum(['consult', 'general'])).catch('general'),
+  title: z.string().trim().min(1),
+  description: z.string().trim().catch(''),
+  suggestions: stringList.default([]),
+}).transform((step): NextStep => step);
+
+/**
+ * Describes how to validate one kind of structured response
+ */
+interface OutputSpec<T> {
+  // Property a model may wrap the array in, e.g. { "conditions": [...] }
+  wrapperKeys: string[];
+  itemSchema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  // Applied to the raw items before each is validated
+  normalize?: (items: unknown[]) => unknown[];
+}
+
+export const conditionListSpec: OutputSpec<PotentialCondition> = {
+  wrapperKeys: ['conditions', 'potentialConditions'],
+  itemSchema: llmConditionSchema,
+  normalize: percentScores,
+};
+
+export const nextStepListSpec: OutputSpec<NextStep> = {
+  wrapperKeys: ['nextSteps', 'steps'],
+  itemSchema: nextStepSchema,
+};
+
+export type ParseResult<T> =
+  | { ok: true; items: T[]; rejected: string[] }
+  | { ok: false; reason: AnalysisIssueReason; message: string };
+
+/**
+ * Best-effort cleanup of near-JSON: strips markdown fences, cuts away prose
+ * around the outermost array or object, and removes trailing commas
+ */
+export function extractJson(text: string): unknown {
+  let jsonText = text.trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```\s*$/, '');
+
+  try {
+    return JSON.parse(jsonText);
+  } catch {
+    // fall through to the lenient pass
+  }
+
+  const start = jsonText.search(/[\[{]/);
+  const end = Math.max(jsonText.lastIndexOf(']'), jsonText.lastIndexOf('}'));
+  if (start === -1 || end <= start) {
+    throw new Error('No JSON array or object found in the response');
+  }
+
+  jsonText = jsonText.slice(start, end + 1).replace(/,\s*([\]}])/g, '$1');
+  return JSON.parse(jsonText);
+}
+
+/**
+ * Parse and validate a model response as a list. Individual items that fail
+ * validation are dropped and reported; the response as a whole fails only when
+ * it is not a list or none of its items are usable.
+ */
+export function parseStructuredList<T>(raw: string, spec: OutputSpec<T>): ParseResult<T> {
+  if (!raw.trim()) {
+    return { ok: false, reason: 'empty_output', message: 'The model returned an empty response' };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = extractJson(raw);
+  } catch (error) {
+    return {
+      ok: false,
+      reason: 'invalid_json',
+      message: `The response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+
+  if (parsed && !Array.isArray(parsed) && typeof parsed === 'object') {
+    const key = spec.wrapperKeys.find(k => Array.isArray((parsed as Record<string, unknown>)[k]));
+    if (key) parsed = (parsed as Record<string, unknown>)[key];
+  }
+
+  if (!Array.isArray(parsed)) {
+    return { ok: false, reason: 'schema_mismatch', message: 'Expected a JSON array' };
+  }
+
+  const items: T[] = [];
+  const rejected: string[] = [];
+  (spec.normalize ? spec.normalize(parsed) : parsed).forEach((item, index) => {
+    const result = spec.itemSchema.safeParse(item);
+    if (result.success) {
+      items.push(result.data);
+    } else {
+      const problems = result.error.errors.map(e => `${e.path.join('.') || 'item'} ${e.message.toLowerCase()}`);
+      rejected.push(`item ${index}: ${problems.join(', ')}`);
+    }
+  });
+
+  if (parsed.length > 0 && items.length === 0) {
+    return { ok: false, reason: 'schema_mismatch', message: `No usable items (${rejected.join('; ')})` };
+  }
+
+  return { ok: true, items, rejected };
+}
+
+export interface StructuredRequest<T> {
+  provider: LLMProvider;
+  task: StructuredTask;
+  description: string;
+  spec: OutputSpec<T>;
+  // Issues the first call to the model
+  request: () => Promise<string>;
+  maxAttempts?: number;
+}
+
+export interface StructuredResult<T> {
+  items: T[];
+  issues: AnalysisIssue[];
+}
+
+/**
+ * Ask the model for a structured list, validating the answer and asking it to
+ * repair invalid output up to maxAttempts times in total. Never throws; when
+ * every attempt fails the caller gets no items and an issue explaining why.
+ */
+export async function requestStructuredList<T>(options: StructuredRequest<T>): Promise<StructuredResult<T>> {
+  const { provider, task, description, spec } = options;
+  const maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+  const stage = task;
+
+  let previousOutput: string | undefined;
+  let failure: { reason: AnalysisIssueReason; message: string } | undefined;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    let raw: string;
+    try {
+      // Repair only makes sense once the model has produced something to fix
+      raw = previousOutput !== undefined && failure
+        ? await provider.repairOutput({ task, description, previousOutput, problem: failure.message })
+        : await options.request();
+    } catch (error) {
+      failure = { reason: 'provider_error', message: error instanceof Error ? error.message : String(error) };
+      previousOutput = undefined;
+      continue;
+    }
+
+    const result = parseStructuredList(raw, spec);
+    if (result.ok) {
+      const issues: AnalysisIssue[] = [];
+      if (result.rejected.length > 0) {
+        issues.push({
+          stage,
+          reason: 'invalid_items',
+          message: `Dropped ${result.rejected.length} invalid item(s): ${result.rejected.join('; ')}`,
+          attempts: attempt,
+        });
+      }
+      return { items: result.items, issues };
+    }
+
+    console.warn(`Invalid ${provider.name} ${task} output (attempt ${attempt}/${maxAttempts}): ${result.message}`);
+    failure = { reason: result.reason, message: result.message };
+    previousOutput = raw;
+  }
+
+  return {
+    items: [],
+    issues: [{ stage, reason: failure!.reason, message: failure!.message, attempts: maxAttempts }],
+  };
+}
@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import type { LLMImage, LLMProvider, NextStepsRequest, RepairRequest } from './types';
+
+export const DEFAULT_FIXTURES_DIR = path.resolve(process.cwd(), 'server/services/llm/fixtures');
+
+// A response is either returned verbatim (to simulate malformed output) or serialized as JSON
+const responseSchema = z.union([z.string(), z.array(z.unknown()), z.record(z.unknown())]);
+
+/**
+ * A canned set of responses. Fixtures with `match` apply when every keyword
+ * appears in the symptom description; a fixture without `match` is the fallback.
+ */
+const fixtureSchema = z.object({
+  match: z.array(z.string().min(1)).optional(),
+  conditions: responseSchema.default([]),
+  nextSteps: responseSchema.default([]),
+  imageFindings: z.string().default(''),
+  // Returned when the caller asks for a repair; without one the stub repeats its answer
+  repairs: z.object({
+    conditions: responseSchema.optional(),
+    nextSteps: responseSchema.optional(),
+  }).default({}),
+});
+
+type Fixture = z.infer<typeof fixtureSchema> & { file: string };
+
+const serialize = (response: z.infer<typeof responseSchema>) =>
+  typeof response === 'string' ? response : JSON.stringify(response);
+
+/**
+ * Deterministic offline provider that answers from JSON fixtures, so the
+ * analysis flow can run in tests and CI without network access or API keys
+ */
+export class StubProvider implements LLMProvider {
+  readonly name = 'stub' as const;
+  readonly model = 'fixtures';
+  private fixtures: Promise<Fixture[]> | null = null;
+
+  constructor(private fixturesDir: string = DEFAULT_FIXTURES_DIR) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async analyzeConditions(description: string): Promise<string> {
+    return serialize((await this.findFixture(description)).conditions);
+  }
+
+  async generateNextSteps(request: NextStepsRequest): Promise<string> {
+    return serialize((await this.findFixture(request.description)).nextSteps);
+  }
+
+  async describeImages(description: string, images: LLMImage[]): Promise<string> {
+    if (images.length === 0) return '';
+    return (await this.findFixture(description)).imageFindings;
+  }
+
+  async repairOutput(request: RepairRequest): Promise<string> {
+    const repaired = (await this.findFixture(request.description)).repairs[request.task];
+    return repaired === undefined ? request.previousOutput : serialize(repaired);
+  }
+
+  private async findFixture(description: string): Promise<Fixture> {
+    const fixtures = await this.loadFixtures();
+    const text = description.toLowerCase();
+
+    const matched = fixtures.find(fixture =>
+      fixture.match?.every(keyword => text.includes(keyword.toLowerCase()))
+    );
+    const fallback = fixtures.find(fixture => !fixture.match);
+
+    const fixture = matched || fallback;
+    if (!fixture) {
+      throw new Error(`No stub fixture matches and no fallback fixture exists in ${this.fixturesDir}`);
+    }
+    return fixture;
+  }
+
+  /**
+   * Read every *.json file in the fixtures directory once, in filename order
+   */
+  private loadFixtures(): Promise<Fixture[]> {
+    if (!this.fixtures) {
+      this.fixtures = (async () => {
+        const files = (await fs.readdir(this.fixturesDir))
+          .filter(file => file.endsWith('.json'))
+          .sort();
+
+        return Promise.all(files.map(async (file) => {
+          const content = await fs.readFile(path.join(this.fixturesDir, file), 'utf8');
+          const result = fixtureSchema.safeParse(JSON.parse(content));
+          if (!result.success) {
+            throw new Error(`Invalid stub fixture ${file}: ${result.error.message}`);
+          }
+          return { ...result.data, file };
+        }));
+      })();
+    }
+    return this.fixtures;
+  }
+}
@@ -0,0 +1,70 @@
+import { PotentialCondition } from '@shared/schema';
+
+export type LLMProviderName = 'gemini' | 'openai' | 'anthropic' | 'stub';
+
+/**
+ * An image passed to a vision-capable model
+ */
+export interface LLMImage {
+  mimeType: string;
+  data: Buffer;
+}
+
+/**
+ * Patient details and ranked conditions used to suggest next steps
+ */
+export interface NextStepsRequest {
+  description: string;
+  duration?: string;
+  severity?: string;
+  bodyLocation?: string;
+  conditions: PotentialCondition[];
+}
+
+// Responses that must be a JSON list and are validated before use
+export type StructuredTask = 'conditions' | 'nextSteps';
+
+/**
+ * Follow-up asking the model to fix a response that failed validation
+ */
+export interface RepairRequest {
+  task: StructuredTask;
+  description: string;
+  previousOutput: string;
+  problem: string;
+}
+
+/**
+ * A language model backend used by the symptom analysis flow. Each method
+ * returns the model's raw text; parsing and validation happen in the caller so
+ * every provider is held to the same output contract.
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+
+  /**
+   * Whether credentials are present; unconfigured providers are skipped
+   */
+  isConfigured(): boolean;
+
+  /**
+   * Rank likely conditions for a symptom description; expects a JSON array
+   */
+  analyzeConditions(description: string): Promise<string>;
+
+  /**
+   * Suggest consultation and self-care steps; expects a JSON array of NextStep
+   */
+  generateNextSteps(request: NextStepsRequest): Promise<string>;
+
+  /**
+   * Describe visible findings in symptom photos as plain text
+   */
+  describeImages(description: string, images: LLMImage[]): Promise<string>;
+
+  /**
+   * Ask the model to correct an invalid structured response
+   */
+  repairOutput(request: RepairRequest): Promise<string>;
+}
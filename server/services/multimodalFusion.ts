@@ -1,5 +1,6 @@
 import * as tf from '@tensorflow/tfjs-node';
 import { TextEncoderOutput, ImageEncoderOutput, MultimodalFusionOutput } from '@shared/schema';
+import { negatedFactors } from './nlp';
 
 /**
  * MultimodalFusion: Combines text and image encodings into a unified representation
@@ -62,6 +63,7 @@ export class MultimodalFusion {
     return {
       fusedEmbedding,
       allIdentifiedFactors: uniqueFactors,
+      negatedFactors: negatedFactors(textOutput.findings || []),
       textSymptoms: textOutput.identifiedSymptoms,
       visualFeatures: hasImage ? imageOutput.identifiedFeatures : [],
       rawTextInput: textOutput.rawText,
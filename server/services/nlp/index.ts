@@ -0,0 +1,3 @@
+export { extractFindings, findingsToFactors, negatedFactors, findingTerm, parseDuration } from './symptomExtractor';
+export { tokenize, lemmatize, splitSentences } from './tokenizer';
+export type { Token, Sentence } from './tokenizer';
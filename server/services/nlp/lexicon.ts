@@ -0,0 +1,135 @@
+import type { SymptomFinding } from '@shared/schema';
+
+// Modifier vocabulary for the extractor. Symptom terms themselves live in
+// symptom-lexicon.json and are loaded by termStandardization.ts.
+
+/**
+ * Canonical body sites and the words that refer to them
+ */
+export const BODY_SITES: Record<string, string[]> = {
+  head: ['head', 'forehead', 'temple', 'temples'],
+  face: ['face', 'cheek', 'cheeks'],
+  eye: ['eye', 'eyes', 'eyelid', 'eyelids'],
+  ear: ['ear', 'ears'],
+  nose: ['nose', 'sinus', 'sinuses'],
+  mouth: ['mouth', 'lip', 'lips', 'tongue', 'gums'],
+  throat: ['throat'],
+  neck: ['neck'],
+  chest: ['chest'],
+  stomach: ['stomach', 'abdomen', 'belly', 'tummy'],
+  back: ['back', 'lower back', 'upper back'],
+  shoulder: ['shoulder', 'shoulders'],
+  arm: ['arm', 'arms', 'elbow', 'elbows', 'wrist', 'wrists'],
+  hand: ['hand', 'hands', 'finger', 'fingers'],
+  hip: ['hip', 'hips', 'groin'],
+  leg: ['leg', 'legs', 'thigh', 'thighs', 'calf', 'calves', 'shin', 'shins'],
+  knee: ['knee', 'knees'],
+  ankle: ['ankle', 'ankles'],
+  foot: ['foot', 'feet', 'toe', 'toes'],
+  skin: ['skin'],
+  joint: ['joint', 'joints'],
+  muscle: ['muscle', 'muscles'],
+};
+
+// Symptoms that take a location ("pain in my left knee", "swollen ankle")
+export const SITE_ATTACHABLE = new Set([
+  'pain', 'discomfort', 'swelling', 'rash', 'itchiness', 'redness', 'numbness', 'tingling', 'bumps', 'blisters', 'weakness'
+]);
+
+// Site + symptom combinations that have their own name in the knowledge base
+export const SITE_COMPOUNDS: Record<string, string> = {
+  'head pain': 'headache',
+  'throat pain': 'sore throat',
+  'muscle pain': 'muscle aches',
+  'stomach pain': 'stomach pain',
+  'stomach discomfort': 'stomach pain',
+  'chest discomfort': 'chest discomfort',
+  'eye redness': 'eye redness',
+  'eye itchiness': 'itchy eyes',
+  'skin itchiness': 'itchy skin',
+  'skin redness': 'redness',
+};
+
+export const LATERALITY = ['left', 'right', 'both'];
+
+export const SEVERITY_TERMS: Record<string, NonNullable<SymptomFinding['severity']>> = {
+  'mild': 'mild',
+  'slight': 'mild',
+  'slightly': 'mild',
+  'minor': 'mild',
+  'a little': 'mild',
+  'a bit of': 'mild',
+  'low grade': 'mild',
+  'low-grade': 'mild',
+  'moderate': 'moderate',
+  'fairly bad': 'moderate',
+  'quite bad': 'moderate',
+  'severe': 'severe',
+  'bad': 'severe',
+  'really bad': 'severe',
+  'very bad': 'severe',
+  'terrible': 'severe',
+  'awful': 'severe',
+  'intense': 'severe',
+  'extreme': 'severe',
+  'excruciating': 'severe',
+  'unbearable': 'severe',
+  'worst': 'severe',
+  'high': 'severe',
+  'splitting': 'severe',
+  'crushing': 'severe',
+};
+
+// NegEx-style triggers. Pre-triggers negate findings that follow them; post-triggers those before them.
+export const NEGATION_PRE = [
+  'no', 'not', 'without', 'denies', 'deny', 'denied', 'never', 'none', 'nor',
+  'negative for', 'free of', 'absence of', 'no sign of', 'no signs of',
+  "don't have", "doesn't have", "didn't have", "haven't had", "hasn't had", "haven't got",
+  'do not have', 'does not have', 'did not have', 'have not had', 'has not had', 'ruled out', 'no longer',
+];
+
+export const NEGATION_POST = [
+  'absent', 'resolved', 'gone', 'went away', 'gone away', 'cleared up', 'has stopped', 'no longer', 'ruled out',
+];
+
+// Words in a post-trigger's clause that point back to the symptoms of the clause
+// before it, so the trigger reaches them: "I had a fever but it's gone now"
+export const BACK_REFERENCES = ['it', "it's", 'they', "they're", 'them', 'which'];
+
+// Phrases containing a trigger word that do not negate anything
+export const PSEUDO_NEGATION = [
+  'not only', 'not just', 'not sure', 'not certain', 'no doubt', 'not necessarily',
+  'no change', 'no improvement', 'no better', 'not better', 'not improving', 'not going away',
+  "won't go away", 'will not go away', 'gone up', 'not stop', "won't stop",
+];
+
+export const UNCERTAINTY_PRE = [
+  'maybe', 'possibly', 'possible', 'perhaps', 'probably', 'might', 'might be', 'may', 'may be',
+  'could be', 'not sure', 'unsure', 'i think', 'i guess', 'kind of', 'sort of', 'seems like',
+  'looks like', 'suspect', 'questionable',
+];
+
+export const UNCERTAINTY_POST = ['maybe', 'i think', 'possibly', 'perhaps', '?'];
+
+// Words that close a negation or uncertainty scope, NegEx "termination" terms.
+// A comma ends the scope too, so "no fever, cough" leaves the cough; a list
+// is negated throughout only when the negator repeats ("no fever, no cough").
+export const SCOPE_TERMINATORS = [
+  'but', 'however', 'although', 'though', 'except', 'yet', 'whereas', 'while',
+  'aside', 'apart', 'besides', 'i', 'which', 'who', ',', 'just', 'only', 'instead', 'still', 'other',
+];
+
+export const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7,
+  eight: 8, nine: 9, ten: 10, couple: 2, 'a couple of': 2, few: 3, 'a few': 3, several: 4,
+};
+
+export const DAYS_PER_UNIT: Record<string, number> = {
+  minute: 1 / 1440, hour: 1 / 24, day: 1, night: 1, week: 7, month: 30, year: 365,
+};
+
+// Onset expressions without a number: "since yesterday", "since last week"
+export const RELATIVE_ONSETS: Record<string, number> = {
+  'this morning': 0.5, 'last night': 1, 'yesterday': 1, 'the other day': 2,
+  'last week': 7, 'last month': 30, 'last year': 365,
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { extractFindings, findingsToFactors, negatedFactors } from './symptomExtractor';
+
+const negated = (text: string) => negatedFactors(extractFindings(text));
+const present = (text: string) => findingsToFactors(extractFindings(text));
+
+describe('negation scope', () => {
+  it('negates the symptoms right after a trigger', () => {
+    expect(negated('No fever and no cough')).toEqual(['fever', 'cough']);
+  });
+
+  it('carries negation across a list only when the negator repeats', () => {
+    expect(negated('I have no fever, no chills or cough')).toEqual(['fever', 'chills', 'cough']);
+    expect(present('no fever, cough')).toEqual(['cough']);
+    expect(negated('no fever, cough')).toEqual(['fever']);
+  });
+
+  it('stops at a comma that does not continue a list', () => {
+    expect(present('no chest pain, just shortness of breath')).toEqual(['shortness of breath']);
+    expect(negated('no chest pain, just shortness of breath')).toEqual(['chest pain']);
+  });
+
+  it('stops at "just", "only" and "except"', () => {
+    expect(present('no fever just a cough')).toEqual(['cough']);
+    expect(present('no rash only itching')).toEqual(['itchiness']);
+    expect(present('no symptoms except a headache')).toEqual(['headache']);
+  });
+});
+
+describe('resolved symptoms', () => {
+  it('are negated by a cue after them', () => {
+    expect(negated('The rash has resolved')).toEqual(['rash']);
+    expect(negated('My cough is no longer there')).toEqual(['cough']);
+    expect(negated('I no longer have a cough')).toEqual(['cough']);
+  });
+
+  it('are negated when a later clause refers back to them', () => {
+    expect(present("I had a fever last week but it's gone now")).toEqual([]);
+    expect(negated("I had a fever last week but it's gone now")).toEqual(['fever']);
+    expect(negated('I had a rash which has cleared up')).toEqual(['rash']);
+  });
+
+  it('are not confused with symptoms in other clauses', () => {
+    expect(present('I still have a cough but the fever has gone')).toEqual(['cough']);
+    expect(present("I have a headache, but the rash has gone and it's itchy")).toEqual(['headache', 'itchiness']);
+  });
+});
+
+describe('severity', () => {
+  it('reads modifiers before the symptom', () => {
+    expect(extractFindings('crushing chest pain')).toEqual([expect.objectContaining({ symptom: 'chest pain', severity: 'severe' })]);
+  });
+});
@@ -0,0 +1,376 @@
+import type { SymptomFinding } from '@shared/schema';
+import { splitSentences, tokenize, type Sentence, type Token } from './tokenizer';
+import { termStandardization } from '../termStandardization';
+import {
+  BODY_SITES,
+  SITE_ATTACHABLE,
+  SITE_COMPOUNDS,
+  LATERALITY,
+  SEVERITY_TERMS,
+  NEGATION_PRE,
+  NEGATION_POST,
+  BACK_REFERENCES,
+  PSEUDO_NEGATION,
+  UNCERTAINTY_PRE,
+  UNCERTAINTY_POST,
+  SCOPE_TERMINATORS,
+  NUMBER_WORDS,
+  DAYS_PER_UNIT,
+  RELATIVE_ONSETS,
+} from './lexicon';
+
+// How many words a pre-trigger ("no", "maybe") reaches forward, and a post-trigger ("gone") back
+const PRE_SCOPE_WORDS = 6;
+const POST_SCOPE_WORDS = 3;
+
+// Words that may sit between a symptom and a body site: "pain in my left knee"
+const SITE_PREPOSITIONS = new Set(['in', 'on', 'around', 'behind', 'under', 'over', 'of', 'near', 'at', 'along', 'across', 'inside']);
+const DETERMINERS = new Set(['my', 'the', 'his', 'her', 'their', 'your', 'a', 'both']);
+
+// Words that may sit between a symptom and a trailing severity: "the pain is really bad"
+const SEVERITY_LINKS = new Set(['is', 'was', 'are', 'were', 'feels', 'felt', 'got', 'gets', 'getting', 'very', 'really', 'so', 'quite', 'pretty', 'extremely']);
+
+interface Pattern<T> {
+  words: string[];
+  value: T;
+}
+
+/**
+ * Compile phrases into token sequences, longest first, so multi-word phrases
+ * win over the single words they contain
+ */
+function compile<T>(entries: Array<[string, T]>, key: 'lemma' | 'text'): Pattern<T>[] {
+  return entries
+    .map(([phrase, value]) => ({ words: tokenize(phrase).map(t => t[key]), value }))
+    .sort((a, b) => b.words.length - a.words.length);
+}
+
+type Matcher<T> = (tokens: Token[], index: number) => { length: number, value: T } | undefined;
+
+const patternMatcher = <T>(patterns: Pattern<T>[], key: 'lemma' | 'text'): Matcher<T> => (tokens, index) => {
+  const match = matchAt(tokens, index, patterns, key);
+  return match && { length: match.words.length, value: match.value };
+};
+
+const SITE_PATTERNS = compile(
+  Object.entries(BODY_SITES).flatMap(([site, words]) => words.map(word => [word, site] as [string, string])),
+  'lemma'
+);
+const SEVERITY_PATTERNS = compile(Object.entries(SEVERITY_TERMS), 'text');
+const triggers = (phrases: string[]) => patternMatcher(compile(phrases.map(p => [p, true] as [string, boolean]), 'text'), 'text');
+const NEGATION_PRE_TRIGGERS = triggers(NEGATION_PRE);
+const NEGATION_POST_TRIGGERS = triggers(NEGATION_POST);
+const PSEUDO_NEGATION_TRIGGERS = triggers(PSEUDO_NEGATION);
+const UNCERTAINTY_PRE_TRIGGERS = triggers(UNCERTAINTY_PRE);
+const UNCERTAINTY_POST_TRIGGERS = triggers(UNCERTAINTY_POST);
+const TERMINATORS = new Set(SCOPE_TERMINATORS);
+const BACK_REFERENCE_WORDS = new Set(BACK_REFERENCES);
+
+// Canonical site for each way of writing it, e.g. "tummy" -> "stomach"
+const SITE_LOOKUP = new Map(Object.entries(BODY_SITES).flatMap(([site, words]) => words.map(word => [word, site])));
+
+/**
+ * Longest pattern that matches the tokens starting at index, if any
+ */
+function matchAt<T>(tokens: Token[], index: number, patterns: Pattern<T>[], key: 'lemma' | 'text'): Pattern<T> | undefined {
+  return patterns.find(pattern =>
+    pattern.words.every((word, offset) => tokens[index + offset]?.[key] === word)
+  );
+}
+
+interface Span {
+  start: number; // token index, inclusive
+  end: number; // token index, exclusive
+}
+
+interface SymptomSpan extends Span {
+  symptom: string;
+}
+
+// Symptom terms come from the shared lexicon (see termStandardization.ts)
+const symptomMatcher: Matcher<string> = (tokens, index) => {
+  const match = termStandardization.matchAt(tokens, index);
+  return match && { length: match.length, value: match.concept.name };
+};
+
+/**
+ * Find every occurrence of the matcher's terms, skipping tokens already
+ * claimed by an earlier pass. Claimed tokens are added to `taken`.
+ */
+function findSpans<T>(tokens: Token[], matcher: Matcher<T>, taken: Set<number>): Array<Span & { value: T }> {
+  const spans: Array<Span & { value: T }> = [];
+  let i = 0;
+  while (i < tokens.length) {
+    const match = taken.has(i) ? undefined : matcher(tokens, i);
+    if (match && !Array.from({ length: match.length }, (_, offset) => i + offset).some(j => taken.has(j))) {
+      spans.push({ start: i, end: i + match.length, value: match.value });
+      for (let j = i; j < i + match.length; j++) taken.add(j);
+      i += match.length;
+    } else {
+      i++;
+    }
+  }
+  return spans;
+}
+
+/**
+ * Whether a trigger reaches a finding: no terminator in between and within
+ * the scope window, counted in words
+ */
+function inScope(tokens: Token[], from: number, to: number, maxWords: number): boolean {
+  let words = 0;
+  for (let i = from; i < to; i++) {
+    if (TERMINATORS.has(tokens[i].text)) return false;
+    if (tokens[i].isWord) words++;
+  }
+  return words <= maxWords;
+}
+
+function triggeredBy(tokens: Token[], finding: Span, pre: Span[], post: Span[]): boolean {
+  return pre.some(t => t.end <= finding.start && inScope(tokens, t.end, finding.start, PRE_SCOPE_WORDS))
+    || post.some(t => t.start >= finding.end && inScope(tokens, finding.end, t.start, POST_SCOPE_WORDS));
+}
+
+/**
+ * Whether a post-trigger reaches a finding in the clause before its own
+ * through a back reference: "I had a fever last week but it's gone now".
+ * A trigger whose clause names a symptom of its own applies to that one.
+ * Terminators in a row ("but I") make one clause boundary.
+ */
+function reachedByBackReference(tokens: Token[], finding: Span, trigger: Span, symptoms: Span[]): boolean {
+  const isTerminator = (i: number) => TERMINATORS.has(tokens[i].text);
+
+  let boundary = trigger.start - 1;
+  while (boundary >= 0 && !isTerminator(boundary)) boundary--;
+  while (boundary > 0 && isTerminator(boundary - 1)) boundary--;
+  if (boundary < 0 || finding.end > boundary) return false;
+  if (symptoms.some(symptom => symptom.start >= boundary && symptom.end <= trigger.start)) return false;
+
+  let previous = boundary - 1;
+  while (previous >= 0 && !isTerminator(previous)) previous--;
+  if (finding.start <= previous) return false;
+
+  let clauseEnd = trigger.end;
+  while (clauseEnd < tokens.length && !isTerminator(clauseEnd)) clauseEnd++;
+  return tokens.slice(boundary, clauseEnd).some(t => BACK_REFERENCE_WORDS.has(t.text));
+}
+
+/**
+ * Severity from a modifier just before the symptom ("severe headache") or a
+ * predicate just after it ("the pain is unbearable"), without crossing
+ * another symptom
+ */
+function findSeverity(tokens: Token[], span: SymptomSpan, others: SymptomSpan[]): SymptomFinding['severity'] {
+  const blocked = (i: number) => others.some(o => o !== span && i >= o.start && i < o.end) || TERMINATORS.has(tokens[i].text);
+
+  for (let start = Math.max(0, span.start - 4); start < span.start; start++) {
+    const match = matchAt(tokens, start, SEVERITY_PATTERNS, 'text');
+    if (!match || start + match.words.length > span.start) continue;
+    let clear = true;
+    for (let i = start; i < span.start; i++) if (blocked(i)) clear = false;
+    if (clear) return match.value;
+  }
+
+  let i = span.end;
+  while (i < tokens.length && i < span.end + 4 && !blocked(i)) {
+    const match = matchAt(tokens, i, SEVERITY_PATTERNS, 'text');
+    if (match) return match.value;
+    if (!SEVERITY_LINKS.has(tokens[i].text)) break;
+    i++;
+  }
+
+  return undefined;
+}
+
+/**
+ * Read a body site (with laterality) starting at index, e.g. "left knee"
+ */
+function readSite(tokens: Token[], index: number): { site: string, end: number } | undefined {
+  let i = index;
+  const side = LATERALITY.includes(tokens[i]?.text) ? tokens[i++].text : undefined;
+  const match = matchAt(tokens, i, SITE_PATTERNS, 'lemma');
+  if (!match) return undefined;
+  const written = tokens.slice(i, i + match.words.length).map(t => t.text).join(' ');
+  return { site: side ? `${side} ${written}` : written, end: i + match.words.length };
+}
+
+/**
+ * Body site for symptoms that take one: a site right before the symptom
+ * ("knee pain", "left ankle swelling") or after it, optionally introduced by
+ * a preposition ("pain in my lower back", "swollen right ankle")
+ */
+function findBodySite(tokens: Token[], span: SymptomSpan): string | undefined {
+  if (!SITE_ATTACHABLE.has(span.symptom)) return undefined;
+
+  for (let start = Math.max(0, span.start - 5); start < span.start; start++) {
+    const site = readSite(tokens, start);
+    if (!site || site.end > span.start) continue;
+    // Allow a linking verb in between: "my knee is really swollen"
+    const between = tokens.slice(site.end, span.start);
+    if (between.every(t => SEVERITY_LINKS.has(t.text) || t.text === 'feel' || t.text === 'look' || t.text === 'looks')) {
+      return site.site;
+    }
+  }
+
+  let i = span.end;
+  if (SITE_PREPOSITIONS.has(tokens[i]?.text)) i++;
+  if (DETERMINERS.has(tokens[i]?.text)) i++;
+  return readSite(tokens, i)?.site;
+}
+
+/**
+ * Durations and onsets such as "for 3 days", "two weeks ago", "the past few
+ * hours" or "since yesterday". A bare "a day" needs a cue word so that
+ * frequencies like "twice a day" are not read as durations.
+ */
+export function parseDuration(text: string): SymptomFinding['duration'] {
+  const lower = text.toLowerCase();
+
+  const onset = lower.match(/\b(?:since|started|began)\s+(this morning|last night|yesterday|the other day|last week|last month|last year)\b/);
+  if (onset) {
+    return { text: onset[0], days: RELATIVE_ONSETS[onset[1]] };
+  }
+
+  const numbers = Object.keys(NUMBER_WORDS).sort((a, b) => b.length - a.length).join('|');
+  const pattern = new RegExp(
+    `\\b(?:(for|past|last|over|about|almost|nearly|around)\\s+)?(?:the\\s+(?:past|last)\\s+)?(\\d+(?:\\.\\d+)?|${numbers})\\s+(minute|hour|day|night|week|month|year)s?\\b(\\s+ago)?`,
+    'g'
+  );
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(lower)) !== null) {
+    const [phrase, cue, amount, unit, ago] = match;
+    const numeric = /^\d/.test(amount);
+    if (!numeric && !cue && !ago && !/the\s+(past|last)/.test(phrase)) continue;
+    const value = numeric ? parseFloat(amount) : NUMBER_WORDS[amount];
+    return { text: phrase.trim(), days: Number((value * DAYS_PER_UNIT[unit]).toFixed(3)) };
+  }
+
+  return undefined;
+}
+
+/**
+ * Pain scores such as "8/10" or "7 out of 10"
+ */
+function parsePainScale(text: string): SymptomFinding['severity'] {
+  const match = text.match(/\b(\d{1,2})\s*(?:\/|out of)\s*10\b/);
+  if (!match) return undefined;
+  const score = parseInt(match[1], 10);
+  if (score > 10) return undefined;
+  return score >= 7 ? 'severe' : score >= 4 ? 'moderate' : 'mild';
+}
+
+function extractFromSentence(text: string, sentence: Sentence): SymptomFinding[] {
+  const { tokens } = sentence;
+
+  // Symptoms claim their tokens first, so "no appetite" and "can't breathe"
+  // are read as symptoms rather than as negations
+  const taken = new Set<number>();
+  const symptoms = findSpans(tokens, symptomMatcher, taken)
+    .map(span => ({ start: span.start, end: span.end, symptom: span.value }));
+
+  // Uncertainty before pseudo-negation before negation, so "not sure" is a hedge
+  const uncertainPre = findSpans(tokens, UNCERTAINTY_PRE_TRIGGERS, taken);
+  const uncertainPost = findSpans(tokens, UNCERTAINTY_POST_TRIGGERS, taken);
+  findSpans(tokens, PSEUDO_NEGATION_TRIGGERS, taken);
+  // Phrases in both lists ("no longer", "ruled out") negate in both directions
+  const negationTaken = new Set(taken);
+  const negationPre = findSpans(tokens, NEGATION_PRE_TRIGGERS, taken);
+  const negationPost = findSpans(tokens, NEGATION_POST_TRIGGERS, negationTaken);
+
+  const sentenceText = text.slice(sentence.start, sentence.end);
+  const duration = parseDuration(sentenceText);
+  const painScale = parsePainScale(sentenceText);
+
+  const findings = symptoms.map(span => {
+    const start = tokens[span.start].start;
+    const end = tokens[span.end - 1].end;
+    const finding: SymptomFinding = {
+      symptom: span.symptom,
+      text: text.slice(start, end),
+      start,
+      end,
+      negated: triggeredBy(tokens, span, negationPre, negationPost)
+        || negationPost.some(trigger => reachedByBackReference(tokens, span, trigger, symptoms)),
+      uncertain: triggeredBy(tokens, span, uncertainPre, uncertainPost),
+    };
+
+    const severity = findSeverity(tokens, span, symptoms) ?? painScale;
+    if (severity) finding.severity = severity;
+    if (duration) finding.duration = duration;
+    const bodySite = findBodySite(tokens, span);
+    if (bodySite) finding.bodySite = bodySite;
+
+    return finding;
+  });
+
+  // Coordinated symptoms share a site: "my knee is painful and swollen"
+  findings.forEach((finding, index) => {
+    const previous = findings[index - 1];
+    if (finding.bodySite || !previous?.bodySite || !SITE_ATTACHABLE.has(finding.symptom)) return;
+    const between = tokens.slice(symptoms[index - 1].end, symptoms[index].start);
+    if (between.length > 0 && between.every(t => t.text === 'and' || t.text === ',' || t.text === 'or')) {
+      finding.bodySite = previous.bodySite;
+    }
+  });
+
+  return findings;
+}
+
+/**
+ * Extract symptom findings from a free-text description. Each mention carries
+ * whether it was negated or hedged, and any severity, duration and body site
+ * stated with it. A duration in a sentence with no symptoms ("It started 3
+ * days ago") applies to the symptoms of the sentence before.
+ */
+export function extractFindings(text: string): SymptomFinding[] {
+  const findings: SymptomFinding[] = [];
+  let previous: SymptomFinding[] = [];
+
+  for (const sentence of splitSentences(text)) {
+    const sentenceFindings = extractFromSentence(text, sentence);
+
+    if (sentenceFindings.length === 0) {
+      const duration = parseDuration(text.slice(sentence.start, sentence.end));
+      if (duration) previous.filter(f => !f.duration).forEach(f => { f.duration = duration; });
+      continue;
+    }
+
+    findings.push(...sentenceFindings);
+    previous = sentenceFindings;
+  }
+
+  return findings;
+}
+
+/**
+ * The knowledge base term for a finding: located symptoms become compounds
+ * such as "knee pain", or the KB's own name for one ("head pain" -> "headache")
+ */
+export function findingTerm(finding: SymptomFinding): string {
+  if (!finding.bodySite) return finding.symptom;
+  const written = finding.bodySite.split(' ').filter(word => !LATERALITY.includes(word)).join(' ');
+  const site = SITE_LOOKUP.get(written) ?? SITE_LOOKUP.get(written.split(' ').pop()!) ?? written;
+  const compound = `${site} ${finding.symptom}`;
+  return SITE_COMPOUNDS[compound] ?? compound;
+}
+
+/**
+ * Distinct symptom terms the user reports having. Negated mentions are left
+ * out; hedged ones are kept unless includeUncertain is false.
+ */
+export function findingsToFactors(findings: SymptomFinding[], { includeUncertain = true } = {}): string[] {
+  const terms = findings
+    .filter(f => !f.negated && (includeUncertain || !f.uncertain))
+    .map(findingTerm);
+  return Array.from(new Set(terms));
+}
+
+/**
+ * Symptoms the user said they do not have, unless another mention affirms them
+ */
+export function negatedFactors(findings: SymptomFinding[]): string[] {
+  const present = new Set(findingsToFactors(findings));
+  const negated = findings.filter(f => f.negated).map(findingTerm).filter(term => !present.has(term));
+  return Array.from(new Set(negated));
+}
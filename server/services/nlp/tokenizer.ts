@@ -0,0 +1,118 @@
+/**
+ * A word or punctuation mark with its position in the source text
+ */
+export interface Token {
+  raw: string; // as written
+  text: string; // lowercased, with curly apostrophes straightened
+  lemma: string;
+  start: number;
+  end: number;
+  isWord: boolean;
+}
+
+export interface Sentence {
+  start: number;
+  end: number;
+  tokens: Token[];
+}
+
+// Irregular forms the suffix rules below would get wrong
+const LEMMA_EXCEPTIONS: Record<string, string> = {
+  threw: 'throw',
+  thrown: 'throw',
+  felt: 'feel',
+  feet: 'foot',
+  teeth: 'tooth',
+  worse: 'bad',
+  worst: 'bad',
+  swollen: 'swell',
+  lost: 'lose',
+  better: 'good',
+};
+
+const isVowel = (c: string) => 'aeiou'.includes(c);
+
+/**
+ * Light suffix-stripping lemmatizer. It is applied to lexicon phrases and
+ * input text alike, so "coughing", "coughs" and "cough" compare equal and
+ * "aches" matches "ache", without needing a dictionary. Words the rules would
+ * mangle are listed in LEMMA_EXCEPTIONS.
+ */
+export function lemmatize(word: string): string {
+  if (LEMMA_EXCEPTIONS[word]) return LEMMA_EXCEPTIONS[word];
+  if (!/^[a-z]+$/.test(word) || word.length <= 3) return word;
+
+  let lemma = word;
+  if (lemma.endsWith('ies') && lemma.length > 4) {
+    lemma = lemma.slice(0, -3) + 'y';
+  } else if (/(ss|sh|ch|x)es$/.test(lemma)) {
+    lemma = lemma.slice(0, -2);
+  } else if (lemma.endsWith('s') && !/(ss|us|is)$/.test(lemma)) {
+    lemma = lemma.slice(0, -1);
+  }
+
+  const verbSuffix = lemma.match(/(ing|ed)$/);
+  if (verbSuffix && lemma.length - verbSuffix[1].length >= 3 && !lemma.endsWith('eed')) {
+    const stem = lemma.slice(0, -verbSuffix[1].length);
+    // Only strip when the stem still has a vowel, so "bring" and "red" survive
+    if (Array.from(stem).some(isVowel)) {
+      lemma = stem;
+      // "running" -> "run", but keep "ll", "ss" and "zz" as in "swelling"
+      const last = lemma[lemma.length - 1];
+      if (last === lemma[lemma.length - 2] && !'lsz'.includes(last)) {
+        lemma = lemma.slice(0, -1);
+      }
+    }
+  }
+
+  // Drop a silent final e so "ache"/"aching" and "sneeze"/"sneezing" line up
+  if (lemma.endsWith('e') && lemma.length > 3 && !lemma.endsWith('ee')) {
+    lemma = lemma.slice(0, -1);
+  }
+
+  return lemma;
+}
+
+/**
+ * Split text into words and punctuation, keeping character offsets.
+ * Contractions such as "don't" stay one token.
+ */
+export function tokenize(text: string, offset = 0): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /[a-z0-9]+(?:['’][a-z]+)?|[^\sa-z0-9]/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const value = match[0].toLowerCase().replace('’', "'");
+    const isWord = /^[a-z0-9]/.test(value);
+    tokens.push({
+      raw: match[0],
+      text: value,
+      lemma: isWord ? lemmatize(value) : value,
+      start: offset + match.index,
+      end: offset + match.index + match[0].length,
+      isWord,
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Split text into sentences on ., !, ?, ; and line breaks (but not decimal
+ * points) and tokenize each one
+ */
+export function splitSentences(text: string): Sentence[] {
+  const sentences: Sentence[] = [];
+  const pattern = /(?:[^.!?;\n]|\.(?=\d))+[.!?;]?/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const tokens = tokenize(match[0], match.index);
+    if (tokens.some(t => t.isWord)) {
+      sentences.push({ start: match.index, end: match.index + match[0].length, tokens });
+    }
+  }
+
+  return sentences;
+}
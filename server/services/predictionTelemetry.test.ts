@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { AiPrediction } from '@shared/schema';
+import { storage } from '../storage';
+import type { AnalysisRun } from './aiService';
+import { comparePredictions, recordPrediction, toPredictionPage, toPredictionRecord } from './predictionTelemetry';
+
+const run: AnalysisRun = {
+  analysis: {
+    potentialConditions: [{ name: 'Influenza', description: 'Flu', relevance: 'high', score: 0.8 }],
+    nextSteps: [],
+    disclaimer: ''
+  },
+  telemetry: {
+    rawPredictions: [{ name: 'Common Cold', score: 0.7 }, { name: 'Influenza', score: 0.6 }],
+    kbPredictions: [{ name: 'Influenza', score: 0.5 }],
+    mergedPredictions: [{ name: 'Influenza', score: 0.8 }, { name: 'Common Cold', score: 0.4 }],
+    fusionEvidence: [],
+    timings: { llm: 120, knowledgeBase: 5, merge: 2, nextSteps: 40, total: 170 }
+  }
+};
+
+describe('toPredictionRecord', () => {
+  it('keeps each stage\'s predictions and timings', () => {
+    expect(toPredictionRecord(7, run)).toEqual({
+      symptomId: 7,
+      rawPredictions: run.telemetry.rawPredictions,
+      kbPredictions: run.telemetry.kbPredictions,
+      refinedPredictions: run.telemetry.mergedPredictions,
+      confidence: 'high',
+      processingTime: 170,
+      stageTimings: run.telemetry.timings
+    });
+  });
+
+  it('records no confidence when nothing was found', () => {
+    const empty = { ...run, analysis: { ...run.analysis, potentialConditions: [] } };
+    expect(toPredictionRecord(7, empty).confidence).toBe('none');
+  });
+});
+
+describe('recordPrediction', () => {
+  it('stores the row, and only logs a failed write', async () => {
+    const symptom = await storage.createSymptom({ description: 'Fever and aches' });
+    await recordPrediction(symptom.id, run);
+    const [stored] = await storage.getAiPredictions(1, 0);
+    expect(stored).toMatchObject({ symptomId: symptom.id, processingTime: 170 });
+
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(storage, 'createAiPrediction').mockRejectedValueOnce(new Error('disk full'));
+    await expect(recordPrediction(symptom.id, run)).resolves.toBeUndefined();
+    expect(error).toHaveBeenCalled();
+  });
+});
+
+describe('comparePredictions', () => {
+  it('reports how the final ranking departs from the LLM\'s', () => {
+    expect(comparePredictions(run.telemetry.rawPredictions, [
+      { name: 'influenza', score: 0.8 },
+      { name: 'Pneumonia', score: 0.3 }
+    ])).toEqual({
+      llmTopCondition: 'Common Cold',
+      finalTopCondition: 'influenza',
+      topConditionChanged: true,
+      addedByKnowledgeBase: ['Pneumonia'],
+      droppedFromLlm: ['Common Cold'],
+      overlap: 1 / 3
+    });
+  });
+
+  it('counts two empty lists as agreeing', () => {
+    expect(comparePredictions([], [])).toMatchObject({ topConditionChanged: false, overlap: 1 });
+  });
+});
+
+describe('toPredictionPage', () => {
+  it('summarizes the page', () => {
+    const record = (id: number, processingTime: number | null, refined: AiPrediction['refinedPredictions']): AiPrediction => ({
+      id,
+      symptomId: id,
+      rawPredictions: [{ name: 'Influenza', score: 0.6 }],
+      refinedPredictions: refined,
+      kbPredictions: [],
+      textEmbedding: null,
+      imageEmbedding: null,
+      confidence: 'high',
+      processingTime,
+      stageTimings: null,
+      createdAt: new Date()
+    });
+
+    const page = toPredictionPage([
+      record(1, 100, [{ name: 'Influenza', score: 0.8 }]),
+      record(2, null, [{ name: 'Migraine', score: 0.5 }])
+    ], 1, 10, 2);
+
+    expect(page).toMatchObject({ page: 1, pageSize: 10, total: 2 });
+    expect(page.items[1].comparison.topConditionChanged).toBe(true);
+    expect(page.summary).toEqual({ topConditionChangedRate: 0.5, meanOverlap: 0.5, meanProcessingTime: 50 });
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  AiPrediction,
+  AiPredictionEntry,
+  AiPredictionPage,
+  InsertAiPrediction,
+  PredictionComparison
+} from '@shared/schema';
+import { storage } from '../storage';
+import type { AnalysisRun } from './aiService';
+
+type ScoredPrediction = { name: string, score: number };
+
+/**
+ * Build the ai_predictions row for one analysis run
+ * @param symptomId - The symptom record the analysis belongs to
+ * @param run - Output of analyzeSymptoms
+ */
+export function toPredictionRecord(symptomId: number, run: AnalysisRun): InsertAiPrediction {
+  const top = run.analysis.potentialConditions[0];
+
+  return {
+    symptomId,
+    rawPredictions: run.telemetry.rawPredictions,
+    kbPredictions: run.telemetry.kbPredictions,
+    refinedPredictions: run.telemetry.mergedPredictions,
+    confidence: top ? top.relevance : 'none',
+    processingTime: run.telemetry.timings.total,
+    stageTimings: run.telemetry.timings
+  };
+}
+
+/**
+ * Store the ai_predictions row for one analysis run. Telemetry is
+ * best-effort, so a failed write is logged rather than failing the request.
+ * @param symptomId - The symptom record the analysis belongs to
+ * @param run - Output of analyzeSymptoms, or a pipeline analysis with its telemetry
+ */
+export async function recordPrediction(symptomId: number, run: AnalysisRun): Promise<void> {
+  try {
+    await storage.createAiPrediction(toPredictionRecord(symptomId, run));
+  } catch (error) {
+    console.error('Error recording prediction telemetry:', error);
+  }
+}
+
+/**
+ * Describe how the final ranking differs from what the LLM returned on its own
+ */
+export function comparePredictions(raw: ScoredPrediction[], refined: ScoredPrediction[]): PredictionComparison {
+  const rawNames = new Set(raw.map(p => p.name.toLowerCase()));
+  const refinedNames = new Set(refined.map(p => p.name.toLowerCase()));
+
+  const llmTopCondition = raw.length > 0
+    ? [...raw].sort((a, b) => b.score - a.score)[0].name
+    : null;
+  const finalTopCondition = refined.length > 0 ? refined[0].name : null;
+
+  const shared = Array.from(refinedNames).filter(name => rawNames.has(name)).length;
+  const union = new Set(Array.from(rawNames).concat(Array.from(refinedNames))).size;
+
+  return {
+    llmTopCondition,
+    finalTopCondition,
+    topConditionChanged: llmTopCondition?.toLowerCase() !== finalTopCondition?.toLowerCase(),
+    addedByKnowledgeBase: refined.filter(p => !rawNames.has(p.name.toLowerCase())).map(p => p.name),
+    droppedFromLlm: raw.filter(p => !refinedNames.has(p.name.toLowerCase())).map(p => p.name),
+    overlap: union === 0 ? 1 : shared / union
+  };
+}
+
+/**
+ * Attach a comparison to each stored record and aggregate across the page
+ */
+export function toPredictionPage(
+  records: AiPrediction[],
+  page: number,
+  pageSize: number,
+  total: number
+): AiPredictionPage {
+  const items: AiPredictionEntry[] = records.map(record => ({
+    ...record,
+    comparison: comparePredictions(record.rawPredictions, record.refinedPredictions)
+  }));
+
+  const mean = (values: number[]) =>
+    values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  return {
+    items,
+    page,
+    pageSize,
+    total,
+    summary: {
+      topConditionChangedRate: mean(items.map(item => item.comparison.topConditionChanged ? 1 : 0)),
+      meanOverlap: mean(items.map(item => item.comparison.overlap)),
+      meanProcessingTime: mean(items.map(item => item.processingTime ?? 0))
+    }
+  };
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { FusionOutput } from '../types';
+import { knowledgeBase } from './knowledge-base';
+import { reasoningEngine } from './reasoning-engine';
+
+function fusionOutput(factors: string[]): FusionOutput {
+  return {
+    fusedEmbedding: undefined as never,
+    allIdentifiedFactors: factors,
+    textSymptoms: factors,
+    visualFeatures: [],
+    rawTextInput: factors.join(', '),
+    hasImage: false,
+    imageDescription: ''
+  };
+}
+
+describe('ReasoningEngine.processFusionOutput', () => {
+  it('drops conditions the patient\'s age rules out', async () => {
+    const getConditionByName = knowledgeBase.getConditionByName.bind(knowledgeBase);
+    vi.spyOn(knowledgeBase, 'getConditionByName').mockImplementation(async name => {
+      const condition = await getConditionByName(name);
+      // Influenza as if it only affected children
+      return condition?.name === 'Influenza' ? { ...condition, demographics: { minAge: 0, maxAge: 17 } } : condition;
+    });
+    const factors = ['fever', 'cough', 'body aches', 'chills'];
+
+    const child = await reasoningEngine.processFusionOutput(fusionOutput(factors), { age: 8 });
+    const adult = await reasoningEngine.processFusionOutput(fusionOutput(factors), { age: 40 });
+
+    expect(child.conditions.map(condition => condition.name)).toContain('Influenza');
+    expect(adult.conditions.map(condition => condition.name)).not.toContain('Influenza');
+    expect(adult.candidates.map(candidate => candidate.name)).toContain('Influenza');
+  });
+});
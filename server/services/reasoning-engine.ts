@@ -1,6 +1,9 @@
 import { FusionOutput, ReasoningOutput, ConditionPrediction } from '../types';
 import { knowledgeBase } from './knowledge-base';
 import { MedicalCondition } from '@shared/schema';
+import { toClinicalCodes } from './clinicalCodes';
+import { evaluateSymptomRules, applySymptomRules } from './symptomRules';
+import { evaluateDemographicFit, type PatientDemographics } from './demographics';
 
 /**
  * ReasoningEngine: Validates and refines AI predictions using the Knowledge Base
@@ -11,16 +14,18 @@ export class ReasoningEngine {
   /**
    * Process multimodal fusion output to generate validated predictions
    * @param fusionOutput - Output from the MultimodalFusion module
+   * @param patient - Age, gender and pregnancy, checked against each condition's demographics
    * @returns ReasoningOutput with validated and contextualized predictions
    */
-  public async processFusionOutput(fusionOutput: FusionOutput): Promise<ReasoningOutput> {
+  public async processFusionOutput(fusionOutput: FusionOutput, patient: PatientDemographics = {}): Promise<ReasoningOutput> {
     // Simplify predictions based on the fusion output
     const predictions = await this.generatePredictions(fusionOutput);
     
     // Validate and refine predictions using the knowledge base
     const validatedPredictions = await this.validatePredictions(
       predictions,
-      fusionOutput.allIdentifiedFactors
+      fusionOutput.allIdentifiedFactors,
+      patient
     );
     
     // Sort predictions by confidence
@@ -34,11 +39,13 @@ export class ReasoningEngine {
     
     return {
       conditions: validatedPredictions,
+      candidates: predictions.map(prediction => ({ name: prediction.name, score: prediction.confidence / 100 })),
       summary: summary,
       inputFactors: fusionOutput.allIdentifiedFactors,
       textSymptoms: fusionOutput.textSymptoms,
       visualFeatures: fusionOutput.visualFeatures,
-      hasImage: fusionOutput.hasImage
+      hasImage: fusionOutput.hasImage,
+      knowledgeBase: await knowledgeBase.getProvenance()
     };
   }
   
@@ -58,10 +65,11 @@ export class ReasoningEngine {
     const predictions: ConditionPrediction[] = [];
     
     for (const condition of allConditions) {
-      // Calculate an association score
-      const associationScore = await knowledgeBase.calculateSymptomAssociation(
-        condition.name,
-        fusionOutput.allIdentifiedFactors
+      // Calculate an association score, adjusted by the condition's symptom rules
+      const rules = evaluateSymptomRules(condition.symptomRules, fusionOutput.allIdentifiedFactors);
+      const associationScore = applySymptomRules(
+        await knowledgeBase.calculateSymptomAssociation(condition.name, fusionOutput.allIdentifiedFactors),
+        rules
       );
       
       // Get matching factors for this condition
@@ -75,12 +83,14 @@ export class ReasoningEngine {
         predictions.push({
           id: condition.name.toLowerCase().replace(/\s+/g, '-'),
           name: condition.name,
-          // Add some randomness to simulate AI confidence variations
-          confidence: Math.min(100, Math.round(associationScore * 100 + Math.random() * 10)),
+          confidence: Math.min(100, Math.round(associationScore * 100)),
           description: condition.description,
+          urgency: condition.urgency,
           matchingFactors: matchingFactors,
           additionalInfo: condition.additionalInfo || undefined,
-          recommendedActions: (condition.recommendedActions as string[]) || undefined
+          recommendedActions: (condition.recommendedActions as string[]) || undefined,
+          codes: toClinicalCodes(condition),
+          reasoningNotes: rules.notes.length > 0 ? rules.notes : undefined
         });
       }
     }
@@ -92,20 +102,23 @@ export class ReasoningEngine {
    * Validate and refine predictions using medical knowledge
    * @param predictions - Initial condition predictions
    * @param identifiedFactors - All identified symptoms and features
+   * @param patient - Demographics the conditions are checked against
    * @returns Refined and validated predictions
    */
   private async validatePredictions(
     predictions: ConditionPrediction[],
-    identifiedFactors: string[]
+    identifiedFactors: string[],
+    patient: PatientDemographics
   ): Promise<ConditionPrediction[]> {
     // In a real implementation, this would apply medical logic rules,
     // check for contraindications, and refine confidence scores based on
-    // demographic factors, symptom progression, etc.
+    // symptom progression, etc.
     
-    // For this simulation, we'll simply adjust confidence scores based on
-    // the number of matching factors relative to the total identified factors
+    // For this simulation, we adjust confidence scores based on the number of
+    // matching factors relative to the total identified factors, then on how
+    // well the patient's age and sex fit the condition
     
-    return predictions.map(prediction => {
+    const validated = await Promise.all(predictions.map(async (prediction): Promise<ConditionPrediction | undefined> => {
       const matchRatio = prediction.matchingFactors.length / identifiedFactors.length;
       
       // Adjust confidence based on match ratio
@@ -120,11 +133,25 @@ export class ReasoningEngine {
         adjustedConfidence = Math.min(95, Math.round(prediction.confidence * 1.1));
       }
       
+      // Conditions the patient's age or sex rules out are dropped
+      const condition = await knowledgeBase.getConditionByName(prediction.name);
+      const fit = condition && evaluateDemographicFit(condition, patient);
+      if (fit?.excluded) {
+        return undefined;
+      }
+      if (fit && fit.notes.length > 0) {
+        adjustedConfidence = Math.min(100, Math.round(adjustedConfidence * fit.multiplier));
+      }
+      
       return {
         ...prediction,
-        confidence: adjustedConfidence
+        confidence: adjustedConfidence,
+        reasoningNotes: fit && fit.notes.length > 0
+          ? [...(prediction.reasoningNotes || []), ...fit.notes]
+          : prediction.reasoningNotes
       };
-    });
+    }));
+    return validated.filter((prediction): prediction is ConditionPrediction => prediction !== undefined);
   }
   
   /**
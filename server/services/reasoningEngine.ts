@@ -5,6 +5,10 @@ import {
   MedicalCondition
 } from '@shared/schema';
 import { knowledgeBase } from './knowledgeBase';
+import { relevanceFromProbability } from './scoreFusion';
+import { termStandardization } from './termStandardization';
+import { toClinicalCodes } from './clinicalCodes';
+import { evaluateSymptomRules, applySymptomRules } from './symptomRules';
 
 /**
  * ReasoningEngine: Validates and refines AI predictions using the Knowledge Base
@@ -31,7 +35,8 @@ export class ReasoningEngine {
     // Validate and refine these predictions using the knowledge base
     const validatedPredictions = await this.validatePredictions(
       predictions, 
-      fusionOutput.allIdentifiedFactors
+      fusionOutput.allIdentifiedFactors,
+      fusionOutput.negatedFactors || []
     );
 
     // Generate a summary of the findings
@@ -54,7 +59,6 @@ export class ReasoningEngine {
    */
   private async generatePredictions(fusionOutput: MultimodalFusionOutput): Promise<PotentialCondition[]> {
     // Standardize the identified symptoms
-    // @ts-ignore
     const standardizedFactors = termStandardization.standardizeSymptoms(
       fusionOutput.allIdentifiedFactors
     );
@@ -72,34 +76,16 @@ export class ReasoningEngine {
         standardizedFactors
       );
 
-      // Check required symptoms
-      // @ts-ignore
-      const hasRequiredSymptoms = condition.symptomsRelationships?.required.every(
-        symptom => standardizedFactors.includes(symptom)
-      );
-
-      // Check commonly occurring together symptoms
-      // @ts-ignore
-      const commonPairsPresent = condition.symptomsRelationships?.commonly_together.every(
-        symptom => standardizedFactors.includes(symptom)
+      // Apply the condition's required, supporting, excluding and co-occurring findings
+      const rules = evaluateSymptomRules(
+        condition.symptomRules,
+        standardizedFactors,
+        fusionOutput.negatedFactors || []
       );
-
-      // Adjust score based on symptom relationships
-      let adjustedScore = associationScore;
-      if (!hasRequiredSymptoms) {
-        adjustedScore *= 0.5; // Significantly reduce score if required symptoms missing
-      }
-      if (commonPairsPresent) {
-        adjustedScore *= 1.2; // Boost score if common symptom pairs present
-      }
+      const adjustedScore = applySymptomRules(associationScore, rules);
 
       // Calculate a confidence level based on the score
-      let relevance: 'low' | 'medium' | 'high' = 'low';
-      if (adjustedScore > 0.7) {
-        relevance = 'high';
-      } else if (adjustedScore > 0.4) {
-        relevance = 'medium';
-      }
+      const relevance = relevanceFromProbability(adjustedScore);
 
       // Get the matching factors between the condition and identified symptoms
       const matchingFactors = await knowledgeBase.getMatchingFactors(
@@ -118,9 +104,11 @@ export class ReasoningEngine {
           score: adjustedScore,
           urgency: condition.urgency,
           recommendation: condition.recommendation,
+          codes: toClinicalCodes(condition),
           reasoningNotes: [
             `Association score: ${adjustedScore.toFixed(2)}`,
-            `Matching factors: ${matchingFactors.join(', ')}`
+            `Matching factors: ${matchingFactors.join(', ')}`,
+            ...rules.notes
           ]
         });
       }
@@ -134,11 +122,13 @@ export class ReasoningEngine {
    * Validate and refine predictions using medical knowledge
    * @param predictions - Initial condition predictions
    * @param identifiedFactors - All identified symptoms and features
+   * @param negatedFactors - Symptoms the user said they do not have
    * @returns Refined and validated predictions
    */
   private async validatePredictions(
     predictions: PotentialCondition[],
-    identifiedFactors: string[]
+    identifiedFactors: string[],
+    negatedFactors: string[] = []
   ): Promise<PotentialCondition[]> {
     const validatedPredictions: PotentialCondition[] = [];
 
@@ -176,6 +166,19 @@ export class ReasoningEngine {
             prediction.score *= 0.8;
           }
         }
+
+        // A symptom the user ruled out counts against the condition more than one never mentioned
+        const deniedSymptoms = negatedFactors.filter(factor =>
+          condition.symptoms.some(symptom => symptom.toLowerCase() === factor.toLowerCase())
+        );
+
+        if (deniedSymptoms.length > 0) {
+          reasoningNotes.push(`Reported absent: ${deniedSymptoms.join(', ')}`);
+
+          if (prediction.score !== undefined) {
+            prediction.score *= Math.pow(0.7, deniedSymptoms.length);
+          }
+        }
       }
 
       // Add the validated prediction
@@ -221,12 +224,14 @@ export class ReasoningEngine {
 
     // Add urgency information if available
     if (topPrediction.urgency) {
-      if (topPrediction.urgency === 'high') {
-        summary += `This analysis indicates a condition of high urgency. It is recommended to seek medical attention promptly. `;
-      } else if (topPrediction.urgency === 'medium') {
-        summary += `This analysis indicates a condition of medium urgency. It is recommended to consult with a healthcare provider soon. `;
+      if (topPrediction.urgency === 'emergency') {
+        summary += `This analysis indicates a condition that needs emergency care. Call your local emergency number or go to the nearest emergency department now. `;
+      } else if (topPrediction.urgency === 'urgent_care') {
+        summary += `This analysis indicates a condition that should be seen today. It is recommended to visit urgent care or get a same-day appointment. `;
+      } else if (topPrediction.urgency === 'primary_care') {
+        summary += `This analysis indicates a condition that should be seen by a doctor within a few days. `;
       } else {
-        summary += `This condition is generally of lower urgency, but a healthcare professional should still be consulted for proper diagnosis and treatment. `;
+        summary += `This condition can usually be managed with self-care, but a healthcare professional should still be consulted if symptoms persist or worsen. `;
       }
     } else {
       summary += `Please consult with a healthcare professional for proper diagnosis and treatment. `;
@@ -255,7 +260,3 @@ export class ReasoningEngine {
 }
 
 export const reasoningEngine = new ReasoningEngine();
-```
-
-```
-The code updates the generatePredictions method to include symptom standardization and consider symptom relationships for more accurate disease prediction.
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { extractFindings } from './nlp';
+import { detectRedFlags } from './redFlags';
+
+const flagIds = (text: string) => detectRedFlags(extractFindings(text)).map(flag => flag.id);
+
+describe('detectRedFlags', () => {
+  it('raises anaphylaxis for a rash on any site with a swelling throat', () => {
+    expect(flagIds('itchy rash on my arm and my throat is swelling')).toContain('anaphylaxis');
+  });
+
+  it('raises chest pain with trouble breathing for "can\'t catch my breath"', () => {
+    expect(flagIds("pain in my chest and I can't catch my breath")).toContain('chest-pain-with-dyspnea');
+  });
+
+  it('matches other ways of saying breathing is hard', () => {
+    expect(flagIds('chest pain and I am gasping for air')).toContain('chest-pain-with-dyspnea');
+    expect(flagIds('my chest hurts and I can not catch my breath')).toContain('chest-pain-with-dyspnea');
+  });
+
+  it('needs the site when the rule names one', () => {
+    expect(flagIds('swollen knee and a rash on my leg')).toEqual([]);
+  });
+
+  it('ignores negated findings', () => {
+    expect(flagIds('no chest pain, just shortness of breath')).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+import type { NextStep, RedFlag, SymptomFinding } from '@shared/schema';
+import { findingsToFactors } from './nlp';
+
+/**
+ * A combination of findings that needs emergency care whatever the likely
+ * condition. The rule fires when every group has at least one finding
+ * reported, in the knowledge base vocabulary produced by the symptom
+ * extractor. A term naming a site ("throat swelling") needs that site; a
+ * bare term ("rash") matches the finding wherever it is.
+ */
+interface RedFlagRule {
+  id: string;
+  title: string;
+  advice: string;
+  findings: string[][];
+}
+
+const BREATHING = ['shortness of breath', 'difficulty breathing'];
+
+const RED_FLAG_RULES: RedFlagRule[] = [
+  {
+    id: 'chest-pain-with-dyspnea',
+    title: 'Chest pain with trouble breathing',
+    advice: 'Chest pain together with trouble breathing can mean a heart attack or a blood clot in the lungs. Call your local emergency number now and do not drive yourself.',
+    findings: [['chest pain', 'chest discomfort'], BREATHING],
+  },
+  {
+    id: 'stroke-signs',
+    title: 'Possible stroke',
+    advice: 'A drooping face, weakness in an arm or slurred speech are warning signs of a stroke. Call your local emergency number now and note the time the symptoms started.',
+    findings: [['facial droop', 'slurred speech', 'arm weakness', 'face numbness']],
+  },
+  {
+    id: 'anaphylaxis',
+    title: 'Possible severe allergic reaction',
+    advice: 'Swelling of the face, lips or throat, or hives, with trouble breathing or fainting can be anaphylaxis. Use an adrenaline auto-injector if you have one and call your local emergency number now.',
+    // A swelling throat is itself an airway sign, so it pairs with a skin or face sign as breathing trouble would
+    findings: [['mouth swelling', 'face swelling', 'rash'], ['throat swelling', ...BREATHING, 'wheezing', 'fainting']],
+  },
+  {
+    id: 'suicidal-ideation',
+    title: 'Thoughts of suicide or self-harm',
+    advice: 'You do not have to go through this alone. Call your local emergency number or a suicide crisis line (988 in the US), or go to the nearest emergency department. If you can, stay with someone you trust.',
+    findings: [['suicidal thoughts', 'self-harm']],
+  },
+  {
+    id: 'meningitis-signs',
+    title: 'Fever with a stiff neck',
+    advice: 'Fever with a stiff neck can be a sign of meningitis, which needs treatment within hours. Go to the nearest emergency department now.',
+    findings: [['stiff neck'], ['fever']],
+  },
+  {
+    id: 'loss-of-consciousness',
+    title: 'Fainting or a seizure',
+    advice: 'Losing consciousness or having a seizure needs urgent assessment. Call your local emergency number, and do not stay alone or drive.',
+    findings: [['fainting', 'seizure']],
+  },
+  {
+    id: 'bleeding',
+    title: 'Coughing or vomiting blood',
+    advice: 'Coughing up or vomiting blood needs urgent assessment. Go to the nearest emergency department or call your local emergency number.',
+    findings: [['coughing blood', 'vomiting blood']],
+  },
+];
+
+/**
+ * Red flags raised by the findings in a description. Negated findings
+ * ("no chest pain") do not count; hedged ones ("maybe slurred speech") do,
+ * since a missed emergency costs more than a false alarm.
+ * @param findings - Findings from the symptom extractor
+ */
+export function detectRedFlags(findings: SymptomFinding[]): RedFlag[] {
+  // Located findings are reported both as compounds ("arm rash") and bare ("rash")
+  const reported = new Set([
+    ...findingsToFactors(findings),
+    ...findings.filter(finding => !finding.negated).map(finding => finding.symptom),
+  ]);
+
+  return RED_FLAG_RULES.flatMap(rule => {
+    const matched = rule.findings.map(group => group.filter(finding => reported.has(finding)));
+    if (matched.some(group => group.length === 0)) return [];
+    return [{ id: rule.id, title: rule.title, findings: matched.flat(), advice: rule.advice }];
+  });
+}
+
+/**
+ * One-line summary for an analysis that raised red flags
+ */
+export function redFlagSummary(redFlags: RedFlag[]): string {
+  return `Your description includes warning signs that need emergency care: ${redFlags.map(flag => flag.title.toLowerCase()).join(', ')}.`;
+}
+
+/**
+ * The next step shown in place of everything else when red flags are raised
+ */
+export function emergencyNextStep(redFlags: RedFlag[]): NextStep {
+  return {
+    type: 'emergency',
+    title: 'Get emergency help now',
+    description: `Your description mentions ${redFlags.map(flag => flag.title.toLowerCase()).join(', ')}. This needs immediate medical attention, so we have not suggested possible conditions.`,
+    suggestions: [
+      ...redFlags.map(flag => flag.advice),
+      'If you are unsure, call your local emergency number and describe your symptoms',
+    ],
+  };
+}
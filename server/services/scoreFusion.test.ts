@@ -0,0 +1,96 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+import { applyCalibration, fuseScores, fusionConfigSchema, loadFusionConfig, relevanceFromProbability, type FusionConfig } from './scoreFusion';
+
+const config = (overrides: Partial<FusionConfig> = {}): FusionConfig => ({ ...fusionConfigSchema.parse({}), ...overrides });
+const probabilities = (scores: ReturnType<typeof fuseScores>) => scores.map(score => score.probability);
+
+describe('fuseScores', () => {
+  it('weights the sources that reported, ignoring those that did not run', () => {
+    const [both, kbOnly] = fuseScores([
+      { name: 'Influenza', kbAssociation: 0.8, llmConfidence: 0.4 },
+      { name: 'Migraine', kbAssociation: 0.8 }
+    ], config());
+
+    expect(both.probability).toBeCloseTo((0.8 * 0.5 + 0.4 * 0.35) / 0.85);
+    expect(kbOnly.probability).toBeCloseTo(0.8);
+  });
+
+  it('counts a source that reported zero', () => {
+    const [fused] = fuseScores([{ name: 'Influenza', kbAssociation: 0.8, llmConfidence: 0 }], config());
+    expect(fused.probability).toBeCloseTo(0.4 / 0.85);
+  });
+
+  it('shifts the log-odds by each source in the bayesian strategy', () => {
+    const fused = fuseScores([
+      { name: 'Influenza', kbAssociation: 0.8 },
+      { name: 'Common Cold', kbAssociation: 0.5, llmConfidence: 0.5 },
+      { name: 'Migraine' }
+    ], config({ strategy: 'bayesian' }));
+
+    // 0.5 * logit(0.8) = log 2, so the odds double from even
+    expect(probabilities(fused)).toEqual([expect.closeTo(2 / 3), expect.closeTo(0.5), 0]);
+  });
+
+  it('uses only the order within each source in the rank strategy', () => {
+    const fused = fuseScores([
+      { name: 'Influenza', kbAssociation: 0.9, llmConfidence: 0.2 },
+      { name: 'Common Cold', kbAssociation: 0.5, llmConfidence: 0.8 },
+      { name: 'Migraine', kbAssociation: 0.4 }
+    ], config({ strategy: 'rank' }));
+
+    const best = 0.5 / 3 + 0.35 / 3;
+    expect(probabilities(fused)).toEqual([
+      expect.closeTo((0.5 / 3 + 0.35 / 4) / best),
+      expect.closeTo((0.5 / 4 + 0.35 / 3) / best),
+      expect.closeTo((0.5 / 5) / (0.5 / 3))
+    ]);
+    expect(fuseScores([{ name: 'Influenza', kbAssociation: 0.1 }], config({ strategy: 'rank' }))[0].probability).toBe(1);
+  });
+
+  it('calibrates the raw score', () => {
+    const [fused] = fuseScores([{ name: 'Influenza', kbAssociation: 0.8 }], config({ calibration: { method: 'isotonic', points: [[0, 0], [1, 0.5]] } }));
+    expect(fused).toEqual({ name: 'Influenza', rawScore: 0.8, probability: expect.closeTo(0.4) });
+  });
+});
+
+describe('applyCalibration', () => {
+  it('softens scores with a temperature above 1', () => {
+    expect(applyCalibration(0.3, { method: 'temperature', temperature: 1 })).toBeCloseTo(0.3);
+    expect(applyCalibration(0.9, { method: 'temperature', temperature: 2 })).toBeCloseTo(0.75);
+  });
+
+  it('interpolates between isotonic points and stays flat beyond them', () => {
+    const calibration = { method: 'isotonic' as const, points: [[0.2, 0.1], [0.6, 0.5], [0.6, 0.7]] as Array<[number, number]> };
+
+    expect(applyCalibration(0.1, calibration)).toBe(0.1);
+    expect(applyCalibration(0.4, calibration)).toBeCloseTo(0.3);
+    expect(applyCalibration(0.6, calibration)).toBe(0.5);
+    expect(applyCalibration(0.9, calibration)).toBe(0.7);
+  });
+});
+
+describe('loadFusionConfig', () => {
+  it('drops a calibration fitted for another strategy', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'fusion-config-'));
+    const file = path.join(dir, 'fusion.json');
+    await fs.writeFile(file, JSON.stringify({ strategy: 'weighted', calibration: { method: 'temperature', temperature: 1.5 } }));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    try {
+      expect(loadFusionConfig({ FUSION_CONFIG: file }).calibration).toEqual({ method: 'temperature', temperature: 1.5 });
+      expect(loadFusionConfig({ FUSION_CONFIG: file, FUSION_STRATEGY: 'rank' })).toMatchObject({ strategy: 'rank', calibration: { method: 'none' } });
+      expect(warn).toHaveBeenCalledOnce();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('relevanceFromProbability', () => {
+  it('labels probabilities above the thresholds', () => {
+    expect([0.71, 0.7, 0.41, 0.4, undefined].map(relevanceFromProbability)).toEqual(['high', 'medium', 'medium', 'low', 'low']);
+  });
+});
@@ -0,0 +1,220 @@
+import { readFileSync, existsSync } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { PotentialCondition } from '@shared/schema';
+
+// Probability cut-offs shared by every stage that labels a condition's relevance
+export const RELEVANCE_THRESHOLDS = { high: 0.7, medium: 0.4 };
+
+// Where `npm run calibrate` writes the fitted configuration unless FUSION_CONFIG says otherwise
+export const DEFAULT_FUSION_CONFIG_PATH = path.resolve('server/evaluation/fusion-calibration.json');
+
+// Keeps logits finite for sources that report exactly 0 or 1
+const PROBABILITY_FLOOR = 0.01;
+
+/**
+ * Map a probability (0-1) to the relevance label shown to users
+ */
+export function relevanceFromProbability(probability: number | undefined): PotentialCondition['relevance'] {
+  if (probability === undefined) return 'low';
+  if (probability > RELEVANCE_THRESHOLDS.high) return 'high';
+  if (probability > RELEVANCE_THRESHOLDS.medium) return 'medium';
+  return 'low';
+}
+
+/**
+ * What each source says about one candidate condition, all on a 0-1 scale.
+ * A source that did not run (no LLM configured, no photos, no KB entry) is
+ * left undefined and ignored rather than counted as zero.
+ */
+export interface ConditionEvidence {
+  name: string;
+  kbAssociation?: number;
+  llmConfidence?: number;
+  imageEvidence?: number;
+}
+
+export const fusionStrategySchema = z.enum(['weighted', 'bayesian', 'rank']);
+export type FusionStrategy = z.infer<typeof fusionStrategySchema>;
+
+export const calibrationSchema = z.discriminatedUnion('method', [
+  z.object({ method: z.literal('none') }),
+  // Divides the logit of the fused score; values above 1 soften overconfident scores
+  z.object({ method: z.literal('temperature'), temperature: z.number().positive() }),
+  // Monotonic step function fitted with pool-adjacent-violators; [rawScore, probability] pairs
+  z.object({
+    method: z.literal('isotonic'),
+    points: z.array(z.tuple([z.number().min(0).max(1), z.number().min(0).max(1)])).min(1),
+  }),
+]);
+export type Calibration = z.infer<typeof calibrationSchema>;
+
+export const fusionConfigSchema = z.object({
+  strategy: fusionStrategySchema.default('weighted'),
+  weights: z.object({
+    kb: z.number().min(0).default(0.5),
+    llm: z.number().min(0).default(0.35),
+    image: z.number().min(0).default(0.15),
+  }).default({}),
+  // Rank fusion: larger values flatten the difference between neighbouring ranks
+  rankConstant: z.number().positive().default(2),
+  calibration: calibrationSchema.default({ method: 'none' }),
+  // Provenance written by the calibration script
+  fittedAt: z.string().optional(),
+  samples: z.number().int().optional(),
+});
+export type FusionConfig = z.infer<typeof fusionConfigSchema>;
+
+export interface FusedScore {
+  name: string;
+  rawScore: number;
+  probability: number;
+}
+
+const clampProbability = (p: number) => Math.min(1 - PROBABILITY_FLOOR, Math.max(PROBABILITY_FLOOR, p));
+const logit = (p: number) => { const c = clampProbability(p); return Math.log(c / (1 - c)); };
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+type Source = 'kb' | 'llm' | 'image';
+
+const SOURCE_FIELDS: Record<Source, keyof Omit<ConditionEvidence, 'name'>> = {
+  kb: 'kbAssociation',
+  llm: 'llmConfidence',
+  image: 'imageEvidence',
+};
+
+/**
+ * Sources that reported a value for this candidate, with their weights
+ */
+function presentSources(evidence: ConditionEvidence, config: FusionConfig): Array<{ value: number, weight: number }> {
+  return (Object.keys(SOURCE_FIELDS) as Source[])
+    .map(source => ({ value: evidence[SOURCE_FIELDS[source]], weight: config.weights[source] }))
+    .filter((s): s is { value: number, weight: number } => s.value !== undefined && s.weight > 0);
+}
+
+/**
+ * Weighted mean of the available sources, renormalized over those present
+ */
+function weightedScore(evidence: ConditionEvidence, config: FusionConfig): number {
+  const sources = presentSources(evidence, config);
+  const totalWeight = sources.reduce((sum, s) => sum + s.weight, 0);
+  if (totalWeight === 0) return 0;
+  return sources.reduce((sum, s) => sum + s.value * s.weight, 0) / totalWeight;
+}
+
+/**
+ * Naive-Bayes style combination: each source shifts the log-odds from an even
+ * prior by its own log-odds, scaled by its weight
+ */
+function bayesianScore(evidence: ConditionEvidence, config: FusionConfig): number {
+  const sources = presentSources(evidence, config);
+  if (sources.length === 0) return 0;
+  return sigmoid(sources.reduce((sum, s) => sum + s.weight * logit(s.value), 0));
+}
+
+/**
+ * Weighted reciprocal rank fusion, scaled so a candidate ranked first by every
+ * available source scores 1. Only the order within each source matters.
+ */
+function rankScores(evidence: ConditionEvidence[], config: FusionConfig): number[] {
+  const k = config.rankConstant;
+  const ranks = new Map<Source, Map<string, number>>();
+
+  for (const source of Object.keys(SOURCE_FIELDS) as Source[]) {
+    const field = SOURCE_FIELDS[source];
+    const ranked = evidence
+      .filter(e => (e[field] ?? 0) > 0)
+      .sort((a, b) => (b[field] ?? 0) - (a[field] ?? 0));
+    ranks.set(source, new Map(ranked.map((e, index) => [e.name, index + 1])));
+  }
+
+  return evidence.map(e => {
+    let score = 0;
+    let best = 0;
+    for (const source of Object.keys(SOURCE_FIELDS) as Source[]) {
+      const weight = config.weights[source];
+      if (e[SOURCE_FIELDS[source]] === undefined || weight === 0) continue;
+      const rank = ranks.get(source)!.get(e.name);
+      if (rank !== undefined) score += weight / (k + rank);
+      best += weight / (k + 1);
+    }
+    return best === 0 ? 0 : score / best;
+  });
+}
+
+/**
+ * Map a raw fused score to a calibrated probability
+ */
+export function applyCalibration(rawScore: number, calibration: Calibration): number {
+  switch (calibration.method) {
+    case 'none':
+      return rawScore;
+    case 'temperature':
+      return sigmoid(logit(rawScore) / calibration.temperature);
+    case 'isotonic': {
+      // Linear interpolation between fitted points, flat beyond either end
+      const points = calibration.points;
+      if (rawScore <= points[0][0]) return points[0][1];
+      for (let i = 1; i < points.length; i++) {
+        const [x1, y1] = points[i];
+        if (rawScore <= x1) {
+          const [x0, y0] = points[i - 1];
+          return x1 === x0 ? y1 : y0 + (y1 - y0) * (rawScore - x0) / (x1 - x0);
+        }
+      }
+      return points[points.length - 1][1];
+    }
+  }
+}
+
+/**
+ * Combine the evidence for each candidate into a raw score with the configured
+ * strategy, then calibrate it into a probability
+ */
+export function fuseScores(evidence: ConditionEvidence[], config: FusionConfig = fusionConfig()): FusedScore[] {
+  const rawScores = config.strategy === 'rank'
+    ? rankScores(evidence, config)
+    : evidence.map(e => config.strategy === 'bayesian' ? bayesianScore(e, config) : weightedScore(e, config));
+
+  return evidence.map((e, index) => ({
+    name: e.name,
+    rawScore: rawScores[index],
+    probability: applyCalibration(rawScores[index], config.calibration),
+  }));
+}
+
+/**
+ * Read the fusion configuration from FUSION_CONFIG (or the default calibration
+ * file if one has been fitted). FUSION_STRATEGY overrides the strategy; a
+ * calibration fitted for a different strategy is discarded, since its mapping
+ * does not apply to another strategy's raw scores.
+ */
+export function loadFusionConfig(env: NodeJS.ProcessEnv = process.env): FusionConfig {
+  const configPath = env.FUSION_CONFIG ? path.resolve(env.FUSION_CONFIG) : DEFAULT_FUSION_CONFIG_PATH;
+  let config = fusionConfigSchema.parse({});
+
+  if (env.FUSION_CONFIG || existsSync(configPath)) {
+    config = fusionConfigSchema.parse(JSON.parse(readFileSync(configPath, 'utf8')));
+  }
+
+  if (env.FUSION_STRATEGY) {
+    const strategy = fusionStrategySchema.parse(env.FUSION_STRATEGY);
+    if (strategy !== config.strategy && config.calibration.method !== 'none') {
+      console.warn(`Ignoring ${config.calibration.method} calibration fitted for ${config.strategy} fusion; FUSION_STRATEGY is ${strategy}`);
+      config = { ...config, calibration: { method: 'none' } };
+    }
+    config = { ...config, strategy };
+  }
+
+  return config;
+}
+
+let cachedConfig: FusionConfig | undefined;
+
+/**
+ * The process-wide fusion configuration, loaded on first use
+ */
+export function fusionConfig(): FusionConfig {
+  if (!cachedConfig) cachedConfig = loadFusionConfig();
+  return cachedConfig;
+}
@@ -1,44 +1,116 @@
+import { performance } from 'perf_hooks';
 import { textEncoder } from './text-encoder';
 import { imageEncoder } from './image-encoder';
 import { multimodalFusion } from './multimodal-fusion';
 import { reasoningEngine } from './reasoning-engine';
-import { AnalysisInput, AnalysisResults } from '../types';
+import { knowledgeBase } from './knowledge-base';
+import { relevanceFromProbability } from './scoreFusion';
+import { codeSymptoms } from './clinicalCodes';
+import { extractFindings, findingsToFactors } from './nlp';
+import { detectRedFlags, redFlagSummary } from './redFlags';
+import { recommendCareSetting } from './careSetting';
+import { AnalysisInput, AnalysisOptions, AnalysisResults, ConditionPrediction } from '../types';
+import { SymptomAnalysis, PotentialCondition } from '@shared/schema';
 
 /**
  * Core service that orchestrates the complete symptom analysis pipeline.
  * This coordinates the various modules (text encoder, image encoder, fusion, reasoning)
  * to process user input and generate the final analysis results.
+ * Pass a `log` that discards its messages to run it quietly.
  */
-export async function analyzeSymptomsWithImage(input: AnalysisInput): Promise<AnalysisResults> {
+export async function analyzeSymptomsWithImage(
+  input: AnalysisInput,
+  { log = console.log }: AnalysisOptions = {}
+): Promise<AnalysisResults> {
+  const started = performance.now();
+  const elapsed = (since: number) => Math.round(performance.now() - since);
   try {
+    // Emergency warning signs short-circuit the pipeline; no ranking should outweigh them
+    const findings = extractFindings(input.textSymptoms);
+    const redFlags = detectRedFlags(findings);
+    if (redFlags.length > 0) {
+      const careSetting = recommendCareSetting([], redFlags);
+      // Recorded as on every analysis, but failing to read it must not hold back the advice
+      const provenance = await knowledgeBase.getProvenance().catch(error => {
+        console.warn("Could not read the knowledge base version:", error);
+        return undefined;
+      });
+      return {
+        summary: redFlagSummary(redFlags),
+        conditions: [],
+        extractedSymptoms: findingsToFactors(findings),
+        knowledgeBase: provenance,
+        redFlags,
+        nextSteps: [careSetting.step],
+        triage: careSetting.triage,
+        telemetry: {
+          rawPredictions: [],
+          kbPredictions: [],
+          mergedPredictions: [],
+          fusionEvidence: [],
+          timings: { llm: 0, knowledgeBase: 0, merge: 0, nextSteps: 0, total: elapsed(started) }
+        }
+      };
+    }
+    
     // Step 1: Process the text symptoms
-    console.log("Processing text symptoms...");
+    let stageStart = performance.now();
+    log("Processing text symptoms...");
     const textOutput = await textEncoder.encodeText(input.textSymptoms);
     
     // Step 2: Process the image if provided
-    console.log("Processing image...");
+    log("Processing image...");
     const imageOutput = await imageEncoder.encodeImage(
       input.imagePath,
       input.imageDescription
     );
     
     // Step 3: Fuse the text and image data
-    console.log("Applying multimodal fusion...");
+    log("Applying multimodal fusion...");
     const fusionOutput = await multimodalFusion.fuseEmbeddings(
       textOutput,
       imageOutput
     );
     
+    const encoding = elapsed(stageStart);
+
     // Step 4: Apply reasoning and validation
-    console.log("Applying knowledge base reasoning...");
-    const reasoningOutput = await reasoningEngine.processFusionOutput(fusionOutput);
+    stageStart = performance.now();
+    log("Applying knowledge base reasoning...");
+    const reasoningOutput = await reasoningEngine.processFusionOutput(fusionOutput, {
+      age: input.patientAge,
+      gender: input.patientGender,
+      pregnant: input.patientPregnant
+    });
     
+    const reasoning = elapsed(stageStart);
+
     // Step 5: Format the final results
-    console.log("Generating results...");
+    stageStart = performance.now();
+    log("Generating results...");
+    const careSetting = recommendCareSetting(reasoningOutput.conditions.map(condition => ({
+      name: condition.name,
+      score: condition.confidence / 100,
+      urgency: condition.urgency
+    })));
+    const finalScores = reasoningOutput.conditions.map(condition => ({ name: condition.name, score: condition.confidence / 100 }));
     
     return {
       summary: reasoningOutput.summary,
-      conditions: reasoningOutput.conditions
+      conditions: reasoningOutput.conditions,
+      extractedSymptoms: reasoningOutput.textSymptoms,
+      knowledgeBase: reasoningOutput.knowledgeBase,
+      nextSteps: [careSetting.step],
+      triage: careSetting.triage,
+      // No LLM runs in this pipeline: the knowledge base stage is the reasoning
+      // engine, and encoding and fusion count as the merge stage
+      telemetry: {
+        rawPredictions: reasoningOutput.candidates,
+        kbPredictions: finalScores,
+        mergedPredictions: finalScores,
+        fusionEvidence: [],
+        timings: { llm: 0, knowledgeBase: reasoning, merge: encoding, nextSteps: elapsed(stageStart), total: elapsed(started) }
+      }
     };
     
   } catch (error) {
@@ -46,3 +118,37 @@ export async function analyzeSymptomsWithImage(input: AnalysisInput): Promise<An
     throw new Error("Failed to analyze symptoms. Please try again.");
   }
 }
+
+/**
+ * Convert pipeline results into the SymptomAnalysis shape stored on symptom records,
+ * so analyses from both the stepper flow and /api/symptoms can be read back uniformly
+ * @param results - Output of analyzeSymptomsWithImage
+ * @param input - The original analysis input
+ * @returns A SymptomAnalysis suitable for storage.updateSymptomAnalysis
+ */
+export function toSymptomAnalysis(results: AnalysisResults, input: AnalysisInput): SymptomAnalysis {
+  const potentialConditions: PotentialCondition[] = results.conditions.map((condition: ConditionPrediction) => ({
+    name: condition.name,
+    description: condition.description,
+    relevance: relevanceFromProbability(condition.confidence / 100),
+    symptoms: condition.matchingFactors,
+    score: condition.confidence / 100,
+    urgency: condition.urgency,
+    recommendation: condition.recommendedActions?.join('. '),
+    codes: condition.codes,
+    reasoningNotes: condition.reasoningNotes
+  }));
+
+  return {
+    potentialConditions,
+    nextSteps: results.nextSteps ?? [],
+    triage: results.triage,
+    disclaimer: "This information is for educational purposes only and should not replace professional medical advice.",
+    summary: results.summary,
+    extractedTextualSymptoms: results.extractedSymptoms,
+    codedSymptoms: results.extractedSymptoms && codeSymptoms(results.extractedSymptoms),
+    userInputText: input.textSymptoms,
+    knowledgeBase: results.knowledgeBase,
+    redFlags: results.redFlags
+  };
+}
@@ -0,0 +1,73 @@
+import type { SymptomRule } from '@shared/schema';
+
+export interface SymptomRuleEvaluation {
+  multiplier: number; // applied to the condition's association score
+  notes: string[]; // one per rule that fired
+}
+
+/**
+ * Apply a condition's symptom rules to the findings reported for a case.
+ * Rules that do not fire leave the score alone; each one that does multiplies
+ * it and explains why. Findings are compared case-insensitively in the
+ * knowledge base vocabulary, the same terms as a condition's `symptoms`.
+ * @param rules - The condition's symptom rules
+ * @param present - Findings the user reported
+ * @param absent - Findings the user said they do not have
+ */
+export function evaluateSymptomRules(
+  rules: SymptomRule[] | null | undefined,
+  present: string[],
+  absent: string[] = []
+): SymptomRuleEvaluation {
+  const reported = new Set(present.map(finding => finding.toLowerCase()));
+  const denied = new Set(absent.map(finding => finding.toLowerCase()));
+  const isPresent = (finding: string) => reported.has(finding.toLowerCase());
+  let multiplier = 1;
+  const notes: string[] = [];
+
+  const apply = (factor: number, note: string) => {
+    multiplier *= factor;
+    notes.push(`${note} (x${factor.toFixed(2)})`);
+  };
+
+  for (const rule of rules || []) {
+    const matched = rule.findings.filter(isPresent);
+
+    switch (rule.kind) {
+      case 'required': {
+        const missing = rule.findings.filter(finding => !isPresent(finding));
+        if (missing.length > 0) {
+          const ruledOut = missing.filter(finding => denied.has(finding.toLowerCase()));
+          apply(1 - rule.weight, ruledOut.length > 0
+            ? `Required finding reported absent: ${ruledOut.join(', ')}`
+            : `Required finding not reported: ${missing.join(', ')}`);
+        }
+        break;
+      }
+      case 'supporting':
+        if (matched.length > 0) {
+          apply(1 + rule.weight * matched.length / rule.findings.length, `Supporting findings present: ${matched.join(', ')}`);
+        }
+        break;
+      case 'excluding':
+        if (matched.length > 0) {
+          apply(1 - rule.weight, `Finding that argues against it present: ${matched.join(', ')}`);
+        }
+        break;
+      case 'co_occurring':
+        if (matched.length === rule.findings.length) {
+          apply(1 + rule.weight, `Findings that occur together all present: ${matched.join(', ')}`);
+        }
+        break;
+    }
+  }
+
+  return { multiplier, notes };
+}
+
+/**
+ * An association score adjusted by symptom rules, kept within 0-1
+ */
+export function applySymptomRules(score: number, evaluation: SymptomRuleEvaluation): number {
+  return Math.min(1, Math.max(0, score * evaluation.multiplier));
+}
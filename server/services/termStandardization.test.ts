@@ -0,0 +1,82 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_LEXICON_PATH, loadLexicon, saveLexicon, TermStandardization, type SymptomLexicon } from './termStandardization';
+
+const lexicon: SymptomLexicon = {
+  version: 'test-1',
+  concepts: [
+    { id: 'pain', name: 'pain', terms: ['ache'], misspellings: [], abbreviations: [] },
+    { id: 'chest-pain', name: 'chest pain', terms: ['pain in my chest'], misspellings: [], abbreviations: [] },
+    { id: 'dyspnea', name: 'shortness of breath', terms: ['breathlessness'], misspellings: ['shortnes of breath'], abbreviations: ['SOB'] }
+  ]
+};
+
+describe('TermStandardization', () => {
+  it('maps synonyms, misspellings and abbreviations to the preferred name', () => {
+    const terms = new TermStandardization(lexicon);
+
+    expect(terms.standardizeSymptoms(['Breathlessness', 'shortnes of breath', 'SOB'])).toEqual(['shortness of breath']);
+    expect(terms.standardizeTerm('aches')).toBe('pain');
+  });
+
+  it('takes the longest match and never matches inside a word', () => {
+    const terms = new TermStandardization(lexicon);
+
+    expect(terms.findConcepts('a sharp pain in my chest and some pain').map(c => c.id)).toEqual(['chest-pain', 'pain']);
+    expect(terms.findConcepts('a painless lump')).toEqual([]);
+    expect(terms.findConcepts('I sob at night')).toEqual([]);
+  });
+
+  it('counts terms it cannot standardize, most frequent first', () => {
+    const terms = new TermStandardization(lexicon);
+
+    expect(terms.standardizeTerm('knee pain')).toBe('knee pain');
+    terms.standardizeTerm('Tingling');
+    terms.standardizeTerm('tingling ');
+    terms.lookup('numbness');
+
+    expect(terms.getMisses().map(({ term, count }) => ({ term, count }))).toEqual([
+      { term: 'tingling', count: 2 },
+      { term: 'knee pain', count: 1 }
+    ]);
+    terms.clearMisses();
+    expect(terms.getMisses()).toEqual([]);
+  });
+
+  it('forgets the least recently seen misses first', () => {
+    const terms = new TermStandardization(lexicon);
+    terms.standardizeTerm('term 0');
+    terms.standardizeTerm('term 1');
+    for (let i = 2; i <= 500; i++) terms.standardizeTerm(`term ${i}`);
+    // Seen again, so no longer the stalest
+    terms.standardizeTerm('term 0');
+    terms.standardizeTerm('term 501');
+
+    const misses = terms.getMisses().map(miss => miss.term);
+    expect(misses).toHaveLength(500);
+    expect(misses).toContain('term 0');
+    expect(misses).not.toContain('term 1');
+  });
+});
+
+describe('lexicon files', () => {
+  it('loads the bundled lexicon', () => {
+    expect(loadLexicon(DEFAULT_LEXICON_PATH).concepts.length).toBeGreaterThan(0);
+  });
+
+  it('writes a lexicon that reads back the same, and names the problem with an invalid one', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'lexicon-'));
+    try {
+      const file = path.join(dir, 'lexicon.json');
+      saveLexicon(file, lexicon);
+      expect(loadLexicon(file)).toEqual(lexicon);
+
+      await fs.writeFile(file, JSON.stringify({ version: '2', concepts: [{ id: 'x', name: 'x', snomedCtId: 'abc' }] }));
+      expect(() => loadLexicon(file)).toThrow('concepts.0.snomedCtId');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
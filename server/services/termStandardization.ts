@@ -1,42 +1,219 @@
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { tokenize, type Token } from './nlp/tokenizer';
 
-import { knowledgeBase } from './knowledgeBase';
+// Bundled lexicon, overridable with SYMPTOM_LEXICON
+export const DEFAULT_LEXICON_PATH = path.resolve('server/services/nlp/symptom-lexicon.json');
 
-interface TermMapping {
-  standard: string;
-  variations: string[];
+// Distinct unmatched terms kept for curators; the least recently seen are dropped first
+const MAX_TRACKED_MISSES = 500;
+
+export const lexiconConceptSchema = z.object({
+  // Stable identifier for the concept within this lexicon
+  id: z.string().min(1),
+  // Preferred term; matches the knowledge base symptom vocabulary
+  name: z.string().min(1),
+  snomedCtId: z.string().regex(/^\d+$/).optional(),
+  icd11Code: z.string().min(1).optional(),
+  // Synonyms and lay terms, matched case-insensitively after lemmatization
+  terms: z.array(z.string().min(1)).default([]),
+  misspellings: z.array(z.string().min(1)).default([]),
+  // Matched case-sensitively so "SOB" does not fire on "sob"
+  abbreviations: z.array(z.string().min(1)).default([]),
+});
+
+export const symptomLexiconSchema = z.object({
+  version: z.string().min(1),
+  description: z.string().optional(),
+  concepts: z.array(lexiconConceptSchema).min(1),
+});
+
+export type LexiconConcept = z.infer<typeof lexiconConceptSchema>;
+export type SymptomLexicon = z.infer<typeof symptomLexiconSchema>;
+
+export interface LexiconMatch {
+  concept: LexiconConcept;
+  // Number of tokens the matched term spans
+  length: number;
+}
+
+export interface LexiconMiss {
+  term: string;
+  count: number;
+  lastSeen: string;
+}
+
+interface TermPattern {
+  words: string[];
+  concept: LexiconConcept;
+  caseSensitive: boolean;
+}
+
+/**
+ * Read and validate a lexicon file
+ */
+export function loadLexicon(filePath: string): SymptomLexicon {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Cannot read symptom lexicon ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = symptomLexiconSchema.safeParse(parsed);
+  if (!result.success) {
+    const issues = result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join('; ');
+    throw new Error(`Invalid symptom lexicon ${filePath}: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Write a lexicon back in the bundled file's layout, one line per field, so
+ * edits made by tools diff cleanly against hand edits
+ */
+export function saveLexicon(filePath: string, lexicon: SymptomLexicon) {
+  const field = (key: string, value: unknown) => `      ${JSON.stringify(key)}: ${
+    Array.isArray(value) ? `[${value.map(v => JSON.stringify(v)).join(', ')}]` : JSON.stringify(value)
+  }`;
+  const concepts = lexicon.concepts.map(concept => {
+    // Fields in schema order; empty optional lists are left out, as in the bundled file
+    const lines = (Object.keys(lexiconConceptSchema.shape) as Array<keyof LexiconConcept>)
+      .map(key => [key, concept[key]] as const)
+      .filter(([key, value]) => value !== undefined && !(key !== 'terms' && Array.isArray(value) && value.length === 0))
+      .map(([key, value]) => field(key, value));
+    return `    {\n${lines.join(',\n')}\n    }`;
+  });
+  const header = [`  "version": ${JSON.stringify(lexicon.version)}`];
+  if (lexicon.description) header.push(`  "description": ${JSON.stringify(lexicon.description)}`);
+
+  writeFileSync(filePath, `{\n${header.join(',\n')},\n  "concepts": [\n${concepts.join(',\n')}\n  ]\n}\n`);
 }
 
+/**
+ * Maps synonyms, lay terms, misspellings and abbreviations to preferred
+ * symptom concepts. Terms match whole tokens, longest first, so "chest pain"
+ * wins over "pain" and "pain" never matches inside "painless". Terms that
+ * match nothing are counted so curators can see what to add.
+ */
 export class TermStandardization {
-  private termMappings: TermMapping[] = [
-    {
-      standard: "fever",
-      variations: ["high temperature", "elevated temperature", "febrile", "pyrexia"]
-    },
-    {
-      standard: "headache",
-      variations: ["head pain", "cephalgia", "head discomfort", "cranial pain"]
-    },
-    {
-      standard: "nausea",
-      variations: ["feeling sick", "queasy", "sick to stomach", "emesis"]
+  private lexicon: SymptomLexicon;
+  private patterns: TermPattern[] = [];
+  private misses = new Map<string, LexiconMiss>();
+
+  constructor(lexicon: SymptomLexicon) {
+    this.lexicon = lexicon;
+    this.index();
+  }
+
+  public get version(): string {
+    return this.lexicon.version;
+  }
+
+  public getConcepts(): LexiconConcept[] {
+    return this.lexicon.concepts;
+  }
+
+  private index() {
+    const patterns: TermPattern[] = [];
+    for (const concept of this.lexicon.concepts) {
+      for (const term of [concept.name, ...concept.terms, ...concept.misspellings]) {
+        patterns.push({ words: tokenize(term).map(t => t.lemma), concept, caseSensitive: false });
+      }
+      for (const abbreviation of concept.abbreviations) {
+        patterns.push({ words: tokenize(abbreviation).map(t => t.raw), concept, caseSensitive: true });
+      }
     }
-  ];
+    this.patterns = patterns.sort((a, b) => b.words.length - a.words.length);
+  }
 
-  public standardizeTerm(input: string): string {
-    const lowerInput = input.toLowerCase();
-    
-    for (const mapping of this.termMappings) {
-      if (mapping.variations.some(v => lowerInput.includes(v.toLowerCase()))) {
-        return mapping.standard;
+  /**
+   * Longest lexicon term starting at the given token, if any
+   */
+  public matchAt(tokens: Token[], index: number): LexiconMatch | undefined {
+    const pattern = this.patterns.find(p =>
+      p.words.every((word, offset) => {
+        const token = tokens[index + offset];
+        return token !== undefined && (p.caseSensitive ? token.raw : token.lemma) === word;
+      })
+    );
+    return pattern && { concept: pattern.concept, length: pattern.words.length };
+  }
+
+  /**
+   * Every concept mentioned in a piece of text, scanning left to right and
+   * taking the longest match at each position
+   */
+  public findConcepts(text: string): LexiconConcept[] {
+    const tokens = tokenize(text);
+    const found: LexiconConcept[] = [];
+    let i = 0;
+    while (i < tokens.length) {
+      const match = this.matchAt(tokens, i);
+      if (match) {
+        found.push(match.concept);
+        i += match.length;
+      } else {
+        i++;
       }
     }
-    
+    return found;
+  }
+
+  /**
+   * Preferred name for a term, or the term unchanged when no lexicon entry
+   * covers all of it (which is recorded as a miss). "SOB" becomes "shortness
+   * of breath", but "knee pain" stays as is rather than collapsing to "pain".
+   */
+  public standardizeTerm(input: string): string {
+    const concept = this.lookup(input);
+    if (concept) return concept.name;
+
+    this.recordMiss(input);
     return input;
   }
 
+  /**
+   * The concept a term names in full, if any. Unlike standardizeTerm this
+   * does not count misses.
+   */
+  public lookup(input: string): LexiconConcept | undefined {
+    const tokens = tokenize(input);
+    const match = tokens.length > 0 ? this.matchAt(tokens, 0) : undefined;
+    return match && match.length === tokens.length ? match.concept : undefined;
+  }
+
   public standardizeSymptoms(symptoms: string[]): string[] {
-    return symptoms.map(symptom => this.standardizeTerm(symptom));
+    return Array.from(new Set(symptoms.map(symptom => this.standardizeTerm(symptom))));
+  }
+
+  private recordMiss(input: string) {
+    const term = input.trim().toLowerCase();
+    if (!term) return;
+
+    const existing = this.misses.get(term);
+    this.misses.delete(term);
+    this.misses.set(term, { term, count: (existing?.count ?? 0) + 1, lastSeen: new Date().toISOString() });
+
+    // Maps iterate in insertion order, so the first key is the stalest
+    if (this.misses.size > MAX_TRACKED_MISSES) {
+      this.misses.delete(this.misses.keys().next().value!);
+    }
+  }
+
+  /**
+   * Unmatched terms since startup, most frequent first
+   */
+  public getMisses(): LexiconMiss[] {
+    return Array.from(this.misses.values()).sort((a, b) => b.count - a.count);
+  }
+
+  public clearMisses() {
+    this.misses.clear();
   }
 }
 
-export const termStandardization = new TermStandardization();
+export const termStandardization = new TermStandardization(
+  loadLexicon(process.env.SYMPTOM_LEXICON ? path.resolve(process.env.SYMPTOM_LEXICON) : DEFAULT_LEXICON_PATH)
+);
@@ -1,5 +1,6 @@
 import * as tf from '@tensorflow/tfjs-node';
 import { TextEncoderOutput } from '../types';
+import { extractFindings, findingsToFactors } from './nlp';
 
 /**
  * TextEncoder: Processes natural language symptom descriptions
@@ -50,10 +51,8 @@ export class TextEncoder {
   }
   
   private extractSymptoms(text: string): string[] {
-    const lowercaseText = text.toLowerCase();
-    return this.commonSymptoms.filter(symptom => 
-      lowercaseText.includes(symptom)
-    );
+    // Negated mentions such as "no fever" are excluded by the extractor
+    return findingsToFactors(extractFindings(text));
   }
   
   /**
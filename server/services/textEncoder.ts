@@ -1,5 +1,6 @@
 import * as tf from '@tensorflow/tfjs-node';
 import { TextEncoderOutput } from '@shared/schema';
+import { extractFindings, findingsToFactors } from './nlp';
 
 /**
  * TextEncoder: Processes natural language symptom descriptions
@@ -42,28 +43,6 @@ export class TextEncoder {
     }
   }
 
-  private extractSymptoms(text: string): string[] {
-    const words = text.toLowerCase().replace(/[.,\/#!$%\^&\*;:{}=\-_`~()]/g, "").split(/\s+/);
-    const extractedSymptoms: string[] = [];
-    
-    // Simple keyword matching
-    for (const symptom of this.commonSymptoms) {
-      if (text.toLowerCase().includes(symptom)) {
-        extractedSymptoms.push(symptom);
-      }
-    }
-    
-    // Look for multi-word symptoms
-    const bigrams = words.slice(0, -1).map((word, i) => word + " " + words[i + 1]);
-    for (const bigram of bigrams) {
-      if (this.commonSymptoms.includes(bigram)) {
-        extractedSymptoms.push(bigram);
-      }
-    }
-    
-    return Array.from(new Set(extractedSymptoms)); // Remove duplicates
-  }
-
   /**
    * Creates an embedding for the text description
    * @param text - The symptom description in natural language
@@ -72,7 +51,8 @@ export class TextEncoder {
   public async encodeText(text: string): Promise<TextEncoderOutput> {
     await this.ensureModelLoaded();
     
-    const identifiedSymptoms = this.extractSymptoms(text);
+    const findings = extractFindings(text);
+    const identifiedSymptoms = findingsToFactors(findings);
     
     // Create text embedding by averaging symptom vectors and adding a random component
     let embeddingSum = Array(this.embeddingDim).fill(0);
@@ -100,6 +80,7 @@ export class TextEncoder {
     
     return {
       identifiedSymptoms,
+      findings,
       embedding: finalEmbedding,
       rawText: text
     };
@@ -0,0 +1,128 @@
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import session from 'express-session';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { InsertMedicalCondition } from '@shared/schema';
+import type { Database } from './db';
+
+// An in-memory Postgres in place of DATABASE_URL, for the migrations
+const state = vi.hoisted(() => ({ db: undefined as unknown }));
+
+vi.mock('./db', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./db')>(),
+  get db() { return state.db; }
+}));
+
+const { runMigrations } = await import('./db/migrations');
+const { DrizzleStorage } = await import('./storage');
+
+let client: PGlite;
+let storage: InstanceType<typeof DrizzleStorage>;
+
+function condition(name: string): InsertMedicalCondition {
+  return { name, description: name, symptoms: ['fever'], urgency: 'self_care', recommendation: 'Rest' };
+}
+
+async function conditionNames(): Promise<string[]> {
+  return (await client.query<{ name: string }>(`SELECT name FROM medical_conditions ORDER BY id`)).rows.map(row => row.name);
+}
+
+async function versionCount(): Promise<number> {
+  return (await client.query(`SELECT version FROM knowledge_base_versions`)).rows.length;
+}
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  client = new PGlite();
+  const db = drizzle(client);
+  // postgres.js returns result rows as the array itself, PGlite under `rows`
+  state.db = {
+    execute: async (statement: Parameters<typeof db.execute>[0]) => (await db.execute(statement)).rows,
+    transaction: db.transaction.bind(db)
+  };
+  await runMigrations();
+  storage = new DrizzleStorage(db as unknown as Database, new session.MemoryStore());
+  await client.exec(`
+    INSERT INTO medical_conditions (name, description, symptoms, urgency, recommendation) VALUES
+      ('Influenza', 'Flu', '["fever"]', 'primary_care', 'Rest'),
+      ('Migraine', 'Headache', '["headache"]', 'self_care', 'Rest')
+  `);
+});
+
+describe('DrizzleStorage.applyConditionChanges', () => {
+  it('writes every change and a version holding the result', async () => {
+    const applied = await storage.applyConditionChanges({
+      creates: [condition('Tonsillitis')],
+      updates: [{ id: 1, changes: { description: 'Seasonal flu' } }],
+      deletes: [2]
+    }, 'Imported conditions.csv');
+
+    expect(applied?.created.map(c => c.name)).toEqual(['Tonsillitis']);
+    expect(applied?.updated[0]).toMatchObject({ description: 'Seasonal flu', revision: 2 });
+    expect(applied?.version.conditions.map(c => c.name)).toEqual(['Influenza', 'Tonsillitis']);
+    expect(await conditionNames()).toEqual(['Influenza', 'Tonsillitis']);
+  });
+
+  it('rolls back the earlier changes when a later one fails', async () => {
+    await expect(storage.applyConditionChanges({
+      creates: [condition('Tonsillitis')],
+      updates: [{ id: 2, changes: { name: 'Influenza' } }]
+    }, 'Imported conditions.csv')).rejects.toThrow();
+
+    expect(await conditionNames()).toEqual(['Influenza', 'Migraine']);
+    expect(await versionCount()).toBe(0);
+  });
+
+  it('writes nothing when a condition to change no longer exists', async () => {
+    const applied = await storage.applyConditionChanges({
+      updates: [{ id: 1, changes: { description: 'Seasonal flu' } }],
+      deletes: [99]
+    }, 'Imported conditions.csv');
+
+    expect(applied).toBeUndefined();
+    const [influenza] = (await client.query<{ description: string }>(`SELECT description FROM medical_conditions WHERE id = 1`)).rows;
+    expect(influenza.description).toBe('Flu');
+    expect(await versionCount()).toBe(0);
+  });
+});
+
+describe('DrizzleStorage feedback', () => {
+  it('lists only feedback that names the condition, newest first, with its symptom', async () => {
+    const flu = await storage.createSymptom({ description: 'Fever and aches' });
+    const headache = await storage.createSymptom({ description: 'Throbbing headache' });
+    await storage.createUserFeedback(flu.id, { correctCondition: 'Common Cold' });
+    await storage.createUserFeedback(flu.id, { feedbackRating: 2, feedbackText: 'Not quite' });
+    await storage.createUserFeedback(headache.id, { correctCondition: 'Migraine', feedbackRating: 5 });
+    await storage.createUserFeedback(flu.id, { correctCondition: 'Influenza' });
+
+    const labelled = await storage.getLabelledFeedback();
+
+    expect(labelled.map(({ feedback, symptom }) => [symptom.description, feedback.correctCondition])).toEqual([
+      ['Fever and aches', 'Influenza'],
+      ['Throbbing headache', 'Migraine'],
+      ['Fever and aches', 'Common Cold']
+    ]);
+  });
+});
+
+describe('DrizzleStorage prediction telemetry', () => {
+  it('pages through predictions newest first', async () => {
+    const symptom = await storage.createSymptom({ description: 'Fever and aches' });
+    for (const name of ['Influenza', 'Common Cold', 'Pneumonia']) {
+      await storage.createAiPrediction({
+        symptomId: symptom.id,
+        rawPredictions: [{ name, score: 0.6 }],
+        refinedPredictions: [{ name, score: 0.7 }],
+        confidence: 'medium',
+        processingTime: 150,
+        stageTimings: { llm: 100, knowledgeBase: 10, merge: 5, nextSteps: 35, total: 150 }
+      });
+    }
+
+    const page = await storage.getAiPredictions(2, 1);
+
+    expect(await storage.countAiPredictions()).toBe(3);
+    expect(page.map(prediction => prediction.rawPredictions[0].name)).toEqual(['Common Cold', 'Influenza']);
+    expect(page[0]).toMatchObject({ kbPredictions: [], stageTimings: { total: 150 } });
+  });
+});
@@ -1,31 +1,185 @@
-import { symptoms, users, type User, type InsertUser, type Symptom, type InsertSymptom, type SymptomAnalysis } from "@shared/schema";
+import { eq, asc, desc, sql, count, inArray, isNotNull } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import {
+  symptoms,
+  users,
+  medicalConditions,
+  aiPredictions,
+  userFeedback,
+  knowledgeBaseVersions,
+  analysisSessions,
+  analysisSessionTurns,
+  type User,
+  type InsertUser,
+  type Symptom,
+  type InsertSymptom,
+  type SymptomAnalysis,
+  type MedicalCondition,
+  type InsertMedicalCondition,
+  type UserFeedback,
+  type InsertUserFeedback,
+  type AiPrediction,
+  type InsertAiPrediction,
+  type KnowledgeBaseVersion,
+  type AnalysisSession,
+  type AnalysisSessionTurn,
+  type InsertAnalysisSessionTurn
+} from "@shared/schema";
+import { db, pgSslOptions, type Database } from "./db";
+import { getSeedConditions } from "./db/defaultConditions";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+/**
+ * Fill in column defaults for a condition held outside the database
+ */
+export function toMedicalCondition(id: number, condition: InsertMedicalCondition): MedicalCondition {
+  return {
+    id,
+    name: condition.name,
+    description: condition.description,
+    symptoms: condition.symptoms,
+    visualCues: condition.visualCues ?? [],
+    aliases: condition.aliases ?? [],
+    symptomRules: condition.symptomRules ?? [],
+    demographics: condition.demographics ?? null,
+    snomedCtId: condition.snomedCtId ?? null,
+    icd11Code: condition.icd11Code ?? null,
+    urgency: condition.urgency,
+    recommendation: condition.recommendation,
+    commonInAgeGroup: condition.commonInAgeGroup ?? null,
+    learnMoreUrl: condition.learnMoreUrl ?? null,
+    revision: condition.revision ?? 1
+  };
+}
+
+// Changes to the conditions that are written together, in one transaction
+// with the knowledge base version that records them
+export interface ConditionChanges {
+  creates?: InsertMedicalCondition[];
+  updates?: Array<{ id: number; changes: Partial<InsertMedicalCondition> }>;
+  deletes?: number[];
+}
+
+export interface AppliedConditionChanges {
+  created: MedicalCondition[];
+  updated: MedicalCondition[];
+  version: KnowledgeBaseVersion;
+}
+
+// A condition to update or delete no longer exists; rolls the changes back
+class MissingConditionError extends Error {}
 
 // modify the interface with any CRUD methods
 // you might need
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  
+
   // Symptom methods
-  createSymptom(symptom: InsertSymptom): Promise<Symptom>;
+  createSymptom(symptom: InsertSymptom, userId?: number): Promise<Symptom>;
   getSymptom(id: number): Promise<Symptom | undefined>;
+  updateSymptom(id: number, changes: Partial<InsertSymptom>): Promise<Symptom | undefined>;
   updateSymptomAnalysis(id: number, analysis: SymptomAnalysis): Promise<Symptom | undefined>;
   getRecentSymptoms(limit?: number): Promise<Symptom[]>;
+  getUserSymptoms(userId: number, limit: number, offset: number): Promise<Symptom[]>;
+  countUserSymptoms(userId: number): Promise<number>;
+  deleteSymptom(id: number): Promise<boolean>; // also deletes its feedback, telemetry and sessions
+
+  // Analysis session methods. Turns are only ever added, and are listed oldest first.
+  createAnalysisSession(symptomId: number): Promise<AnalysisSession>;
+  getAnalysisSession(id: number): Promise<AnalysisSession | undefined>;
+  updateAnalysisSession(id: number, changes: Pick<AnalysisSession, "describedImages">): Promise<AnalysisSession | undefined>;
+  createAnalysisSessionTurn(turn: InsertAnalysisSessionTurn): Promise<AnalysisSessionTurn>;
+  getAnalysisSessionTurns(sessionId: number): Promise<AnalysisSessionTurn[]>;
+
+  // Medical condition methods
+  getAllMedicalConditions(): Promise<MedicalCondition[]>;
+  getMedicalCondition(id: number): Promise<MedicalCondition | undefined>;
+  getMedicalConditionByName(name: string): Promise<MedicalCondition | undefined>;
+  // The only way to change conditions: writes them and records a knowledge base version in one go.
+  // Nothing is written, and undefined returned, when a condition to update or delete no longer exists.
+  applyConditionChanges(changes: ConditionChanges, reason: string, userId?: number): Promise<AppliedConditionChanges | undefined>;
+
+  // Knowledge base versions. Each snapshots the conditions as they were
+  // right after a change and is never modified.
+  getKnowledgeBaseVersion(version?: number): Promise<KnowledgeBaseVersion | undefined>; // latest when omitted
+  getKnowledgeBaseVersions(limit: number, offset: number): Promise<KnowledgeBaseVersion[]>;
+  countKnowledgeBaseVersions(): Promise<number>;
+
+  // Feedback methods
+  createUserFeedback(symptomId: number, feedback: InsertUserFeedback, userId?: number): Promise<UserFeedback>;
+  getLabelledFeedback(): Promise<Array<{ feedback: UserFeedback; symptom: Symptom }>>;
+
+  // Model telemetry methods
+  createAiPrediction(prediction: InsertAiPrediction): Promise<AiPrediction>;
+  getAiPredictions(limit: number, offset: number): Promise<AiPrediction[]>;
+  countAiPredictions(): Promise<number>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private symptomsMap: Map<number, Symptom>;
+  private conditionsMap: Map<number, MedicalCondition>;
+  private feedbackMap: Map<number, UserFeedback>;
+  private predictionsMap: Map<number, AiPrediction>;
+  private analysisSessionsMap: Map<number, AnalysisSession>;
+  private sessionTurnsMap: Map<number, AnalysisSessionTurn>;
+  private versions: KnowledgeBaseVersion[];
   userCurrentId: number;
   symptomCurrentId: number;
+  feedbackCurrentId: number;
+  predictionCurrentId: number;
+  conditionCurrentId: number;
+  analysisSessionCurrentId: number;
+  sessionTurnCurrentId: number;
+  sessionStore: session.Store;
 
   constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 24 * 60 * 60 * 1000 // prune expired sessions daily
+    });
     this.users = new Map();
     this.symptomsMap = new Map();
+    this.conditionsMap = new Map();
+    this.feedbackMap = new Map();
+    this.predictionsMap = new Map();
+    this.analysisSessionsMap = new Map();
+    this.sessionTurnsMap = new Map();
     this.userCurrentId = 1;
     this.symptomCurrentId = 1;
+    this.feedbackCurrentId = 1;
+    this.predictionCurrentId = 1;
+    this.conditionCurrentId = 1;
+    this.analysisSessionCurrentId = 1;
+    this.sessionTurnCurrentId = 1;
+    this.versions = [];
+
+    const seedConditions = getSeedConditions();
+    seedConditions.forEach((condition) => {
+      const id = this.conditionCurrentId++;
+      this.conditionsMap.set(id, toMedicalCondition(id, condition));
+    });
+    this.snapshotConditions(`Seeded ${seedConditions.length} conditions`);
+  }
+
+  private snapshotConditions(reason: string, userId?: number): KnowledgeBaseVersion {
+    const record: KnowledgeBaseVersion = {
+      version: this.versions.length + 1,
+      reason,
+      userId: userId ?? null,
+      conditions: Array.from(this.conditionsMap.values()).sort((a, b) => a.id - b.id),
+      createdAt: new Date()
+    };
+    this.versions.push(record);
+    return record;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -40,25 +194,32 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userCurrentId++;
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, id, role: "user" };
     this.users.set(id, user);
     return user;
   }
 
-  async createSymptom(insertSymptom: InsertSymptom): Promise<Symptom> {
+  async createSymptom(insertSymptom: InsertSymptom, userId?: number): Promise<Symptom> {
     const id = this.symptomCurrentId++;
     const now = new Date();
-    
+
     const symptom: Symptom = {
-      ...insertSymptom,
       id,
-      createdAt: now,
-      analysis: {
-        potentialConditions: [],
-        nextSteps: []
-      }
+      userId: userId ?? null,
+      description: insertSymptom.description,
+      duration: insertSymptom.duration ?? null,
+      severity: insertSymptom.severity ?? null,
+      bodyLocation: insertSymptom.bodyLocation ?? null,
+      patientAge: insertSymptom.patientAge ?? null,
+      patientGender: insertSymptom.patientGender ?? null,
+      patientPregnant: insertSymptom.patientPregnant ?? null,
+      uploadedImages: (insertSymptom.uploadedImages as string[] | null | undefined) ?? null,
+      analysis: null,
+      extractedSymptoms: null,
+      reasoningNotes: null,
+      createdAt: now
     };
-    
+
     this.symptomsMap.set(id, symptom);
     return symptom;
   }
@@ -67,13 +228,35 @@ export class MemStorage implements IStorage {
     return this.symptomsMap.get(id);
   }
 
+  async updateSymptom(id: number, changes: Partial<InsertSymptom>): Promise<Symptom | undefined> {
+    const symptom = this.symptomsMap.get(id);
+    if (!symptom) return undefined;
+
+    const updatedSymptom: Symptom = {
+      ...symptom,
+      description: changes.description ?? symptom.description,
+      duration: changes.duration !== undefined ? changes.duration : symptom.duration,
+      severity: changes.severity !== undefined ? changes.severity : symptom.severity,
+      bodyLocation: changes.bodyLocation !== undefined ? changes.bodyLocation : symptom.bodyLocation,
+      patientAge: changes.patientAge !== undefined ? changes.patientAge : symptom.patientAge,
+      patientGender: changes.patientGender !== undefined ? changes.patientGender : symptom.patientGender,
+      patientPregnant: changes.patientPregnant !== undefined ? changes.patientPregnant : symptom.patientPregnant,
+      uploadedImages: changes.uploadedImages !== undefined
+        ? changes.uploadedImages as string[] | null
+        : symptom.uploadedImages
+    };
+    this.symptomsMap.set(id, updatedSymptom);
+
+    return updatedSymptom;
+  }
+
   async updateSymptomAnalysis(id: number, analysis: SymptomAnalysis): Promise<Symptom | undefined> {
     const symptom = this.symptomsMap.get(id);
     if (!symptom) return undefined;
-    
+
     const updatedSymptom = { ...symptom, analysis };
     this.symptomsMap.set(id, updatedSymptom);
-    
+
     return updatedSymptom;
   }
 
@@ -82,6 +265,433 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
       .slice(0, limit);
   }
+
+  async getUserSymptoms(userId: number, limit: number, offset: number): Promise<Symptom[]> {
+    return Array.from(this.symptomsMap.values())
+      .filter((symptom) => symptom.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(offset, offset + limit);
+  }
+
+  async countUserSymptoms(userId: number): Promise<number> {
+    return Array.from(this.symptomsMap.values())
+      .filter((symptom) => symptom.userId === userId)
+      .length;
+  }
+
+  async deleteSymptom(id: number): Promise<boolean> {
+    Array.from(this.feedbackMap.values())
+      .filter((feedback) => feedback.symptomId === id)
+      .forEach((feedback) => this.feedbackMap.delete(feedback.id));
+    Array.from(this.predictionsMap.values())
+      .filter((prediction) => prediction.symptomId === id)
+      .forEach((prediction) => this.predictionsMap.delete(prediction.id));
+    Array.from(this.analysisSessionsMap.values())
+      .filter((analysisSession) => analysisSession.symptomId === id)
+      .forEach((analysisSession) => {
+        Array.from(this.sessionTurnsMap.values())
+          .filter((turn) => turn.sessionId === analysisSession.id)
+          .forEach((turn) => this.sessionTurnsMap.delete(turn.id));
+        this.analysisSessionsMap.delete(analysisSession.id);
+      });
+    return this.symptomsMap.delete(id);
+  }
+
+  async createAnalysisSession(symptomId: number): Promise<AnalysisSession> {
+    const id = this.analysisSessionCurrentId++;
+    const now = new Date();
+    const record: AnalysisSession = { id, symptomId, describedImages: null, createdAt: now, updatedAt: now };
+    this.analysisSessionsMap.set(id, record);
+    return record;
+  }
+
+  async getAnalysisSession(id: number): Promise<AnalysisSession | undefined> {
+    return this.analysisSessionsMap.get(id);
+  }
+
+  async updateAnalysisSession(id: number, changes: Pick<AnalysisSession, "describedImages">): Promise<AnalysisSession | undefined> {
+    const analysisSession = this.analysisSessionsMap.get(id);
+    if (!analysisSession) return undefined;
+
+    const updatedSession = { ...analysisSession, ...changes, updatedAt: new Date() };
+    this.analysisSessionsMap.set(id, updatedSession);
+    return updatedSession;
+  }
+
+  async createAnalysisSessionTurn(turn: InsertAnalysisSessionTurn): Promise<AnalysisSessionTurn> {
+    const id = this.sessionTurnCurrentId++;
+    const record: AnalysisSessionTurn = {
+      id,
+      sessionId: turn.sessionId,
+      message: turn.message ?? null,
+      images: turn.images ?? [],
+      answer: turn.answer ?? null,
+      differential: turn.differential,
+      diff: turn.diff ?? null,
+      triage: turn.triage ?? null,
+      createdAt: new Date()
+    };
+    this.sessionTurnsMap.set(id, record);
+    return record;
+  }
+
+  async getAnalysisSessionTurns(sessionId: number): Promise<AnalysisSessionTurn[]> {
+    return Array.from(this.sessionTurnsMap.values())
+      .filter((turn) => turn.sessionId === sessionId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getAllMedicalConditions(): Promise<MedicalCondition[]> {
+    return Array.from(this.conditionsMap.values());
+  }
+
+  async getMedicalCondition(id: number): Promise<MedicalCondition | undefined> {
+    return this.conditionsMap.get(id);
+  }
+
+  async getMedicalConditionByName(name: string): Promise<MedicalCondition | undefined> {
+    return Array.from(this.conditionsMap.values()).find(
+      (condition) => condition.name.toLowerCase() === name.toLowerCase(),
+    );
+  }
+
+  async applyConditionChanges(changes: ConditionChanges, reason: string, userId?: number): Promise<AppliedConditionChanges | undefined> {
+    const targets = [...(changes.updates ?? []).map(({ id }) => id), ...(changes.deletes ?? [])];
+    if (targets.some(id => !this.conditionsMap.has(id))) return undefined;
+
+    const created = (changes.creates ?? []).map(condition => {
+      const id = this.conditionCurrentId++;
+      const record = toMedicalCondition(id, condition);
+      this.conditionsMap.set(id, record);
+      return record;
+    });
+    const updated = (changes.updates ?? []).map(({ id, changes: fields }) => {
+      const condition = this.conditionsMap.get(id)!;
+      const record = toMedicalCondition(id, { ...condition, ...fields, revision: condition.revision + 1 });
+      this.conditionsMap.set(id, record);
+      return record;
+    });
+    (changes.deletes ?? []).forEach(id => this.conditionsMap.delete(id));
+
+    return { created, updated, version: this.snapshotConditions(reason, userId) };
+  }
+
+  async getKnowledgeBaseVersion(version?: number): Promise<KnowledgeBaseVersion | undefined> {
+    return version === undefined ? this.versions[this.versions.length - 1] : this.versions[version - 1];
+  }
+
+  async getKnowledgeBaseVersions(limit: number, offset: number): Promise<KnowledgeBaseVersion[]> {
+    return this.versions.slice().reverse().slice(offset, offset + limit);
+  }
+
+  async countKnowledgeBaseVersions(): Promise<number> {
+    return this.versions.length;
+  }
+
+  async createUserFeedback(symptomId: number, feedback: InsertUserFeedback, userId?: number): Promise<UserFeedback> {
+    const id = this.feedbackCurrentId++;
+    const record: UserFeedback = {
+      id,
+      symptomId,
+      userId: userId ?? null,
+      feedbackRating: feedback.feedbackRating ?? null,
+      feedbackText: feedback.feedbackText ?? null,
+      correctCondition: feedback.correctCondition ?? null,
+      createdAt: new Date()
+    };
+    this.feedbackMap.set(id, record);
+    return record;
+  }
+
+  async getLabelledFeedback(): Promise<Array<{ feedback: UserFeedback; symptom: Symptom }>> {
+    return Array.from(this.feedbackMap.values())
+      .filter((feedback) => feedback.correctCondition !== null && this.symptomsMap.has(feedback.symptomId))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .map((feedback) => ({ feedback, symptom: this.symptomsMap.get(feedback.symptomId)! }));
+  }
+
+  async createAiPrediction(prediction: InsertAiPrediction): Promise<AiPrediction> {
+    const id = this.predictionCurrentId++;
+    const record: AiPrediction = {
+      id,
+      symptomId: prediction.symptomId,
+      rawPredictions: prediction.rawPredictions,
+      refinedPredictions: prediction.refinedPredictions,
+      kbPredictions: prediction.kbPredictions ?? [],
+      textEmbedding: prediction.textEmbedding ?? null,
+      imageEmbedding: prediction.imageEmbedding ?? null,
+      confidence: prediction.confidence,
+      processingTime: prediction.processingTime ?? null,
+      stageTimings: prediction.stageTimings ?? null,
+      createdAt: new Date()
+    };
+    this.predictionsMap.set(id, record);
+    return record;
+  }
+
+  async getAiPredictions(limit: number, offset: number): Promise<AiPrediction[]> {
+    return Array.from(this.predictionsMap.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(offset, offset + limit);
+  }
+
+  async countAiPredictions(): Promise<number> {
+    return this.predictionsMap.size;
+  }
+}
+
+/**
+ * IStorage implementation backed by the Postgres tables in shared/schema.ts
+ */
+export class DrizzleStorage implements IStorage {
+  constructor(private db: Database, public sessionStore: session.Store) {}
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async createSymptom(insertSymptom: InsertSymptom, userId?: number): Promise<Symptom> {
+    const [symptom] = await this.db
+      .insert(symptoms)
+      .values({
+        ...insertSymptom,
+        uploadedImages: insertSymptom.uploadedImages as string[] | null | undefined,
+        userId
+      })
+      .returning();
+    return symptom;
+  }
+
+  async getSymptom(id: number): Promise<Symptom | undefined> {
+    const [symptom] = await this.db.select().from(symptoms).where(eq(symptoms.id, id));
+    return symptom;
+  }
+
+  async updateSymptom(id: number, changes: Partial<InsertSymptom>): Promise<Symptom | undefined> {
+    const [symptom] = await this.db
+      .update(symptoms)
+      .set({ ...changes, uploadedImages: changes.uploadedImages as string[] | null | undefined })
+      .where(eq(symptoms.id, id))
+      .returning();
+    return symptom;
+  }
+
+  async updateSymptomAnalysis(id: number, analysis: SymptomAnalysis): Promise<Symptom | undefined> {
+    const [symptom] = await this.db
+      .update(symptoms)
+      .set({ analysis })
+      .where(eq(symptoms.id, id))
+      .returning();
+    return symptom;
+  }
+
+  async getRecentSymptoms(limit: number = 10): Promise<Symptom[]> {
+    return this.db
+      .select()
+      .from(symptoms)
+      .orderBy(desc(symptoms.createdAt))
+      .limit(limit);
+  }
+
+  async getUserSymptoms(userId: number, limit: number, offset: number): Promise<Symptom[]> {
+    return this.db
+      .select()
+      .from(symptoms)
+      .where(eq(symptoms.userId, userId))
+      .orderBy(desc(symptoms.createdAt), desc(symptoms.id))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async countUserSymptoms(userId: number): Promise<number> {
+    const [result] = await this.db
+      .select({ value: count() })
+      .from(symptoms)
+      .where(eq(symptoms.userId, userId));
+    return result?.value ?? 0;
+  }
+
+  async deleteSymptom(id: number): Promise<boolean> {
+    // Remove dependent rows first; session turns reference sessions, which reference symptoms.id
+    return this.db.transaction(async (tx) => {
+      const sessionIds = tx
+        .select({ id: analysisSessions.id })
+        .from(analysisSessions)
+        .where(eq(analysisSessions.symptomId, id));
+      await tx.delete(analysisSessionTurns).where(inArray(analysisSessionTurns.sessionId, sessionIds));
+      await tx.delete(analysisSessions).where(eq(analysisSessions.symptomId, id));
+      await tx.delete(aiPredictions).where(eq(aiPredictions.symptomId, id));
+      await tx.delete(userFeedback).where(eq(userFeedback.symptomId, id));
+      const deleted = await tx.delete(symptoms).where(eq(symptoms.id, id)).returning({ id: symptoms.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async createAnalysisSession(symptomId: number): Promise<AnalysisSession> {
+    const [record] = await this.db.insert(analysisSessions).values({ symptomId }).returning();
+    return record;
+  }
+
+  async getAnalysisSession(id: number): Promise<AnalysisSession | undefined> {
+    const [record] = await this.db.select().from(analysisSessions).where(eq(analysisSessions.id, id));
+    return record;
+  }
+
+  async updateAnalysisSession(id: number, changes: Pick<AnalysisSession, "describedImages">): Promise<AnalysisSession | undefined> {
+    const [record] = await this.db
+      .update(analysisSessions)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(analysisSessions.id, id))
+      .returning();
+    return record;
+  }
+
+  async createAnalysisSessionTurn(turn: InsertAnalysisSessionTurn): Promise<AnalysisSessionTurn> {
+    const [record] = await this.db.insert(analysisSessionTurns).values(turn).returning();
+    return record;
+  }
+
+  async getAnalysisSessionTurns(sessionId: number): Promise<AnalysisSessionTurn[]> {
+    return this.db
+      .select()
+      .from(analysisSessionTurns)
+      .where(eq(analysisSessionTurns.sessionId, sessionId))
+      .orderBy(asc(analysisSessionTurns.id));
+  }
+
+  async getAllMedicalConditions(): Promise<MedicalCondition[]> {
+    return this.db.select().from(medicalConditions);
+  }
+
+  async getMedicalCondition(id: number): Promise<MedicalCondition | undefined> {
+    const [condition] = await this.db.select().from(medicalConditions).where(eq(medicalConditions.id, id));
+    return condition;
+  }
+
+  async getMedicalConditionByName(name: string): Promise<MedicalCondition | undefined> {
+    const [condition] = await this.db
+      .select()
+      .from(medicalConditions)
+      .where(eq(sql`lower(${medicalConditions.name})`, name.toLowerCase()));
+    return condition;
+  }
+
+  async applyConditionChanges(changes: ConditionChanges, reason: string, userId?: number): Promise<AppliedConditionChanges | undefined> {
+    try {
+      return await this.db.transaction(async (tx) => {
+        const created = changes.creates?.length
+          ? await tx.insert(medicalConditions).values(changes.creates).returning()
+          : [];
+        const updated: MedicalCondition[] = [];
+        for (const { id, changes: fields } of changes.updates ?? []) {
+          const [condition] = await tx
+            .update(medicalConditions)
+            .set({ ...fields, revision: sql`${medicalConditions.revision} + 1` })
+            .where(eq(medicalConditions.id, id))
+            .returning();
+          if (!condition) throw new MissingConditionError();
+          updated.push(condition);
+        }
+        if (changes.deletes?.length) {
+          const deleted = await tx
+            .delete(medicalConditions)
+            .where(inArray(medicalConditions.id, changes.deletes))
+            .returning({ id: medicalConditions.id });
+          if (deleted.length < new Set(changes.deletes).size) throw new MissingConditionError();
+        }
+
+        const conditions = await tx.select().from(medicalConditions).orderBy(medicalConditions.id);
+        const [version] = await tx
+          .insert(knowledgeBaseVersions)
+          .values({ reason, userId, conditions })
+          .returning();
+        return { created, updated, version };
+      });
+    } catch (error) {
+      if (error instanceof MissingConditionError) return undefined;
+      throw error;
+    }
+  }
+
+  async getKnowledgeBaseVersion(version?: number): Promise<KnowledgeBaseVersion | undefined> {
+    const [record] = await this.db
+      .select()
+      .from(knowledgeBaseVersions)
+      .where(version === undefined ? undefined : eq(knowledgeBaseVersions.version, version))
+      .orderBy(desc(knowledgeBaseVersions.version))
+      .limit(1);
+    return record;
+  }
+
+  async getKnowledgeBaseVersions(limit: number, offset: number): Promise<KnowledgeBaseVersion[]> {
+    return this.db
+      .select()
+      .from(knowledgeBaseVersions)
+      .orderBy(desc(knowledgeBaseVersions.version))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async countKnowledgeBaseVersions(): Promise<number> {
+    const [result] = await this.db.select({ value: count() }).from(knowledgeBaseVersions);
+    return result?.value ?? 0;
+  }
+
+  async createUserFeedback(symptomId: number, feedback: InsertUserFeedback, userId?: number): Promise<UserFeedback> {
+    const [record] = await this.db
+      .insert(userFeedback)
+      .values({ ...feedback, symptomId, userId })
+      .returning();
+    return record;
+  }
+
+  async getLabelledFeedback(): Promise<Array<{ feedback: UserFeedback; symptom: Symptom }>> {
+    return this.db
+      .select({ feedback: userFeedback, symptom: symptoms })
+      .from(userFeedback)
+      .innerJoin(symptoms, eq(userFeedback.symptomId, symptoms.id))
+      .where(isNotNull(userFeedback.correctCondition))
+      .orderBy(desc(userFeedback.createdAt), desc(userFeedback.id));
+  }
+
+  async createAiPrediction(prediction: InsertAiPrediction): Promise<AiPrediction> {
+    const [record] = await this.db.insert(aiPredictions).values(prediction).returning();
+    return record;
+  }
+
+  async getAiPredictions(limit: number, offset: number): Promise<AiPrediction[]> {
+    return this.db
+      .select()
+      .from(aiPredictions)
+      .orderBy(desc(aiPredictions.createdAt), desc(aiPredictions.id))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async countAiPredictions(): Promise<number> {
+    const [result] = await this.db.select({ value: count() }).from(aiPredictions);
+    return result?.value ?? 0;
+  }
 }
 
-export const storage = new MemStorage();
+// Use the database when one is configured; MemStorage remains for tests and local runs
+export const storage: IStorage = db
+  ? new DrizzleStorage(db, new PostgresSessionStore({
+      conObject: {
+        connectionString: process.env.DATABASE_URL,
+        ssl: pgSslOptions()
+      },
+      tableName: "session"
+    }))
+  : new MemStorage();
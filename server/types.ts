@@ -1,4 +1,6 @@
 import * as tf from '@tensorflow/tfjs-node';
+import type { ClinicalCode, KnowledgeBaseProvenance, NextStep, RedFlag, TriageLevel } from '@shared/schema';
+import type { AnalysisTelemetry } from './services/aiService';
 
 /**
  * Input for the symptom analysis service
@@ -7,8 +9,17 @@ export interface AnalysisInput {
   textSymptoms: string;
   imagePath?: string;
   imageDescription: string;
-  patientAge: number;
-  patientGender: string;
+  patientAge?: number;
+  patientGender?: string;
+  patientPregnant?: boolean;
+}
+
+/**
+ * How the analysis pipeline reports its progress
+ */
+export interface AnalysisOptions {
+  // Receives a line as each stage starts; defaults to console.log
+  log?: (message: string) => void;
 }
 
 /**
@@ -51,9 +62,12 @@ export interface ConditionPrediction {
   name: string;
   confidence: number;
   description: string;
+  urgency?: TriageLevel;
   matchingFactors: string[];
   additionalInfo?: string;
   recommendedActions?: string[];
+  codes?: ClinicalCode[];
+  reasoningNotes?: string[];
 }
 
 /**
@@ -61,11 +75,13 @@ export interface ConditionPrediction {
  */
 export interface ReasoningOutput {
   conditions: ConditionPrediction[];
+  candidates: Array<{ name: string; score: number }>; // predictions before validation, 0-1
   summary: string;
   inputFactors: string[];
   textSymptoms: string[];
   visualFeatures: string[];
   hasImage: boolean;
+  knowledgeBase?: KnowledgeBaseProvenance;
 }
 
 /**
@@ -74,4 +90,11 @@ export interface ReasoningOutput {
 export interface AnalysisResults {
   summary: string;
   conditions: ConditionPrediction[];
+  extractedSymptoms?: string[];
+  symptomId?: number;
+  knowledgeBase?: KnowledgeBaseProvenance;
+  redFlags?: RedFlag[]; // set instead of conditions when the description needs emergency care
+  nextSteps?: NextStep[]; // the recommended care setting
+  triage?: TriageLevel;
+  telemetry?: AnalysisTelemetry; // recorded in ai_predictions, not sent to the client
 }
@@ -0,0 +1,63 @@
+import { CONDITION_SEXES, conditionDemographicsSchema, type ConditionDemographics, type ConditionSex } from "./schema";
+
+/**
+ * Demographics are written as text in spreadsheets and the curator form, as
+ * clauses separated by semicolons, for example
+ * `ages 0-17; band 0-4 x1.3` for a pediatric condition most common in toddlers
+ * or `ages 12-55; sex female; pregnancy only` for a pregnancy complication.
+ */
+
+export function formatDemographics(demographics: ConditionDemographics | null | undefined): string {
+  if (!demographics) return "";
+
+  const clauses: string[] = [];
+  if (demographics.minAge !== undefined || demographics.maxAge !== undefined) {
+    clauses.push(`ages ${demographics.minAge ?? 0}-${demographics.maxAge ?? 120}`);
+  }
+  if (demographics.sexes) clauses.push(`sex ${demographics.sexes.join(", ")}`);
+  if (demographics.pregnancyOnly) clauses.push("pregnancy only");
+  for (const band of demographics.ageBands ?? []) {
+    clauses.push(`band ${band.minAge}-${band.maxAge} x${band.weight}`);
+  }
+  return clauses.join("; ");
+}
+
+/**
+ * Parse text written by formatDemographics; blank text means the condition
+ * applies to anyone. Throws with a message suitable for showing to the curator.
+ */
+export function parseDemographics(text: string): ConditionDemographics | null {
+  const clauses = text.split(";").map((clause) => clause.trim()).filter(Boolean);
+  if (clauses.length === 0) return null;
+
+  const demographics: ConditionDemographics = {};
+  for (const clause of clauses) {
+    let match: RegExpMatchArray | null;
+    if ((match = clause.match(/^ages\s+(\d+)\s*-\s*(\d+)$/i))) {
+      demographics.minAge = Number(match[1]);
+      demographics.maxAge = Number(match[2]);
+    } else if ((match = clause.match(/^sex\s+(.+)$/i))) {
+      const sexes = match[1].split(",").map((sex) => sex.trim().toLowerCase());
+      const unknown = sexes.filter((sex) => !CONDITION_SEXES.includes(sex as ConditionSex));
+      if (unknown.length > 0) {
+        throw new Error(`Unknown sex "${unknown.join(", ")}"; use ${CONDITION_SEXES.join(" or ")}`);
+      }
+      demographics.sexes = sexes as ConditionSex[];
+    } else if (/^pregnancy\s+only$/i.test(clause)) {
+      demographics.pregnancyOnly = true;
+    } else if ((match = clause.match(/^band\s+(\d+)\s*-\s*(\d+)\s+x\s*([^\s]+)$/i))) {
+      demographics.ageBands = [
+        ...(demographics.ageBands ?? []),
+        { minAge: Number(match[1]), maxAge: Number(match[2]), weight: Number(match[3]) },
+      ];
+    } else {
+      throw new Error(`"${clause}" should look like "ages 0-17", "sex female", "pregnancy only" or "band 65-120 x1.3"`);
+    }
+  }
+
+  const result = conditionDemographicsSchema.safeParse(demographics);
+  if (!result.success) {
+    throw new Error(`"${text.trim()}": ${result.error.errors.map((e) => e.message).join("; ")}`);
+  }
+  return result.data;
+}
@@ -6,8 +6,11 @@ export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role").$type<UserRole>().notNull().default("user"),
 });
 
+export type UserRole = "user" | "admin";
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
@@ -24,6 +27,10 @@ export const symptoms = pgTable("symptoms", {
   duration: text("duration"),
   severity: text("severity"),
   bodyLocation: text("body_location"),
+  // Checked against condition demographics on every analysis of the symptom
+  patientAge: integer("patient_age"),
+  patientGender: text("patient_gender"), // male, female, other or prefer-not-to-say
+  patientPregnant: boolean("patient_pregnant"),
   uploadedImages: jsonb("uploaded_images").$type<string[]>(), // Array of image paths
   analysis: jsonb("analysis").$type<SymptomAnalysis>(), // Structured analysis result
   extractedSymptoms: jsonb("extracted_symptoms").$type<string[]>(), // Extracted symptoms from text
@@ -38,10 +45,25 @@ export const medicalConditions = pgTable("medical_conditions", {
   description: text("description").notNull(),
   symptoms: jsonb("symptoms").$type<string[]>().notNull(),
   visualCues: jsonb("visual_cues").$type<string[]>().default([]),
-  urgency: text("urgency").notNull(),
+  aliases: jsonb("aliases").$type<string[]>().default([]), // Alternative names used to ground LLM output
+  symptomRules: jsonb("symptom_rules").$type<SymptomRule[]>().default([]), // Weighted findings applied by the reasoning engine
+  demographics: jsonb("demographics").$type<ConditionDemographics>(), // Age and sex applicability, null for any patient
+  snomedCtId: text("snomed_ct_id"), // SNOMED CT concept ID
+  icd11Code: text("icd11_code"), // ICD-11 MMS code
+  urgency: text("urgency").$type<TriageLevel>().notNull(),
   recommendation: text("recommendation").notNull(),
   commonInAgeGroup: text("common_in_age_group"),
   learnMoreUrl: text("learn_more_url"),
+  revision: integer("revision").notNull().default(1), // Incremented on every edit
+});
+
+// Immutable snapshots of the whole knowledge base, one per curator change
+export const knowledgeBaseVersions = pgTable("knowledge_base_versions", {
+  version: serial("version").primaryKey(),
+  reason: text("reason").notNull(),
+  userId: integer("user_id").references(() => users.id),
+  conditions: jsonb("conditions").$type<MedicalCondition[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 // Table for AI model performance tracking
@@ -54,6 +76,8 @@ export const aiPredictions = pgTable("ai_predictions", {
   imageEmbedding: jsonb("image_embedding").$type<number[]>(),
   confidence: text("confidence").notNull(),
   processingTime: integer("processing_time"), // in milliseconds
+  kbPredictions: jsonb("kb_predictions").$type<Array<{name: string, score: number}>>().notNull().default([]),
+  stageTimings: jsonb("stage_timings").$type<PredictionStageTimings>(), // per-stage wall-clock ms
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -68,6 +92,29 @@ export const userFeedback = pgTable("user_feedback", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Chat-style analysis sessions. Each session builds up one symptoms row: the
+// description and images grow with every turn and the analysis is re-run.
+export const analysisSessions = pgTable("analysis_sessions", {
+  id: serial("id").primaryKey(),
+  symptomId: integer("symptom_id").references(() => symptoms.id).notNull(),
+  describedImages: jsonb("described_images").$type<DescribedImages>(), // Photo findings reused by later turns
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// One update to a session and the differential it produced
+export const analysisSessionTurns = pgTable("analysis_session_turns", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").references(() => analysisSessions.id).notNull(),
+  message: text("message"),
+  images: jsonb("images").$type<string[]>().notNull().default([]), // Images added in this turn
+  answer: jsonb("answer").$type<InterviewAnswer>(), // Reply to the pending follow-up question
+  differential: jsonb("differential").$type<Array<{name: string, score: number}>>().notNull(),
+  diff: jsonb("diff").$type<DifferentialDiff>(), // Change from the previous turn, null on the first
+  triage: text("triage").$type<TriageLevel>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const insertSymptomSchema = createInsertSchema(symptoms).omit({
   id: true,
   analysis: true,
@@ -77,21 +124,291 @@ export const insertSymptomSchema = createInsertSchema(symptoms).omit({
   userId: true,
 });
 
-export const insertMedicalConditionSchema = createInsertSchema(medicalConditions).omit({
+// How soon, and where, someone should be seen; ordered from least to most urgent
+export const TRIAGE_LEVELS = ["self_care", "primary_care", "urgent_care", "emergency"] as const;
+
+export type TriageLevel = typeof TRIAGE_LEVELS[number];
+
+export const TRIAGE_LABELS: Record<TriageLevel, string> = {
+  self_care: "Self-care",
+  primary_care: "Primary care within days",
+  urgent_care: "Urgent care today",
+  emergency: "Emergency now",
+};
+
+// Free-text urgency values written before the triage scale, and the level each
+// became in migration 0010. Older snapshots, analyses and files still hold them.
+export const LEGACY_URGENCY_LEVELS: Record<string, TriageLevel> = {
+  "low": "self_care",
+  "low-medium": "primary_care",
+  "medium": "primary_care",
+  "medium-high": "urgent_care",
+  "high": "urgent_care",
+  "critical": "emergency",
+};
+
+// Conditions are edited by curators, so list fields are checked as string lists
+const conditionTerms = z.array(z.string().trim().min(1).max(200)).max(100);
+
+// How findings bear on a condition, each scaled by the rule's weight (0-1):
+// required - penalty unless every finding is present
+// supporting - boost for each finding present
+// excluding - penalty when any finding is present
+// co_occurring - boost when every finding is present together
+export const SYMPTOM_RULE_KINDS = ["required", "supporting", "excluding", "co_occurring"] as const;
+
+export type SymptomRuleKind = typeof SYMPTOM_RULE_KINDS[number];
+
+export const symptomRuleSchema = z.object({
+  kind: z.enum(SYMPTOM_RULE_KINDS),
+  findings: z.array(z.string().trim().min(1).max(200)).min(1, "A rule needs at least one finding").max(20),
+  weight: z.number().min(0, "Weights are between 0 and 1").max(1, "Weights are between 0 and 1"),
+});
+
+export type SymptomRule = z.infer<typeof symptomRuleSchema>;
+
+// Who a condition applies to. Hard limits (minAge, maxAge, sexes, pregnancyOnly)
+// exclude patients outside them; age bands raise (weight above 1) or lower
+// (below 1) the score for patients inside them. Omitted fields apply to anyone.
+export const CONDITION_SEXES = ["female", "male"] as const;
+
+export type ConditionSex = typeof CONDITION_SEXES[number];
+
+const patientAge = z.number().int("Ages are whole years").min(0, "Ages are between 0 and 120").max(120, "Ages are between 0 and 120");
+
+export const ageBandSchema = z.object({
+  minAge: patientAge,
+  maxAge: patientAge,
+  weight: z.number().min(0, "Age band weights are between 0 and 2").max(2, "Age band weights are between 0 and 2"),
+}).refine((band) => band.minAge <= band.maxAge, "An age band's minimum age must not be above its maximum");
+
+export type AgeBand = z.infer<typeof ageBandSchema>;
+
+export const conditionDemographicsSchema = z.object({
+  minAge: patientAge.optional(),
+  maxAge: patientAge.optional(),
+  sexes: z.array(z.enum(CONDITION_SEXES)).min(1).max(2).optional(),
+  pregnancyOnly: z.boolean().optional(),
+  ageBands: z.array(ageBandSchema).max(10).optional(),
+}).refine(
+  (demographics) => demographics.minAge === undefined || demographics.maxAge === undefined || demographics.minAge <= demographics.maxAge,
+  "The minimum age must not be above the maximum"
+);
+
+export type ConditionDemographics = z.infer<typeof conditionDemographicsSchema>;
+
+export const insertMedicalConditionSchema = createInsertSchema(medicalConditions, {
+  name: (schema) => schema.trim().min(1, "Name is required").max(200),
+  description: (schema) => schema.trim().min(1, "Description is required").max(5000),
+  symptoms: conditionTerms.min(1, "At least one symptom is required"),
+  visualCues: conditionTerms.optional(),
+  aliases: conditionTerms.optional(),
+  symptomRules: z.array(symptomRuleSchema).max(50).optional(),
+  demographics: conditionDemographicsSchema.nullable().optional(),
+  snomedCtId: (schema) => schema.regex(/^\d{6,18}$/, "SNOMED CT IDs are 6-18 digits"),
+  icd11Code: (schema) => schema.regex(/^[0-9A-Z]{4}(\.[0-9A-Z]{1,2})?$/, "ICD-11 codes look like 1E32 or CA40.0"),
+  urgency: z.preprocess(
+    (value) => typeof value === "string" ? LEGACY_URGENCY_LEVELS[value.trim().toLowerCase()] ?? value.trim() : value,
+    z.enum(TRIAGE_LEVELS, { errorMap: () => ({ message: `Urgency must be one of ${TRIAGE_LEVELS.join(", ")}` }) })
+  ),
+  recommendation: (schema) => schema.trim().min(1, "Recommendation is required").max(5000),
+  learnMoreUrl: (schema) => schema.url("Must be a URL"),
+}).omit({
   id: true,
+  revision: true,
 });
 
+export const insertUserFeedbackSchema = createInsertSchema(userFeedback, {
+  feedbackRating: (schema) => schema.int().min(1, "Rating must be between 1 and 5").max(5, "Rating must be between 1 and 5"),
+  feedbackText: (schema) => schema.max(2000, "Feedback must be at most 2000 characters"),
+  correctCondition: (schema) => schema.trim().max(200, "Condition name must be at most 200 characters"),
+}).omit({
+  id: true,
+  symptomId: true,
+  userId: true,
+  createdAt: true,
+}).refine(
+  (feedback) => feedback.feedbackRating != null || !!feedback.feedbackText || !!feedback.correctCondition,
+  { message: "Please provide a rating, a comment or the diagnosed condition" }
+);
+
 export type InsertSymptom = z.infer<typeof insertSymptomSchema>;
 export type Symptom = typeof symptoms.$inferSelect;
 export type MedicalCondition = typeof medicalConditions.$inferSelect;
+export type InsertMedicalCondition = typeof medicalConditions.$inferInsert;
+export type InsertUserFeedback = z.infer<typeof insertUserFeedbackSchema>;
+export type UserFeedback = typeof userFeedback.$inferSelect;
+export type AiPrediction = typeof aiPredictions.$inferSelect;
+export type KnowledgeBaseVersion = typeof knowledgeBaseVersions.$inferSelect;
+export type InsertAiPrediction = typeof aiPredictions.$inferInsert;
+export type AnalysisSession = typeof analysisSessions.$inferSelect;
+export type AnalysisSessionTurn = typeof analysisSessionTurns.$inferSelect;
+export type InsertAnalysisSessionTurn = typeof analysisSessionTurns.$inferInsert;
+
+// Wall-clock duration of each analysis stage, in milliseconds
+export interface PredictionStageTimings {
+  llm: number;
+  knowledgeBase: number;
+  merge: number;
+  nextSteps: number;
+  total: number;
+}
+
+// How far the knowledge base moved the final ranking away from the LLM's own list
+export interface PredictionComparison {
+  llmTopCondition: string | null;
+  finalTopCondition: string | null;
+  topConditionChanged: boolean;
+  addedByKnowledgeBase: string[];
+  droppedFromLlm: string[];
+  overlap: number; // Jaccard similarity of condition names, 0-1
+}
+
+export interface AiPredictionEntry extends AiPrediction {
+  comparison: PredictionComparison;
+}
+
+export interface AiPredictionPage {
+  items: AiPredictionEntry[];
+  page: number;
+  pageSize: number;
+  total: number;
+  summary: {
+    topConditionChangedRate: number;
+    meanOverlap: number;
+    meanProcessingTime: number;
+  };
+}
 
 // Structured analysis result type
 export interface SymptomAnalysis {
   potentialConditions: PotentialCondition[];
   nextSteps: NextStep[];
   disclaimer: string;
+  summary?: string;
   extractedTextualSymptoms?: string[];
   userInputText?: string;
+  issues?: AnalysisIssue[];
+  // Extracted symptoms with their terminology codes, where the lexicon has them
+  codedSymptoms?: CodedConcept[];
+  // The knowledge base the conditions were scored against
+  knowledgeBase?: KnowledgeBaseProvenance;
+  // Emergency warning signs in the description. When present, conditions
+  // were not scored and the next steps are emergency advice.
+  redFlags?: RedFlag[];
+  // Where to seek care, from the red flags and the top conditions' levels
+  triage?: TriageLevel;
+  // Follow-up questions, when the user chose to answer them
+  interview?: InterviewState;
+  // Photo findings from the vision model, reused when follow-up answers
+  // re-run the analysis so the photos are not sent again
+  describedImages?: DescribedImages;
+}
+
+// A follow-up question about knowledge base findings, chosen to separate the
+// leading conditions. Yes/no questions ask about one finding; multiple-choice
+// questions list several and the user selects all that apply.
+export interface InterviewQuestion {
+  id: string;
+  kind: 'yes_no' | 'multiple_choice';
+  text: string;
+  findings: string[];
+  informationGain: number; // expected reduction in uncertainty, in bits
+  relatedConditions: string[]; // leading conditions the findings are listed for
+}
+
+// Findings recorded from one answer. When the user was not sure, the
+// question's findings are kept in unsure and count towards neither side.
+export interface InterviewAnswer {
+  questionId: string;
+  present: string[];
+  absent: string[];
+  unsure: string[];
+}
+
+export type InterviewStopReason = 'confident' | 'stable' | 'budget_exhausted' | 'emergency';
+
+export interface InterviewState {
+  answers: InterviewAnswer[];
+  questionBudget: number;
+  // The leading conditions' scores before the first answer and after each one
+  rankings: Array<Array<{ name: string; score: number }>>;
+  question?: InterviewQuestion; // the question waiting for an answer
+  stopReason?: InterviewStopReason; // set once no more questions will be asked
+}
+
+// Photos already described by the vision model, so later runs only send new ones
+export interface DescribedImages {
+  images: string[];
+  findings: string;
+}
+
+// How the leading conditions moved between two turns of a session
+export interface DifferentialDiff {
+  added: Array<{ name: string; score: number }>;
+  removed: Array<{ name: string; score: number }>;
+  changed: Array<{ name: string; from: number; to: number }>;
+  topConditionChanged: boolean;
+}
+
+// A session with its turns, oldest first, and the analysis after the last one
+export interface AnalysisSessionDetail {
+  session: AnalysisSession;
+  turns: AnalysisSessionTurn[];
+  analysis: SymptomAnalysis | null;
+}
+
+export interface RedFlag {
+  id: string;
+  title: string;
+  findings: string[]; // the reported findings that raised it
+  advice: string;
+}
+
+// A knowledge base version and the condition revisions in it. The version is
+// null when the built-in seed conditions were used because storage failed.
+export interface KnowledgeBaseProvenance {
+  version: number | null;
+  conditions: Array<{ id: number; name: string; revision: number }>;
+}
+
+export interface KnowledgeBaseVersionSummary {
+  version: number;
+  reason: string;
+  userId: number | null;
+  conditionCount: number;
+  createdAt: string;
+}
+
+// What changed between two knowledge base versions, matched by condition ID
+export interface KnowledgeBaseDiff {
+  from: number;
+  to: number;
+  added: Array<{ id: number; name: string }>;
+  removed: Array<{ id: number; name: string }>;
+  changed: Array<{
+    id: number;
+    name: string;
+    fromRevision: number;
+    toRevision: number;
+    changes: Array<{ field: string; before: unknown; after: unknown }>;
+  }>;
+}
+
+// Why part of an analysis could not use the LLM's output
+export type AnalysisIssueReason =
+  | 'provider_unconfigured'
+  | 'provider_error'
+  | 'empty_output'
+  | 'invalid_json'
+  | 'schema_mismatch'
+  | 'invalid_items';
+
+export interface AnalysisIssue {
+  stage: 'conditions' | 'nextSteps' | 'vision';
+  reason: AnalysisIssueReason;
+  message: string;
+  attempts?: number;
 }
 
 export interface PotentialCondition {
@@ -101,22 +418,73 @@ export interface PotentialCondition {
   symptoms: string[];
   visualCues?: string[];
   score?: number;
-  urgency?: string;
+  urgency?: TriageLevel;
   recommendation?: string;
   reasoningNotes?: string[];
   learnMoreUrl?: string;
+  grounding?: ConditionGrounding;
+  codes?: ClinicalCode[];
+}
+
+// How an LLM-suggested condition was matched to a knowledge base entry
+export type ConditionGrounding = 'exact' | 'alias' | 'fuzzy' | 'ungrounded';
+
+// Clinical terminologies that conditions and symptoms can be coded in
+export type CodeSystem = 'SNOMED-CT' | 'ICD-11';
+
+export interface ClinicalCode {
+  system: CodeSystem;
+  code: string;
+}
+
+// A condition or symptom name together with its codes (possibly none)
+export interface CodedConcept {
+  name: string;
+  codes: ClinicalCode[];
 }
 
 export interface NextStep {
-  type: 'consult' | 'general';
+  type: 'consult' | 'general' | 'emergency';
   title: string;
   description: string;
   suggestions?: string[];
+  triage?: TriageLevel; // set on the care-setting step
+}
+
+// Summary of a past analysis shown in a user's history list
+export interface SymptomHistoryEntry {
+  id: number;
+  description: string;
+  createdAt: string;
+  topCondition?: Pick<PotentialCondition, 'name' | 'relevance' | 'score'>;
+  urgency?: TriageLevel;
+  imageCount: number;
+}
+
+export interface SymptomHistoryPage {
+  items: SymptomHistoryEntry[];
+  page: number;
+  pageSize: number;
+  total: number;
+}
+
+// A symptom mention extracted from free text, with its clinical modifiers
+export interface SymptomFinding {
+  symptom: string; // canonical symptom name
+  text: string; // the words that matched, as written
+  start: number; // character offsets in the source text
+  end: number;
+  negated: boolean; // "no fever", "cough has gone"
+  uncertain: boolean; // "maybe a rash"
+  severity?: 'mild' | 'moderate' | 'severe';
+  duration?: { text: string; days: number };
+  bodySite?: string; // e.g. "left knee"
 }
 
 // AI Model types
 export interface TextEncoderOutput {
   identifiedSymptoms: string[];
+  findings?: SymptomFinding[];
   embedding: number[];
   rawText: string;
 }
@@ -131,6 +499,8 @@ export interface ImageEncoderOutput {
 export interface MultimodalFusionOutput {
   fusedEmbedding: number[];
   allIdentifiedFactors: string[];
+  // Symptoms the user explicitly said they do not have
+  negatedFactors?: string[];
   textSymptoms: string[];
   visualFeatures: string[];
   rawTextInput: string;
@@ -152,5 +522,18 @@ export const symptomFormSchema = insertSymptomSchema.extend({
   duration: z.string().optional(),
   severity: z.string().optional(),
   bodyLocation: z.string().optional(),
+  patientAge: z.number().int().min(0).max(120).optional(),
+  patientGender: z.string().optional(),
+  patientPregnant: z.boolean().optional(),
   uploadedImages: z.array(z.string()).optional(),
 });
+
+// Validation schema for the multipart /api/analyze request (fields arrive as strings)
+export const analyzeRequestSchema = z.object({
+  description: z.string().min(20, "Please provide at least 20 characters for better analysis"),
+  age: z.coerce.number().int().min(0).max(120),
+  gender: z.string().min(1, "Please select a gender"),
+  // Only asked of female patients
+  pregnant: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  imageDescription: z.string().optional().default(""),
+});
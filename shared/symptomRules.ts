@@ -0,0 +1,37 @@
+import { SYMPTOM_RULE_KINDS, symptomRuleSchema, type SymptomRule, type SymptomRuleKind } from "./schema";
+
+/**
+ * Symptom rules are written as text in spreadsheets and the curator form,
+ * one rule as `<kind> <weight>: finding, finding`, for example
+ * `required 0.5: fever, fatigue` or `co_occurring 0.2: fever, body aches, chills`.
+ */
+
+export function formatSymptomRule(rule: SymptomRule): string {
+  return `${rule.kind} ${rule.weight}: ${rule.findings.join(", ")}`;
+}
+
+/**
+ * Parse one rule written by formatSymptomRule. "co-occurring" is accepted for
+ * co_occurring. Throws with a message suitable for showing to the curator.
+ */
+export function parseSymptomRule(text: string): SymptomRule {
+  const match = text.trim().match(/^([a-z_-]+)\s+([^\s:]+)\s*:\s*(.*)$/i);
+  if (!match) {
+    throw new Error(`"${text.trim()}" should look like "required 0.5: fever, fatigue"`);
+  }
+
+  const kind = match[1].toLowerCase().replace("-", "_") as SymptomRuleKind;
+  if (!SYMPTOM_RULE_KINDS.includes(kind)) {
+    throw new Error(`Unknown rule kind "${match[1]}"; use ${SYMPTOM_RULE_KINDS.join(", ")}`);
+  }
+
+  const result = symptomRuleSchema.safeParse({
+    kind,
+    weight: Number(match[2]),
+    findings: match[3].split(",").map((finding) => finding.trim()).filter(Boolean),
+  });
+  if (!result.success) {
+    throw new Error(`"${text.trim()}": ${result.error.errors.map((e) => e.message).join("; ")}`);
+  }
+  return result.data;
+}
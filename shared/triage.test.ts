@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { toTriageLevel } from "./triage";
+
+describe("toTriageLevel", () => {
+  it("keeps triage levels and maps legacy urgencies as migration 0010 does", () => {
+    expect(toTriageLevel("urgent_care")).toBe("urgent_care");
+    expect(toTriageLevel(" Low ")).toBe("self_care");
+    expect(toTriageLevel("critical")).toBe("emergency");
+  });
+
+  it("falls back to primary_care for unknown values, like migration 0010", () => {
+    expect(toTriageLevel("moderate")).toBe("primary_care");
+  });
+
+  it("gives undefined when there is no urgency", () => {
+    expect(toTriageLevel(undefined)).toBeUndefined();
+    expect(toTriageLevel("  ")).toBeUndefined();
+  });
+});
@@ -0,0 +1,23 @@
+import { LEGACY_URGENCY_LEVELS, TRIAGE_LEVELS, type TriageLevel } from "./schema";
+
+/**
+ * Read a stored urgency as a triage level. Values written before the triage
+ * scale ("low", "high" and so on) are mapped the way migration 0010 mapped
+ * the knowledge base, and like it any other value becomes primary_care. A
+ * missing or blank urgency gives undefined.
+ */
+export function toTriageLevel(value: unknown): TriageLevel | undefined {
+  if (typeof value !== "string" || value.trim() === "") return undefined;
+  const normalized = value.trim().toLowerCase();
+  if (TRIAGE_LEVELS.includes(normalized as TriageLevel)) return normalized as TriageLevel;
+  return LEGACY_URGENCY_LEVELS[normalized] ?? "primary_care";
+}
+
+/**
+ * The most urgent of several levels, or undefined when there are none
+ */
+export function mostUrgent(levels: Array<TriageLevel | undefined>): TriageLevel | undefined {
+  return levels.reduce<TriageLevel | undefined>((most, level) =>
+    level !== undefined && (most === undefined || TRIAGE_LEVELS.indexOf(level) > TRIAGE_LEVELS.indexOf(most)) ? level : most,
+  undefined);
+}